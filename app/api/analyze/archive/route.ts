@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { scanModeSchema } from "@/lib/models";
+import { HARNESS } from "@/lib/services/config";
+import { startArchiveJob } from "@/lib/services/jobs";
+import { newRunId } from "@/lib/services/pipeline";
+import { writeUpload } from "@/lib/services/workspace";
+
+// Multipart upload: "file" holds a .zip, .tar or .tar.gz; "scanMode", "subpath"
+// and repeated "package" fields are optional.
+// Extraction limits are enforced by the pipeline's extract stage.
+export async function POST(request: Request): Promise<Response> {
+  const { maxUploadBytes } = HARNESS.archive;
+  const tooLarge = NextResponse.json(
+    { error: `Archive exceeds the ${maxUploadBytes} byte upload limit` },
+    { status: 413 }
+  );
+
+  try {
+    // Reject oversized bodies before buffering them
+    if (Number(request.headers.get("content-length") ?? 0) > maxUploadBytes + 64 * 1024) {
+      return tooLarge;
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Expected a multipart form with the archive in a "file" field' }, { status: 400 });
+    }
+    if (file.size > maxUploadBytes) {
+      return tooLarge;
+    }
+    const scanMode = scanModeSchema.parse(form.get("scanMode") ?? "quick");
+    const subpath = form.get("subpath");
+    const packages = form.getAll("package").filter((value): value is string => typeof value === "string" && value !== "");
+
+    const runId = newRunId();
+    const archivePath = await writeUpload(runId, file.name, new Uint8Array(await file.arrayBuffer()));
+    const job = startArchiveJob(runId, {
+      type: "archive",
+      archivePath,
+      fileName: file.name,
+      subpath: typeof subpath === "string" && subpath ? subpath : undefined,
+      packages: packages.length ? packages : undefined
+    }, scanMode);
+
+    return NextResponse.json(
+      { runId: job.runId, status: job.status, events: `/api/runs/${job.runId}/events` },
+      { status: 202 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 400 }
+    );
+  }
+}
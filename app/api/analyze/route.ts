@@ -2,8 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { analyzeRequestSchema } from "@/lib/models";
-import { runAnalysis } from "@/lib/services/pipeline";
-import { setRun } from "@/lib/services/cache";
+import { startAnalysisJob } from "@/lib/services/jobs";
 
 export async function POST(request: Request): Promise<Response> {
   try {
@@ -19,14 +18,17 @@ export async function POST(request: Request): Promise<Response> {
 
     const input = analyzeRequestSchema.parse(body);
     const session = await getServerSession(authOptions);
-    const run = await runAnalysis({
+    const job = startAnalysisJob({
       ...input,
       githubToken: input.githubToken ?? session?.githubAccessToken
     });
-    setRun(run);
 
-    // Strip internal workspace paths from response
-    return NextResponse.json(run);
+    // The pipeline keeps running in the background; progress streams from
+    // GET /api/runs/[runId]/events and the result lands at GET /api/runs/[runId]
+    return NextResponse.json(
+      { runId: job.runId, status: job.status, events: `/api/runs/${job.runId}/events` },
+      { status: 202 }
+    );
   } catch (error) {
     return NextResponse.json(
       {
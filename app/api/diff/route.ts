@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { diffRuns } from "@/lib/services/run-diff";
+import { resolveRunRef } from "@/lib/services/revisions";
+
+// GET /api/diff?base=<runId[@revision]>&head=<runId[@revision]>
+export async function GET(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const baseRef = params.get("base");
+  const headRef = params.get("head");
+  if (!baseRef || !headRef) {
+    return NextResponse.json({ error: "Both base and head are required" }, { status: 400 });
+  }
+
+  const base = resolveRunRef(baseRef);
+  const head = resolveRunRef(headRef);
+  if (!base || !head) {
+    return NextResponse.json(
+      { error: `Run or revision not found: ${base ? headRef : baseRef}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(diffRuns(base, head));
+}
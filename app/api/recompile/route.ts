@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { getRun, setRun } from "@/lib/services/cache";
+import { getRun } from "@/lib/services/cache";
+import { recordRevision } from "@/lib/services/revisions";
 import { compileExecutablePlan } from "@/lib/services/prompt-compiler";
 import { recompileRequestSchema } from "@/lib/models";
+import { addUsage, emptyUsage, withUsageTracking } from "@/lib/services/usage";
 
 export async function POST(request: Request): Promise<Response> {
   try {
@@ -13,21 +15,25 @@ export async function POST(request: Request): Promise<Response> {
       return NextResponse.json({ error: "Run not found" }, { status: 404 });
     }
 
-    const plan = await compileExecutablePlan(
-      run.stack,
-      run.architecture,
-      input.intent,
-      run.snapshot,
-      input.targetAgent
+    const usage = emptyUsage();
+    const plan = await withUsageTracking(usage, () =>
+      compileExecutablePlan(
+        run.stack,
+        run.architecture,
+        input.intent,
+        run.snapshot,
+        input.targetAgent
+      )
     );
     const updated = {
       ...run,
       intent: input.intent,
-      plan
+      plan,
+      usage: addUsage(run.usage, usage)
     };
 
-    setRun(updated);
-    return NextResponse.json(updated);
+    const saved = recordRevision(updated, "recompile", `Recompiled plan for ${input.targetAgent}`);
+    return NextResponse.json(saved);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.flatten() }, { status: 400 });
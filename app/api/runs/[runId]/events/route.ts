@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { RunEvent } from "@/lib/models";
+import { getRun } from "@/lib/services/cache";
+import { subscribeToJob } from "@/lib/services/jobs";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15_000;
+
+// Unnamed events so clients read everything from EventSource.onmessage; the
+// payload's own `type` field tells stage updates from the terminal event
+function encodeEvent(event: RunEvent): Uint8Array {
+  return new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+export async function GET(
+  request: Request,
+  context: { params: { runId: string } }
+): Promise<Response> {
+  const { runId } = context.params;
+  let cleanup = (): void => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const close = (): void => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (event: RunEvent): void => {
+        if (closed) return;
+        controller.enqueue(encodeEvent(event));
+        if (event.type !== "stages") close();
+      };
+
+      const unsubscribe = subscribeToJob(runId, send);
+      if (!unsubscribe) {
+        // No live job (e.g. after a server restart): report finished runs from the cache
+        const run = getRun(runId);
+        if (run) {
+          send({ type: "stages", stages: run.stages });
+          send({ type: "done", runId });
+        } else {
+          send({ type: "error", error: "Run not found" });
+        }
+        return;
+      }
+
+      // Comment lines keep proxies from closing an idle stream
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(new TextEncoder().encode(": keep-alive\n\n"));
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      if (closed) cleanup();
+
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
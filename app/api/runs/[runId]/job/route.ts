@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { cancelAnalysisJob, getJob } from "@/lib/services/jobs";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  context: { params: { runId: string } }
+): Promise<Response> {
+  const job = getJob(context.params.runId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+export async function DELETE(
+  _request: Request,
+  context: { params: { runId: string } }
+): Promise<Response> {
+  const job = cancelAnalysisJob(context.params.runId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (job.status !== "running") {
+    return NextResponse.json({ error: `Job already ${job.status}` }, { status: 409 });
+  }
+  return NextResponse.json(job, { status: 202 });
+}
@@ -0,0 +1,53 @@
+import { dirname } from "node:path";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { resumeRequestSchema } from "@/lib/models";
+import { getJob, resumeAnalysisJob } from "@/lib/services/jobs";
+import { readRunCheckpoint } from "@/lib/services/pipeline";
+import { uploadDir } from "@/lib/services/workspace";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  context: { params: { runId: string } }
+): Promise<Response> {
+  const { runId } = context.params;
+  try {
+    if (getJob(runId)?.status === "running") {
+      return NextResponse.json({ error: "Job already running" }, { status: 409 });
+    }
+
+    const checkpoint = await readRunCheckpoint(runId);
+    if (!checkpoint) {
+      return NextResponse.json({ error: "No checkpoint found for run" }, { status: 404 });
+    }
+    // Same safety boundary as /api/analyze: local paths are CLI-only, and so
+    // are archives that were not uploaded through the API
+    const { source } = checkpoint;
+    if (source.type === "local" || (source.type === "archive" && dirname(source.archivePath) !== uploadDir(runId))) {
+      return NextResponse.json(
+        { error: "Runs of local repositories and archives can only be resumed from the CLI." },
+        { status: 400 }
+      );
+    }
+
+    // The body is optional; an empty request resumes with the session token
+    const input = resumeRequestSchema.parse(await request.json().catch(() => ({})));
+    const session = await getServerSession(authOptions);
+    const job = resumeAnalysisJob(runId, input.githubToken ?? session?.githubAccessToken);
+
+    return NextResponse.json(
+      { runId: job.runId, status: job.status, events: `/api/runs/${job.runId}/events` },
+      { status: 202 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { rollbackRun } from "@/lib/services/revisions";
+
+// Restores the revision's content as a new head revision; nothing is deleted
+export async function POST(
+  _request: Request,
+  context: { params: { runId: string; revision: string } }
+): Promise<Response> {
+  const revision = Number(context.params.revision);
+  if (!Number.isInteger(revision) || revision < 1) {
+    return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+  }
+
+  const run = rollbackRun(context.params.runId, revision);
+  if (!run) {
+    return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  }
+  return NextResponse.json(run);
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getRunRevision } from "@/lib/services/revisions";
+
+export async function GET(
+  _request: Request,
+  context: { params: { runId: string; revision: string } }
+): Promise<Response> {
+  const revision = Number(context.params.revision);
+  if (!Number.isInteger(revision) || revision < 1) {
+    return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+  }
+
+  const found = getRunRevision(context.params.runId, revision);
+  if (!found) {
+    return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  }
+  return NextResponse.json(found);
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getRun } from "@/lib/services/cache";
+import { listRunRevisions } from "@/lib/services/revisions";
+
+export async function GET(
+  _request: Request,
+  context: { params: { runId: string } }
+): Promise<Response> {
+  const { runId } = context.params;
+  if (!getRun(runId)) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  return NextResponse.json({ revisions: listRunRevisions(runId) });
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import { runEditRequestSchema } from "@/lib/models";
 import { getRun } from "@/lib/services/cache";
+import { recordRevision } from "@/lib/services/revisions";
 
 export async function GET(
   _request: Request,
@@ -11,3 +14,29 @@ export async function GET(
   }
   return NextResponse.json(run);
 }
+
+// Manual edits replace whole sections as sent; nothing is recompiled
+export async function PATCH(
+  request: Request,
+  context: { params: { runId: string } }
+): Promise<Response> {
+  try {
+    const edit = runEditRequestSchema.parse(await request.json());
+    const run = getRun(context.params.runId);
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    const edited = Object.keys(edit).filter((key) => edit[key as keyof typeof edit]);
+    const saved = recordRevision({ ...run, ...edit }, "manual-edit", `Edited ${edited.join(", ")}`);
+    return NextResponse.json(saved);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.flatten() }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
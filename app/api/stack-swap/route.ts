@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { getRun, setRun } from "@/lib/services/cache";
+import { getRun } from "@/lib/services/cache";
+import { recordRevision } from "@/lib/services/revisions";
 import { applyStackSwap } from "@/lib/services/stack-swap";
 import { stackSwapRequestSchema, targetAgentSchema } from "@/lib/models";
+import { addUsage, emptyUsage, withUsageTracking } from "@/lib/services/usage";
 
 const requestSchema = stackSwapRequestSchema.extend({
   targetAgent: targetAgentSchema.default("claude-code")
@@ -17,15 +19,23 @@ export async function POST(request: Request): Promise<Response> {
       return NextResponse.json({ error: "Run not found" }, { status: 404 });
     }
 
-    const updated = await applyStackSwap(run, {
-      category: input.category,
-      current: input.current,
-      replacement: input.replacement,
-      targetAgent: input.targetAgent
-    });
+    const usage = emptyUsage();
+    const swapped = await withUsageTracking(usage, () =>
+      applyStackSwap(run, {
+        category: input.category,
+        current: input.current,
+        replacement: input.replacement,
+        targetAgent: input.targetAgent
+      })
+    );
+    const updated = { ...swapped, usage: addUsage(run.usage, usage) };
 
-    setRun(updated);
-    return NextResponse.json(updated);
+    const saved = recordRevision(
+      updated,
+      "swap",
+      `Swapped ${input.current} for ${input.replacement} (${input.category})`
+    );
+    return NextResponse.json(saved);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.flatten() }, { status: 400 });
@@ -5,23 +5,49 @@ import { useRouter } from "next/navigation";
 import { signIn, signOut, useSession } from "next-auth/react";
 import { useGlitch } from "react-powerglitch";
 import { DitherText } from "@/components/dither-text";
-import { RunResult, ScanMode } from "@/lib/models";
+import { RunEvent, ScanMode, StageState } from "@/lib/models";
 
-type LocalStage = {
-  id: string;
-  label: string;
-  status: "pending" | "running" | "done" | "error";
-};
+type LocalStage = Pick<StageState, "id" | "label" | "status">;
 
-const stagedTemplate: LocalStage[] = [
-  { id: "fetch", label: "Fetch repository", status: "pending" },
-  { id: "ingest", label: "Ingest workspace", status: "pending" },
-  { id: "stack", label: "Stack detection", status: "pending" },
-  { id: "arch", label: "Architecture extraction", status: "pending" },
-  { id: "intent", label: "Intent extraction", status: "pending" },
-  { id: "plan", label: "Plan compilation", status: "pending" }
-];
 const ANALYSIS_COMPLETE_SOUND_KEY = "mimickit:play-analysis-complete-sound";
+const STAGE_MARKERS: Record<LocalStage["status"], string> = {
+  pending: " ",
+  running: "~",
+  done: "+",
+  unchanged: "=",
+  error: "!",
+  cancelled: "x"
+};
+
+// Resolves once the run finishes; stage transitions are reported as they stream in
+function followRunEvents(
+  runId: string,
+  onStages: (stages: LocalStage[]) => void,
+  register: (source: EventSource) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/runs/${runId}/events`);
+    register(source);
+
+    source.onmessage = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as RunEvent;
+      if (event.type === "stages") {
+        onStages(event.stages.map(({ id, label, status }) => ({ id, label, status })));
+        return;
+      }
+      source.close();
+      if (event.type === "done") resolve();
+      else reject(new Error(event.type === "error" ? event.error : "Analysis cancelled"));
+    };
+
+    // EventSource reconnects on transient errors; give up only once it stops trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost connection to analysis progress stream"));
+      }
+    };
+  });
+}
 
 export function RepoIntakePage(): React.ReactElement {
   const router = useRouter();
@@ -106,49 +132,71 @@ export function RepoIntakePage(): React.ReactElement {
   const [repoUrl, setRepoUrl] = useState("https://github.com/vercel/next.js");
   const [branch, setBranch] = useState("");
   const [scanMode, setScanMode] = useState<ScanMode>("quick");
+  const [archive, setArchive] = useState<File | null>(null);
+  const [baseRef, setBaseRef] = useState("");
+  const [subpath, setSubpath] = useState("");
+  const [packages, setPackages] = useState("");
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [stages, setStages] = useState<LocalStage[]>(stagedTemplate);
+  const [stages, setStages] = useState<LocalStage[]>([]);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
 
   async function onAnalyze(event: FormEvent<HTMLFormElement>): Promise<void> {
     event.preventDefault();
     setBusy(true);
     setError(null);
-    setStages(stagedTemplate.map((stage, index) => (index === 0 ? { ...stage, status: "running" } : stage)));
+    setStages([]);
 
     try {
-      const response = await fetch("/api/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          repoUrl,
-          branch: branch || undefined,
-          scanMode
-        })
-      });
+      const packageList = packages.split(",").map((name) => name.trim()).filter(Boolean);
+
+      // An attached archive replaces the repo URL
+      const form = new FormData();
+      if (archive) {
+        form.set("file", archive);
+        form.set("scanMode", scanMode);
+        if (subpath.trim()) form.set("subpath", subpath.trim());
+        for (const name of packageList) form.append("package", name);
+      }
+      const response = archive
+        ? await fetch("/api/analyze/archive", { method: "POST", body: form })
+        : await fetch("/api/analyze", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              repoUrl,
+              branch: branch || undefined,
+              baseRef: baseRef.trim() || undefined,
+              subpath: subpath.trim() || undefined,
+              packages: packageList.length ? packageList : undefined,
+              scanMode
+            })
+          });
 
-      const json = (await response.json()) as RunResult | { error: string };
+      const json = (await response.json()) as { runId: string } | { error: string };
       if (!response.ok || "error" in json) {
         throw new Error("error" in json ? json.error : "Failed to analyze repository");
       }
 
-      setStages(
-        json.stages.map((stage) => ({
-          id: stage.id,
-          label: stage.label,
-          status: stage.status
-        }))
-      );
+      setActiveRunId(json.runId);
+      await followRunEvents(json.runId, setStages, (source) => {
+        eventSourceRef.current = source;
+      });
 
       if (typeof window !== "undefined") {
         window.sessionStorage.setItem(ANALYSIS_COMPLETE_SOUND_KEY, "1");
       }
-      router.push(`/workspace/${json.id}`);
+      router.push(`/workspace/${json.runId}`);
     } catch (requestError) {
       setError(requestError instanceof Error ? requestError.message : "Unexpected error");
       setStages((previous) =>
-        previous.map((stage, index) =>
-          index === 0 || stage.status === "running"
+        previous.map((stage) =>
+          stage.status === "running"
             ? {
                 ...stage,
                 status: "error"
@@ -157,10 +205,18 @@ export function RepoIntakePage(): React.ReactElement {
         )
       );
     } finally {
+      eventSourceRef.current = null;
+      setActiveRunId(null);
       setBusy(false);
     }
   }
 
+  async function onCancel(): Promise<void> {
+    if (!activeRunId) return;
+    // The event stream reports the cancellation and ends the busy state
+    await fetch(`/api/runs/${activeRunId}/job`, { method: "DELETE" }).catch(() => {});
+  }
+
   return (
     <main className="intake-shell">
       <div ref={glitch.ref} className="intake-logo-wrap">
@@ -232,7 +288,19 @@ export function RepoIntakePage(): React.ReactElement {
               value={repoUrl}
               onChange={(event) => setRepoUrl(event.target.value)}
               placeholder="https://github.com/owner/repo"
-              required
+              required={!archive}
+              disabled={Boolean(archive)}
+            />
+
+            <label className="form-label" htmlFor="archive">
+              Or upload an archive (.zip, .tar.gz)
+            </label>
+            <input
+              id="archive"
+              className="url-input"
+              type="file"
+              accept=".zip,.tar,.tgz,.tar.gz,application/zip,application/gzip,application/x-tar"
+              onChange={(event) => setArchive(event.target.files?.[0] ?? null)}
             />
 
             <label className="form-label" htmlFor="branch">
@@ -246,6 +314,42 @@ export function RepoIntakePage(): React.ReactElement {
               placeholder="main"
             />
 
+            <label className="form-label" htmlFor="base-ref">
+              Compare against base (optional, analyzes only the changes)
+            </label>
+            <input
+              id="base-ref"
+              className="url-input"
+              value={baseRef}
+              onChange={(event) => setBaseRef(event.target.value)}
+              placeholder="main"
+              disabled={Boolean(archive)}
+            />
+
+            <label className="form-label" htmlFor="subpath">
+              Monorepo subdirectory (optional)
+            </label>
+            <input
+              id="subpath"
+              className="url-input"
+              value={subpath}
+              onChange={(event) => setSubpath(event.target.value)}
+              placeholder="apps/web"
+              disabled={Boolean(packages.trim())}
+            />
+
+            <label className="form-label" htmlFor="packages">
+              Or workspace packages (optional, comma-separated)
+            </label>
+            <input
+              id="packages"
+              className="url-input"
+              value={packages}
+              onChange={(event) => setPackages(event.target.value)}
+              placeholder="@acme/web, @acme/api"
+              disabled={Boolean(subpath.trim())}
+            />
+
             <label className="form-label" htmlFor="scan-mode">
               Scan Mode
             </label>
@@ -294,12 +398,26 @@ export function RepoIntakePage(): React.ReactElement {
               <div className="stack-loading-line">
                 <span className="stack-loading-dot" />
                 <DitherText source="ANALYZING REPOSITORY" className="intake-loading-main" />
+                {activeRunId ? (
+                  <button type="button" className="mini-btn mini-btn-tight intake-cancel" onClick={() => void onCancel()}>
+                    Cancel
+                  </button>
+                ) : null}
               </div>
               <div className="intake-loading-lines">
-                <DitherText source="SCANNING FILE TREE" className="intake-loading-step" />
-                <DitherText source="DETECTING STACK SIGNALS" className="intake-loading-step" />
-                <DitherText source="EXTRACTING ARCHITECTURE + INTENT" className="intake-loading-step" />
-                <DitherText source="COMPILING EXECUTABLE PLAN" className="intake-loading-step" />
+                {stages.length === 0 ? (
+                  <DitherText source="STARTING ANALYSIS" className="intake-loading-step" />
+                ) : (
+                  stages.map((stage) =>
+                    stage.status === "running" ? (
+                      <DitherText key={stage.id} source={stage.label.toUpperCase()} className="intake-loading-step" />
+                    ) : (
+                      <span key={stage.id} className={`intake-loading-step intake-loading-step-${stage.status}`}>
+                        [{STAGE_MARKERS[stage.status]}] {stage.label}
+                      </span>
+                    )
+                  )
+                )}
               </div>
             </div>
           </div>
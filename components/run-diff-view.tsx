@@ -0,0 +1,121 @@
+"use client";
+
+import { ListDiff, RunDiff } from "@/lib/models";
+
+type DiffRow = {
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+};
+
+type DiffSection = {
+  title: string;
+  rows: DiffRow[];
+};
+
+function listRows(label: string, diff: ListDiff): DiffRow[] {
+  return [
+    ...diff.removed.map((item): DiffRow => ({ kind: "removed", before: `${label}: ${item}` })),
+    ...diff.added.map((item): DiffRow => ({ kind: "added", after: `${label}: ${item}` }))
+  ];
+}
+
+function fieldValues(item: object, fields: string[]): string {
+  return fields.map((field) => `${field} ${JSON.stringify((item as Record<string, unknown>)[field])}`).join("; ");
+}
+
+function sectionsFor(diff: RunDiff): DiffSection[] {
+  const { stack, architecture, intent, routes, designTokens } = diff;
+  const withVersion = (name: string, version?: string) => (version ? `${name} ${version}` : name);
+
+  return [
+    {
+      title: "Stack",
+      rows: [
+        ...stack.removed.map((item): DiffRow => ({ kind: "removed", before: `${item.category}: ${withVersion(item.name, item.version)}` })),
+        ...stack.added.map((item): DiffRow => ({ kind: "added", after: `${item.category}: ${withVersion(item.name, item.version)}` })),
+        ...stack.versionChanged.map((item): DiffRow => ({
+          kind: "changed",
+          before: `${item.category}: ${withVersion(item.name, item.before ?? "n/a")}`,
+          after: `${item.category}: ${withVersion(item.name, item.after ?? "n/a")}`
+        }))
+      ]
+    },
+    {
+      title: "Architecture",
+      rows: [
+        ...architecture.components.removed.map((item): DiffRow => ({ kind: "removed", before: `${item.name} (${item.role})` })),
+        ...architecture.components.added.map((item): DiffRow => ({ kind: "added", after: `${item.name} (${item.role})` })),
+        ...architecture.components.changed.map((item): DiffRow => ({
+          kind: "changed",
+          before: `${item.before.name}: ${fieldValues(item.before, item.fields)}`,
+          after: `${item.after.name}: ${fieldValues(item.after, item.fields)}`
+        })),
+        ...architecture.edges.removed.map((edge): DiffRow => ({ kind: "removed", before: `${edge.from} -> ${edge.to} (${edge.type})` })),
+        ...architecture.edges.added.map((edge): DiffRow => ({ kind: "added", after: `${edge.from} -> ${edge.to} (${edge.type})` }))
+      ]
+    },
+    {
+      title: "Intent",
+      rows: [
+        ...(intent.systemPurpose
+          ? [{ kind: "changed", before: intent.systemPurpose.before, after: intent.systemPurpose.after } as DiffRow]
+          : []),
+        ...Object.entries(intent.lists).flatMap(([field, list]) => listRows(field, list))
+      ]
+    },
+    {
+      title: "Routes",
+      rows: [
+        ...routes.removed.map((route): DiffRow => ({ kind: "removed", before: `${route.path} - ${route.purpose}` })),
+        ...routes.added.map((route): DiffRow => ({ kind: "added", after: `${route.path} - ${route.purpose}` })),
+        ...routes.changed.map((route): DiffRow => ({
+          kind: "changed",
+          before: `${route.key}: ${fieldValues(route.before, route.fields)}`,
+          after: `${route.key}: ${fieldValues(route.after, route.fields)}`
+        }))
+      ]
+    },
+    {
+      title: "Design Tokens",
+      rows: [
+        ...(designTokens.visualDirection
+          ? [{ kind: "changed", before: designTokens.visualDirection.before, after: designTokens.visualDirection.after } as DiffRow]
+          : []),
+        ...Object.entries(designTokens.lists).flatMap(([field, list]) => listRows(field, list))
+      ]
+    }
+  ];
+}
+
+function sideLabel(side: RunDiff["base"]): string {
+  return `${side.runId}${side.revision ? ` @ rev ${side.revision}` : ""}`;
+}
+
+// Side-by-side view: the base run on the left, the head on the right
+export function RunDiffView({ diff }: { diff: RunDiff }): React.ReactElement {
+  if (diff.identical) {
+    return <p className="status-text">No differences between these runs.</p>;
+  }
+
+  return (
+    <div className="diff-grid">
+      <div className="diff-side-head u-caps u-bold u-muted">Base / {sideLabel(diff.base)}</div>
+      <div className="diff-side-head u-caps u-bold u-muted">Head / {sideLabel(diff.head)}</div>
+
+      {sectionsFor(diff).map((section) =>
+        section.rows.length ? (
+          <div className="diff-section" key={section.title}>
+            <div className="diff-section-title u-caps u-faint">{section.title}</div>
+            {section.rows.map((row, index) => (
+              <div className={`diff-row diff-row-${row.kind}`} key={`${section.title}-${index}`}>
+                <div className="diff-cell diff-cell-before">{row.before ?? ""}</div>
+                <div className="diff-cell diff-cell-after">{row.after ?? ""}</div>
+              </div>
+            ))}
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,10 @@
 import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { DitherText } from "@/components/dither-text";
+import { RunDiffView } from "@/components/run-diff-view";
+import { formatUsd } from "@/lib/data/model-pricing";
 import { techRegistry } from "@/lib/data/tech-registry";
-import { IntentSpec, RunResult, StackCategory, TargetAgent } from "@/lib/models";
+import { IntentSpec, RunDiff, RunResult, RunRevisionSummary, StackCategory, TargetAgent } from "@/lib/models";
 
 type Props = {
   runId: string;
@@ -32,7 +34,19 @@ type NodeDragState = {
   moved: boolean;
 };
 
-const STACK_ORDER: StackCategory[] = ["frontend", "backend", "db", "auth", "infra", "language"];
+const STACK_ORDER: StackCategory[] = [
+  "frontend",
+  "styling",
+  "state",
+  "backend",
+  "db",
+  "messaging",
+  "auth",
+  "infra",
+  "cicd",
+  "testing",
+  "language"
+];
 const CARD_BACKGROUNDS = ["card-bg-2", "card-bg-3", "card-bg-4", "card-bg-5", "card-bg-1"];
 const STACK_DITHER_SOURCE = "REWRITING STACK MAP";
 const ANALYSIS_COMPLETE_SOUND_KEY = "mimickit:play-analysis-complete-sound";
@@ -52,6 +66,16 @@ function titleForCategory(category: StackCategory): string {
       return "Infrastructure";
     case "language":
       return "Language";
+    case "testing":
+      return "Verification";
+    case "cicd":
+      return "Delivery Pipeline";
+    case "styling":
+      return "Visual Layer";
+    case "state":
+      return "Client State";
+    case "messaging":
+      return "Messaging";
   }
 }
 
@@ -69,6 +93,16 @@ function roleForCategory(category: StackCategory): string {
       return "Infra";
     case "language":
       return "Language";
+    case "testing":
+      return "Testing";
+    case "cicd":
+      return "CI/CD";
+    case "styling":
+      return "Styling";
+    case "state":
+      return "State";
+    case "messaging":
+      return "Queue/Cache";
   }
 }
 
@@ -122,7 +156,12 @@ const DEFAULT_ALTERNATIVES: Record<StackCategory, string[]> = {
   db: ["PostgreSQL", "MySQL", "DynamoDB"],
   auth: ["Auth0", "Clerk", "Supabase Auth"],
   infra: ["Vercel Functions", "Cloud Run", "Kubernetes"],
-  language: ["TypeScript", "Python", "Go"]
+  language: ["TypeScript", "Python", "Go"],
+  testing: ["Vitest", "Jest", "Playwright"],
+  cicd: ["GitHub Actions", "GitLab CI", "CircleCI"],
+  styling: ["Tailwind CSS", "CSS Modules", "styled-components"],
+  state: ["Zustand", "Redux", "Jotai"],
+  messaging: ["Redis", "Kafka", "RabbitMQ"]
 };
 
 export function WorkspacePage({ runId }: Props): React.ReactElement {
@@ -145,6 +184,11 @@ export function WorkspacePage({ runId }: Props): React.ReactElement {
   const [planSheetOpen, setPlanSheetOpen] = useState(false);
   const [planSheetBusy, setPlanSheetBusy] = useState(false);
   const [planSheetNotice, setPlanSheetNotice] = useState<string | null>(null);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareBusy, setCompareBusy] = useState(false);
+  const [compareBase, setCompareBase] = useState("");
+  const [revisions, setRevisions] = useState<RunRevisionSummary[]>([]);
+  const [runDiff, setRunDiff] = useState<RunDiff | null>(null);
   const playedCompletionSoundRef = useRef(false);
   const graphPanRef = useRef<{
     pointerId: number;
@@ -498,6 +542,42 @@ export function WorkspacePage({ runId }: Props): React.ReactElement {
     }
   }
 
+  async function onOpenCompare(): Promise<void> {
+    setCompareOpen(true);
+    setRunDiff(null);
+
+    const response = await fetch(`/api/runs/${runId}/revisions`);
+    const json = (await response.json()) as { revisions: RunRevisionSummary[] } | { error: string };
+    if (!response.ok || "error" in json) return;
+
+    // Default to the revision before the current one
+    setRevisions(json.revisions);
+    const previous = json.revisions[json.revisions.length - 2];
+    setCompareBase(previous ? `${runId}@${previous.revision}` : "");
+  }
+
+  async function onCompare(): Promise<void> {
+    const base = compareBase.trim();
+    if (!base) return;
+    setCompareBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/diff?base=${encodeURIComponent(base)}&head=${encodeURIComponent(runId)}`
+      );
+      const json = (await response.json()) as RunDiff | { error: string };
+      if (!response.ok || "error" in json) {
+        throw new Error("error" in json ? json.error : "Compare failed");
+      }
+      setRunDiff(json);
+    } catch (compareError) {
+      setError(compareError instanceof Error ? compareError.message : "Compare failed");
+    } finally {
+      setCompareBusy(false);
+    }
+  }
+
   if (error && !run) {
     return (
       <main className="intake-shell">
@@ -631,6 +711,10 @@ export function WorkspacePage({ runId }: Props): React.ReactElement {
           <button className="btn-compile ghost-link" onClick={() => setPlanSheetOpen(true)}>
             Open Plan
           </button>
+
+          <button className="btn-compile ghost-link" onClick={() => void onOpenCompare()}>
+            Compare
+          </button>
         </div>
       </header>
 
@@ -656,6 +740,72 @@ export function WorkspacePage({ runId }: Props): React.ReactElement {
             </>
           ) : null}
         </div>
+
+        {run.usage ? (
+          <div className="node-inspector usage-panel u-border-b">
+            <div className="u-caps u-muted">LLM usage</div>
+            <p className="inspector-title">
+              {formatUsd(run.usage.costUsd)} est. / {run.usage.inputTokens + run.usage.outputTokens} tokens
+            </p>
+            {run.stages.map(({ id, label, usage }) =>
+              usage && usage.calls + usage.cacheHits > 0 ? (
+                <p className="inspector-line" key={id}>
+                  {label}: {usage.inputTokens} in / {usage.outputTokens} out, {(usage.latencyMs / 1000).toFixed(1)}s,{" "}
+                  {formatUsd(usage.costUsd)}
+                  {usage.retries ? `, ${usage.retries} retries` : ""}
+                  {usage.cacheHits ? `, ${usage.cacheHits} cached` : ""}
+                </p>
+              ) : null
+            )}
+            <p className="inspector-line">
+              {run.usage.calls} calls, {run.usage.retries} retries, {run.usage.cacheHits} cache hits
+            </p>
+          </div>
+        ) : null}
+
+        {run.changePlan ? (
+          <div className="node-inspector usage-panel u-border-b">
+            <div className="u-caps u-muted">Changes</div>
+            <p className="inspector-title">
+              {run.changePlan.baseRef}...{run.changePlan.headRef}: {run.changePlan.stats.files} files (+
+              {run.changePlan.stats.additions} / -{run.changePlan.stats.deletions})
+            </p>
+            {run.changePlan.components.map((component) => (
+              <p className="inspector-line" key={component.id}>
+                {component.name}: {component.files.length} files
+              </p>
+            ))}
+            {[
+              ...run.changePlan.routes.added.map((route) => `Added route ${route}`),
+              ...run.changePlan.routes.changed.map((route) => `Changed route ${route}`),
+              ...run.changePlan.routes.removed.map((route) => `Removed route ${route}`),
+              ...run.changePlan.contracts.map((contract) => `${contract.kind}: ${contract.path}`),
+              ...run.changePlan.buildSteps
+            ].map((line) => (
+              <p className="inspector-line" key={line}>
+                {line}
+              </p>
+            ))}
+          </div>
+        ) : null}
+
+        {run.snapshot.workspace?.packages.length ? (
+          <div className="node-inspector usage-panel u-border-b">
+            <div className="u-caps u-muted">Workspace packages</div>
+            <p className="inspector-title">
+              {run.snapshot.workspace.packages.length} packages ({run.snapshot.workspace.tools.join(", ")})
+            </p>
+            {run.snapshot.metadata.scope ? (
+              <p className="inspector-line">Analyzed: {run.snapshot.metadata.scope.join(", ")}</p>
+            ) : null}
+            {run.snapshot.workspace.packages.map((pkg) => (
+              <p className="inspector-line" key={`${pkg.tool}:${pkg.path}`}>
+                {pkg.name} <span className="u-faint">{pkg.path}</span>
+                {pkg.dependsOn.length ? ` -> ${pkg.dependsOn.join(", ")}` : ""}
+              </p>
+            ))}
+          </div>
+        ) : null}
       </aside>
 
       <main className="panel-center">
@@ -897,6 +1047,53 @@ export function WorkspacePage({ runId }: Props): React.ReactElement {
           </section>
         </div>
       ) : null}
+
+      {compareOpen ? (
+        <div className="sheet-root" role="dialog" aria-modal="true" aria-label="Compare runs">
+          <button className="sheet-backdrop" onClick={() => setCompareOpen(false)} aria-label="Close compare sheet" />
+          <section className="sheet-panel">
+            <div className="sheet-handle" />
+            <div className="sheet-header">
+              <span className="u-caps u-bold u-muted">Compare Runs</span>
+              <button className="mini-btn" onClick={() => setCompareOpen(false)}>
+                Close
+              </button>
+            </div>
+            <div className="sheet-actions">
+              <select
+                className="select-input compact"
+                value={revisions.some((item) => `${runId}@${item.revision}` === compareBase) ? compareBase : ""}
+                onChange={(event) => setCompareBase(event.target.value)}
+                aria-label="Base revision"
+              >
+                <option value="">Other run</option>
+                {revisions.map((item) => (
+                  <option value={`${runId}@${item.revision}`} key={item.revision}>
+                    Rev {item.revision} / {item.summary}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className="url-input diff-ref-input"
+                value={compareBase}
+                onChange={(event) => setCompareBase(event.target.value)}
+                placeholder="run_id or run_id@revision"
+                aria-label="Base run or revision"
+              />
+              <button
+                className="btn-compile"
+                disabled={compareBusy || !compareBase.trim()}
+                onClick={() => void onCompare()}
+              >
+                {compareBusy ? <DitherText source="COMPARING" /> : "Compare With Current"}
+              </button>
+            </div>
+            {error ? <p className="error-text">{error}</p> : null}
+            <div className="diff-scroll">{runDiff ? <RunDiffView diff={runDiff} /> : null}</div>
+          </section>
+        </div>
+      ) : null}
     </>
   );
 }
@@ -1,24 +1,47 @@
 #!/usr/bin/env node
 
-import { resolve } from "node:path";
-import { writeFile } from "node:fs/promises";
-import { PipelineSource, ScanMode } from "../models";
-import { runHarnessPipeline } from "../services/pipeline";
+import { basename, resolve } from "node:path";
+import { readFile, writeFile } from "node:fs/promises";
+import { PipelineSource, RunDiff, RunResult, runResultSchema, ScanMode, StageState } from "../models";
+import { newRunId, readRunCheckpoint, resumeHarnessPipeline, runHarnessPipeline } from "../services/pipeline";
+import { RunCancelledError } from "../services/cancellation";
 import { artifactsDir } from "../services/workspace";
+import { diffRuns } from "../services/run-diff";
+import { resolveRunRef } from "../services/revisions";
+import { describeSource, sourceFromUrl } from "../services/sources";
+import { CassetteMode, configureCassette } from "../services/llm-cassette";
+import { setLlmCacheEnabled } from "../services/llm-cache";
+import { formatUsd } from "../data/model-pricing";
 
 // ---------------------------------------------------------------------------
 // Argument parsing
 // ---------------------------------------------------------------------------
 
 function parseArgs(argv: string[]): {
-  source: PipelineSource;
+  source?: PipelineSource;
+  resume?: string;
+  diff?: [string, string];
   ref?: string;
   scanMode: ScanMode;
+  cassette?: { mode: CassetteMode; path: string };
+  noCache: boolean;
 } {
   let github: string | undefined;
+  let gitlab: string | undefined;
+  let gitlabApi: string | undefined;
+  let bitbucket: string | undefined;
+  let git: string | undefined;
   let repo: string | undefined;
+  let archive: string | undefined;
   let ref: string | undefined;
+  let baseRef: string | undefined;
+  let subpath: string | undefined;
+  const packages: string[] = [];
+  let resume: string | undefined;
+  let diff: [string, string] | undefined;
   let scanMode: ScanMode = "quick";
+  let cassette: { mode: CassetteMode; path: string } | undefined;
+  let noCache = false;
 
   const args = argv.slice(2);
   for (let i = 0; i < args.length; i++) {
@@ -27,57 +50,313 @@ function parseArgs(argv: string[]): {
       case "--github":
         github = args[++i];
         break;
+      case "--gitlab":
+        gitlab = args[++i];
+        break;
+      case "--gitlab-api":
+        gitlabApi = args[++i];
+        break;
+      case "--bitbucket":
+        bitbucket = args[++i];
+        break;
+      case "--git":
+        git = args[++i];
+        break;
       case "--repo":
         repo = args[++i];
         break;
+      case "--archive":
+        archive = args[++i];
+        break;
       case "--ref":
         ref = args[++i];
         break;
+      case "--base":
+        baseRef = args[++i];
+        break;
+      case "--subpath":
+        subpath = args[++i];
+        break;
+      case "--package":
+        packages.push(args[++i]);
+        break;
+      case "--resume":
+        resume = args[++i];
+        break;
+      case "--diff":
+        diff = [args[++i], args[++i]];
+        break;
       case "--scan-mode":
         scanMode = args[++i] as ScanMode;
         break;
+      case "--record-cassette":
+        cassette = { mode: "record", path: args[++i] };
+        break;
+      case "--replay-cassette":
+        cassette = { mode: "replay", path: args[++i] };
+        break;
+      case "--no-cache":
+        noCache = true;
+        break;
       default:
         console.error(`Unknown argument: ${arg}`);
         process.exit(1);
     }
   }
 
-  if (github && repo) {
-    console.error("Error: specify exactly one of --github or --repo, not both.");
+  if (diff && (!diff[0] || !diff[1])) {
+    console.error("Error: --diff takes two runs: --diff <base> <head>");
+    process.exit(1);
+  }
+
+  const sourceCount = [github, gitlab, bitbucket, git, repo, archive].filter(Boolean).length;
+  if (resume && sourceCount) {
+    console.error("Error: --resume continues an existing run; do not pass a source with it.");
+    process.exit(1);
+  }
+
+  if (sourceCount > 1) {
+    console.error("Error: specify exactly one of --github, --gitlab, --bitbucket, --git, --repo or --archive.");
+    process.exit(1);
+  }
+
+  if (resume && (subpath || packages.length)) {
+    console.error("Error: a resumed run keeps its original scope; drop --subpath/--package.");
     process.exit(1);
   }
 
-  if (!github && !repo) {
+  if (resume && baseRef) {
+    console.error("Error: a resumed run keeps its original refs; drop --base.");
+    process.exit(1);
+  }
+
+  if (baseRef && archive) {
+    console.error("Error: --base needs git history and does not apply to --archive.");
+    process.exit(1);
+  }
+
+  if (subpath && packages.length) {
+    console.error("Error: use either --subpath or --package, not both.");
+    process.exit(1);
+  }
+
+  if (gitlabApi && !gitlab) {
+    console.error("Error: --gitlab-api only applies together with --gitlab.");
+    process.exit(1);
+  }
+
+  if (!sourceCount && !resume && !diff) {
     console.error("Usage:");
     console.error("  run-harness --github <repo_url> [--ref <branch|tag|sha>] [--scan-mode quick|deep]");
+    console.error("  run-harness --gitlab <repo_url> [--gitlab-api <api_base>] [--ref ...] [--scan-mode ...]");
+    console.error("  run-harness --bitbucket <repo_url> [--ref ...] [--scan-mode ...]");
+    console.error("  run-harness --git <remote> [--ref ...] [--scan-mode ...]   (https://, ssh:// or git@host:org/repo)");
     console.error("  run-harness --repo <local_path> [--ref <branch|tag|sha>] [--scan-mode quick|deep]");
+    console.error("  run-harness --archive <file.zip|file.tar.gz> [--scan-mode ...]");
+    console.error("  run-harness --resume <run_id>");
+    console.error("  run-harness --diff <base> <head>   (run.json paths, run ids, or run_id@revision)");
+    console.error("  add --subpath <dir> or --package <name> (repeatable) to scope a monorepo");
+    console.error("  add --base <ref> to analyze only the changes from <ref> to --ref (or the default branch)");
+    console.error("  add --record-cassette <file> or --replay-cassette <file> to record or replay LLM responses");
+    console.error("  add --no-cache to bypass the on-disk LLM response cache");
     process.exit(1);
   }
 
-  const source: PipelineSource = github
-    ? { type: "github", repoUrl: github, ref }
-    : { type: "local", repoPath: resolve(repo!), ref };
+  let source: PipelineSource | undefined;
+  if (github) source = { type: "github", repoUrl: github, ref };
+  if (gitlab) source = { type: "gitlab", repoUrl: gitlab, ref, ...(gitlabApi ? { apiBase: gitlabApi } : {}) };
+  if (bitbucket) source = { type: "bitbucket", repoUrl: bitbucket, ref };
+  // --git recognises GitHub, GitLab and Bitbucket hosts; anything else is a plain remote
+  if (git) source = sourceFromUrl(git, ref);
+  if (repo) source = { type: "local", repoPath: resolve(repo), ref };
+  if (archive) source = { type: "archive", archivePath: resolve(archive), fileName: basename(archive) };
+  if (source && subpath) source = { ...source, subpath };
+  if (source && packages.length) source = { ...source, packages };
+  if (source && baseRef && source.type !== "archive") source = { ...source, baseRef };
 
-  return { source, ref, scanMode };
+  return { source, resume, diff, ref, scanMode, cassette, noCache };
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+// A run.json path, a harness run id (.runs/<id>/artifacts/run.json), or a run
+// or revision from the run store (run_x@3)
+async function loadRunForDiff(ref: string): Promise<RunResult> {
+  const files = [resolve(ref)];
+  if (!ref.includes("@")) {
+    files.push(resolve(artifactsDir(ref), "run.json"));
+  }
+  for (const file of files) {
+    const raw = await readFile(file, "utf8").catch(() => undefined);
+    if (raw) return runResultSchema.parse(JSON.parse(raw));
+  }
+
+  const stored = resolveRunRef(ref);
+  if (!stored) {
+    throw new Error(`Run or revision not found: ${ref}`);
+  }
+  return stored;
+}
+
+function listChanges(label: string, added: string[], removed: string[]): string[] {
+  return [`  ${label}:`, ...removed.map((item) => `    - ${item}`), ...added.map((item) => `    + ${item}`)];
+}
+
+function printRunDiff(diff: RunDiff): void {
+  const describe = (side: RunDiff["base"]) =>
+    `${side.runId}${side.revision ? `@${side.revision}` : ""} (${side.createdAt})`;
+
+  console.log("--- Run Diff ---");
+  console.log(`Base: ${describe(diff.base)}`);
+  console.log(`Head: ${describe(diff.head)}`);
+  if (diff.identical) {
+    console.log("No differences.");
+    return;
+  }
+
+  const { stack, architecture, intent, routes, designTokens } = diff;
+  const withVersion = (name: string, version?: string) => (version ? `${name} ${version}` : name);
+  const sections: Array<[string, string[]]> = [
+    ["Stack", [
+      ...stack.removed.map((item) => `  - ${item.category}: ${withVersion(item.name, item.version)}`),
+      ...stack.added.map((item) => `  + ${item.category}: ${withVersion(item.name, item.version)}`),
+      ...stack.versionChanged.map((item) => `  ~ ${item.category}: ${item.name} ${item.before ?? "n/a"} -> ${item.after ?? "n/a"}`)
+    ]],
+    ["Architecture", [
+      ...architecture.components.removed.map((item) => `  - component ${item.id} (${item.name})`),
+      ...architecture.components.added.map((item) => `  + component ${item.id} (${item.name})`),
+      ...architecture.components.changed.map((item) => `  ~ component ${item.key}: ${item.fields.join(", ")}`),
+      ...architecture.edges.removed.map((edge) => `  - edge ${edge.from} -> ${edge.to} (${edge.type})`),
+      ...architecture.edges.added.map((edge) => `  + edge ${edge.from} -> ${edge.to} (${edge.type})`)
+    ]],
+    ["Intent", [
+      ...(intent.systemPurpose ? [`  ~ system_purpose: ${intent.systemPurpose.before} -> ${intent.systemPurpose.after}`] : []),
+      ...Object.entries(intent.lists).flatMap(([field, list]) => listChanges(field, list.added, list.removed))
+    ]],
+    ["Routes", [
+      ...routes.removed.map((route) => `  - ${route.path}`),
+      ...routes.added.map((route) => `  + ${route.path}`),
+      ...routes.changed.map((route) => `  ~ ${route.key}: ${route.fields.join(", ")}`)
+    ]],
+    ["Design tokens", [
+      ...(designTokens.visualDirection
+        ? [`  ~ visualDirection: ${designTokens.visualDirection.before} -> ${designTokens.visualDirection.after}`]
+        : []),
+      ...Object.entries(designTokens.lists).flatMap(([field, list]) => listChanges(field, list.added, list.removed))
+    ]]
+  ];
+
+  for (const [title, lines] of sections) {
+    if (!lines.length) continue;
+    console.log("");
+    console.log(title);
+    for (const line of lines) console.log(line);
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
 
+function stageIcon(status: StageState["status"]): string {
+  if (status === "done") return "+";
+  if (status === "unchanged") return "=";
+  if (status === "error") return "!";
+  if (status === "cancelled") return "x";
+  return "-";
+}
+
 async function main(): Promise<void> {
-  const { source, scanMode } = parseArgs(process.argv);
+  const args = parseArgs(process.argv);
+  if (args.diff) {
+    const [base, head] = await Promise.all(args.diff.map(loadRunForDiff));
+    printRunDiff(diffRuns(base, head));
+    return;
+  }
+  const { cassette, noCache } = args;
+
+  // A resumed run keeps the source and scan mode it was started with
+  const checkpoint = args.resume ? await readRunCheckpoint(args.resume) : undefined;
+  if (args.resume && !checkpoint) {
+    console.error(`Error: no checkpoint found for run ${args.resume}`);
+    process.exit(1);
+  }
+  const source = checkpoint?.source ?? args.source!;
+  const scanMode = checkpoint?.scanMode ?? args.scanMode;
+  if (cassette) {
+    configureCassette(cassette);
+  }
+  if (noCache) {
+    setLlmCacheEnabled(false);
+  }
 
   console.log(`MimicKit Harness`);
-  console.log(`Source: ${source.type === "github" ? source.repoUrl : source.repoPath}`);
+  console.log(`Source: ${describeSource(source)} (${source.type})`);
   console.log(`Mode: ${scanMode}`);
+  if (checkpoint) {
+    console.log(`Resuming: ${checkpoint.runId}`);
+  }
+  if (cassette) {
+    console.log(`Cassette: ${cassette.mode} ${cassette.path}`);
+  }
+  if (noCache) {
+    console.log("LLM cache: disabled");
+  }
   if ("ref" in source && source.ref) {
     console.log(`Ref: ${source.ref}`);
   }
+  if (source.type !== "archive" && source.baseRef) {
+    console.log(`Base: ${source.baseRef}`);
+  }
+  if (source.subpath) {
+    console.log(`Subpath: ${source.subpath}`);
+  }
+  if (source.packages?.length) {
+    console.log(`Packages: ${source.packages.join(", ")}`);
+  }
   console.log("");
 
+  // First Ctrl-C cancels the current stage and writes partial artifacts; a second one exits immediately
+  const controller = new AbortController();
+  process.on("SIGINT", () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log("\nCancelling run (press Ctrl-C again to exit immediately)...");
+    controller.abort();
+  });
+
   const githubToken = process.env.GITHUB_TOKEN;
-  const run = await runHarnessPipeline(source, scanMode, githubToken);
+  const runId = checkpoint?.runId ?? newRunId();
+  let latestStages: StageState[] = [];
+  const options = {
+    signal: controller.signal,
+    onStageChange: (stages: StageState[]) => {
+      latestStages = stages;
+    }
+  };
+  let run: RunResult;
+  try {
+    run = checkpoint
+      ? await resumeHarnessPipeline(runId, githubToken, options)
+      : await runHarnessPipeline(source, scanMode, githubToken, { ...options, runId });
+  } catch (error) {
+    if (!(error instanceof RunCancelledError)) {
+      console.error(`\nRun failed. Fix the cause, then resume with: npm run harness -- --resume ${runId}`);
+      throw error;
+    }
+
+    console.log("");
+    console.log("--- Run Cancelled ---");
+    console.log(`Run ID:      ${runId}`);
+    console.log(`Artifacts:   ${artifactsDir(runId)}`);
+    console.log(`  - run.partial.json (outputs of completed stages)`);
+    for (const stage of latestStages) {
+      console.log(`  [${stageIcon(stage.status)}] ${stage.label}`);
+    }
+    console.log(`Resume with: npm run harness -- --resume ${runId}`);
+    process.exit(130);
+  }
 
   // Write final run artifact
   const artifactPath = artifactsDir(run.id);
@@ -95,14 +374,81 @@ async function main(): Promise<void> {
     console.log(`Ref:         ${snapshotRef}`);
   }
   console.log(`Files:       ${run.snapshot.metadata.selectedFiles} selected / ${run.snapshot.metadata.totalFiles} total`);
+  if (run.snapshot.metadata.scope) {
+    console.log(`Scope:       ${run.snapshot.metadata.scope.join(", ")}`);
+  }
+  const { ignore, redactions, generated } = run.snapshot.metadata;
+  if (redactions?.total) {
+    const kinds = Object.entries(redactions.byKind).map(([kind, count]) => `${count} ${kind}`).join(", ");
+    console.log(`Redacted:    ${redactions.total} secrets in ${redactions.files.length} files (${kinds})`);
+  }
+  if (generated?.total) {
+    const kinds = Object.entries(generated.byKind).map(([kind, count]) => `${count} ${kind}`).join(", ");
+    console.log(`Generated:   ${generated.total} files not sampled (${kinds})`);
+  }
+  if (ignore?.ignoredCount || ignore?.forced.length) {
+    console.log(`Ignored:     ${ignore.ignoredCount} paths (${ignore.sources.join(", ")})${ignore.forced.length ? `, ${ignore.forced.length} forced` : ""}`);
+  }
   console.log(`Stack:       ${[...run.stack.frontend, ...run.stack.backend, ...run.stack.language].map((s) => s.name).join(", ") || "(none detected)"}`);
+  if (run.stack.detectors?.length) {
+    const detectors = run.stack.detectors.map((d) => `${d.source === "built-in" ? d.name : `${d.name} (${d.source})`}${d.error ? " [failed]" : ""}`);
+    console.log(`Detectors:   ${detectors.join(", ")}`);
+  }
   console.log(`Artifacts:   ${artifactPath}`);
   console.log(`  - run.json (full analysis)`);
   console.log(`  - plan.md (executable prompt)`);
+  if (run.changePlan) {
+    console.log(`  - changes.md (change summary for reviewers)`);
+  }
+  console.log(`  - checkpoint.json and per-stage outputs (resume with --resume ${run.id})`);
 
   for (const stage of run.stages) {
-    const icon = stage.status === "done" ? "+" : stage.status === "error" ? "!" : "-";
-    console.log(`  [${icon}] ${stage.label}`);
+    const icon = stageIcon(stage.status);
+    const usage = stage.usage && stage.usage.calls + stage.usage.cacheHits > 0
+      ? `  (${stage.usage.inputTokens} in / ${stage.usage.outputTokens} out, ${formatUsd(stage.usage.costUsd)}` +
+        `${stage.usage.retries ? `, ${stage.usage.retries} retries` : ""}` +
+        `${stage.usage.cacheHits ? `, ${stage.usage.cacheHits} cached` : ""})`
+      : "";
+    const reused = stage.reusedFrom ? `  (unchanged since ${stage.reusedFrom})` : "";
+    console.log(`  [${icon}] ${stage.label}${usage}${reused}`);
+  }
+  if (run.snapshot.metadata.reusedFiles !== undefined) {
+    console.log(`Reused ${run.snapshot.metadata.reusedFiles}/${run.snapshot.files.length} file snapshots from the previous run`);
+  }
+
+  if (run.changePlan) {
+    const { changePlan } = run;
+    console.log("");
+    console.log(`Changes ${changePlan.baseRef}...${changePlan.headRef}: ${changePlan.stats.files} files (+${changePlan.stats.additions} / -${changePlan.stats.deletions})`);
+    console.log(`  Components: ${changePlan.components.map((component) => component.name).join(", ") || "(none matched)"}`);
+    const routes = [
+      ...changePlan.routes.added.map((route) => `+${route}`),
+      ...changePlan.routes.changed.map((route) => `~${route}`),
+      ...changePlan.routes.removed.map((route) => `-${route}`)
+    ];
+    if (routes.length) console.log(`  Routes:     ${routes.join(", ")}`);
+    if (changePlan.contracts.length) console.log(`  Contracts:  ${changePlan.contracts.map((contract) => contract.path).join(", ")}`);
+    for (const step of changePlan.buildSteps) console.log(`  Build:      ${step}`);
+  }
+
+  const { workspace } = run.snapshot;
+  if (workspace?.packages.length) {
+    console.log("");
+    console.log(`Workspace packages (${workspace.tools.join(", ")}):`);
+    for (const pkg of workspace.packages) {
+      const deps = pkg.dependsOn.length ? `  -> ${pkg.dependsOn.join(", ")}` : "";
+      console.log(`  ${pkg.name}  ${pkg.path}${deps}`);
+    }
+    if (!run.snapshot.metadata.scope) {
+      console.log("Analyze one package with --package <name> (repeatable) or --subpath <dir>");
+    }
+  }
+
+  if (run.usage) {
+    console.log(
+      `LLM usage:   ${run.usage.calls} calls, ${run.usage.inputTokens} in / ${run.usage.outputTokens} out tokens, ` +
+      `${(run.usage.latencyMs / 1000).toFixed(1)}s, est. ${formatUsd(run.usage.costUsd)}`
+    );
   }
 }
 
@@ -0,0 +1,24 @@
+// USD per million tokens. Matched by longest model-name prefix, so dated
+// snapshots (e.g. claude-sonnet-4-5-20250929) resolve to their family price.
+export type ModelPrice = {
+  prefix: string;
+  inputPerMTok: number;
+  outputPerMTok: number;
+};
+
+export const modelPricing: ModelPrice[] = [
+  { prefix: "claude-opus-4", inputPerMTok: 15, outputPerMTok: 75 },
+  { prefix: "claude-sonnet-4", inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: "claude-haiku-4", inputPerMTok: 1, outputPerMTok: 5 },
+  { prefix: "claude-3-7-sonnet", inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: "claude-3-5-sonnet", inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: "claude-3-5-haiku", inputPerMTok: 0.8, outputPerMTok: 4 },
+  { prefix: "gpt-4o-mini", inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  { prefix: "gpt-4o", inputPerMTok: 2.5, outputPerMTok: 10 },
+  { prefix: "gpt-4.1-mini", inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  { prefix: "gpt-4.1", inputPerMTok: 2, outputPerMTok: 8 }
+];
+
+export function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
@@ -77,6 +77,65 @@ export const techRegistry: TechRegistry = {
       alternatives: ["vercel-functions", "cloud-run", "kubernetes"],
       compatibilityNotes: ["Cold starts and runtime limits differ."],
       transformationHints: ["Update deployment constraints and scaling assumptions in plan."]
+    },
+    {
+      key: "tailwind css",
+      category: "styling",
+      alternatives: ["css modules", "styled-components", "vanilla-extract"],
+      compatibilityNotes: ["Utility classes in markup become component-scoped style definitions."],
+      transformationHints: [
+        "Translate utility class usage into the design tokens and component styles of the target.",
+        "Keep the token values (colors, spacing, radii) identical across the switch."
+      ]
+    },
+    {
+      key: "vitest",
+      category: "testing",
+      alternatives: ["jest", "node:test", "playwright"],
+      compatibilityNotes: ["Mocking APIs (vi.* vs jest.*) and ESM handling differ."],
+      transformationHints: ["Rewrite test expectations and setup steps around the target runner's config and mocking API."]
+    },
+    {
+      key: "jest",
+      category: "testing",
+      alternatives: ["vitest", "node:test", "mocha"],
+      compatibilityNotes: ["Transform and module-mocking configuration is runner specific."],
+      transformationHints: ["Rewrite test expectations and setup steps around the target runner's config and mocking API."]
+    },
+    {
+      key: "github actions",
+      category: "cicd",
+      alternatives: ["gitlab ci", "circleci", "buildkite"],
+      compatibilityNotes: ["Workflow triggers, caching and secrets are configured differently."],
+      transformationHints: ["Map workflow jobs and triggers to the target pipeline syntax in build and validation steps."]
+    },
+    {
+      key: "redux",
+      category: "state",
+      alternatives: ["zustand", "jotai", "mobx"],
+      compatibilityNotes: ["Reducers and middleware have no direct equivalent in hook-based stores."],
+      transformationHints: ["Rewrite state ownership rules around the target store model (slices vs stores vs atoms)."]
+    },
+    {
+      key: "zustand",
+      category: "state",
+      alternatives: ["redux", "jotai", "valtio"],
+      compatibilityNotes: ["Store-per-feature layout may need consolidation into a single store."],
+      transformationHints: ["Rewrite state ownership rules around the target store model (slices vs stores vs atoms)."]
+    },
+    {
+      key: "redis",
+      category: "messaging",
+      alternatives: ["rabbitmq", "kafka", "nats"],
+      compatibilityNotes: ["Pub/sub and list-based queues lack the delivery guarantees of brokers."],
+      transformationHints: ["Restate delivery, retry and ordering guarantees for every queue or channel in the plan."]
+    },
+    {
+      key: "kafka",
+      category: "messaging",
+      alternatives: ["rabbitmq", "nats", "redis"],
+      compatibilityNotes: ["Partitioned log semantics (replay, consumer groups) differ from queue brokers."],
+      transformationHints: ["Restate delivery, retry and ordering guarantees for every topic or queue in the plan."]
     }
   ]
 };
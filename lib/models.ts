@@ -11,6 +11,9 @@ export type DepthStrategy = z.infer<typeof depthStrategySchema>;
 export const targetAgentSchema = z.enum(["claude-code", "codex", "generic"]);
 export type TargetAgent = z.infer<typeof targetAgentSchema>;
 
+export const llmProviderIdSchema = z.enum(["anthropic", "openai", "local"]);
+export type LlmProviderId = z.infer<typeof llmProviderIdSchema>;
+
 export const repoTreeNodeSchema = z.object({
   path: z.string(),
   type: z.enum(["blob", "tree"]),
@@ -23,10 +26,130 @@ export const selectedFileSchema = z.object({
   size: z.number(),
   reason: z.string(),
   content: z.string(),
-  truncated: z.boolean().default(false)
+  truncated: z.boolean().default(false),
+  // git blob SHA of the whole file; lets a later run reuse the content
+  sha: z.string().optional(),
+  // Secrets replaced with "[redacted:<kind>]" placeholders, by kind
+  redactions: z.record(z.string(), z.number().int().positive()).optional(),
+  // Content starts with a symbol outline because the file exceeded its budget
+  outline: z.boolean().optional()
 });
 export type SelectedFile = z.infer<typeof selectedFileSchema>;
 
+export const secretRedactionsSchema = z.object({
+  total: z.number().int().nonnegative(),
+  byKind: z.record(z.string(), z.number().int().positive()),
+  // Selected files that had at least one secret redacted
+  files: z.array(z.string())
+});
+export type SecretRedactions = z.infer<typeof secretRedactionsSchema>;
+
+export const generatedKindSchema = z.enum(["generated", "minified", "vendored"]);
+export type GeneratedKind = z.infer<typeof generatedKindSchema>;
+
+export const generatedFilesSchema = z.object({
+  // Files flagged by path across the whole tree, plus those flagged by content
+  // when they were read; none of them are sampled
+  total: z.number().int().nonnegative(),
+  byKind: z.record(z.string(), z.number().int().positive()),
+  // First flagged files, with the signal that flagged them
+  files: z.array(z.object({ path: z.string(), kind: generatedKindSchema, signal: z.string() }))
+});
+export type GeneratedFiles = z.infer<typeof generatedFilesSchema>;
+
+export const lockfileManagerSchema = z.enum(["npm", "pnpm", "yarn", "poetry", "cargo", "go", "bundler", "composer", "nuget", "mix", "pub"]);
+export type LockfileManager = z.infer<typeof lockfileManagerSchema>;
+
+export const packageEcosystemSchema = z.enum(["npm", "pypi", "cargo", "go", "rubygems", "packagist", "nuget", "hex", "pub"]);
+export type PackageEcosystem = z.infer<typeof packageEcosystemSchema>;
+
+export const lockfileSchema = z.object({
+  // Relative to the repository root
+  path: z.string(),
+  manager: lockfileManagerSchema,
+  ecosystem: packageEcosystemSchema,
+  // Resolved version by package name; JS lockfiles keep only the packages
+  // some package.json declares
+  packages: z.record(z.string(), z.string())
+});
+export type Lockfile = z.infer<typeof lockfileSchema>;
+
+export const workspaceToolSchema = z.enum(["npm", "yarn", "pnpm", "nx", "turbo", "go", "cargo"]);
+export type WorkspaceTool = z.infer<typeof workspaceToolSchema>;
+
+export const workspacePackageSchema = z.object({
+  name: z.string(),
+  // Relative to the repository root
+  path: z.string(),
+  tool: workspaceToolSchema,
+  // Names of other packages in the same workspace this one depends on
+  dependsOn: z.array(z.string())
+});
+export type WorkspacePackage = z.infer<typeof workspacePackageSchema>;
+
+export const workspaceGraphSchema = z.object({
+  tools: z.array(workspaceToolSchema),
+  packages: z.array(workspacePackageSchema)
+});
+export type WorkspaceGraph = z.infer<typeof workspaceGraphSchema>;
+
+export const changedFileStatusSchema = z.enum(["added", "modified", "deleted", "renamed"]);
+export type ChangedFileStatus = z.infer<typeof changedFileStatusSchema>;
+
+export const changedFileSchema = z.object({
+  path: z.string(),
+  status: changedFileStatusSchema,
+  // Renames only
+  previousPath: z.string().optional(),
+  // Both 0 for binary files
+  additions: z.number().int().nonnegative(),
+  deletions: z.number().int().nonnegative()
+});
+export type ChangedFile = z.infer<typeof changedFileSchema>;
+
+export const repoDeltaSchema = z.object({
+  baseRef: z.string(),
+  baseSha: z.string(),
+  headSha: z.string(),
+  // Commit the diff starts from; the base tip itself when no merge base was
+  // found within the fetched history
+  fromSha: z.string(),
+  files: z.array(changedFileSchema),
+  // package.json dependency entries ("name@range") and .env.example keys
+  dependencies: z.object({ added: z.array(z.string()), removed: z.array(z.string()) }),
+  envVars: z.object({ added: z.array(z.string()), removed: z.array(z.string()) })
+});
+export type RepoDelta = z.infer<typeof repoDeltaSchema>;
+
+// What ingest skipped because of .gitignore, .mimekitignore or the project
+// config, and which forced paths it kept anyway
+export const ingestIgnoreSchema = z.object({
+  // Rule files applied, repository-relative, in precedence order
+  sources: z.array(z.string()),
+  include: z.array(z.string()),
+  exclude: z.array(z.string()),
+  forceInclude: z.array(z.string()),
+  ignoredCount: z.number().int().nonnegative(),
+  // First ignored files and directories (directories end in "/"), with the
+  // rule file or config key that excluded them
+  ignored: z.array(z.object({ path: z.string(), source: z.string() })),
+  // Paths that were ignored by a rule but ingested because of forceInclude
+  forced: z.array(z.string())
+});
+export type IngestIgnoreSummary = z.infer<typeof ingestIgnoreSchema>;
+
+// A source file parsed for the import graph, keyed by blob SHA so the next
+// run of the same source only re-parses files that changed
+export const parsedSourceSchema = z.object({
+  path: z.string(),
+  sha: z.string(),
+  imports: z.array(z.string()),
+  exportedApi: z.boolean().optional(),
+  // Content flagged the file as generated or minified
+  generated: z.object({ kind: generatedKindSchema, signal: z.string() }).optional()
+});
+export type ParsedSourceEntry = z.infer<typeof parsedSourceSchema>;
+
 export const repoSnapshotSchema = z.object({
   version: z.string(),
   repo: z.object({
@@ -49,8 +172,29 @@ export const repoSnapshotSchema = z.object({
     selectedFiles: z.number(),
     skippedBinaryFiles: z.number(),
     skippedScriptFiles: z.number(),
-    tokenEstimate: z.number()
+    tokenEstimate: z.number(),
+    // HEAD of the workspace, when it is a git checkout
+    commitSha: z.string().optional(),
+    // Selected files whose content was carried over from a previous run
+    reusedFiles: z.number().int().nonnegative().optional(),
+    // Directories ingest was limited to, relative to the repository root;
+    // absent when the whole repository was analyzed
+    scope: z.array(z.string()).optional(),
+    ignore: ingestIgnoreSchema.optional(),
+    // Secrets redacted from selected file contents before they were stored or
+    // sent anywhere
+    redactions: secretRedactionsSchema.optional(),
+    // Generated, minified and vendored files left out of the sample
+    generated: generatedFilesSchema.optional()
   }),
+  // Monorepo package graph, when workspace tooling was detected
+  workspace: workspaceGraphSchema.optional(),
+  // Commit-range runs only: what changed between the base and head refs
+  delta: repoDeltaSchema.optional(),
+  // Versions pinned by lockfiles, which are not sampled as files
+  lockfiles: z.array(lockfileSchema).optional(),
+  // Sources parsed to rank the sample, reused by later runs
+  importGraph: z.array(parsedSourceSchema).optional(),
   languages: z.array(
     z.object({
       name: z.string(),
@@ -69,7 +213,12 @@ export const stackCategorySchema = z.enum([
   "db",
   "auth",
   "infra",
-  "language"
+  "language",
+  "testing",
+  "cicd",
+  "styling",
+  "state",
+  "messaging"
 ]);
 export type StackCategory = z.infer<typeof stackCategorySchema>;
 
@@ -90,7 +239,23 @@ export const stackFingerprintSchema = z.object({
   auth: z.array(stackItemSchema),
   infra: z.array(stackItemSchema),
   language: z.array(stackItemSchema),
-  lowConfidenceFindings: z.array(z.string()).default([])
+  // Added after the original six; runs saved before them have none
+  testing: z.array(stackItemSchema).default([]),
+  cicd: z.array(stackItemSchema).default([]),
+  styling: z.array(stackItemSchema).default([]),
+  state: z.array(stackItemSchema).default([]),
+  messaging: z.array(stackItemSchema).default([]),
+  lowConfidenceFindings: z.array(z.string()).default([]),
+  // Detectors that ran, with the globs they consume, where they came from
+  // ("built-in", or the config module that registered them) and any error
+  detectors: z.array(z.object({
+    name: z.string(),
+    files: z.array(z.string()),
+    tree: z.array(z.string()),
+    source: z.string(),
+    // Set when the detector threw or returned invalid findings; its results are dropped
+    error: z.string().optional()
+  })).optional()
 });
 export type StackFingerprint = z.infer<typeof stackFingerprintSchema>;
 
@@ -140,21 +305,22 @@ export const intentSpecSchema = z.object({
 });
 export type IntentSpec = z.infer<typeof intentSpecSchema>;
 
+export const routeMapEntrySchema = z.object({
+  path: z.string(),
+  purpose: z.string(),
+  layout: z.string(),
+  components: z.array(z.string()),
+  logic: z.array(z.string())
+});
+export type RouteMapEntry = z.infer<typeof routeMapEntrySchema>;
+
 export const executablePlanSchema = z.object({
   version: z.string(),
   targetAgent: targetAgentSchema,
   structured: z.object({
     systemOverview: z.string(),
     architectureDescription: z.string(),
-    routeMap: z.array(
-      z.object({
-        path: z.string(),
-        purpose: z.string(),
-        layout: z.string(),
-        components: z.array(z.string()),
-        logic: z.array(z.string())
-      })
-    ),
+    routeMap: z.array(routeMapEntrySchema),
     moduleList: z.array(z.string()),
     functionalityLogic: z.array(z.string()),
     interfaces: z.array(z.string()),
@@ -182,6 +348,42 @@ export const executablePlanSchema = z.object({
 });
 export type ExecutablePlan = z.infer<typeof executablePlanSchema>;
 
+// Change-focused summary of a commit-range run, for reviewers
+export const changePlanSchema = z.object({
+  version: z.string(),
+  baseRef: z.string(),
+  headRef: z.string(),
+  stats: z.object({
+    files: z.number().int().nonnegative(),
+    additions: z.number().int().nonnegative(),
+    deletions: z.number().int().nonnegative()
+  }),
+  components: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      files: z.array(z.string())
+    })
+  ),
+  // Changed files no architecture component could be matched to
+  unmappedFiles: z.array(z.string()),
+  routes: z.object({
+    added: z.array(z.string()),
+    changed: z.array(z.string()),
+    removed: z.array(z.string())
+  }),
+  contracts: z.array(
+    z.object({
+      path: z.string(),
+      status: changedFileStatusSchema,
+      kind: z.string()
+    })
+  ),
+  buildSteps: z.array(z.string()),
+  prompt: z.string()
+});
+export type ChangePlan = z.infer<typeof changePlanSchema>;
+
 export const techRegistryEntrySchema = z.object({
   key: z.string(),
   category: stackCategorySchema,
@@ -197,6 +399,36 @@ export const techRegistrySchema = z.object({
 });
 export type TechRegistry = z.infer<typeof techRegistrySchema>;
 
+export const llmUsageSchema = z.object({
+  calls: z.number().int().nonnegative(),
+  cacheHits: z.number().int().nonnegative(),
+  retries: z.number().int().nonnegative(),
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  latencyMs: z.number().nonnegative(),
+  costUsd: z.number().nonnegative(),
+  // Calls answered by the deterministic fallback (no provider configured, or
+  // every attempt failed); absent when there were none
+  fallbacks: z.number().int().positive().optional()
+});
+export type LlmUsage = z.infer<typeof llmUsageSchema>;
+
+export const stageStateSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  // "unchanged": inputs matched a previous run, whose output was reused
+  status: z.enum(["pending", "running", "done", "unchanged", "error", "cancelled"]),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+  usage: llmUsageSchema.optional(),
+  // Hash of the stage's inputs, compared by later runs of the same source
+  inputHash: z.string().optional(),
+  // Run the output was reused from, for "unchanged" stages
+  reusedFrom: z.string().optional()
+});
+export type StageState = z.infer<typeof stageStateSchema>;
+
 export const runResultSchema = z.object({
   id: z.string(),
   createdAt: z.string(),
@@ -205,52 +437,263 @@ export const runResultSchema = z.object({
   architecture: architectureModelSchema,
   intent: intentSpecSchema,
   plan: executablePlanSchema,
-  stages: z.array(
-    z.object({
-      id: z.string(),
-      label: z.string(),
-      status: z.enum(["pending", "running", "done", "error"]),
-      startedAt: z.string().optional(),
-      finishedAt: z.string().optional(),
-      error: z.string().optional()
-    })
-  )
+  // Commit-range runs only
+  changePlan: changePlanSchema.optional(),
+  stages: z.array(stageStateSchema),
+  // Totals across all stages plus later recompiles and stack swaps
+  usage: llmUsageSchema.optional(),
+  // Head of the revision history; absent on runs stored before revisions existed
+  revision: z.number().int().positive().optional()
 });
 export type RunResult = z.infer<typeof runResultSchema>;
 
+// ---------------------------------------------------------------------------
+// Revisions: immutable history of every stored version of a run
+// ---------------------------------------------------------------------------
+
+export const revisionOperationSchema = z.enum(["analyze", "recompile", "swap", "manual-edit", "rollback"]);
+export type RevisionOperation = z.infer<typeof revisionOperationSchema>;
+
+export const runRevisionSchema = z.object({
+  runId: z.string(),
+  revision: z.number().int().positive(),
+  parentRevision: z.number().int().positive().optional(),
+  operation: revisionOperationSchema,
+  createdAt: z.string(),
+  summary: z.string(),
+  // Rollbacks only: the revision whose content was restored
+  restoredFrom: z.number().int().positive().optional(),
+  run: runResultSchema
+});
+export type RunRevision = z.infer<typeof runRevisionSchema>;
+export type RunRevisionSummary = Omit<RunRevision, "run">;
+
+// ---------------------------------------------------------------------------
+// Run diff: section-by-section comparison of two runs or revisions
+// ---------------------------------------------------------------------------
+
+export const listDiffSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string())
+});
+export type ListDiff = z.infer<typeof listDiffSchema>;
+
+export const valueChangeSchema = z.object({
+  before: z.string(),
+  after: z.string()
+});
+export type ValueChange = z.infer<typeof valueChangeSchema>;
+
+// Items matched by key on both sides whose contents differ
+function changedItemSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    key: z.string(),
+    fields: z.array(z.string()),
+    before: item,
+    after: item
+  });
+}
+
+export const runDiffSchema = z.object({
+  base: z.object({ runId: z.string(), revision: z.number().int().positive().optional(), createdAt: z.string() }),
+  head: z.object({ runId: z.string(), revision: z.number().int().positive().optional(), createdAt: z.string() }),
+  identical: z.boolean(),
+  stack: z.object({
+    added: z.array(stackItemSchema),
+    removed: z.array(stackItemSchema),
+    versionChanged: z.array(
+      z.object({
+        category: stackCategorySchema,
+        name: z.string(),
+        before: z.string().optional(),
+        after: z.string().optional()
+      })
+    )
+  }),
+  architecture: z.object({
+    components: z.object({
+      added: z.array(architectureComponentSchema),
+      removed: z.array(architectureComponentSchema),
+      changed: z.array(changedItemSchema(architectureComponentSchema))
+    }),
+    edges: z.object({
+      added: z.array(architectureEdgeSchema),
+      removed: z.array(architectureEdgeSchema)
+    })
+  }),
+  intent: z.object({
+    systemPurpose: valueChangeSchema.optional(),
+    // Keyed by IntentSpec list field; only fields with changes appear
+    lists: z.record(z.string(), listDiffSchema)
+  }),
+  routes: z.object({
+    added: z.array(routeMapEntrySchema),
+    removed: z.array(routeMapEntrySchema),
+    changed: z.array(changedItemSchema(routeMapEntrySchema))
+  }),
+  designTokens: z.object({
+    visualDirection: valueChangeSchema.optional(),
+    // Keyed by designSystem list field; only fields with changes appear
+    lists: z.record(z.string(), listDiffSchema)
+  })
+});
+export type RunDiff = z.infer<typeof runDiffSchema>;
+
+// ---------------------------------------------------------------------------
+// Analysis jobs: background runs started by POST /api/analyze
+// ---------------------------------------------------------------------------
+
+export const jobStatusSchema = z.enum(["running", "done", "error", "cancelled"]);
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+export const analysisJobSchema = z.object({
+  runId: z.string(),
+  status: jobStatusSchema,
+  stages: z.array(stageStateSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  error: z.string().optional()
+});
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+
+// Events streamed over GET /api/runs/[runId]/events
+export const runEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("stages"), stages: z.array(stageStateSchema) }),
+  z.object({ type: z.literal("done"), runId: z.string() }),
+  z.object({ type: z.literal("error"), error: z.string() }),
+  z.object({ type: z.literal("cancelled") })
+]);
+export type RunEvent = z.infer<typeof runEventSchema>;
+
 // ---------------------------------------------------------------------------
 // Harness: source descriptors, context, fetch artifact
 // ---------------------------------------------------------------------------
 
+// Monorepo scoping, accepted by every source type. `subpath` roots ingest at
+// one directory; `packages` limits it to detected workspace packages (by name
+// or path), keeping root-level files for context.
+const sourceScopeShape = {
+  subpath: z.string().optional(),
+  packages: z.array(z.string()).optional()
+};
+
+// Commit-range (delta) mode for git-backed sources: analyze only what changed
+// between `baseRef` and the head (`ref`, or the default branch)
+const sourceDeltaShape = {
+  baseRef: z.string().optional()
+};
+
 export const githubSourceSchema = z.object({
   type: z.literal("github"),
   repoUrl: z.string().url(),
-  ref: z.string().optional()
+  ref: z.string().optional(),
+  ...sourceScopeShape,
+  ...sourceDeltaShape
 });
 export type GitHubSource = z.infer<typeof githubSourceSchema>;
 
+export const gitlabSourceSchema = z.object({
+  type: z.literal("gitlab"),
+  repoUrl: z.string().url(),
+  ref: z.string().optional(),
+  // Self-hosted instances whose API does not live at <origin>/api/v4
+  apiBase: z.string().url().optional(),
+  ...sourceScopeShape,
+  ...sourceDeltaShape
+});
+export type GitLabSource = z.infer<typeof gitlabSourceSchema>;
+
+export const bitbucketSourceSchema = z.object({
+  type: z.literal("bitbucket"),
+  repoUrl: z.string().url(),
+  ref: z.string().optional(),
+  ...sourceScopeShape,
+  ...sourceDeltaShape
+});
+export type BitbucketSource = z.infer<typeof bitbucketSourceSchema>;
+
+// Any other https:// or ssh:// remote; scp-style "git@host:org/repo.git"
+// remotes are rewritten to ssh:// form before they get here
+export const gitSourceSchema = z.object({
+  type: z.literal("git"),
+  repoUrl: z.string().url(),
+  ref: z.string().optional(),
+  ...sourceScopeShape,
+  ...sourceDeltaShape
+});
+export type GitSource = z.infer<typeof gitSourceSchema>;
+
 export const localSourceSchema = z.object({
   type: z.literal("local"),
   repoPath: z.string(),
-  ref: z.string().optional()
+  ref: z.string().optional(),
+  ...sourceScopeShape,
+  ...sourceDeltaShape
 });
 export type LocalSource = z.infer<typeof localSourceSchema>;
 
+// A zip or tarball, extracted into the run workspace before ingest. Uploads
+// are kept under .runs/<runId>/upload so the run can be resumed.
+export const archiveSourceSchema = z.object({
+  type: z.literal("archive"),
+  archivePath: z.string(),
+  // Name the archive was uploaded or passed as, for display
+  fileName: z.string().optional(),
+  ...sourceScopeShape
+});
+export type ArchiveSource = z.infer<typeof archiveSourceSchema>;
+
 export const pipelineSourceSchema = z.discriminatedUnion("type", [
   githubSourceSchema,
-  localSourceSchema
+  gitlabSourceSchema,
+  bitbucketSourceSchema,
+  gitSourceSchema,
+  localSourceSchema,
+  archiveSourceSchema
 ]);
 export type PipelineSource = z.infer<typeof pipelineSourceSchema>;
+export type RemoteSource = Exclude<PipelineSource, LocalSource | ArchiveSource>;
 
 export const fetchArtifactSchema = z.object({
   runId: z.string(),
   repoUrl: z.string().url(),
   ref: z.string(),
   commitSha: z.string().regex(/^[0-9a-f]{5,40}$/),
+  // Commit-range runs: the base ref and the commit it resolved to
+  baseRef: z.string().optional(),
+  baseSha: z.string().regex(/^[0-9a-f]{5,40}$/).optional(),
   workspacePath: z.string()
 });
 export type FetchArtifact = z.infer<typeof fetchArtifactSchema>;
 
+export const archiveFormatSchema = z.enum(["zip", "tar", "tar.gz"]);
+export type ArchiveFormat = z.infer<typeof archiveFormatSchema>;
+
+export const extractArtifactSchema = z.object({
+  runId: z.string(),
+  archivePath: z.string(),
+  format: archiveFormatSchema,
+  files: z.number().int().nonnegative(),
+  directories: z.number().int().nonnegative(),
+  skippedLinks: z.number().int().nonnegative(),
+  extractedBytes: z.number().int().nonnegative(),
+  strippedPrefix: z.string().optional(),
+  workspacePath: z.string()
+});
+export type ExtractArtifact = z.infer<typeof extractArtifactSchema>;
+
+// Rewritten to artifacts/checkpoint.json after every stage transition so an
+// interrupted run can be resumed from its first incomplete stage
+export const runCheckpointSchema = z.object({
+  runId: z.string(),
+  source: pipelineSourceSchema,
+  scanMode: scanModeSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  stages: z.array(stageStateSchema)
+});
+export type RunCheckpoint = z.infer<typeof runCheckpointSchema>;
+
 export type HarnessContext = {
   runId: string;
   source: PipelineSource;
@@ -258,6 +701,9 @@ export type HarnessContext = {
   artifactsPath: string;
   scanMode: ScanMode;
   githubToken?: string;
+  signal?: AbortSignal;
+  // Snapshot of the previous run of the same source; unchanged files are reused
+  previousSnapshot?: RepoSnapshot;
   runtimeOptions: {
     cleanupWorkspace: boolean;
     enableBuildExecution: boolean;
@@ -269,8 +715,15 @@ export type HarnessContext = {
 // ---------------------------------------------------------------------------
 
 export const analyzeRequestSchema = z.object({
-  repoUrl: z.string().url(),
+  // ssh:// remotes would authenticate with the server's own keys, so the API
+  // only clones over https
+  repoUrl: z.string().url().refine((url) => url.startsWith("https://"), {
+    message: "Only https:// repository URLs are accepted"
+  }),
   branch: z.string().optional(),
+  subpath: z.string().trim().min(1).max(500).optional(),
+  packages: z.array(z.string().trim().min(1).max(200)).max(50).optional(),
+  baseRef: z.string().trim().min(1).max(200).optional(),
   scanMode: scanModeSchema.default("quick"),
   githubToken: z.string().trim().min(1).max(500).optional()
 });
@@ -290,3 +743,20 @@ export const recompileRequestSchema = z.object({
   targetAgent: targetAgentSchema
 });
 export type RecompileRequest = z.infer<typeof recompileRequestSchema>;
+
+// Manual edits through PATCH /api/runs/[runId]; omitted sections stay as they are
+export const runEditRequestSchema = z
+  .object({
+    architecture: architectureModelSchema.optional(),
+    intent: intentSpecSchema.optional(),
+    plan: executablePlanSchema.optional()
+  })
+  .refine((edit) => edit.architecture || edit.intent || edit.plan, {
+    message: "Provide at least one of architecture, intent or plan"
+  });
+export type RunEditRequest = z.infer<typeof runEditRequestSchema>;
+
+export const resumeRequestSchema = z.object({
+  githubToken: z.string().trim().min(1).max(500).optional()
+});
+export type ResumeRequest = z.infer<typeof resumeRequestSchema>;
@@ -8,6 +8,8 @@ import {
   StackFingerprint
 } from "@/lib/models";
 import { callClaudeJson, schemaAsJson } from "@/lib/services/claude";
+import { RunCancelledError } from "@/lib/services/cancellation";
+import { fileExcerpt } from "@/lib/services/outline";
 
 function errorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -36,7 +38,7 @@ function repoSnapshotSummary(snapshot: RepoSnapshot): string {
 
   const fileSamples: Array<{ path: string; reason: string; content: string }> = [];
   for (const file of snapshot.files) {
-    const content = file.content.slice(0, 4_000);
+    const content = fileExcerpt(file, 4_000);
     const entrySize = JSON.stringify({ path: file.path, reason: file.reason, content }).length + 10;
     if (remaining - entrySize < 0 && fileSamples.length > 0) break;
     remaining -= entrySize;
@@ -126,7 +128,7 @@ function repoSnapshotForIntent(
 
   const fileSamples: Array<{ path: string; reason: string; content: string }> = [];
   for (const file of orderedFiles) {
-    const content = file.content.slice(0, 4_000);
+    const content = fileExcerpt(file, 4_000);
     const entrySize = JSON.stringify({ path: file.path, reason: file.reason, content }).length + 10;
     if (remaining - entrySize < 0 && fileSamples.length > 0) break;
     remaining -= entrySize;
@@ -372,7 +374,8 @@ function fallbackIntent(snapshot: RepoSnapshot, architecture: ArchitectureModel)
 
 export async function extractArchitecture(
   snapshot: RepoSnapshot,
-  stack: StackFingerprint
+  stack: StackFingerprint,
+  signal?: AbortSignal
 ): Promise<ArchitectureModel> {
   const prompt = [
     "Return valid JSON only.",
@@ -392,8 +395,9 @@ export async function extractArchitecture(
   const fallback = () => fallbackArchitecture(snapshot, stack);
   let model: ArchitectureModel;
   try {
-    model = await callClaudeJson(prompt, architectureModelSchema, fallback, 2, "extractArchitecture");
+    model = await callClaudeJson(prompt, architectureModelSchema, fallback, { label: "extractArchitecture", signal });
   } catch (error) {
+    if (error instanceof RunCancelledError) throw error;
     console.warn(`Architecture extraction failed, using fallback: ${errorMessage(error)}`);
     model = fallback();
   }
@@ -406,7 +410,8 @@ export async function extractArchitecture(
 
 export async function extractIntent(
   snapshot: RepoSnapshot,
-  architecture: ArchitectureModel
+  architecture: ArchitectureModel,
+  signal?: AbortSignal
 ): Promise<IntentSpec> {
   const prompt = [
     "Return valid JSON only.",
@@ -432,8 +437,9 @@ export async function extractIntent(
   const fallback = () => fallbackIntent(snapshot, architecture);
   let intent: IntentSpec;
   try {
-    intent = await callClaudeJson(prompt, intentSpecSchema, fallback, 2, "extractIntent");
+    intent = await callClaudeJson(prompt, intentSpecSchema, fallback, { label: "extractIntent", signal });
   } catch (error) {
+    if (error instanceof RunCancelledError) throw error;
     console.warn(`Intent extraction failed, using fallback: ${errorMessage(error)}`);
     intent = fallback();
   }
@@ -483,7 +489,7 @@ export async function rewriteIntentForStackSwap(
   };
   let intent: IntentSpec;
   try {
-    intent = await callClaudeJson(prompt, intentSpecSchema, fallback, 2, "rewriteIntentForStackSwap");
+    intent = await callClaudeJson(prompt, intentSpecSchema, fallback, { label: "rewriteIntentForStackSwap" });
   } catch (error) {
     console.warn(`Stack swap rewrite failed, using fallback: ${errorMessage(error)}`);
     intent = fallback();
@@ -0,0 +1,312 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, open, readdir, rename, rmdir, stat } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createGunzip } from "node:zlib";
+import * as tar from "tar-stream";
+import * as yauzl from "yauzl";
+import { ArchiveFormat } from "@/lib/models";
+import { throwIfCancelled } from "@/lib/services/cancellation";
+
+// Raised for archives that try to write outside the workspace or exceed the
+// extraction limits; the run fails instead of extracting a partial tree
+export class UnsafeArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeArchiveError";
+  }
+}
+
+export type ArchiveLimits = {
+  maxEntries: number;
+  maxExtractedBytes: number;
+  // Extracted bytes per archive byte
+  maxCompressionRatio: number;
+};
+
+export type ExtractSummary = {
+  format: ArchiveFormat;
+  files: number;
+  directories: number;
+  // Links are never materialized; ingest only reads regular files
+  skippedLinks: number;
+  extractedBytes: number;
+  // Set when the whole archive sat under one top-level folder ("repo-main/")
+  strippedPrefix?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Format detection
+// ---------------------------------------------------------------------------
+
+export async function detectArchiveFormat(archivePath: string): Promise<ArchiveFormat> {
+  const handle = await open(archivePath, "r");
+  try {
+    const header = Buffer.alloc(512);
+    const { bytesRead } = await handle.read(header, 0, 512, 0);
+    if (bytesRead >= 4 && header.readUInt32LE(0) === 0x04034b50) return "zip";
+    if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) return "tar.gz";
+    if (bytesRead >= 262 && header.toString("ascii", 257, 262) === "ustar") return "tar";
+  } finally {
+    await handle.close();
+  }
+  throw new UnsafeArchiveError("Unsupported archive format; expected .zip, .tar or .tar.gz");
+}
+
+// ---------------------------------------------------------------------------
+// Path and size guards
+// ---------------------------------------------------------------------------
+
+// Resolves an entry name inside root; absolute names and ".." segments that
+// climb out of root (zip-slip) are rejected
+function safeEntryPath(root: string, name: string): string {
+  const normalized = name.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+    throw new UnsafeArchiveError(`Archive entry has an absolute path: ${name}`);
+  }
+  const target = resolve(root, normalized);
+  if (target !== root && !target.startsWith(root + sep)) {
+    throw new UnsafeArchiveError(`Archive entry escapes the extraction root: ${name}`);
+  }
+  return target;
+}
+
+function checkLinkTarget(root: string, entryPath: string, linkTarget: string, name: string): void {
+  const target = resolve(dirname(entryPath), linkTarget.replace(/\\/g, "/"));
+  if (target !== root && !target.startsWith(root + sep)) {
+    throw new UnsafeArchiveError(`Archive link points outside the extraction root: ${name} -> ${linkTarget}`);
+  }
+}
+
+const RATIO_FLOOR_BYTES = 8 * 1024 * 1024;
+
+type Budget = {
+  limits: ArchiveLimits;
+  maxBytes: number;
+  summary: ExtractSummary;
+};
+
+function countEntry(budget: Budget): void {
+  const { summary, limits } = budget;
+  if (summary.files + summary.directories + summary.skippedLinks >= limits.maxEntries) {
+    throw new UnsafeArchiveError(`Archive has more than ${limits.maxEntries} entries`);
+  }
+}
+
+// Counts bytes as they are written, so lying size headers cannot slip past
+function meter(budget: Budget): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      budget.summary.extractedBytes += chunk.length;
+      if (budget.summary.extractedBytes > budget.maxBytes) {
+        callback(new UnsafeArchiveError(`Archive expands beyond ${budget.maxBytes} bytes`));
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+}
+
+async function writeEntry(
+  budget: Budget,
+  stream: AsyncIterable<unknown>,
+  target: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await mkdir(dirname(target), { recursive: true });
+  await pipeline(stream, meter(budget), createWriteStream(target, { flags: "wx", mode: 0o644 }), { signal })
+    .catch((error) => {
+      throwIfCancelled(signal);
+      throw error;
+    });
+  budget.summary.files++;
+}
+
+async function readLinkTarget(stream: AsyncIterable<unknown>): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += (chunk as Buffer).length;
+    if (size > 4096) throw new UnsafeArchiveError("Archive link target is too long");
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// ---------------------------------------------------------------------------
+// Zip
+// ---------------------------------------------------------------------------
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+function openZip(archivePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolvePromise, reject) => {
+    yauzl.open(archivePath, { lazyEntries: true, autoClose: true }, (error, zip) =>
+      error ? reject(new UnsafeArchiveError(`Invalid zip archive: ${error.message}`)) : resolvePromise(zip));
+  });
+}
+
+function openZipEntry(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+  return new Promise((resolvePromise, reject) => {
+    zip.openReadStream(entry, (error, stream) => (error ? reject(error) : resolvePromise(stream)));
+  });
+}
+
+async function extractZipEntry(
+  zip: yauzl.ZipFile,
+  entry: yauzl.Entry,
+  root: string,
+  budget: Budget,
+  signal?: AbortSignal
+): Promise<void> {
+  throwIfCancelled(signal);
+  countEntry(budget);
+  const target = safeEntryPath(root, entry.fileName);
+
+  if (entry.fileName.endsWith("/")) {
+    await mkdir(target, { recursive: true });
+    budget.summary.directories++;
+    return;
+  }
+
+  const stream = await openZipEntry(zip, entry);
+  if (((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+    checkLinkTarget(root, target, await readLinkTarget(stream), entry.fileName);
+    budget.summary.skippedLinks++;
+    return;
+  }
+  await writeEntry(budget, stream, target, signal);
+}
+
+async function extractZip(archivePath: string, root: string, budget: Budget, signal?: AbortSignal): Promise<void> {
+  const zip = await openZip(archivePath);
+  await new Promise<void>((resolvePromise, reject) => {
+    const fail = (error: unknown): void => {
+      zip.close();
+      reject(error);
+    };
+    zip.on("error", (error: Error) => fail(new UnsafeArchiveError(`Invalid zip archive: ${error.message}`)));
+    zip.on("end", () => resolvePromise());
+    zip.on("entry", (entry: yauzl.Entry) => {
+      extractZipEntry(zip, entry, root, budget, signal).then(() => zip.readEntry(), fail);
+    });
+    zip.readEntry();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tar (plain or gzipped)
+// ---------------------------------------------------------------------------
+
+type TarEntry = AsyncIterable<unknown> & { header: tar.Header; resume(): unknown };
+
+async function extractTarEntry(
+  entry: TarEntry,
+  root: string,
+  budget: Budget,
+  signal?: AbortSignal
+): Promise<void> {
+  throwIfCancelled(signal);
+  const { header } = entry;
+  countEntry(budget);
+  const target = safeEntryPath(root, header.name);
+
+  switch (header.type) {
+    case "file":
+    case "contiguous-file":
+      await writeEntry(budget, entry, target, signal);
+      return;
+    case "directory":
+      await mkdir(target, { recursive: true });
+      budget.summary.directories++;
+      break;
+    case "symlink":
+      checkLinkTarget(root, target, header.linkname, header.name);
+      budget.summary.skippedLinks++;
+      break;
+    case "link":
+      // Hard link names are relative to the archive root, not the entry
+      safeEntryPath(root, header.linkname);
+      budget.summary.skippedLinks++;
+      break;
+    default:
+      // Devices, fifos and the like carry no source code
+      break;
+  }
+  entry.resume();
+}
+
+async function extractTar(
+  archivePath: string,
+  root: string,
+  gzipped: boolean,
+  budget: Budget,
+  signal?: AbortSignal
+): Promise<void> {
+  const extract = tar.extract();
+  const source = createReadStream(archivePath);
+  const feeding = gzipped ? pipeline(source, createGunzip(), extract) : pipeline(source, extract);
+
+  try {
+    for await (const entry of extract) {
+      await extractTarEntry(entry, root, budget, signal);
+    }
+  } catch (error) {
+    extract.destroy();
+    await feeding.catch(() => {});
+    if (error instanceof UnsafeArchiveError || signal?.aborted) throw error;
+    throw new UnsafeArchiveError(`Invalid tar archive: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  await feeding.catch((error: Error) => {
+    throw new UnsafeArchiveError(`Invalid tar archive: ${error.message}`);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+// Archives exported from a forge usually wrap everything in "<repo>-<ref>/";
+// hoisting that folder keeps root-relative paths like prisma/schema.prisma intact
+async function stripSingleRoot(root: string): Promise<string | undefined> {
+  const entries = await readdir(root, { withFileTypes: true });
+  if (entries.length !== 1 || !entries[0].isDirectory()) return undefined;
+
+  const prefix = entries[0].name;
+  const staging = join(root, `.mimickit-strip-${Date.now()}`);
+  await rename(join(root, prefix), staging);
+  for (const child of await readdir(staging)) {
+    await rename(join(staging, child), join(root, child));
+  }
+  await rmdir(staging);
+  return prefix;
+}
+
+export async function extractArchive(
+  archivePath: string,
+  destination: string,
+  limits: ArchiveLimits,
+  signal?: AbortSignal
+): Promise<ExtractSummary> {
+  const root = resolve(destination);
+  const format = await detectArchiveFormat(archivePath);
+  const { size } = await stat(archivePath);
+  const budget: Budget = {
+    limits,
+    // Tiny archives are not held to the ratio; a few MB is harmless either way
+    maxBytes: Math.min(limits.maxExtractedBytes, Math.max(size * limits.maxCompressionRatio, RATIO_FLOOR_BYTES)),
+    summary: { format, files: 0, directories: 0, skippedLinks: 0, extractedBytes: 0 }
+  };
+
+  await mkdir(root, { recursive: true });
+  if (format === "zip") {
+    await extractZip(archivePath, root, budget, signal);
+  } else {
+    await extractTar(archivePath, root, format === "tar.gz", budget, signal);
+  }
+
+  const strippedPrefix = await stripSingleRoot(root);
+  return strippedPrefix ? { ...budget.summary, strippedPrefix } : budget.summary;
+}
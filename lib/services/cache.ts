@@ -1,86 +1,43 @@
-import fs from "node:fs";
-import os from "node:os";
-import path from "node:path";
-import { RunResult, runResultSchema } from "@/lib/models";
-
-const CACHE_FILE = path.join(os.tmpdir(), "mimickit-runs-cache.json");
-const MAX_RUNS = 50;
+import { RunResult, RunRevision } from "@/lib/models";
+import { createRunStore, NewRevision, RunStore } from "@/lib/services/run-store";
 
+// One store per process, kept on globalThis so dev-server reloads reuse the
+// open SQLite handle instead of leaking a new one per reload
 type GlobalCache = {
-  __mimickitRunCache?: Map<string, RunResult>;
+  __mimickitRunStore?: RunStore;
 };
 
 const globalCache = globalThis as unknown as GlobalCache;
-const runCache = globalCache.__mimickitRunCache ?? (globalCache.__mimickitRunCache = new Map());
 
-function sortRuns(runs: RunResult[]): RunResult[] {
-  return runs.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+function runStore(): RunStore {
+  return globalCache.__mimickitRunStore ?? (globalCache.__mimickitRunStore = createRunStore());
 }
 
-function readRunsFromDisk(): RunResult[] {
-  try {
-    if (!fs.existsSync(CACHE_FILE)) {
-      return [];
-    }
-
-    const raw = fs.readFileSync(CACHE_FILE, "utf8");
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) {
-      return [];
-    }
-
-    const valid: RunResult[] = [];
-    for (const item of parsed) {
-      const result = runResultSchema.safeParse(item);
-      if (result.success) {
-        valid.push(result.data);
-      }
-    }
-    return valid;
-  } catch (error) {
-    console.warn(
-      `Unable to read run cache from disk: ${error instanceof Error ? error.message : String(error)}`
-    );
-    return [];
-  }
+// Swap the backing store, e.g. for tests or scripts that manage their own file
+export function setRunStore(store: RunStore): void {
+  globalCache.__mimickitRunStore = store;
 }
 
-function syncFromDisk(): void {
-  const diskRuns = readRunsFromDisk();
-  for (const run of diskRuns) {
-    runCache.set(run.id, run);
-  }
+export function setRun(run: RunResult): void {
+  runStore().set(run);
 }
 
-function persistToDisk(): void {
-  try {
-    const runs = sortRuns([...runCache.values()]).slice(0, MAX_RUNS);
-    const payload = JSON.stringify(runs, null, 2);
-    fs.writeFileSync(CACHE_FILE, payload, "utf8");
+export function getRun(runId: string): RunResult | undefined {
+  return runStore().get(runId);
+}
 
-    runCache.clear();
-    for (const run of runs) {
-      runCache.set(run.id, run);
-    }
-  } catch (error) {
-    console.warn(
-      `Unable to persist run cache to disk: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
+export function listRuns(): RunResult[] {
+  return runStore().list();
 }
 
-export function setRun(run: RunResult): void {
-  syncFromDisk();
-  runCache.set(run.id, run);
-  persistToDisk();
+export function listRevisions(runId: string): RunRevision[] {
+  return runStore().listRevisions(runId);
 }
 
-export function getRun(runId: string): RunResult | undefined {
-  syncFromDisk();
-  return runCache.get(runId);
+export function getRevision(runId: string, revision: number): RunRevision | undefined {
+  return runStore().getRevision(runId, revision);
 }
 
-export function listRuns(): RunResult[] {
-  syncFromDisk();
-  return sortRuns([...runCache.values()]);
+export function appendRevision(entry: NewRevision): RunRevision {
+  return runStore().appendRevision(entry);
 }
@@ -0,0 +1,45 @@
+export class RunCancelledError extends Error {
+  constructor(message = "Run cancelled") {
+    super(message);
+    this.name = "RunCancelledError";
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new RunCancelledError();
+}
+
+// Combines a caller's cancellation signal with a request timeout
+// (AbortSignal.any is not available on every runtime we deploy to)
+export function withTimeout(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  if (!signal) return timeout;
+
+  const controller = new AbortController();
+  const forward = (source: AbortSignal) => () => controller.abort(source.reason);
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal.addEventListener("abort", forward(signal), { once: true });
+    timeout.addEventListener("abort", forward(timeout), { once: true });
+  }
+  return controller.signal;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RunCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new RunCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
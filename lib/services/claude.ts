@@ -1,5 +1,14 @@
 import { z, ZodTypeAny } from "zod";
-import { ANTHROPIC_API_BASE, ANTHROPIC_KEY, ANTHROPIC_MODEL } from "@/lib/services/config";
+import { JSON_SYSTEM_PROMPT, LlmCompletion, LlmProvider, resolveLlmProvider } from "@/lib/services/llm-providers";
+import {
+  cassetteKey,
+  cassetteMode,
+  readCassetteResponse,
+  recordCassetteResponse
+} from "@/lib/services/llm-cassette";
+import { llmCacheKey, readCachedResponse, writeCachedResponse } from "@/lib/services/llm-cache";
+import { recordLlmCall, recordLlmFallback } from "@/lib/services/usage";
+import { RunCancelledError, sleep, throwIfCancelled } from "@/lib/services/cancellation";
 
 const RETRY_COUNT = 2;
 const RETRY_DELAY_MS = 15_000; // Wait between retries (rate limits are per-minute)
@@ -60,69 +69,73 @@ function parseAndValidate<TSchema extends z.ZodTypeAny>(
 
 const DEFAULT_MAX_TOKENS = 8192;
 
-// Anthropic gateway drops connections around 300s; set our timeout below that
-const FETCH_TIMEOUT_MS = 240_000;
-
-async function callAnthropic(prompt: string, maxTokens = DEFAULT_MAX_TOKENS): Promise<string> {
-  if (!ANTHROPIC_KEY) {
-    throw new Error("ANTHROPIC_API_KEY is not configured.");
-  }
-
-  const response = await fetch(`${ANTHROPIC_API_BASE}/messages`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": ANTHROPIC_KEY,
-      "anthropic-version": "2023-06-01"
-    },
-    body: JSON.stringify({
-      model: ANTHROPIC_MODEL,
-      max_tokens: maxTokens,
-      system:
-        "You are a strict JSON API. Return only valid JSON. Do not include markdown fences, comments, or prose.",
-      messages: [{ role: "user", content: prompt }]
-    }),
-    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Anthropic API error ${response.status}: ${text.slice(0, 400)}`);
-  }
-
-  const data = (await response.json()) as {
-    content?: Array<{ type: string; text?: string }>;
-    stop_reason?: string;
-  };
-
-  const text = data.content?.find((item) => item.type === "text")?.text;
-  if (!text) {
-    throw new Error("Anthropic response did not contain text content.");
-  }
-
-  // Warn if output was truncated by max_tokens
-  if (data.stop_reason === "max_tokens") {
-    console.warn(`[anthropic] response truncated at max_tokens=${maxTokens}`);
-  }
-
-  return text;
-}
+export type ClaudeJsonOptions = {
+  retries?: number;
+  // Names the call in logs, cache metadata and cassette keys
+  label?: string;
+  maxTokens?: number;
+  signal?: AbortSignal;
+};
 
 export async function callClaudeJson<TSchema extends z.ZodTypeAny>(
   prompt: string,
   schema: TSchema,
   fallback: () => z.output<TSchema>,
-  retries = RETRY_COUNT,
-  label = "unknown",
-  maxTokens = DEFAULT_MAX_TOKENS
+  options: ClaudeJsonOptions = {}
 ): Promise<z.output<TSchema>> {
+  const { retries = RETRY_COUNT, label = "unknown", maxTokens = DEFAULT_MAX_TOKENS, signal } = options;
+  throwIfCancelled(signal);
+
   const safeFallback = (): z.output<TSchema> => {
+    recordLlmFallback();
     const value = fallback();
     return schema.parse(value);
   };
 
-  if (!ANTHROPIC_KEY) {
-    console.warn(`[${label}] ANTHROPIC_API_KEY not set, using fallback`);
+  // Replay mode serves recorded responses and never touches the network
+  if (cassetteMode() === "replay") {
+    const recorded = readCassetteResponse(label, prompt);
+    if (recorded === undefined) {
+      throw new Error(`No cassette entry for ${cassetteKey(label, prompt)} (replay mode)`);
+    }
+    return parseAndValidate(extractJsonCandidate(recorded), schema);
+  }
+
+  // A misspelled LLM_PROVIDER is a configuration problem like a missing key:
+  // stages fall back instead of failing
+  let provider: LlmProvider;
+  try {
+    provider = resolveLlmProvider();
+  } catch (error) {
+    console.warn(`[${label}] ${errorMessage(error)} Using fallback.`);
+    return safeFallback();
+  }
+  const cacheKey = llmCacheKey({
+    provider: provider.id,
+    model: provider.model,
+    prompt,
+    schema: schemaAsJson(schema),
+    maxTokens
+  });
+
+  const cached = await readCachedResponse(cacheKey);
+  if (cached !== undefined) {
+    try {
+      const validated = parseAndValidate(extractJsonCandidate(cached), schema);
+      console.log(`[${label}] cache hit (${cacheKey.slice(0, 12)})`);
+      recordLlmCall({ provider: provider.id, model: provider.model, attempt: 0, latencyMs: 0, cached: true });
+      if (cassetteMode() === "record") {
+        recordCassetteResponse(label, prompt, cached, { provider: provider.id, model: provider.model });
+      }
+      return validated;
+    } catch (error) {
+      console.warn(`[${label}] ignoring invalid cache entry: ${errorMessage(error)}`);
+    }
+  }
+
+  const missingConfig = provider.missingConfig();
+  if (missingConfig) {
+    console.warn(`[${label}] ${missingConfig}, using fallback`);
     return safeFallback();
   }
 
@@ -130,11 +143,33 @@ export async function callClaudeJson<TSchema extends z.ZodTypeAny>(
   const promptChars = prompt.length;
 
   for (let attempt = 0; attempt <= retries; attempt += 1) {
+    throwIfCancelled(signal);
+    const startedAt = Date.now();
+    let completion: LlmCompletion | undefined;
     try {
-      const raw = await callAnthropic(prompt, maxTokens);
-      const candidate = extractJsonCandidate(raw);
-      return parseAndValidate(candidate, schema);
+      completion = await provider.complete({ system: JSON_SYSTEM_PROMPT, prompt, maxTokens, signal });
+      // Tokens are billed even when the response later fails validation
+      recordLlmCall({
+        provider: provider.id,
+        model: provider.model,
+        attempt,
+        latencyMs: Date.now() - startedAt,
+        tokens: completion.usage
+      });
+      const candidate = extractJsonCandidate(completion.text);
+      const validated = parseAndValidate(candidate, schema);
+      // Only responses that validated are cached, so a bad completion is retried next run
+      await writeCachedResponse(cacheKey, completion.text, { label, provider: provider.id, model: provider.model });
+      if (cassetteMode() === "record") {
+        recordCassetteResponse(label, prompt, completion.text, { provider: provider.id, model: provider.model });
+      }
+      return validated;
     } catch (error) {
+      if (!completion) {
+        recordLlmCall({ provider: provider.id, model: provider.model, attempt, latencyMs: Date.now() - startedAt });
+      }
+      // Cancellation is not a failure: skip retries and the fallback entirely
+      if (signal?.aborted) throw new RunCancelledError();
       lastError = error;
       const errMsg = errorMessage(error);
       console.warn(
@@ -146,7 +181,7 @@ export async function callClaudeJson<TSchema extends z.ZodTypeAny>(
       if (attempt < retries && shouldBackoff) {
         const delay = RETRY_DELAY_MS * (attempt + 1);
         console.warn(`[${label}] waiting ${delay / 1000}s before retry...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await sleep(delay, signal);
       }
     }
   }
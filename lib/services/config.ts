@@ -14,13 +14,53 @@ export const LIMITS = {
   quickTopFiles: 10,
   deepTopFiles: 30,
   maxTreeItems: 6_000,
-  maxContentsFiles: 80
+  maxContentsFiles: 80,
+  // Source files fetched through the Content API to build the import graph.
+  // Only used with a GitHub token: unauthenticated clients get 60 requests an hour.
+  importGraphFetchFiles: 60
 };
 
 export const ANTHROPIC_MODEL = process.env.ANTHROPIC_MODEL ?? "claude-sonnet-4-5-20250929";
 export const ANTHROPIC_API_BASE = process.env.ANTHROPIC_API_BASE ?? "https://api.anthropic.com/v1";
 export const ANTHROPIC_KEY = process.env.ANTHROPIC_API_KEY;
+
+// LLM provider selection: "anthropic" (default), "openai" (any OpenAI-compatible
+// chat completions endpoint) or "local" (Ollama-style HTTP server)
+export const LLM_PROVIDER = process.env.LLM_PROVIDER ?? "anthropic";
+export const OPENAI_MODEL = process.env.OPENAI_MODEL ?? "gpt-4o";
+export const OPENAI_API_BASE = process.env.OPENAI_API_BASE ?? "https://api.openai.com/v1";
+export const OPENAI_KEY = process.env.OPENAI_API_KEY;
+export const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL ?? "llama3.1";
+export const LOCAL_LLM_BASE = process.env.LOCAL_LLM_BASE ?? "http://localhost:11434";
+// Cassette mode: "record" stores every LLM response keyed by label + prompt hash,
+// "replay" serves them back without touching the network
+export const LLM_CASSETTE = {
+  mode: process.env.LLM_CASSETTE_MODE ?? "off",
+  path: process.env.LLM_CASSETTE_PATH ?? ".runs/llm-cassette.json"
+};
+// Content-addressed response cache shared across runs; LLM_CACHE=off disables it
+export const LLM_CACHE = {
+  enabled: process.env.LLM_CACHE !== "off",
+  ttlHours: readInt("LLM_CACHE_TTL_HOURS", 168)
+};
+
+// Where finished runs are kept: "json" (default, one file in the OS temp dir,
+// last 50 runs) or "sqlite" (.runs/runs.sqlite). RUN_STORE_PATH overrides the file.
+export const RUN_STORE = {
+  adapter: process.env.RUN_STORE ?? "json",
+  path: process.env.RUN_STORE_PATH || undefined
+};
+
 export const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+export const GITLAB_TOKEN = process.env.GITLAB_TOKEN;
+export const BITBUCKET_TOKEN = process.env.BITBUCKET_TOKEN;
+
+// Hostnames of self-hosted GitLab instances (comma separated), so their URLs
+// are recognised as GitLab rather than plain git remotes
+export const GITLAB_HOSTS = (process.env.GITLAB_HOSTS ?? "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
 
 export const HARNESS = {
   github: {
@@ -30,6 +70,29 @@ export const HARNESS = {
   enableBuildExecution: false,
   ingest: {
     maxFileSizeBytes: readInt("HARNESS_MAX_FILE_SIZE", 120_000),
-    maxBinarySizeBytes: readInt("HARNESS_MAX_BINARY_SIZE", 0)
+    maxBinarySizeBytes: readInt("HARNESS_MAX_BINARY_SIZE", 0),
+    // Source files parsed for the import graph that ranks source samples
+    importGraphMaxFiles: readInt("HARNESS_IMPORT_GRAPH_MAX_FILES", 2_000),
+    // Oversized source files up to this size are read for a symbol outline
+    maxOutlineSourceBytes: readInt("HARNESS_MAX_OUTLINE_SOURCE", 2 * 1024 * 1024)
+  },
+  stack: {
+    // Modules (comma separated, relative to the working directory) whose
+    // exported detectors are registered alongside the built-in ones
+    detectorModules: (process.env.HARNESS_STACK_DETECTORS ?? "")
+      .split(",")
+      .map((path) => path.trim())
+      .filter(Boolean)
+  },
+  // Commits of history fetched on each side of a commit-range run, so the
+  // merge base of base and head is reachable from a shallow clone
+  delta: {
+    historyDepth: readInt("HARNESS_DELTA_HISTORY_DEPTH", 200)
+  },
+  archive: {
+    maxUploadBytes: readInt("HARNESS_ARCHIVE_MAX_UPLOAD", 100 * 1024 * 1024),
+    maxExtractedBytes: readInt("HARNESS_ARCHIVE_MAX_EXTRACTED", 500 * 1024 * 1024),
+    maxEntries: readInt("HARNESS_ARCHIVE_MAX_ENTRIES", 20_000),
+    maxCompressionRatio: readInt("HARNESS_ARCHIVE_MAX_RATIO", 100)
   }
 } as const;
@@ -0,0 +1,439 @@
+import { basename, dirname, extname } from "node:path";
+import { simpleGit, SimpleGit } from "simple-git";
+import {
+  ArchitectureModel,
+  ChangedFile,
+  ChangedFileStatus,
+  ChangePlan,
+  MODEL_VERSION,
+  RepoDelta,
+  RepoSnapshot
+} from "@/lib/models";
+import { throwIfCancelled } from "@/lib/services/cancellation";
+
+// Local ref the fetch stage stores the base commit under, so ingest can find
+// it again without re-resolving the remote ref
+export const DELTA_BASE_REF = "refs/mimickit/base";
+
+// ---------------------------------------------------------------------------
+// Git: fetch the base, diff base..head
+// ---------------------------------------------------------------------------
+
+// Fetches `baseRef` into DELTA_BASE_REF and deepens both histories so their
+// merge base is usually reachable; returns the base commit SHA
+export async function fetchDeltaBase(git: SimpleGit, baseRef: string, depth: number): Promise<string> {
+  await git.fetch(["--depth", String(depth), "origin", `+${baseRef}:${DELTA_BASE_REF}`]);
+  await git.fetch(["--deepen", String(depth), "origin"]);
+  return (await git.revparse([DELTA_BASE_REF])).trim();
+}
+
+function parseStatus(code: string): ChangedFileStatus {
+  if (code.startsWith("A") || code.startsWith("C")) return "added";
+  if (code.startsWith("D")) return "deleted";
+  if (code.startsWith("R")) return "renamed";
+  return "modified";
+}
+
+// `git diff --name-status -z`: status, path and, for renames and copies, the new path
+function parseNameStatus(raw: string): ChangedFile[] {
+  const tokens = raw.split("\0");
+  const files: ChangedFile[] = [];
+  for (let i = 0; i < tokens.length - 1;) {
+    const code = tokens[i++];
+    if (!code) continue;
+    if (code.startsWith("R") || code.startsWith("C")) {
+      const previousPath = tokens[i++];
+      const path = tokens[i++];
+      files.push({ path, status: parseStatus(code), ...(code.startsWith("R") ? { previousPath } : {}), additions: 0, deletions: 0 });
+    } else {
+      files.push({ path: tokens[i++], status: parseStatus(code), additions: 0, deletions: 0 });
+    }
+  }
+  return files;
+}
+
+// `git diff --numstat -z`: "adds\tdels\tpath", or "adds\tdels\t" then old and
+// new path as separate tokens for renames. Binary files report "-".
+function parseNumstat(raw: string): Map<string, { additions: number; deletions: number }> {
+  const tokens = raw.split("\0");
+  const counts = new Map<string, { additions: number; deletions: number }>();
+  for (let i = 0; i < tokens.length;) {
+    const token = tokens[i++];
+    if (!token) continue;
+    const [adds, dels, path] = token.split("\t");
+    let target = path;
+    if (!target) {
+      // Skip the old path; counts are keyed by the new one
+      target = tokens[i + 1];
+      i += 2;
+    }
+    counts.set(target, { additions: Number(adds) || 0, deletions: Number(dels) || 0 });
+  }
+  return counts;
+}
+
+async function showFile(git: SimpleGit, sha: string, path: string): Promise<string> {
+  return git.show([`${sha}:${path}`]).catch(() => "");
+}
+
+function dependencyEntries(manifest: string): string[] {
+  try {
+    const parsed = JSON.parse(manifest) as Record<string, Record<string, string> | undefined>;
+    return ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"]
+      .flatMap((field) => Object.entries(parsed[field] ?? {}).map(([name, range]) => `${name}@${range}`));
+  } catch {
+    return [];
+  }
+}
+
+function envKeys(text: string): string[] {
+  return [...text.matchAll(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/gm)].map((match) => match[1]);
+}
+
+function diffEntries(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: [...afterSet].filter((item) => !beforeSet.has(item)).sort(),
+    removed: [...beforeSet].filter((item) => !afterSet.has(item)).sort()
+  };
+}
+
+const ENV_TEMPLATES = new Set([".env.example", ".env.sample", ".env.template"]);
+
+// Compares `baseRev` with HEAD of the workspace. The diff starts at the merge
+// base, like a pull request, so commits that only landed on the base are not
+// reported as removals.
+export async function collectDelta(
+  workspacePath: string,
+  baseRef: string,
+  baseRev: string,
+  signal?: AbortSignal
+): Promise<RepoDelta> {
+  const git = simpleGit(workspacePath, signal ? { abort: signal } : undefined);
+  const resolve = async (rev: string): Promise<string> => {
+    try {
+      return (await git.revparse(["--verify", `${rev}^{commit}`])).trim();
+    } catch {
+      throwIfCancelled(signal);
+      throw new Error(`Base ref "${baseRef}" was not found in the repository`);
+    }
+  };
+
+  const baseSha = await resolve(baseRev);
+  const headSha = (await git.revparse(["HEAD"])).trim();
+  const mergeBase = await git.raw(["merge-base", baseSha, headSha]).then((out) => out.trim(), () => "");
+  const fromSha = mergeBase || baseSha;
+
+  const [nameStatus, numstat] = await Promise.all([
+    git.raw(["diff", "--name-status", "-z", "-M", fromSha, headSha]),
+    git.raw(["diff", "--numstat", "-z", "-M", fromSha, headSha])
+  ]);
+  const counts = parseNumstat(numstat);
+  const files = parseNameStatus(nameStatus).map((file) => ({ ...file, ...counts.get(file.path) }));
+
+  const dependencies = { added: [] as string[], removed: [] as string[] };
+  const envVars = { added: [] as string[], removed: [] as string[] };
+  for (const file of files) {
+    const name = basename(file.path);
+    const target = name === "package.json" ? dependencies : ENV_TEMPLATES.has(name) ? envVars : undefined;
+    if (!target) continue;
+    const read = target === dependencies ? dependencyEntries : envKeys;
+    const before = file.status === "added" ? "" : await showFile(git, fromSha, file.previousPath ?? file.path);
+    const after = file.status === "deleted" ? "" : await showFile(git, headSha, file.path);
+    const diff = diffEntries(read(before), read(after));
+    target.added.push(...diff.added);
+    target.removed.push(...diff.removed);
+  }
+
+  return { baseRef, baseSha, headSha, fromSha, files, dependencies, envVars };
+}
+
+// ---------------------------------------------------------------------------
+// Context selection: what a reviewer opens next to each changed file
+// ---------------------------------------------------------------------------
+
+const MANIFESTS = new Set([
+  "package.json", "go.mod", "Cargo.toml", "pyproject.toml", "requirements.txt",
+  "pom.xml", "build.gradle", "build.gradle.kts", "Gemfile", "composer.json"
+]);
+
+const MAX_RELATED_PER_FILE = 2;
+
+function isTestPath(path: string): boolean {
+  return /(^|\/)(__tests__|tests?|spec)\//.test(path) || /\.(test|spec)\.[^/]+$/.test(path) || /_test\.go$/.test(path);
+}
+
+// "src/user.service.test.ts" and "src/user.service.ts" share the stem "user.service"
+function fileStem(path: string): string {
+  return basename(path, extname(path)).replace(/([._-](test|spec))$/, "");
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+  const left = a.split("/");
+  const right = b.split("/");
+  let shared = 0;
+  while (shared < left.length && left[shared] === right[shared]) shared++;
+  return shared;
+}
+
+export function selectDeltaContext(changed: string[], available: string[]): Array<{ path: string; reason: string }> {
+  const changedSet = new Set(changed);
+  const availableSet = new Set(available);
+  const byStem = new Map<string, string[]>();
+  for (const path of available) {
+    const stem = fileStem(path);
+    const paths = byStem.get(stem);
+    if (paths) paths.push(path);
+    else byStem.set(stem, [path]);
+  }
+
+  const context = new Map<string, string>();
+  const add = (path: string, reason: string): void => {
+    if (!changedSet.has(path) && !context.has(path)) context.set(path, reason);
+  };
+
+  for (const path of changed) {
+    const test = isTestPath(path);
+    // Closest files first, so "index.ts" pairs with its own test and not every index.test.ts
+    const related = (byStem.get(fileStem(path)) ?? [])
+      .filter((candidate) => candidate !== path && isTestPath(candidate) !== test)
+      .sort((a, b) => sharedPrefixLength(b, path) - sharedPrefixLength(a, path))
+      .slice(0, MAX_RELATED_PER_FILE);
+    for (const candidate of related) {
+      add(candidate, test ? `implementation under test (${path})` : `related test (${path})`);
+    }
+
+    // Closest manifest above the file, usually the package it belongs to
+    for (let dir = dirname(path); ; dir = dirname(dir)) {
+      const manifest = [...MANIFESTS].map((name) => (dir === "." ? name : `${dir}/${name}`)).find((file) => availableSet.has(file));
+      if (manifest) {
+        add(manifest, `nearest manifest (${path})`);
+        break;
+      }
+      if (dir === ".") break;
+    }
+  }
+
+  return [...context].map(([path, reason]) => ({ path, reason }));
+}
+
+// ---------------------------------------------------------------------------
+// Change plan
+// ---------------------------------------------------------------------------
+
+// Words too common in component names to tie a file to one component
+const GENERIC_TOKENS = new Set([
+  "the", "and", "for", "with", "src", "lib", "layer", "module", "system",
+  "service", "component", "index", "main", "utils", "helpers", "app"
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .map((token) => token.replace(/(?<=...)s$/, ""))
+    .filter((token) => token.length >= 3 && !GENERIC_TOKENS.has(token));
+}
+
+function routeForFile(path: string): { route: string; api: boolean } | undefined {
+  const normalize = (raw: string): string =>
+    `/${raw.split("/").filter((segment) => segment && !/^\(.*\)$/.test(segment) && !segment.startsWith("@")).join("/")}`;
+
+  const app = /^(?:src\/)?app\/(?:(.*)\/)?(page|route)\.(tsx|ts|jsx|js|mdx)$/.exec(path);
+  if (app) return { route: normalize(app[1] ?? ""), api: app[2] === "route" };
+
+  const pages = /^(?:src\/)?pages\/(.+)\.(tsx|ts|jsx|js)$/.exec(path);
+  if (pages && !basename(pages[1]).startsWith("_")) {
+    return { route: normalize(pages[1].replace(/(^|\/)index$/, "")), api: pages[1].startsWith("api/") };
+  }
+  return undefined;
+}
+
+const CONTRACT_PATTERNS: Array<[RegExp, string]> = [
+  [/(^|\/)schema\.prisma$/, "database schema"],
+  [/(^|\/)(migrations?|migrate)\//, "database migration"],
+  [/\.sql$/, "SQL"],
+  [/\.proto$/, "protobuf definition"],
+  [/\.(graphql|gql)$/, "GraphQL schema"],
+  [/(^|\/)(openapi|swagger)[^/]*\.(ya?ml|json)$/, "OpenAPI spec"],
+  [/\.d\.ts$/, "type declarations"],
+  [/(^|\/)(models?|schemas?|types|contracts|dto)(\/|\.[jt]sx?$)/, "data model"],
+  [/(^|\/)(app|pages)\/api\/|(^|\/)route\.(ts|js)$/, "API handler"]
+];
+
+function contractKind(path: string): string | undefined {
+  return CONTRACT_PATTERNS.find(([pattern]) => pattern.test(path))?.[1];
+}
+
+const LOCKFILES = new Set(["package-lock.json", "yarn.lock", "pnpm-lock.yaml", "Cargo.lock", "go.sum", "poetry.lock", "Gemfile.lock", "composer.lock"]);
+const BUILD_CONFIG = /(^|\/)(tsconfig[^/]*\.json|next\.config\.[cm]?[jt]s|vite\.config\.[cm]?[jt]s|webpack\.config\.[cm]?js|babel\.config\.[cm]?js|Makefile)$/;
+
+function listPaths(files: ChangedFile[]): string {
+  return files.map((file) => file.path).join(", ");
+}
+
+function buildStepsForDelta(delta: RepoDelta): string[] {
+  const steps: string[] = [];
+  const live = delta.files.filter((file) => file.status !== "deleted");
+  const { dependencies, envVars } = delta;
+
+  if (dependencies.added.length || dependencies.removed.length) {
+    const parts = [
+      dependencies.added.length ? `add ${dependencies.added.join(", ")}` : "",
+      dependencies.removed.length ? `remove ${dependencies.removed.join(", ")}` : ""
+    ].filter(Boolean);
+    steps.push(`Install updated dependencies: ${parts.join("; ")}`);
+  } else {
+    const manifests = delta.files.filter((file) => MANIFESTS.has(basename(file.path)) || LOCKFILES.has(basename(file.path)));
+    if (manifests.length) steps.push(`Reinstall dependencies (${listPaths(manifests)} changed)`);
+  }
+
+  const migrations = live.filter((file) => file.status === "added" && contractKind(file.path) === "database migration");
+  if (migrations.length) steps.push(`Apply new database migrations: ${listPaths(migrations)}`);
+
+  const prisma = live.filter((file) => basename(file.path) === "schema.prisma");
+  if (prisma.length) steps.push(`Regenerate the Prisma client (${listPaths(prisma)} changed)`);
+
+  if (envVars.added.length) steps.push(`Set new environment variables: ${envVars.added.join(", ")}`);
+  if (envVars.removed.length) steps.push(`Drop environment variables no longer used: ${envVars.removed.join(", ")}`);
+
+  const containers = delta.files.filter((file) => /(^|\/)(Dockerfile[^/]*|docker-compose[^/]*\.ya?ml|compose\.ya?ml)$/.test(file.path));
+  if (containers.length) steps.push(`Rebuild container images (${listPaths(containers)} changed)`);
+
+  const ci = delta.files.filter((file) => /^\.github\/workflows\/|^\.gitlab-ci\.yml$|^\.circleci\/|^Jenkinsfile$|^bitbucket-pipelines\.yml$/.test(file.path));
+  if (ci.length) steps.push(`Review CI pipeline changes: ${listPaths(ci)}`);
+
+  const config = delta.files.filter((file) => BUILD_CONFIG.test(file.path));
+  if (config.length) steps.push(`Check build configuration changes: ${listPaths(config)}`);
+
+  if (!steps.length) steps.push("No build or setup changes; the existing build steps still apply");
+  return steps;
+}
+
+// Files are tied to architecture components by shared words between path
+// segments and the component's id, name and tech. It is a heuristic: files
+// nothing matches are reported rather than guessed at.
+function componentsForDelta(delta: RepoDelta, architecture: ArchitectureModel): Pick<ChangePlan, "components" | "unmappedFiles"> {
+  const componentTokens = architecture.components.map((component) => ({
+    component,
+    tokens: new Set(tokenize([component.id, component.name, ...component.tech].join(" ")))
+  }));
+
+  const touched = new Map<string, string[]>();
+  const unmappedFiles: string[] = [];
+  for (const file of delta.files) {
+    const pathTokens = tokenize(file.path);
+    const matches = componentTokens.filter(({ tokens }) => pathTokens.some((token) => tokens.has(token)));
+    if (!matches.length) unmappedFiles.push(file.path);
+    for (const { component } of matches) {
+      touched.set(component.id, [...(touched.get(component.id) ?? []), file.path]);
+    }
+  }
+
+  const components = architecture.components
+    .filter((component) => touched.has(component.id))
+    .map((component) => ({ id: component.id, name: component.name, files: touched.get(component.id) ?? [] }));
+  return { components, unmappedFiles };
+}
+
+function routesForDelta(delta: RepoDelta): ChangePlan["routes"] {
+  const routes: ChangePlan["routes"] = { added: [], changed: [], removed: [] };
+  for (const file of delta.files) {
+    const match = routeForFile(file.path);
+    if (!match) continue;
+    const label = match.api ? `${match.route} (API)` : match.route;
+    if (file.status === "added") routes.added.push(label);
+    else if (file.status === "deleted") routes.removed.push(label);
+    else routes.changed.push(label);
+
+    // A renamed route file moves the route
+    const previous = file.previousPath ? routeForFile(file.previousPath) : undefined;
+    if (previous && previous.route !== match.route) {
+      routes.removed.push(previous.api ? `${previous.route} (API)` : previous.route);
+    }
+  }
+  return routes;
+}
+
+function renderChangePlanMarkdown(plan: Omit<ChangePlan, "prompt">, delta: RepoDelta): string {
+  const bullets = (items: string[], empty: string): string[] => (items.length ? items.map((item) => `- ${item}`) : [`- ${empty}`]);
+  const routeLines = [
+    ...plan.routes.added.map((route) => `- Added: \`${route}\``),
+    ...plan.routes.changed.map((route) => `- Changed: \`${route}\``),
+    ...plan.routes.removed.map((route) => `- Removed: \`${route}\``)
+  ];
+
+  return [
+    `# Change Summary: ${plan.baseRef}...${plan.headRef}`,
+    "",
+    `${plan.stats.files} files changed (+${plan.stats.additions} / -${plan.stats.deletions}), ` +
+      `diffed from ${delta.fromSha.slice(0, 12)} to ${delta.headSha.slice(0, 12)}.`,
+    "",
+    "## Architecture Components Touched",
+    ...bullets(
+      plan.components.map((component) => `**${component.name}** (\`${component.id}\`): ${component.files.map((file) => `\`${file}\``).join(", ")}`),
+      "No architecture component matched the changed files"
+    ),
+    ...(plan.unmappedFiles.length
+      ? ["", "## Files Outside Known Components", ...plan.unmappedFiles.map((file) => `- \`${file}\``)]
+      : []),
+    "",
+    "## Routes",
+    ...(routeLines.length ? routeLines : ["- No route files changed"]),
+    "",
+    "## Contracts and Interfaces",
+    ...bullets(plan.contracts.map((contract) => `\`${contract.path}\` (${contract.kind}, ${contract.status})`), "No contract files changed"),
+    "",
+    "## Updated Build Steps",
+    ...plan.buildSteps.map((step, index) => `${index + 1}. ${step}`),
+    "",
+    "## Changed Files",
+    ...delta.files.map((file) =>
+      `- \`${file.path}\` (${file.status}${file.previousPath ? ` from \`${file.previousPath}\`` : ""}, +${file.additions}/-${file.deletions})`),
+    ""
+  ].join("\n");
+}
+
+export function buildChangePlan(snapshot: RepoSnapshot, architecture: ArchitectureModel): ChangePlan {
+  const { delta } = snapshot;
+  if (!delta) {
+    throw new Error("Change plans need a snapshot from a commit-range run");
+  }
+
+  const plan: Omit<ChangePlan, "prompt"> = {
+    version: MODEL_VERSION,
+    baseRef: delta.baseRef,
+    headRef: snapshot.repo.branch,
+    stats: {
+      files: delta.files.length,
+      additions: delta.files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: delta.files.reduce((sum, file) => sum + file.deletions, 0)
+    },
+    ...componentsForDelta(delta, architecture),
+    routes: routesForDelta(delta),
+    contracts: delta.files.flatMap((file) => {
+      const kind = contractKind(file.path);
+      return kind ? [{ path: file.path, status: file.status, kind }] : [];
+    }),
+    buildSteps: buildStepsForDelta(delta)
+  };
+  return { ...plan, prompt: renderChangePlanMarkdown(plan, delta) };
+}
+
+// Re-bases a delta onto a scoped ingest root: files outside `prefix` are
+// dropped and the rest made relative to it
+export function scopeDelta(delta: RepoDelta, prefix: string, includes: (path: string) => boolean): RepoDelta {
+  const base = prefix && prefix !== "." ? `${prefix}/` : "";
+  const files = delta.files
+    .filter((file) => file.path.startsWith(base))
+    .map(({ previousPath, ...file }) => ({
+      ...file,
+      path: file.path.slice(base.length),
+      // A file moved in from outside the scope shows up as renamed without an origin
+      ...(previousPath?.startsWith(base) ? { previousPath: previousPath.slice(base.length) } : {})
+    }))
+    .filter((file) => includes(file.path));
+  return { ...delta, files };
+}
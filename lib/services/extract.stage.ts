@@ -0,0 +1,26 @@
+import { extractArtifactSchema, ExtractArtifact, HarnessContext } from "@/lib/models";
+import { HARNESS } from "@/lib/services/config";
+import { extractArchive } from "@/lib/services/archive";
+import { writeArtifact } from "@/lib/services/workspace";
+
+export async function runExtractStage(ctx: HarnessContext): Promise<ExtractArtifact> {
+  if (ctx.source.type !== "archive") {
+    throw new Error("extract stage only applies to archive sources");
+  }
+
+  const summary = await extractArchive(ctx.source.archivePath, ctx.workspacePath, HARNESS.archive, ctx.signal);
+
+  const artifact: ExtractArtifact = {
+    runId: ctx.runId,
+    archivePath: ctx.source.archivePath,
+    ...summary,
+    workspacePath: ctx.workspacePath
+  };
+
+  // Validate before persisting
+  extractArtifactSchema.parse(artifact);
+
+  await writeArtifact(ctx.artifactsPath, "extract.json", artifact);
+
+  return artifact;
+}
@@ -2,22 +2,30 @@ import { simpleGit, SimpleGit } from "simple-git";
 import { fetchArtifactSchema, FetchArtifact, HarnessContext } from "@/lib/models";
 import { HARNESS } from "@/lib/services/config";
 import { writeArtifact } from "@/lib/services/workspace";
+import { throwIfCancelled } from "@/lib/services/cancellation";
+import { isRemoteSource } from "@/lib/services/sources";
+import { fetchDeltaBase } from "@/lib/services/delta";
 
 export async function runFetchStage(ctx: HarnessContext): Promise<FetchArtifact> {
-  if (ctx.source.type !== "github") {
-    throw new Error("fetch stage only applies to GitHub sources");
+  if (!isRemoteSource(ctx.source)) {
+    throw new Error("fetch stage only applies to remote git sources");
   }
 
-  const git: SimpleGit = simpleGit();
+  // simple-git kills the spawned git process when the signal aborts
+  const gitOptions = ctx.signal ? { abort: ctx.signal } : undefined;
+  const git: SimpleGit = gitOptions ? simpleGit(gitOptions) : simpleGit();
   const depth = HARNESS.github.shallowCloneDepth;
   const cloneArgs = [`--depth=${depth}`, "--single-branch"];
   if (ctx.source.ref) {
     cloneArgs.push("--branch", ctx.source.ref);
   }
 
-  await git.clone(ctx.source.repoUrl, ctx.workspacePath, cloneArgs);
+  await git.clone(ctx.source.repoUrl, ctx.workspacePath, cloneArgs).catch((error) => {
+    throwIfCancelled(ctx.signal);
+    throw error;
+  });
 
-  const localGit = simpleGit(ctx.workspacePath);
+  const localGit = simpleGit(ctx.workspacePath, gitOptions);
 
   if (ctx.source.ref) {
     await localGit.checkout(ctx.source.ref);
@@ -31,11 +39,21 @@ export async function runFetchStage(ctx: HarnessContext): Promise<FetchArtifact>
 
   const resolvedRef = ctx.source.ref || (await localGit.revparse(["--abbrev-ref", "HEAD"])).trim();
 
+  // Commit-range runs need the base commit and enough history to find the merge base
+  const { baseRef } = ctx.source;
+  const baseSha = baseRef
+    ? await fetchDeltaBase(localGit, baseRef, HARNESS.delta.historyDepth).catch((error) => {
+      throwIfCancelled(ctx.signal);
+      throw new Error(`Could not fetch base ref "${baseRef}": ${error instanceof Error ? error.message : String(error)}`);
+    })
+    : undefined;
+
   const artifact: FetchArtifact = {
     runId: ctx.runId,
     repoUrl: ctx.source.repoUrl,
     ref: resolvedRef,
     commitSha,
+    ...(baseRef ? { baseRef, baseSha } : {}),
     workspacePath: ctx.workspacePath
   };
 
@@ -0,0 +1,90 @@
+import { GeneratedFiles, GeneratedKind } from "@/lib/models";
+
+// ---------------------------------------------------------------------------
+// Generated, minified and vendored files
+// ---------------------------------------------------------------------------
+//
+// Codegen output, bundles and vendored dependencies are large and rarely
+// imported by hand, so they used to win size-based sampling and spend the
+// snapshot token budget on code nobody wrote. Ingest counts them but leaves
+// them out of the sample.
+
+export type GeneratedFlag = {
+  kind: GeneratedKind;
+  signal: string;
+};
+
+// Flagged files listed in the snapshot; the rest are only counted
+const MAX_LISTED_FLAGGED = 100;
+
+const PATH_RULES: Array<{ pattern: RegExp; kind: GeneratedKind; signal: string }> = [
+  { pattern: /(?:^|\/)(?:vendor|vendors|third_party|third-party|bower_components)\//, kind: "vendored", signal: "vendored directory" },
+  { pattern: /\.min\.[a-z0-9]+$/i, kind: "minified", signal: "*.min.* file" },
+  { pattern: /\.pb\.(?:go|cc|h|swift)$|_pb2(?:_grpc)?\.pyi?$|_(?:grpc_)?pb\.(?:js|d\.ts)$|\.pb\.gw\.go$/, kind: "generated", signal: "protobuf output" },
+  { pattern: /(?:^|\/)__generated__\/|(?:^|\/)gql\/(?:graphql|gql|fragment-masking)\.ts$|\.graphql\.[jt]s$/, kind: "generated", signal: "GraphQL codegen output" },
+  { pattern: /\.(?:generated|gen)\.[a-z]+$|\.g\.dart$|\.freezed\.dart$|_gen\.go$/, kind: "generated", signal: "generated file name" },
+  { pattern: /(?:^|\/)generated\//, kind: "generated", signal: "generated/ directory" }
+];
+
+export function classifyGeneratedPath(path: string): GeneratedFlag | undefined {
+  const rule = PATH_RULES.find((candidate) => candidate.pattern.test(path));
+  return rule ? { kind: rule.kind, signal: rule.signal } : undefined;
+}
+
+// Only comment lines near the top count, so code that merely mentions these
+// markers (like this module) is not flagged
+const HEADER_LINES = 20;
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#|--|<!--|""")/;
+const HEADER_RULES: Array<{ pattern: RegExp; signal: string }> = [
+  { pattern: /@generated\b/, signal: "@generated header" },
+  { pattern: /\bcode generated\b.*\bdo not edit\b/i, signal: "\"Code generated ... DO NOT EDIT\" header" },
+  { pattern: /\bgenerated by the protocol buffer compiler\b/i, signal: "protobuf output" },
+  { pattern: /\b(?:auto-?generated|automatically generated)\b/i, signal: "auto-generated header" },
+  { pattern: /\bgenerated\b.*\bdo not (?:edit|modify)\b|\bdo not (?:edit|modify)\b.*\bgenerated\b/i, signal: "DO NOT EDIT header" }
+];
+
+// Minified code packs a whole bundle into a handful of lines
+const MINIFIED_MIN_LENGTH = 2_000;
+const MINIFIED_AVERAGE_LINE = 300;
+const MINIFIED_LONGEST_LINE = 5_000;
+
+export function classifyGeneratedContent(content: string): GeneratedFlag | undefined {
+  const lines = content.split("\n");
+  const header = lines.slice(0, HEADER_LINES).filter((line) => COMMENT_LINE.test(line));
+  for (const rule of HEADER_RULES) {
+    if (header.some((line) => rule.pattern.test(line))) return { kind: "generated", signal: rule.signal };
+  }
+
+  if (content.length < MINIFIED_MIN_LENGTH) return undefined;
+  const average = content.length / lines.length;
+  const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+  if (average > MINIFIED_AVERAGE_LINE || (longest > MINIFIED_LONGEST_LINE && longest > content.length / 2)) {
+    return { kind: "minified", signal: `long lines (longest ${longest} chars)` };
+  }
+  return undefined;
+}
+
+export type GeneratedTally = {
+  add: (path: string, flag: GeneratedFlag) => void;
+  has: (path: string) => boolean;
+  summary: () => GeneratedFiles;
+};
+
+export function createGeneratedTally(): GeneratedTally {
+  const flagged = new Map<string, GeneratedFlag>();
+  return {
+    add(path, flag) {
+      if (!flagged.has(path)) flagged.set(path, flag);
+    },
+    has: (path) => flagged.has(path),
+    summary() {
+      const byKind: Record<string, number> = {};
+      for (const { kind } of flagged.values()) byKind[kind] = (byKind[kind] ?? 0) + 1;
+      return {
+        total: flagged.size,
+        byKind,
+        files: [...flagged].slice(0, MAX_LISTED_FLAGGED).map(([path, flag]) => ({ path, ...flag }))
+      };
+    }
+  };
+}
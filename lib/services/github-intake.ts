@@ -4,8 +4,13 @@ import {
   estimateTokens,
   isBinaryFile,
   isScriptFile,
-  safeSnippet
+  redactSecrets,
+  sanitizeTextForPrompt,
+  summarizeRedactions
 } from "@/lib/services/sanitize";
+import { goModulePath, GraphFile, prioritizeForGraph, rankingReason, rankSourceFiles } from "@/lib/services/import-graph";
+import { canOutline, fitContent } from "@/lib/services/outline";
+import { classifyGeneratedContent, classifyGeneratedPath, createGeneratedTally } from "@/lib/services/generated";
 
 type RepoRef = {
   owner: string;
@@ -36,6 +41,12 @@ const IMPORTANT_FILES = new Map<string, string>([
   ["Cargo.toml", "dependency manifest"],
   ["pom.xml", "dependency manifest"],
   ["build.gradle", "dependency manifest"],
+  ["build.gradle.kts", "dependency manifest"],
+  ["libs.versions.toml", "dependency manifest"],
+  ["Gemfile", "dependency manifest"],
+  ["composer.json", "dependency manifest"],
+  ["mix.exs", "dependency manifest"],
+  ["pubspec.yaml", "dependency manifest"],
   ["Dockerfile", "runtime manifest"],
   ["docker-compose.yml", "infra manifest"],
   ["docker-compose.yaml", "infra manifest"],
@@ -44,6 +55,20 @@ const IMPORTANT_FILES = new Map<string, string>([
   ["README.txt", "project readme"]
 ]);
 
+// .NET project files are named after the project
+const MANIFEST_SUFFIXES = [".csproj", ".fsproj"];
+
+// Android theme resources and Compose theme files carry the design tokens
+const THEME_FILE_SUFFIXES = [
+  "res/values/colors.xml",
+  "res/values/themes.xml",
+  "res/values/styles.xml",
+  "res/values-night/themes.xml",
+  "ui/theme/Color.kt",
+  "ui/theme/Theme.kt",
+  "ui/theme/Type.kt"
+];
+
 const CONFIG_FILE_SUFFIXES = [
   "tsconfig.json",
   "next.config.js",
@@ -70,7 +95,10 @@ const SOURCE_EXTENSIONS = new Set([
   "php",
   "swift",
   "scala",
-  "cs"
+  "cs",
+  "dart",
+  "ex",
+  "exs"
 ]);
 
 function resolveGitHubToken(githubToken?: string): string | undefined {
@@ -102,10 +130,11 @@ function normalizeGitHubError(status: number, text: string): Error {
   return new Error(`GitHub API error ${status}: ${text.slice(0, 300)}`);
 }
 
-async function fetchGitHubJson<T>(url: string, githubToken?: string): Promise<T> {
+async function fetchGitHubJson<T>(url: string, githubToken?: string, signal?: AbortSignal): Promise<T> {
   const response = await fetch(url, {
     headers: githubHeaders(githubToken),
-    cache: "no-store"
+    cache: "no-store",
+    signal
   });
 
   if (!response.ok) {
@@ -154,6 +183,12 @@ function reasonForPath(path: string): string | undefined {
   if (!base) return undefined;
   const exact = IMPORTANT_FILES.get(base);
   if (exact) return exact;
+  if (MANIFEST_SUFFIXES.some((suffix) => base.endsWith(suffix))) {
+    return "dependency manifest";
+  }
+  if (THEME_FILE_SUFFIXES.some((suffix) => path.endsWith(suffix))) {
+    return "theme resources";
+  }
   if (CONFIG_FILE_SUFFIXES.some((suffix) => path.endsWith(suffix))) {
     return "config signal";
   }
@@ -176,14 +211,16 @@ async function fetchFileContent(
   name: string,
   path: string,
   ref: string,
-  githubToken?: string
+  githubToken?: string,
+  signal?: AbortSignal
 ): Promise<{ content: string; size: number } | undefined> {
   const encodedPath = normalizedContentPath(path);
   const url = `https://api.github.com/repos/${owner}/${name}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`;
 
   const response = await fetch(url, {
     headers: githubHeaders(githubToken),
-    cache: "no-store"
+    cache: "no-store",
+    signal
   });
 
   if (!response.ok) {
@@ -201,7 +238,9 @@ async function fetchFileContent(
     return undefined;
   }
 
-  if (json.size > LIMITS.maxFileBytes) {
+  // The Content API inlines files up to 1 MB, enough to outline most oversized sources
+  const outlined = canOutline(path) && Boolean(json.content) && json.encoding === "base64";
+  if (json.size > LIMITS.maxFileBytes && !outlined) {
     return {
       size: json.size,
       content: "[file omitted due to size limit]"
@@ -233,12 +272,15 @@ export async function buildRepoSnapshot(
   repoUrl: string,
   branch: string | undefined,
   scanMode: ScanMode,
-  githubToken?: string
+  githubToken?: string,
+  signal?: AbortSignal,
+  subpath?: string
 ): Promise<RepoSnapshot> {
   const { owner, name } = parseGitHubRepoUrl(repoUrl);
   const repo = await fetchGitHubJson<GitHubRepoResponse>(
     `https://api.github.com/repos/${owner}/${name}`,
-    githubToken
+    githubToken,
+    signal
   );
 
   if (repo.private) {
@@ -255,19 +297,40 @@ export async function buildRepoSnapshot(
 
   const treeResponse = await fetchGitHubJson<{ tree: GitHubTreeItem[] }>(
     `https://api.github.com/repos/${owner}/${name}/git/trees/${encodeURIComponent(selectedBranch)}?recursive=1`,
-    githubToken
+    githubToken,
+    signal
   );
 
-  const fileTree: RepoTreeNode[] = treeResponse.tree.slice(0, LIMITS.maxTreeItems).map((item) => ({
+  // A subpath roots the snapshot at that directory; paths are re-based onto it
+  const scope = subpath?.replace(/\\/g, "/").replace(/^\.?\/+|\/+$/g, "").replace(/^\.$/, "");
+  if (scope && scope.split("/").includes("..")) {
+    throw new Error(`subpath "${subpath}" is outside the repository`);
+  }
+  const prefix = scope ? `${scope}/` : "";
+  const tree = treeResponse.tree
+    .filter((item) => item.path.startsWith(prefix))
+    .map((item) => ({ ...item, path: item.path.slice(prefix.length) }));
+  if (prefix && !tree.length) {
+    throw new Error(`subpath "${subpath}" is not a directory in the repository`);
+  }
+
+  const fileTree: RepoTreeNode[] = tree.slice(0, LIMITS.maxTreeItems).map((item) => ({
     path: item.path,
     type: item.type,
     size: item.size
   }));
 
-  const blobItems = treeResponse.tree.filter((item) => item.type === "blob");
+  const blobItems = tree.filter((item) => item.type === "blob");
+
+  // Generated, minified and vendored files are counted but never sampled
+  const generated = createGeneratedTally();
+  for (const item of blobItems) {
+    const flag = classifyGeneratedPath(item.path);
+    if (flag) generated.add(item.path, flag);
+  }
 
   const exactCandidates = blobItems
-    .filter((item) => reasonForPath(item.path))
+    .filter((item) => reasonForPath(item.path) && !generated.has(item.path))
     .map((item) => ({
       path: item.path,
       size: item.size ?? 0,
@@ -277,11 +340,14 @@ export async function buildRepoSnapshot(
   // Determine depth strategy: when the repo has fewer source files than
   // quickTopFiles, deep mode shifts to per-file depth (line-level analysis)
   // instead of broader file-count sampling.
-  const allSourceBlobs = blobItems.filter((item) => isSourceFile(item.path));
+  const allSourceBlobs = blobItems.filter((item) => isSourceFile(item.path) && !generated.has(item.path));
   const isSmallRepo = allSourceBlobs.length < LIMITS.quickTopFiles;
   const depthStrategy: DepthStrategy =
     scanMode === "deep" && isSmallRepo ? "per-file" : "file-count";
 
+  // Contents fetched for the import graph, reused when the file is selected
+  const fetchedContents = new Map<string, { content: string; size: number }>();
+
   let sourceCandidates: Array<{ path: string; size: number; reason: string }>;
   if (depthStrategy === "per-file") {
     // Small repo + deep mode: select ALL source files for per-file depth
@@ -293,13 +359,36 @@ export async function buildRepoSnapshot(
         reason: "per-file depth sample"
       }));
   } else {
-    sourceCandidates = allSourceBlobs
-      .sort((a, b) => (b.size ?? 0) - (a.size ?? 0))
+    // Every file read costs an API call, so only a small pool is parsed for
+    // the import graph, and none without a token, where the whole hourly quota
+    // is 60 requests; the other source files rank as unparsed nodes
+    const graphPool = resolveGitHubToken(githubToken) ? LIMITS.importGraphFetchFiles : 0;
+    const toRead = prioritizeForGraph(
+      allSourceBlobs.map((item) => ({ path: item.path, size: item.size ?? 0 })),
+      graphPool
+    );
+    const graphFiles: GraphFile[] = [];
+    for (const item of allSourceBlobs) {
+      const fetched = toRead.has(item.path)
+        ? await fetchFileContent(owner, name, prefix + item.path, selectedBranch, githubToken, signal)
+        : undefined;
+      if (fetched) fetchedContents.set(item.path, fetched);
+      const flag = fetched ? classifyGeneratedContent(fetched.content) : undefined;
+      if (flag) generated.add(item.path, flag);
+      graphFiles.push({ path: item.path, size: item.size ?? 0, content: fetched?.content });
+    }
+    const goMod = graphPool && blobItems.some((item) => item.path === "go.mod")
+      ? await fetchFileContent(owner, name, `${prefix}go.mod`, selectedBranch, githubToken, signal)
+      : undefined;
+    if (goMod) fetchedContents.set("go.mod", goMod);
+    const { strategy, ranked } = rankSourceFiles(graphFiles, { goModule: goModulePath(goMod?.content) });
+    sourceCandidates = ranked
+      .filter((file) => !generated.has(file.path))
       .slice(0, scanMode === "quick" ? LIMITS.quickTopFiles : LIMITS.deepTopFiles)
-      .map((item) => ({
-        path: item.path,
-        size: item.size ?? 0,
-        reason: "large source sample"
+      .map((file) => ({
+        path: file.path,
+        size: graphFiles.find((item) => item.path === file.path)?.size ?? 0,
+        reason: rankingReason(strategy, file)
       }));
   }
 
@@ -328,10 +417,18 @@ export async function buildRepoSnapshot(
       continue;
     }
 
-    const fetched = await fetchFileContent(owner, name, candidate.path, selectedBranch, githubToken);
+    const fetched = fetchedContents.get(candidate.path)
+      ?? await fetchFileContent(owner, name, prefix + candidate.path, selectedBranch, githubToken, signal);
     if (!fetched) continue;
+    const flag = isSourceFile(candidate.path) ? classifyGeneratedContent(fetched.content) : undefined;
+    if (flag) {
+      generated.add(candidate.path, flag);
+      continue;
+    }
 
-    const content = safeSnippet(fetched.content, effectiveMaxFileBytes);
+    const { content: raw, redactions } = redactSecrets(fetched.content);
+    const fitted = fitContent(candidate.path, raw, effectiveMaxFileBytes);
+    const content = sanitizeTextForPrompt(fitted.content);
     const projectedTokens = tokenEstimate + estimateTokens(content);
     if (projectedTokens > LIMITS.maxSnapshotTokens) {
       break;
@@ -344,13 +441,16 @@ export async function buildRepoSnapshot(
       size: fetched.size,
       reason: candidate.reason,
       content,
-      truncated: fetched.content !== content
+      truncated: fitted.truncated,
+      ...(Object.keys(redactions).length ? { redactions } : {}),
+      ...(fitted.outline ? { outline: true } : {})
     });
   }
 
   const languages = await fetchGitHubJson<Record<string, number>>(
     `https://api.github.com/repos/${owner}/${name}/languages`,
-    githubToken
+    githubToken,
+    signal
   );
 
   return {
@@ -375,7 +475,10 @@ export async function buildRepoSnapshot(
       selectedFiles: selectedFiles.length,
       skippedBinaryFiles,
       skippedScriptFiles,
-      tokenEstimate
+      tokenEstimate,
+      scope: scope ? [scope] : undefined,
+      redactions: summarizeRedactions(selectedFiles),
+      generated: generated.summary()
     },
     languages: buildLanguageBreakdown(languages),
     fileTree,
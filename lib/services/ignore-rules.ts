@@ -0,0 +1,178 @@
+import { readFile } from "node:fs/promises";
+import { join, posix } from "node:path";
+import ignore, { Ignore } from "ignore";
+import { z } from "zod";
+import { IngestIgnoreSummary } from "@/lib/models";
+
+// ---------------------------------------------------------------------------
+// Project configuration
+// ---------------------------------------------------------------------------
+
+export const IGNORE_FILE = ".mimekitignore";
+export const CONFIG_FILE = "mimekit.config.json";
+
+// Ignored paths listed in the snapshot; the rest are only counted
+const MAX_LISTED_IGNORED = 100;
+
+const projectConfigSchema = z.object({
+  ingest: z.object({
+    // gitignore-style patterns; when set, only matching files are ingested
+    include: z.array(z.string()).default([]),
+    exclude: z.array(z.string()).default([]),
+    // Repository-relative files or directories ingested even when ignored
+    forceInclude: z.array(z.string()).default([])
+  }).default({})
+});
+
+async function readOptional(path: string): Promise<string | undefined> {
+  return readFile(path, "utf8").catch(() => undefined);
+}
+
+type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+async function readProjectConfig(repoRoot: string): Promise<ProjectConfig | undefined> {
+  const raw = await readOptional(join(repoRoot, CONFIG_FILE));
+  if (raw === undefined) return undefined;
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = projectConfigSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${parsed.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+function normalizePath(path: string): string {
+  return posix.normalize(path.replace(/\\/g, "/")).replace(/^\.\/|\/$/g, "");
+}
+
+// ---------------------------------------------------------------------------
+// Ignore rules
+// ---------------------------------------------------------------------------
+
+// One gitignore-syntax file; its patterns are relative to the directory it sits in
+type RuleLayer = {
+  dir: string;
+  source: string;
+  matcher: Ignore;
+};
+
+export type IgnoreDecision = {
+  ignored: boolean;
+  // Rule file (or config key) that decided, when the path is ignored
+  source?: string;
+};
+
+export type IgnoreRules = {
+  // Reads the .gitignore of a directory the walk is about to enter
+  enterDir: (dir: string) => Promise<void>;
+  check: (path: string, isDirectory: boolean) => IgnoreDecision;
+  // Forced paths, and the directories leading to them, are never skipped
+  isForced: (path: string, isDirectory: boolean) => boolean;
+  summary: () => IngestIgnoreSummary;
+};
+
+function layerFor(dir: string, source: string, content: string): RuleLayer {
+  return { dir, source, matcher: ignore().add(content) };
+}
+
+// Rules that apply to a repository: .gitignore files at every level (loaded as
+// the walk enters each directory), .git/info/exclude, the project's
+// .mimekitignore, then the include and exclude globs of mimekit.config.json.
+// Later layers win, so a deeper .gitignore or .mimekitignore can re-include
+// with "!pattern" what an earlier one excluded. Paths are repository-relative.
+export async function loadIgnoreRules(repoRoot: string): Promise<IgnoreRules> {
+  const projectConfig = await readProjectConfig(repoRoot);
+  const config = (projectConfig ?? projectConfigSchema.parse({})).ingest;
+  const gitLayers = new Map<string, RuleLayer>();
+  const gitignores: string[] = [];
+
+  const infoExclude = await readOptional(join(repoRoot, ".git", "info", "exclude"));
+  const baseLayers = infoExclude?.trim() ? [layerFor("", ".git/info/exclude", infoExclude)] : [];
+  const projectIgnore = await readOptional(join(repoRoot, IGNORE_FILE));
+  const projectLayer = projectIgnore !== undefined ? layerFor("", IGNORE_FILE, projectIgnore) : undefined;
+  const exclude = config.exclude.length ? ignore().add(config.exclude) : undefined;
+  const include = config.include.length ? ignore().add(config.include) : undefined;
+  const forced = config.forceInclude.map(normalizePath).filter(Boolean);
+
+  let ignoredCount = 0;
+  const ignored: IngestIgnoreSummary["ignored"] = [];
+  const forcedPaths = new Set<string>();
+
+  function layersFor(path: string): RuleLayer[] {
+    // .gitignore files of every ancestor directory, outermost first
+    const layers = [...baseLayers];
+    const parts = path.split("/");
+    for (let depth = 0; depth < parts.length; depth++) {
+      const layer = gitLayers.get(parts.slice(0, depth).join("/"));
+      if (layer) layers.push(layer);
+    }
+    if (projectLayer) layers.push(projectLayer);
+    return layers;
+  }
+
+  function decide(path: string, isDirectory: boolean): IgnoreDecision {
+    let decision: IgnoreDecision = { ignored: false };
+    for (const layer of layersFor(path)) {
+      const local = layer.dir ? path.slice(layer.dir.length + 1) : path;
+      const result = layer.matcher.test(isDirectory ? `${local}/` : local);
+      if (result.ignored) decision = { ignored: true, source: layer.source };
+      else if (result.unignored) decision = { ignored: false };
+    }
+    if (decision.ignored) return decision;
+
+    const candidate = isDirectory ? `${path}/` : path;
+    if (exclude?.ignores(candidate)) return { ignored: true, source: `${CONFIG_FILE} exclude` };
+    // Include globs select files; directories are entered so nested matches are found
+    if (include && !isDirectory && !include.ignores(path)) return { ignored: true, source: `${CONFIG_FILE} include` };
+    return decision;
+  }
+
+  function isForced(path: string, isDirectory: boolean): boolean {
+    return forced.some((target) =>
+      path === target || path.startsWith(`${target}/`) || (isDirectory && target.startsWith(`${path}/`)));
+  }
+
+  return {
+    async enterDir(dir) {
+      if (gitLayers.has(dir)) return;
+      const relPath = dir ? `${dir}/.gitignore` : ".gitignore";
+      const content = await readOptional(join(repoRoot, relPath));
+      if (content === undefined) return;
+      gitLayers.set(dir, layerFor(dir, relPath, content));
+      gitignores.push(relPath);
+    },
+    check(path, isDirectory) {
+      const decision = decide(path, isDirectory);
+      if (!decision.ignored) return decision;
+      if (isForced(path, isDirectory)) {
+        forcedPaths.add(path);
+        return { ignored: false };
+      }
+      ignoredCount++;
+      if (ignored.length < MAX_LISTED_IGNORED) {
+        ignored.push({ path: isDirectory ? `${path}/` : path, source: decision.source ?? "" });
+      }
+      return decision;
+    },
+    isForced,
+    summary: () => ({
+      sources: [
+        ...baseLayers.map((layer) => layer.source),
+        ...gitignores,
+        ...(projectLayer ? [IGNORE_FILE] : []),
+        ...(projectConfig ? [CONFIG_FILE] : [])
+      ],
+      include: config.include,
+      exclude: config.exclude,
+      forceInclude: forced,
+      ignoredCount,
+      ignored,
+      forced: [...forcedPaths].sort()
+    })
+  };
+}
@@ -0,0 +1,355 @@
+import { posix } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Import-graph source ranking
+// ---------------------------------------------------------------------------
+//
+// Ranks source files by how central they are in the import graph (PageRank
+// over import edges) and how close they are to an entrypoint (route files,
+// main modules, index files that re-export a package API). Imports are parsed
+// with regexes for TS/JS, Python and Go; unresolved imports (packages, other
+// languages) are ignored.
+
+// What ranking needs from a file's content, small enough to keep between runs
+export type ParsedSource = {
+  // Import specifiers, before resolution against the other files
+  imports: string[];
+  // Index module made of re-exports: the package's public API
+  exportedApi?: boolean;
+};
+
+export type GraphFile = {
+  path: string;
+  size: number;
+  // Files without content are graph nodes without outgoing edges
+  content?: string;
+  // Content already parsed (e.g. by a previous run); used instead of `content`
+  parsed?: ParsedSource;
+};
+
+export type RankedFile = {
+  path: string;
+  score: number;
+  importedBy: number;
+  imports: number;
+  // Kind of entrypoint, for files that are one
+  entrypoint?: string;
+  // Import hops from the nearest entrypoint; absent when unreachable
+  distance?: number;
+};
+
+export type SelectionStrategy = "import-graph" | "size";
+
+export type SourceRanking = {
+  strategy: SelectionStrategy;
+  ranked: RankedFile[];
+};
+
+const JS_EXTENSIONS = ["ts", "tsx", "js", "jsx", "mjs", "cjs"];
+
+function extensionOf(path: string): string {
+  return posix.extname(path).slice(1).toLowerCase();
+}
+
+// ---------------------------------------------------------------------------
+// Entrypoints
+// ---------------------------------------------------------------------------
+
+const ENTRYPOINT_PATTERNS: Array<[RegExp, string]> = [
+  [/(^|\/)app\/(.+\/)?(page|layout|route)\.(tsx?|jsx?)$/, "route"],
+  [/(^|\/)pages\/.+\.(tsx?|jsx?)$/, "route"],
+  [/(^|\/)(routes|routers|controllers|handlers)\/.+\.(tsx?|jsx?|py|go)$/, "route"],
+  [/(^|\/)urls\.py$/, "route"],
+  [/(^|\/)main\.(go|py|tsx?|jsx?)$/, "main"],
+  [/(^|\/)(__main__|manage|app|wsgi|asgi)\.py$/, "main"],
+  [/^(src\/)?(index|server|app|cli)\.(tsx?|jsx?|mjs|cjs)$/, "main"]
+];
+
+// Index modules made of re-exports are the package's public API
+function isExportedApi(path: string, content: string): boolean {
+  if (!/^(index\.(tsx?|jsx?|mjs)|__init__\.py)$/.test(posix.basename(path))) return false;
+  const reexports = content.match(/^\s*export\s+(\*|\{[^}]*\}|type\s+\{[^}]*\})\s+from\s+['"]/gm)?.length ?? 0;
+  const pyExports = /^__all__\s*=/m.test(content) ? 2 : 0;
+  return reexports + pyExports >= 2;
+}
+
+function entrypointKind(path: string, parsed: ParsedSource | undefined): string | undefined {
+  for (const [pattern, kind] of ENTRYPOINT_PATTERNS) {
+    if (pattern.test(path)) return kind;
+  }
+  return parsed?.exportedApi ? "exported API" : undefined;
+}
+
+// Paths to read for parsing when there are more files than can be read,
+// picked by path alone: likely entrypoints first, then shallow paths
+export function prioritizeForGraph(files: Array<{ path: string; size: number }>, limit: number): Set<string> {
+  const rank = (path: string) => (ENTRYPOINT_PATTERNS.some(([pattern]) => pattern.test(path)) ? 0 : 1);
+  return new Set([...files]
+    .sort((a, b) =>
+      rank(a.path) - rank(b.path) ||
+      a.path.split("/").length - b.path.split("/").length ||
+      b.size - a.size)
+    .slice(0, limit)
+    .map((file) => file.path));
+}
+
+// ---------------------------------------------------------------------------
+// Import parsing
+// ---------------------------------------------------------------------------
+
+function parseJsImports(content: string): string[] {
+  const specs: string[] = [];
+  const patterns = [
+    /\b(?:import|export)\s+(?:type\s+)?[^'";]*?\bfrom\s*['"]([^'"]+)['"]/g,
+    /\bimport\s*['"]([^'"]+)['"]/g,
+    /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g,
+    /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g
+  ];
+  for (const pattern of patterns) {
+    for (const match of content.matchAll(pattern)) specs.push(match[1]);
+  }
+  return specs;
+}
+
+// Module paths, with leading dots for relative imports. `from pkg import a, b`
+// also yields "pkg.a" and "pkg.b", which resolve when a and b are submodules.
+function parsePythonImports(content: string): string[] {
+  const specs: string[] = [];
+  for (const match of content.matchAll(/^\s*from\s+(\.*[\w.]*)\s+import\s+\(?([^)\n]+)/gm)) {
+    const [, module, names] = match;
+    specs.push(module);
+    for (const name of names.split(",").map((item) => item.trim().split(/\s+/)[0]).filter(Boolean)) {
+      if (name === "*") continue;
+      specs.push(module.endsWith(".") ? `${module}${name}` : `${module}.${name}`);
+    }
+  }
+  for (const match of content.matchAll(/^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm)) {
+    specs.push(...match[1].split(",").map((item) => item.trim().split(/\s+/)[0]));
+  }
+  return specs;
+}
+
+function parseGoImports(content: string): string[] {
+  const specs: string[] = [];
+  for (const match of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) specs.push(match[1]);
+  for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+    for (const match of block[1].matchAll(/(?:^|\n)\s*(?:[\w.]+\s+)?"([^"]+)"/g)) specs.push(match[1]);
+  }
+  return specs;
+}
+
+export function parseImports(path: string, content: string): string[] {
+  const ext = extensionOf(path);
+  if (JS_EXTENSIONS.includes(ext)) return parseJsImports(content);
+  if (ext === "py") return parsePythonImports(content);
+  if (ext === "go") return parseGoImports(content);
+  return [];
+}
+
+export function parseSource(path: string, content: string): ParsedSource {
+  return {
+    imports: parseImports(path, content),
+    ...(isExportedApi(path, content) ? { exportedApi: true } : {})
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import resolution
+// ---------------------------------------------------------------------------
+
+type Resolver = {
+  paths: Set<string>;
+  goDirs: Map<string, string[]>;
+  goModule?: string;
+};
+
+function firstExisting(paths: Set<string>, candidates: string[]): string[] {
+  const found = candidates.find((candidate) => paths.has(candidate));
+  return found ? [found] : [];
+}
+
+function jsCandidates(base: string): string[] {
+  const stripped = base.replace(/\.(m?js|cjs|jsx)$/, "");
+  return [
+    base,
+    ...JS_EXTENSIONS.map((ext) => `${stripped}.${ext}`),
+    ...JS_EXTENSIONS.map((ext) => `${base}/index.${ext}`)
+  ];
+}
+
+function resolveJs(from: string, spec: string, resolver: Resolver): string[] {
+  if (spec.startsWith(".")) {
+    return firstExisting(resolver.paths, jsCandidates(posix.join(posix.dirname(from), spec)));
+  }
+  // "@/x" and "~/x" path aliases point at the project root or src/
+  const alias = /^[@~]\/(.+)$/.exec(spec);
+  if (alias) {
+    return firstExisting(resolver.paths, [...jsCandidates(alias[1]), ...jsCandidates(`src/${alias[1]}`)]);
+  }
+  return [];
+}
+
+function resolvePython(from: string, spec: string, resolver: Resolver): string[] {
+  const dots = /^\.*/.exec(spec)![0].length;
+  const modulePath = spec.slice(dots).split(".").filter(Boolean).join("/");
+  const bases: string[] = [];
+  if (dots) {
+    let dir = posix.dirname(from);
+    for (let level = 1; level < dots; level++) dir = posix.dirname(dir);
+    bases.push(posix.join(dir === "." ? "" : dir, modulePath));
+  } else if (modulePath) {
+    bases.push(modulePath, `src/${modulePath}`);
+  }
+  return firstExisting(resolver.paths, bases.flatMap((base) => [`${base}.py`, `${base}/__init__.py`]));
+}
+
+// A Go import names a package directory; every file in it is a dependency
+function resolveGo(spec: string, resolver: Resolver): string[] {
+  if (!resolver.goModule || !spec.startsWith(`${resolver.goModule}/`)) return [];
+  return resolver.goDirs.get(spec.slice(resolver.goModule.length + 1)) ?? [];
+}
+
+function resolveImport(from: string, spec: string, resolver: Resolver): string[] {
+  const ext = extensionOf(from);
+  if (JS_EXTENSIONS.includes(ext)) return resolveJs(from, spec, resolver);
+  if (ext === "py") return resolvePython(from, spec, resolver);
+  if (ext === "go") return resolveGo(spec, resolver);
+  return [];
+}
+
+export function goModulePath(goMod: string | undefined): string | undefined {
+  return goMod ? /^module\s+(\S+)/m.exec(goMod)?.[1] : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Ranking
+// ---------------------------------------------------------------------------
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+
+// PageRank over import edges: a file imported by many (or by central files)
+// ranks high. Dangling files spread their rank evenly.
+function pageRank(nodes: string[], edges: Map<string, Set<string>>): Map<string, number> {
+  const count = nodes.length;
+  let rank = new Map(nodes.map((node) => [node, 1 / count]));
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = new Map(nodes.map((node) => [node, (1 - DAMPING) / count]));
+    let dangling = 0;
+    for (const node of nodes) {
+      const targets = edges.get(node);
+      const share = rank.get(node)!;
+      if (!targets?.size) {
+        dangling += share;
+        continue;
+      }
+      for (const target of targets) next.set(target, next.get(target)! + (DAMPING * share) / targets.size);
+    }
+    for (const node of nodes) next.set(node, next.get(node)! + (DAMPING * dangling) / count);
+    rank = next;
+  }
+  return rank;
+}
+
+function distancesFrom(entrypoints: string[], edges: Map<string, Set<string>>): Map<string, number> {
+  const distance = new Map(entrypoints.map((path) => [path, 0]));
+  const queue = [...entrypoints];
+  while (queue.length) {
+    const current = queue.shift()!;
+    for (const target of edges.get(current) ?? []) {
+      if (distance.has(target)) continue;
+      distance.set(target, distance.get(current)! + 1);
+      queue.push(target);
+    }
+  }
+  return distance;
+}
+
+// Scores are in [0, 1]: half centrality (the share of files with a lower
+// PageRank, so one hub imported everywhere does not flatten the rest), half
+// entrypoint proximity.
+// Without any resolved import or entrypoint there is no graph to speak of, so
+// files are ranked by size as before.
+export function rankSourceFiles(files: GraphFile[], options: { goModule?: string } = {}): SourceRanking {
+  const paths = new Set(files.map((file) => file.path));
+  const goDirs = new Map<string, string[]>();
+  for (const file of files) {
+    if (extensionOf(file.path) !== "go" || file.path.endsWith("_test.go")) continue;
+    const dir = posix.dirname(file.path);
+    goDirs.set(dir, [...(goDirs.get(dir) ?? []), file.path]);
+  }
+  const resolver: Resolver = { paths, goDirs, goModule: options.goModule };
+
+  const parsed = new Map(files.flatMap((file) => {
+    const source = file.parsed ?? (file.content ? parseSource(file.path, file.content) : undefined);
+    return source ? [[file.path, source] as const] : [];
+  }));
+
+  const edges = new Map<string, Set<string>>();
+  const importedBy = new Map<string, number>();
+  for (const [path, source] of parsed) {
+    const targets = new Set(
+      source.imports
+        .flatMap((spec) => resolveImport(path, spec, resolver))
+        .filter((target) => target !== path)
+    );
+    edges.set(path, targets);
+    for (const target of targets) importedBy.set(target, (importedBy.get(target) ?? 0) + 1);
+  }
+
+  const entrypoints = new Map(files.flatMap((file) => {
+    const kind = entrypointKind(file.path, parsed.get(file.path));
+    return kind ? [[file.path, kind] as const] : [];
+  }));
+
+  if (!importedBy.size && !entrypoints.size) {
+    return {
+      strategy: "size",
+      ranked: [...files]
+        .sort((a, b) => b.size - a.size)
+        .map((file) => ({ path: file.path, score: 0, importedBy: 0, imports: 0 }))
+    };
+  }
+
+  const nodes = files.map((file) => file.path);
+  const rank = pageRank(nodes, edges);
+  const sortedRanks = [...rank.values()].sort((a, b) => a - b);
+  const lowerCount = (value: number) => {
+    let low = 0;
+    let high = sortedRanks.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sortedRanks[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  const distance = distancesFrom([...entrypoints.keys()], edges);
+
+  const ranked = files.map((file): RankedFile => {
+    const hops = distance.get(file.path);
+    const centrality = nodes.length > 1 ? lowerCount(rank.get(file.path)!) / (nodes.length - 1) : 0;
+    const proximity = hops === undefined ? 0 : 1 / (1 + hops);
+    return {
+      path: file.path,
+      score: Number((0.5 * centrality + 0.5 * proximity).toFixed(2)),
+      importedBy: importedBy.get(file.path) ?? 0,
+      imports: edges.get(file.path)?.size ?? 0,
+      entrypoint: entrypoints.get(file.path),
+      distance: hops
+    };
+  });
+  ranked.sort((a, b) => b.score - a.score || b.importedBy - a.importedBy || a.path.localeCompare(b.path));
+  return { strategy: "import-graph", ranked };
+}
+
+// SelectedFile.reason for a ranked source file, naming the strategy
+export function rankingReason(strategy: SelectionStrategy, file: RankedFile): string {
+  if (strategy === "size") return "size: large source sample (no imports resolved)";
+  const details = [
+    file.entrypoint ? `${file.entrypoint} entrypoint` : undefined,
+    file.importedBy ? `imported by ${file.importedBy}` : undefined,
+    file.distance ? `${file.distance} ${file.distance === 1 ? "hop" : "hops"} from entrypoint` : undefined
+  ].filter(Boolean);
+  return `import-graph: score ${file.score.toFixed(2)}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
@@ -0,0 +1,130 @@
+import { createHash } from "node:crypto";
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { simpleGit } from "simple-git";
+import {
+  MODEL_VERSION,
+  PipelineSource,
+  RepoSnapshot,
+  RunCheckpoint,
+  runCheckpointSchema,
+  ScanMode,
+  StageState
+} from "@/lib/models";
+import { artifactsDir, readArtifact, runsRoot } from "@/lib/services/workspace";
+
+// ---------------------------------------------------------------------------
+// Hashing
+// ---------------------------------------------------------------------------
+
+// Same hash `git hash-object` computes, so files read from disk compare
+// directly with the blob SHAs git lists
+export function gitBlobSha(content: Buffer): string {
+  return createHash("sha1").update(`blob ${content.length}\0`).update(content).digest("hex");
+}
+
+// JSON with object keys sorted, so equal values always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function hashStageInputs(inputs: unknown): string {
+  return createHash("sha256").update(stableStringify({ version: MODEL_VERSION, inputs })).digest("hex");
+}
+
+// The parts of a snapshot analysis depends on: drops the fetch time, commit,
+// host counters and reuse counters, which differ between runs over the same files
+export function snapshotInputs(snapshot: RepoSnapshot): RepoSnapshot {
+  return {
+    ...snapshot,
+    repo: { ...snapshot.repo, sizeKb: 0, stars: 0, openIssues: 0 },
+    metadata: { ...snapshot.metadata, fetchedAt: "", commitSha: undefined, reusedFiles: undefined },
+    // A cache for ingest; what it changes shows up in the sampled files
+    importGraph: undefined
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Previous runs
+// ---------------------------------------------------------------------------
+
+export function isStageFinished(stage: StageState): boolean {
+  return stage.status === "done" || stage.status === "unchanged";
+}
+
+// Finished runs of the same source (repo, ref and scoping options) and scan
+// mode, newest first
+export async function listComparableRuns(
+  runId: string,
+  source: PipelineSource,
+  scanMode: ScanMode
+): Promise<RunCheckpoint[]> {
+  const key = stableStringify(source);
+  const runIds = await readdir(runsRoot()).catch(() => [] as string[]);
+  const checkpoints: RunCheckpoint[] = [];
+  for (const id of runIds) {
+    if (id === runId) continue;
+    const parsed = runCheckpointSchema.safeParse(await readArtifact(artifactsDir(id), "checkpoint.json").catch(() => undefined));
+    if (!parsed.success) continue;
+    const checkpoint = parsed.data;
+    if (checkpoint.scanMode !== scanMode || stableStringify(checkpoint.source) !== key) continue;
+    if (!checkpoint.stages.every(isStageFinished)) continue;
+    checkpoints.push(checkpoint);
+  }
+  return checkpoints.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// ---------------------------------------------------------------------------
+// Committed blob SHAs
+// ---------------------------------------------------------------------------
+
+// Blob SHAs of HEAD for files that are unmodified in the working tree, keyed
+// by path relative to `prefix`. Empty unless `root` is the top of a git
+// checkout; a nested directory would otherwise report the enclosing repo.
+export async function committedBlobShas(root: string, prefix: string, signal?: AbortSignal): Promise<Map<string, string>> {
+  const shas = new Map<string, string>();
+  const isCheckout = await stat(join(root, ".git")).then(() => true, () => false);
+  if (!isCheckout) return shas;
+
+  const git = simpleGit(root, signal ? { abort: signal } : undefined);
+  try {
+    const [tree, status] = await Promise.all([
+      git.raw(["ls-tree", "-r", "-z", "HEAD"]),
+      git.raw(["status", "--porcelain", "-z", "--untracked-files=no"])
+    ]);
+
+    // "XY path", followed by the original path for renames and copies
+    const dirty = new Set<string>();
+    const entries = status.split("\0");
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (!entry) continue;
+      dirty.add(entry.slice(3));
+      if (/[RC]/.test(entry.slice(0, 2))) dirty.add(entries[++i]);
+    }
+
+    const base = prefix && prefix !== "." ? `${prefix}/` : "";
+    for (const line of tree.split("\0")) {
+      // "<mode> blob <sha>\t<path>"
+      const match = /^\d+ blob ([0-9a-f]+)\t(.+)$/.exec(line);
+      if (!match || dirty.has(match[2]) || !match[2].startsWith(base)) continue;
+      shas.set(match[2].slice(base.length), match[1]);
+    }
+  } catch {
+    shas.clear();
+  }
+  return shas;
+}
+
+export async function headCommitSha(root: string): Promise<string | undefined> {
+  const isCheckout = await stat(join(root, ".git")).then(() => true, () => false);
+  if (!isCheckout) return undefined;
+  return simpleGit(root).revparse(["HEAD"]).then((sha) => sha.trim() || undefined, () => undefined);
+}
@@ -1,23 +1,38 @@
 import { readdir, readFile, stat } from "node:fs/promises";
-import { join, relative, extname, basename } from "node:path";
+import { join, relative, extname, basename, posix, sep } from "node:path";
+import { pathToFileURL } from "node:url";
 import {
   DepthStrategy,
   HarnessContext,
+  ParsedSourceEntry,
   RepoSnapshot,
   SelectedFile,
   RepoTreeNode,
   ScanMode,
   MODEL_VERSION
 } from "@/lib/models";
-import { LIMITS, GITHUB_TOKEN } from "@/lib/services/config";
+import { LIMITS } from "@/lib/services/config";
 import { HARNESS } from "@/lib/services/config";
 import {
   estimateTokens,
   isBinaryFile,
   isScriptFile,
-  safeSnippet
+  redactSecrets,
+  sanitizeTextForPrompt,
+  summarizeRedactions
 } from "@/lib/services/sanitize";
 import { writeArtifact } from "@/lib/services/workspace";
+import { throwIfCancelled } from "@/lib/services/cancellation";
+import { fetchRepoMetadata } from "@/lib/services/repo-metadata";
+import { isRemoteSource, parseRemoteRepo } from "@/lib/services/sources";
+import { detectWorkspaces, readContainedFile, resolveIngestScope } from "@/lib/services/workspaces";
+import { collectDelta, DELTA_BASE_REF, scopeDelta, selectDeltaContext } from "@/lib/services/delta";
+import { committedBlobShas, gitBlobSha, headCommitSha } from "@/lib/services/incremental";
+import { IgnoreRules, loadIgnoreRules } from "@/lib/services/ignore-rules";
+import { goModulePath, GraphFile, parseSource, prioritizeForGraph, rankingReason, rankSourceFiles } from "@/lib/services/import-graph";
+import { canOutline, fitContent } from "@/lib/services/outline";
+import { classifyGeneratedContent, classifyGeneratedPath, createGeneratedTally } from "@/lib/services/generated";
+import { isManifest, readLockfiles } from "@/lib/services/lockfiles";
 
 // ---------------------------------------------------------------------------
 // Ignore rules
@@ -30,7 +45,9 @@ const IGNORED_DIRS = new Set([
   "build",
   "coverage",
   ".next",
-  ".cache"
+  ".cache",
+  // Run artifacts, when a repository with past runs is analyzed in place
+  ".runs"
 ]);
 
 function isIgnoredDir(name: string): boolean {
@@ -53,6 +70,12 @@ const IMPORTANT_FILES = new Map<string, string>([
   ["Cargo.toml", "dependency manifest"],
   ["pom.xml", "dependency manifest"],
   ["build.gradle", "dependency manifest"],
+  ["build.gradle.kts", "dependency manifest"],
+  ["libs.versions.toml", "dependency manifest"],
+  ["Gemfile", "dependency manifest"],
+  ["composer.json", "dependency manifest"],
+  ["mix.exs", "dependency manifest"],
+  ["pubspec.yaml", "dependency manifest"],
   ["Dockerfile", "runtime manifest"],
   ["docker-compose.yml", "infra manifest"],
   ["docker-compose.yaml", "infra manifest"],
@@ -76,6 +99,20 @@ const IMPORTANT_PATHS = new Map<string, string>([
   ["styles/globals.css", "global styles"]
 ]);
 
+// .NET project files are named after the project
+const MANIFEST_SUFFIXES = [".csproj", ".fsproj"];
+
+// Android theme resources and Compose theme files carry the design tokens
+const THEME_FILE_SUFFIXES = [
+  "res/values/colors.xml",
+  "res/values/themes.xml",
+  "res/values/styles.xml",
+  "res/values-night/themes.xml",
+  "ui/theme/Color.kt",
+  "ui/theme/Theme.kt",
+  "ui/theme/Type.kt"
+];
+
 const CONFIG_FILE_SUFFIXES = [
   "tsconfig.json",
   "next.config.js",
@@ -90,7 +127,8 @@ const CONFIG_FILE_SUFFIXES = [
 
 const SOURCE_EXTENSIONS = new Set([
   "ts", "tsx", "js", "jsx", "py", "go", "rs",
-  "java", "kt", "rb", "php", "swift", "scala", "cs"
+  "java", "kt", "rb", "php", "swift", "scala", "cs",
+  "dart", "ex", "exs"
 ]);
 
 function isSourceFile(path: string): boolean {
@@ -104,6 +142,12 @@ function reasonForFile(relPath: string): string | undefined {
   if (exact) return exact;
   const pathMatch = IMPORTANT_PATHS.get(relPath);
   if (pathMatch) return pathMatch;
+  if (MANIFEST_SUFFIXES.some((suffix) => base.endsWith(suffix))) {
+    return "dependency manifest";
+  }
+  if (THEME_FILE_SUFFIXES.some((suffix) => relPath.endsWith(suffix))) {
+    return "theme resources";
+  }
   if (CONFIG_FILE_SUFFIXES.some((suffix) => relPath.endsWith(suffix))) {
     return "config signal";
   }
@@ -121,21 +165,37 @@ type FileEntry = {
   isDirectory: boolean;
 };
 
-async function walkDir(root: string, base = ""): Promise<FileEntry[]> {
+type WalkContext = {
+  rules: IgnoreRules;
+  // Path of the walk root relative to the repository root, which ignore rules use
+  prefix: string;
+  signal?: AbortSignal;
+};
+
+// `forcedOnly` walks a built-in ignored directory (node_modules, dist, ...)
+// that was entered only to reach forced paths inside it
+async function walkDir(root: string, walk: WalkContext, base = "", forcedOnly = false): Promise<FileEntry[]> {
+  throwIfCancelled(walk.signal);
   const entries: FileEntry[] = [];
   const dirEntries = await readdir(join(root, base), { withFileTypes: true });
 
   for (const entry of dirEntries) {
     const relPath = base ? `${base}/${entry.name}` : entry.name;
     const absPath = join(root, relPath);
+    const repoPath = walk.prefix ? `${walk.prefix}/${relPath}` : relPath;
+    if (forcedOnly && !walk.rules.isForced(repoPath, entry.isDirectory())) continue;
 
     if (entry.isDirectory()) {
-      if (isIgnoredDir(entry.name)) continue;
+      const builtIn = isIgnoredDir(entry.name);
+      if (builtIn && !walk.rules.isForced(repoPath, true)) continue;
+      if (walk.rules.check(repoPath, true).ignored) continue;
       entries.push({ relPath, absPath, size: 0, isDirectory: true });
-      const children = await walkDir(root, relPath);
+      await walk.rules.enterDir(repoPath);
+      const children = await walkDir(root, walk, relPath, forcedOnly || builtIn);
       entries.push(...children);
     } else if (entry.isFile()) {
-      if (isLockFile(entry.name)) continue;
+      if (isLockFile(entry.name) && !walk.rules.isForced(repoPath, false)) continue;
+      if (walk.rules.check(repoPath, false).ignored) continue;
       const info = await stat(absPath);
       entries.push({ relPath, absPath, size: info.size, isDirectory: false });
     }
@@ -144,75 +204,6 @@ async function walkDir(root: string, base = ""): Promise<FileEntry[]> {
   return entries;
 }
 
-// ---------------------------------------------------------------------------
-// GitHub metadata enrichment (lightweight, optional)
-// ---------------------------------------------------------------------------
-
-type GitHubRepoMeta = {
-  default_branch: string;
-  size: number;
-  stargazers_count: number;
-  open_issues_count: number;
-  description: string | null;
-  language: string | null;
-};
-
-function resolveToken(ctx: HarnessContext): string | undefined {
-  return ctx.githubToken?.trim() || GITHUB_TOKEN || undefined;
-}
-
-async function fetchGitHubMeta(
-  repoUrl: string,
-  token?: string
-): Promise<GitHubRepoMeta | null> {
-  try {
-    const parsed = new URL(repoUrl);
-    const parts = parsed.pathname.split("/").filter(Boolean);
-    if (parts.length < 2) return null;
-    const owner = parts[0];
-    const name = (parts[1] ?? "").replace(/\.git$/, "");
-    const headers: Record<string, string> = {
-      Accept: "application/vnd.github+json",
-      "X-GitHub-Api-Version": "2022-11-28"
-    };
-    if (token) headers.Authorization = `Bearer ${token}`;
-    const res = await fetch(`https://api.github.com/repos/${owner}/${name}`, {
-      headers,
-      cache: "no-store"
-    });
-    if (!res.ok) return null;
-    return (await res.json()) as GitHubRepoMeta;
-  } catch {
-    return null;
-  }
-}
-
-async function fetchGitHubLanguages(
-  repoUrl: string,
-  token?: string
-): Promise<Record<string, number>> {
-  try {
-    const parsed = new URL(repoUrl);
-    const parts = parsed.pathname.split("/").filter(Boolean);
-    if (parts.length < 2) return {};
-    const owner = parts[0];
-    const name = (parts[1] ?? "").replace(/\.git$/, "");
-    const headers: Record<string, string> = {
-      Accept: "application/vnd.github+json",
-      "X-GitHub-Api-Version": "2022-11-28"
-    };
-    if (token) headers.Authorization = `Bearer ${token}`;
-    const res = await fetch(`https://api.github.com/repos/${owner}/${name}/languages`, {
-      headers,
-      cache: "no-store"
-    });
-    if (!res.ok) return {};
-    return (await res.json()) as Record<string, number>;
-  } catch {
-    return {};
-  }
-}
-
 // ---------------------------------------------------------------------------
 // Local git metadata fallback
 // ---------------------------------------------------------------------------
@@ -243,6 +234,7 @@ function buildLocalLanguageBreakdown(
     ts: "TypeScript", tsx: "TypeScript", js: "JavaScript", jsx: "JavaScript",
     py: "Python", go: "Go", rs: "Rust", java: "Java", kt: "Kotlin",
     rb: "Ruby", php: "PHP", swift: "Swift", scala: "Scala", cs: "C#",
+    dart: "Dart", ex: "Elixir", exs: "Elixir",
     css: "CSS", html: "HTML", scss: "SCSS", vue: "Vue", svelte: "Svelte"
   };
   for (const f of files) {
@@ -275,11 +267,52 @@ function buildLanguageBreakdown(
 // Main ingest stage
 // ---------------------------------------------------------------------------
 
+// A source file's imports for the graph, carried over from the previous run
+// when its blob SHA is unchanged; committed, unmodified files are not read
+async function parseGraphSource(
+  entry: FileEntry,
+  previous: ParsedSourceEntry | undefined,
+  knownSha: string | undefined
+): Promise<ParsedSourceEntry | undefined> {
+  if (previous && previous.sha === knownSha) return previous;
+  const bytes = await readFile(entry.absPath).catch(() => undefined);
+  if (!bytes) return undefined;
+  const sha = gitBlobSha(bytes);
+  if (previous?.sha === sha) return previous;
+  const content = bytes.toString("utf8");
+  const flag = classifyGeneratedContent(content);
+  return { path: entry.relPath, sha, ...parseSource(entry.relPath, content), ...(flag ? { generated: flag } : {}) };
+}
+
 export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot> {
-  const allEntries = await walkDir(ctx.workspacePath);
+  // Workspace manifests are read at the repository root even for scoped runs,
+  // so the snapshot always records the whole package graph
+  const workspace = await detectWorkspaces(ctx.workspacePath);
+  const scope = await resolveIngestScope(ctx.workspacePath, ctx.source, workspace);
+
+  // .gitignore files above a subpath root apply to it as well
+  const rules = await loadIgnoreRules(ctx.workspacePath);
+  const prefix = relative(ctx.workspacePath, scope.root).split(sep).join("/");
+  const segments = prefix ? prefix.split("/") : [];
+  for (let depth = 0; depth <= segments.length; depth++) {
+    await rules.enterDir(segments.slice(0, depth).join("/"));
+  }
+  const allEntries = (await walkDir(scope.root, { rules, prefix, signal: ctx.signal }))
+    .filter((e) => scope.includes(e.relPath, e.isDirectory));
   const fileEntries = allEntries.filter((e) => !e.isDirectory);
   const maxFileSize = HARNESS.ingest.maxFileSizeBytes;
 
+  // Commit-range runs: remote bases were fetched into DELTA_BASE_REF, local
+  // ones resolve in the repository itself
+  const baseRef = ctx.source.type === "archive" ? undefined : ctx.source.baseRef;
+  const delta = baseRef
+    ? scopeDelta(
+      await collectDelta(ctx.workspacePath, baseRef, isRemoteSource(ctx.source) ? DELTA_BASE_REF : baseRef, ctx.signal),
+      relative(ctx.workspacePath, scope.root),
+      (path) => scope.includes(path, false)
+    )
+    : undefined;
+
   // Build file tree
   const fileTree: RepoTreeNode[] = allEntries
     .slice(0, LIMITS.maxTreeItems)
@@ -289,38 +322,93 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
       size: e.isDirectory ? undefined : e.size
     }));
 
+  // Generated, minified and vendored files stay in the tree but are never
+  // sampled; content signals are checked whenever a source file is read
+  const generated = createGeneratedTally();
+  for (const e of fileEntries) {
+    const flag = classifyGeneratedPath(e.relPath);
+    if (flag) generated.add(e.relPath, flag);
+  }
+
   // Select important files
   const exactCandidates = fileEntries
-    .filter((e) => reasonForFile(e.relPath))
+    .filter((e) => reasonForFile(e.relPath) && !generated.has(e.relPath))
     .map((e) => ({ ...e, reason: reasonForFile(e.relPath) as string }));
 
   // Determine depth strategy: when the repo has fewer source files than
   // quickTopFiles, deep mode shifts to per-file depth (line-level analysis)
   // instead of broader file-count sampling.
-  const allSourceFiles = fileEntries.filter((e) => isSourceFile(e.relPath));
+  const allSourceFiles = fileEntries.filter((e) => isSourceFile(e.relPath) && !generated.has(e.relPath));
   const isSmallRepo = allSourceFiles.length < LIMITS.quickTopFiles;
   const depthStrategy: DepthStrategy =
     ctx.scanMode === "deep" && isSmallRepo ? "per-file" : "file-count";
 
+  // Blob SHAs of committed, unmodified files, so files unchanged since the
+  // previous run are matched without being read
+  const knownShas = ctx.previousSnapshot
+    ? await committedBlobShas(ctx.workspacePath, relative(ctx.workspacePath, scope.root), ctx.signal)
+    : new Map<string, string>();
+
   // Select source code samples
   let sourceCandidates: Array<FileEntry & { reason: string }>;
+  const importGraph: ParsedSourceEntry[] = [];
   if (depthStrategy === "per-file") {
     // Small repo + deep mode: select ALL source files for per-file depth analysis
     sourceCandidates = allSourceFiles
       .sort((a, b) => b.size - a.size)
       .map((e) => ({ ...e, reason: "per-file depth sample" }));
   } else {
+    // Rank by import graph centrality and entrypoint proximity, so generated
+    // bundles and fixtures nobody imports stop crowding out the real code
     const topN = ctx.scanMode === "quick" ? LIMITS.quickTopFiles : LIMITS.deepTopFiles;
-    sourceCandidates = allSourceFiles
-      .sort((a, b) => b.size - a.size)
+    const toRead = prioritizeForGraph(
+      allSourceFiles.map((e) => ({ path: e.relPath, size: e.size })),
+      HARNESS.ingest.importGraphMaxFiles
+    );
+    // Sources parsed by the previous run are only parsed again when their
+    // blob SHA changed
+    const parsedBefore = new Map((ctx.previousSnapshot?.importGraph ?? []).map((entry) => [entry.path, entry]));
+    const graphFiles: GraphFile[] = [];
+    for (const e of allSourceFiles) {
+      throwIfCancelled(ctx.signal);
+      const entry = toRead.has(e.relPath) && e.size <= maxFileSize
+        ? await parseGraphSource(e, parsedBefore.get(e.relPath), knownShas.get(e.relPath))
+        : undefined;
+      if (entry?.generated) generated.add(e.relPath, entry.generated);
+      if (entry) importGraph.push(entry);
+      graphFiles.push({ path: e.relPath, size: e.size, parsed: entry });
+    }
+    // A symlinked go.mod could point at any file on the host, so only a
+    // regular file inside the root is read
+    const goMod = await readContainedFile(scope.root, "go.mod");
+    const { strategy, ranked } = rankSourceFiles(graphFiles, { goModule: goModulePath(goMod) });
+    const byPath = new Map(allSourceFiles.map((e) => [e.relPath, e]));
+    sourceCandidates = ranked
+      .filter((r) => !generated.has(r.path))
       .slice(0, topN)
-      .map((e) => ({ ...e, reason: "large source sample" }));
+      .map((r) => ({ ...byPath.get(r.path)!, reason: rankingReason(strategy, r) }));
+  }
+
+  // Commit-range runs read the changed files and their nearest context instead
+  // of sampling the largest sources, ahead of the manifests
+  let ordered = [...exactCandidates, ...sourceCandidates];
+  if (delta) {
+    const onDisk = new Map(fileEntries.map((e) => [e.relPath, e]));
+    const changed = delta.files.filter((f) => f.status !== "deleted");
+    const deltaCandidates = [
+      ...changed.map((f) => ({ path: f.path, reason: `changed (${f.status}, +${f.additions}/-${f.deletions})` })),
+      ...selectDeltaContext(changed.map((f) => f.path), fileEntries.map((e) => e.relPath))
+    ].flatMap(({ path, reason }) => {
+      const entry = onDisk.get(path);
+      return entry ? [{ ...entry, reason }] : [];
+    });
+    ordered = [...deltaCandidates, ...exactCandidates];
   }
 
   // Deduplicate and limit
   const seen = new Set<string>();
   const combined: Array<typeof exactCandidates[number]> = [];
-  for (const c of [...exactCandidates, ...sourceCandidates]) {
+  for (const c of ordered) {
     if (seen.has(c.relPath)) continue;
     seen.add(c.relPath);
     combined.push(c);
@@ -337,7 +425,20 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
   let skippedScriptFiles = 0;
   let tokenEstimate = 0;
 
+  // Files whose blob SHA matches the previous run keep its sanitized content.
+  // Committed, unmodified files are matched by git's SHA without being read.
+  // Snapshots from before secret redaction hold unredacted content and are not
+  // reused, nor are truncated prefixes of files that now get an outline
+  const previous = ctx.previousSnapshot?.metadata.depthStrategy === depthStrategy && ctx.previousSnapshot.metadata.redactions
+    ? ctx.previousSnapshot
+    : undefined;
+  const previousFiles = new Map((previous?.files ?? [])
+    .filter((f) => f.sha && !(f.truncated && !f.outline && canOutline(f.path)))
+    .map((f) => [f.path, f]));
+  let reusedFiles = 0;
+
   for (const candidate of combined) {
+    throwIfCancelled(ctx.signal);
     if (isBinaryFile(candidate.relPath)) {
       skippedBinaryFiles++;
       continue;
@@ -346,7 +447,10 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
       skippedScriptFiles++;
       continue;
     }
-    if (candidate.size > effectiveMaxFileSize) {
+    if (generated.has(candidate.relPath)) continue;
+    // Oversized source files are still read, for their outline
+    const outlined = canOutline(candidate.relPath) && candidate.size <= HARNESS.ingest.maxOutlineSourceBytes;
+    if (candidate.size > effectiveMaxFileSize && !outlined) {
       selectedFiles.push({
         path: candidate.relPath,
         size: candidate.size,
@@ -358,19 +462,42 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
     }
 
     try {
-      const raw = await readFile(candidate.absPath, "utf8");
-      const content = safeSnippet(raw, effectiveMaxFileSize);
-      const projected = tokenEstimate + estimateTokens(content);
+      const prior = previousFiles.get(candidate.relPath);
+      let file: SelectedFile;
+      if (prior && prior.sha === knownShas.get(candidate.relPath)) {
+        file = { ...prior, reason: candidate.reason };
+      } else {
+        const bytes = await readFile(candidate.absPath);
+        const sha = gitBlobSha(bytes);
+        const text = bytes.toString("utf8");
+        const flag = isSourceFile(candidate.relPath) ? classifyGeneratedContent(text) : undefined;
+        if (flag) {
+          generated.add(candidate.relPath, flag);
+          continue;
+        }
+        if (prior?.sha === sha) {
+          file = { ...prior, reason: candidate.reason };
+        } else {
+          const { content: raw, redactions } = redactSecrets(text);
+          const fitted = fitContent(candidate.relPath, raw, effectiveMaxFileSize);
+          file = {
+            path: candidate.relPath,
+            size: candidate.size,
+            reason: candidate.reason,
+            content: sanitizeTextForPrompt(fitted.content),
+            truncated: fitted.truncated,
+            sha,
+            ...(Object.keys(redactions).length ? { redactions } : {}),
+            ...(fitted.outline ? { outline: true } : {})
+          };
+        }
+      }
+      const projected = tokenEstimate + estimateTokens(file.content);
       if (projected > LIMITS.maxSnapshotTokens) break;
 
       tokenEstimate = projected;
-      selectedFiles.push({
-        path: candidate.relPath,
-        size: candidate.size,
-        reason: candidate.reason,
-        content,
-        truncated: raw !== content
-      });
+      if (file.content === prior?.content) reusedFiles++;
+      selectedFiles.push(file);
     } catch {
       // Skip unreadable files
     }
@@ -384,16 +511,17 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
   };
   let languages: RepoSnapshot["languages"];
 
-  if (ctx.source.type === "github") {
-    const token = resolveToken(ctx);
-    const ghMeta = await fetchGitHubMeta(ctx.source.repoUrl, token);
-    const ghLangs = await fetchGitHubLanguages(ctx.source.repoUrl, token);
-    languages = buildLanguageBreakdown(ghLangs);
-
-    const parsed = new URL(ctx.source.repoUrl);
-    const parts = parsed.pathname.split("/").filter(Boolean);
-    const owner = parts[0] ?? "";
-    const name = (parts[1] ?? "").replace(/\.git$/, "");
+  if (isRemoteSource(ctx.source)) {
+    const meta = await fetchRepoMetadata(ctx.source, ctx.githubToken, ctx.signal);
+    // Adapters swallow errors, including aborts
+    throwIfCancelled(ctx.signal);
+    // Hosts without a language API (or an unreachable one) fall back to the clone
+    // Host language stats cover the whole repo, so scoped runs use the files
+    languages = meta?.languages && !scope.scope
+      ? buildLanguageBreakdown(meta.languages)
+      : buildLocalLanguageBreakdown(fileEntries);
+
+    const { owner, name } = parseRemoteRepo(ctx.source);
     const gitMeta = await localGitMeta(ctx.workspacePath);
 
     repoMeta = {
@@ -401,12 +529,32 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
       owner,
       name,
       branch: ctx.source.ref || gitMeta.branch,
-      defaultBranch: ghMeta?.default_branch ?? gitMeta.defaultBranch,
-      sizeKb: ghMeta?.size ?? 0,
-      stars: ghMeta?.stargazers_count ?? 0,
-      openIssues: ghMeta?.open_issues_count ?? 0,
-      description: ghMeta?.description ?? undefined,
-      language: ghMeta?.language ?? undefined
+      defaultBranch: meta?.defaultBranch ?? gitMeta.defaultBranch,
+      sizeKb: meta?.sizeKb ?? Math.round(fileEntries.reduce((s, e) => s + e.size, 0) / 1024),
+      stars: meta?.stars ?? 0,
+      openIssues: meta?.openIssues ?? 0,
+      description: meta?.description,
+      language: meta?.language
+    };
+  } else if (ctx.source.type === "archive") {
+    // Archives rarely carry .git, and git would otherwise report whatever
+    // repository the runs directory itself lives in
+    const hasGit = await stat(join(ctx.workspacePath, ".git")).then(() => true, () => false);
+    const gitMeta = hasGit
+      ? await localGitMeta(ctx.workspacePath)
+      : { branch: "unknown", defaultBranch: "unknown" };
+    languages = buildLocalLanguageBreakdown(fileEntries);
+    const fileName = ctx.source.fileName ?? basename(ctx.source.archivePath);
+
+    repoMeta = {
+      url: pathToFileURL(ctx.source.archivePath).href,
+      owner: "archive",
+      name: fileName.replace(/\.(zip|tgz|tar\.gz|tar)$/i, ""),
+      branch: gitMeta.branch,
+      defaultBranch: gitMeta.defaultBranch,
+      sizeKb: Math.round(fileEntries.reduce((s, e) => s + e.size, 0) / 1024),
+      stars: 0,
+      openIssues: 0
     };
   } else {
     // Local source
@@ -426,6 +574,14 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
     };
   }
 
+  // Lockfiles are not sampled but pin the exact versions stack detection reports.
+  // Workspaces usually lock at the repository root, above a scoped run's root
+  const lockfiles = await readLockfiles(ctx.workspacePath, [
+    "",
+    prefix,
+    ...fileEntries.filter((e) => isManifest(e.relPath)).map((e) => posix.dirname(prefix ? `${prefix}/${e.relPath}` : e.relPath))
+  ].map((dir) => (dir === "." ? "" : dir)));
+
   const snapshot: RepoSnapshot = {
     version: MODEL_VERSION,
     repo: repoMeta,
@@ -437,8 +593,18 @@ export async function runIngestStage(ctx: HarnessContext): Promise<RepoSnapshot>
       selectedFiles: selectedFiles.length,
       skippedBinaryFiles,
       skippedScriptFiles,
-      tokenEstimate
+      tokenEstimate,
+      commitSha: await headCommitSha(ctx.workspacePath),
+      ...(previous ? { reusedFiles } : {}),
+      scope: scope.scope,
+      ignore: rules.summary(),
+      redactions: summarizeRedactions(selectedFiles),
+      generated: generated.summary()
     },
+    workspace,
+    delta,
+    ...(lockfiles.length ? { lockfiles } : {}),
+    ...(importGraph.length ? { importGraph } : {}),
     languages,
     fileTree,
     files: selectedFiles
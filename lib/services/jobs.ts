@@ -0,0 +1,145 @@
+import { AnalysisJob, AnalyzeRequest, ArchiveSource, RunEvent, RunResult, ScanMode, StageState } from "@/lib/models";
+import {
+  newRunId,
+  PipelineOptions,
+  resumeHarnessPipeline,
+  runAnalysis,
+  runHarnessPipeline
+} from "@/lib/services/pipeline";
+import { RunCancelledError } from "@/lib/services/cancellation";
+import { recordRevision } from "@/lib/services/revisions";
+
+// Jobs live in process memory; finished runs are persisted as revisions,
+// so a restarted server loses only in-flight progress, not results.
+type JobEntry = {
+  job: AnalysisJob;
+  controller: AbortController;
+  listeners: Set<(event: RunEvent) => void>;
+};
+
+const MAX_FINISHED_JOBS = 50;
+
+type GlobalJobs = {
+  __mimickitJobs?: Map<string, JobEntry>;
+};
+
+const globalJobs = globalThis as unknown as GlobalJobs;
+const jobs = globalJobs.__mimickitJobs ?? (globalJobs.__mimickitJobs = new Map());
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function emit(entry: JobEntry, event: RunEvent): void {
+  for (const listener of entry.listeners) {
+    listener(event);
+  }
+}
+
+function pruneFinishedJobs(): void {
+  const finished = [...jobs.values()].filter((entry) => entry.job.status !== "running");
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(entry.job.runId);
+  }
+}
+
+type JobRunner = (options: Required<Pick<PipelineOptions, "onStageChange" | "signal">>) => Promise<RunResult>;
+
+// `summary` labels the revision the finished run is stored as
+function startJob(runId: string, runner: JobRunner, summary: string): AnalysisJob {
+  const entry: JobEntry = {
+    job: { runId, status: "running", stages: [], createdAt: now(), updatedAt: now() },
+    controller: new AbortController(),
+    listeners: new Set()
+  };
+  jobs.delete(runId);
+  jobs.set(runId, entry);
+  pruneFinishedJobs();
+
+  const onStageChange = (stages: StageState[]): void => {
+    entry.job = { ...entry.job, stages, updatedAt: now() };
+    emit(entry, { type: "stages", stages });
+  };
+
+  void runner({ onStageChange, signal: entry.controller.signal })
+    .then((run) => {
+      recordRevision(run, "analyze", summary);
+      entry.job = { ...entry.job, status: "done", updatedAt: now() };
+      emit(entry, { type: "done", runId });
+    })
+    .catch((error: unknown) => {
+      if (error instanceof RunCancelledError) {
+        entry.job = { ...entry.job, status: "cancelled", updatedAt: now() };
+        emit(entry, { type: "cancelled" });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      entry.job = { ...entry.job, status: "error", error: message, updatedAt: now() };
+      emit(entry, { type: "error", error: message });
+    });
+
+  return entry.job;
+}
+
+export function startAnalysisJob(input: AnalyzeRequest): AnalysisJob {
+  const runId = newRunId();
+  return startJob(runId, (options) => runAnalysis(input, { ...options, runId }), "Initial analysis");
+}
+
+// The caller picks the run id up front because the upload is stored under it
+export function startArchiveJob(runId: string, source: ArchiveSource, scanMode: ScanMode): AnalysisJob {
+  return startJob(
+    runId,
+    (options) => runHarnessPipeline(source, scanMode, undefined, { ...options, runId }),
+    "Initial analysis"
+  );
+}
+
+// Restarts a checkpointed run under its original id; a previous job entry for
+// the run (finished or cancelled) is replaced
+export function resumeAnalysisJob(runId: string, githubToken?: string): AnalysisJob {
+  if (jobs.get(runId)?.job.status === "running") {
+    throw new Error(`Run ${runId} is already running`);
+  }
+  return startJob(runId, (options) => resumeHarnessPipeline(runId, githubToken, options), "Resumed analysis");
+}
+
+export function getJob(runId: string): AnalysisJob | undefined {
+  return jobs.get(runId)?.job;
+}
+
+// Requests cancellation; the job reports "cancelled" once the current stage unwinds
+export function cancelAnalysisJob(runId: string): AnalysisJob | undefined {
+  const entry = jobs.get(runId);
+  if (!entry) return undefined;
+  if (entry.job.status === "running") {
+    entry.controller.abort();
+  }
+  return entry.job;
+}
+
+// Replays the current state to the new listener, then forwards live events.
+// Returns an unsubscribe function, or undefined when the job is unknown.
+export function subscribeToJob(runId: string, listener: (event: RunEvent) => void): (() => void) | undefined {
+  const entry = jobs.get(runId);
+  if (!entry) return undefined;
+
+  listener({ type: "stages", stages: entry.job.stages });
+  if (entry.job.status === "done") {
+    listener({ type: "done", runId });
+    return () => {};
+  }
+  if (entry.job.status === "error") {
+    listener({ type: "error", error: entry.job.error ?? "Unknown error" });
+    return () => {};
+  }
+  if (entry.job.status === "cancelled") {
+    listener({ type: "cancelled" });
+    return () => {};
+  }
+
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
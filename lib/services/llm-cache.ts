@@ -0,0 +1,98 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { z } from "zod";
+import { LLM_CACHE } from "@/lib/services/config";
+import { runsRoot } from "@/lib/services/workspace";
+
+const cacheEntrySchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  response: z.string(),
+  createdAt: z.string()
+});
+type CacheEntry = z.infer<typeof cacheEntrySchema>;
+
+export type LlmCacheKeyInput = {
+  provider: string;
+  model: string;
+  prompt: string;
+  schema: string;
+  maxTokens: number;
+};
+
+let enabled = LLM_CACHE.enabled;
+
+export function setLlmCacheEnabled(value: boolean): void {
+  enabled = value;
+}
+
+export function llmCacheEnabled(): boolean {
+  return enabled;
+}
+
+export function llmCacheDir(): string {
+  return join(runsRoot(), ".llm-cache");
+}
+
+export function llmCacheKey(input: LlmCacheKeyInput): string {
+  const hash = createHash("sha256");
+  for (const part of [input.provider, input.model, String(input.maxTokens), input.schema, input.prompt]) {
+    // Length-prefix each part so adjacent fields cannot collide
+    hash.update(`${part.length}:${part}`);
+  }
+  return hash.digest("hex");
+}
+
+function entryPath(key: string): string {
+  return join(llmCacheDir(), `${key}.json`);
+}
+
+export async function readCachedResponse(key: string): Promise<string | undefined> {
+  if (!enabled) return undefined;
+
+  let entry: CacheEntry;
+  try {
+    entry = cacheEntrySchema.parse(JSON.parse(await readFile(entryPath(key), "utf8")));
+  } catch {
+    return undefined;
+  }
+
+  const ageMs = Date.now() - Date.parse(entry.createdAt);
+  if (!(ageMs <= LLM_CACHE.ttlHours * 3_600_000)) {
+    await rm(entryPath(key), { force: true });
+    return undefined;
+  }
+
+  return entry.response;
+}
+
+export async function writeCachedResponse(
+  key: string,
+  response: string,
+  source: { label: string; provider: string; model: string }
+): Promise<void> {
+  if (!enabled) return;
+
+  const entry: CacheEntry = {
+    key,
+    label: source.label,
+    provider: source.provider,
+    model: source.model,
+    response,
+    createdAt: new Date().toISOString()
+  };
+
+  try {
+    await mkdir(llmCacheDir(), { recursive: true });
+    const target = entryPath(key);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry), "utf8");
+    await rename(tmp, target);
+  } catch (error) {
+    // A cache write failure must never fail the LLM call itself
+    console.warn(`[llm-cache] failed to write ${key}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
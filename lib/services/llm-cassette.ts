@@ -0,0 +1,85 @@
+import fs from "node:fs";
+import { createHash } from "node:crypto";
+import { dirname, resolve } from "node:path";
+import { z } from "zod";
+import { LLM_CASSETTE } from "@/lib/services/config";
+
+export const cassetteModeSchema = z.enum(["off", "record", "replay"]);
+export type CassetteMode = z.infer<typeof cassetteModeSchema>;
+
+const cassetteEntrySchema = z.object({
+  label: z.string(),
+  promptHash: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  response: z.string(),
+  recordedAt: z.string()
+});
+type CassetteEntry = z.infer<typeof cassetteEntrySchema>;
+
+const cassetteFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.record(z.string(), cassetteEntrySchema)
+});
+type CassetteFile = z.infer<typeof cassetteFileSchema>;
+
+let activeMode: CassetteMode = cassetteModeSchema.catch("off").parse(LLM_CASSETTE.mode);
+let activePath = resolve(LLM_CASSETTE.path);
+let loaded: { path: string; file: CassetteFile } | null = null;
+
+export function configureCassette(options: { mode: CassetteMode; path?: string }): void {
+  activeMode = options.mode;
+  if (options.path) activePath = resolve(options.path);
+  loaded = null;
+}
+
+export function cassetteMode(): CassetteMode {
+  return activeMode;
+}
+
+export function cassetteKey(label: string, prompt: string): string {
+  const promptHash = createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+  return `${label}:${promptHash}`;
+}
+
+function loadCassette(): CassetteFile {
+  if (loaded?.path === activePath) return loaded.file;
+
+  let file: CassetteFile = { version: 1, entries: {} };
+  if (fs.existsSync(activePath)) {
+    file = cassetteFileSchema.parse(JSON.parse(fs.readFileSync(activePath, "utf8")));
+  } else if (activeMode === "replay") {
+    throw new Error(`Cassette file not found: ${activePath}`);
+  }
+
+  loaded = { path: activePath, file };
+  return file;
+}
+
+export function readCassetteResponse(label: string, prompt: string): string | undefined {
+  return loadCassette().entries[cassetteKey(label, prompt)]?.response;
+}
+
+export function recordCassetteResponse(
+  label: string,
+  prompt: string,
+  response: string,
+  source: { provider: string; model: string }
+): void {
+  const file = loadCassette();
+  const key = cassetteKey(label, prompt);
+  const entry: CassetteEntry = {
+    label,
+    promptHash: key.slice(label.length + 1),
+    provider: source.provider,
+    model: source.model,
+    response,
+    recordedAt: new Date().toISOString()
+  };
+  file.entries[key] = entry;
+
+  fs.mkdirSync(dirname(activePath), { recursive: true });
+  const tmp = activePath + ".tmp";
+  fs.writeFileSync(tmp, JSON.stringify(file, null, 2), "utf8");
+  fs.renameSync(tmp, activePath);
+}
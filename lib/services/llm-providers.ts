@@ -0,0 +1,216 @@
+import { LlmProviderId, llmProviderIdSchema } from "@/lib/models";
+import {
+  ANTHROPIC_API_BASE,
+  ANTHROPIC_KEY,
+  ANTHROPIC_MODEL,
+  LLM_PROVIDER,
+  LOCAL_LLM_BASE,
+  LOCAL_LLM_MODEL,
+  OPENAI_API_BASE,
+  OPENAI_KEY,
+  OPENAI_MODEL
+} from "@/lib/services/config";
+import { withTimeout } from "@/lib/services/cancellation";
+
+// Gateways drop connections around 300s; set our timeout below that
+const FETCH_TIMEOUT_MS = 240_000;
+
+export const JSON_SYSTEM_PROMPT =
+  "You are a strict JSON API. Return only valid JSON. Do not include markdown fences, comments, or prose.";
+
+export type LlmCompletionRequest = {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  signal?: AbortSignal;
+};
+
+export type LlmCompletion = {
+  text: string;
+  truncated: boolean;
+  // Token counts as reported by the provider, when it reports them
+  usage?: { inputTokens: number; outputTokens: number };
+};
+
+export type LlmProvider = {
+  id: LlmProviderId;
+  model: string;
+  // Reason the provider cannot be called, or undefined when it is usable
+  missingConfig(): string | undefined;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+};
+
+async function postJson<T>(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: withTimeout(FETCH_TIMEOUT_MS, signal)
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`${providerName} API error ${response.status}: ${text.slice(0, 400)}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+function warnTruncated(id: LlmProviderId, maxTokens: number): void {
+  console.warn(`[${id}] response truncated at max_tokens=${maxTokens}`);
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic Messages API
+// ---------------------------------------------------------------------------
+
+export const anthropicProvider: LlmProvider = {
+  id: "anthropic",
+  model: ANTHROPIC_MODEL,
+  missingConfig: () => (ANTHROPIC_KEY ? undefined : "ANTHROPIC_API_KEY not set"),
+  async complete({ system, prompt, maxTokens, signal }) {
+    if (!ANTHROPIC_KEY) {
+      throw new Error("ANTHROPIC_API_KEY is not configured.");
+    }
+
+    const data = await postJson<{
+      content?: Array<{ type: string; text?: string }>;
+      stop_reason?: string;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    }>(
+      "Anthropic",
+      `${ANTHROPIC_API_BASE}/messages`,
+      { "x-api-key": ANTHROPIC_KEY, "anthropic-version": "2023-06-01" },
+      {
+        model: ANTHROPIC_MODEL,
+        max_tokens: maxTokens,
+        system,
+        messages: [{ role: "user", content: prompt }]
+      },
+      signal
+    );
+
+    const text = data.content?.find((item) => item.type === "text")?.text;
+    if (!text) {
+      throw new Error("Anthropic response did not contain text content.");
+    }
+
+    const truncated = data.stop_reason === "max_tokens";
+    if (truncated) warnTruncated("anthropic", maxTokens);
+    return {
+      text,
+      truncated,
+      usage: data.usage && {
+        inputTokens: data.usage.input_tokens ?? 0,
+        outputTokens: data.usage.output_tokens ?? 0
+      }
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible chat completions (OpenAI, Azure gateways, vLLM, LiteLLM...)
+// ---------------------------------------------------------------------------
+
+export const openAiCompatibleProvider: LlmProvider = {
+  id: "openai",
+  model: OPENAI_MODEL,
+  // Self-hosted compatible servers often run without a key; require one only for the hosted default
+  missingConfig: () =>
+    OPENAI_KEY || !OPENAI_API_BASE.includes("api.openai.com") ? undefined : "OPENAI_API_KEY not set",
+  async complete({ system, prompt, maxTokens, signal }) {
+    const headers: Record<string, string> = {};
+    if (OPENAI_KEY) headers.Authorization = `Bearer ${OPENAI_KEY}`;
+
+    const data = await postJson<{
+      choices?: Array<{ message?: { content?: string | null }; finish_reason?: string }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    }>("OpenAI-compatible", `${OPENAI_API_BASE}/chat/completions`, headers, {
+      model: OPENAI_MODEL,
+      max_tokens: maxTokens,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt }
+      ]
+    }, signal);
+
+    const choice = data.choices?.[0];
+    const text = choice?.message?.content;
+    if (!text) {
+      throw new Error("OpenAI-compatible response did not contain message content.");
+    }
+
+    const truncated = choice.finish_reason === "length";
+    if (truncated) warnTruncated("openai", maxTokens);
+    return {
+      text,
+      truncated,
+      usage: data.usage && {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0
+      }
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Local HTTP endpoint (Ollama-style /api/chat)
+// ---------------------------------------------------------------------------
+
+export const localHttpProvider: LlmProvider = {
+  id: "local",
+  model: LOCAL_LLM_MODEL,
+  missingConfig: () => undefined,
+  async complete({ system, prompt, maxTokens, signal }) {
+    const data = await postJson<{
+      message?: { content?: string };
+      done_reason?: string;
+      prompt_eval_count?: number;
+      eval_count?: number;
+    }>("Local LLM", `${LOCAL_LLM_BASE}/api/chat`, {}, {
+      model: LOCAL_LLM_MODEL,
+      stream: false,
+      format: "json",
+      options: { num_predict: maxTokens },
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt }
+      ]
+    }, signal);
+
+    const text = data.message?.content;
+    if (!text) {
+      throw new Error("Local LLM response did not contain message content.");
+    }
+
+    const truncated = data.done_reason === "length";
+    if (truncated) warnTruncated("local", maxTokens);
+    return {
+      text,
+      truncated,
+      usage: { inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 }
+    };
+  }
+};
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  anthropic: anthropicProvider,
+  openai: openAiCompatibleProvider,
+  local: localHttpProvider
+};
+
+export function resolveLlmProvider(id: string = LLM_PROVIDER): LlmProvider {
+  const parsed = llmProviderIdSchema.safeParse(id.trim().toLowerCase());
+  if (!parsed.success) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${id}". Expected one of: ${llmProviderIdSchema.options.join(", ")}.`
+    );
+  }
+  return PROVIDERS[parsed.data];
+}
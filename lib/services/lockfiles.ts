@@ -0,0 +1,367 @@
+import { posix } from "node:path";
+import { Lockfile, LockfileManager, PackageEcosystem } from "@/lib/models";
+import { readContainedFile } from "@/lib/services/workspaces";
+
+// ---------------------------------------------------------------------------
+// Lockfiles
+// ---------------------------------------------------------------------------
+//
+// Lockfiles are never sampled, but they pin the versions manifests only give
+// as ranges. Ingest parses them into resolved versions per package, which
+// stack detection prefers over "^14.2.0"-style specs.
+
+const LOCKFILE_MANAGERS: Record<string, LockfileManager> = {
+  "package-lock.json": "npm",
+  "npm-shrinkwrap.json": "npm",
+  "pnpm-lock.yaml": "pnpm",
+  "yarn.lock": "yarn",
+  "poetry.lock": "poetry",
+  "Cargo.lock": "cargo",
+  "go.sum": "go",
+  "Gemfile.lock": "bundler",
+  "composer.lock": "composer",
+  "packages.lock.json": "nuget",
+  "mix.lock": "mix",
+  "pubspec.lock": "pub"
+};
+
+const ECOSYSTEMS: Record<LockfileManager, PackageEcosystem> = {
+  npm: "npm",
+  pnpm: "npm",
+  yarn: "npm",
+  poetry: "pypi",
+  cargo: "cargo",
+  go: "go",
+  bundler: "rubygems",
+  composer: "packagist",
+  nuget: "nuget",
+  mix: "hex",
+  pub: "pub"
+};
+
+// Packages kept per lockfile, so a large JS lockfile cannot bloat the snapshot
+const MAX_LOCKED_PACKAGES = 2_000;
+const MAX_LOCKFILE_BYTES = 20 * 1024 * 1024;
+
+// Manifests whose directories are checked for a lockfile next to them
+const MANIFESTS = new Set(["package.json", "pyproject.toml", "Cargo.toml", "go.mod", "Gemfile", "composer.json", "mix.exs", "pubspec.yaml"]);
+const MANIFEST_SUFFIXES = [".csproj", ".fsproj"];
+
+function lockfileManager(path: string): LockfileManager | undefined {
+  return LOCKFILE_MANAGERS[posix.basename(path)];
+}
+
+// Numeric comparison of dotted versions; pre-release tags compare as text
+function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.+-]/);
+  const right = b.split(/[.+-]/);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? "0";
+    const y = right[i] ?? "0";
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+// Packages locked at several versions (nested or duplicated) report the highest
+function keepHighest(versions: Map<string, string>, name: string, version: string): void {
+  const existing = versions.get(name);
+  if (!existing || compareVersions(version, existing) > 0) versions.set(name, version);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, "$2");
+}
+
+export function normalizePackageName(ecosystem: PackageEcosystem, name: string): string {
+  // PyPI names compare case-insensitively, with runs of "-", "_" and "." equal;
+  // NuGet and Packagist ids are case-insensitive
+  if (ecosystem === "pypi") return name.toLowerCase().replace(/[-_.]+/g, "-");
+  return ecosystem === "nuget" || ecosystem === "packagist" ? name.toLowerCase() : name;
+}
+
+function parseNpmLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let data: {
+    packages?: Record<string, { version?: string; link?: boolean }>;
+    dependencies?: Record<string, { version?: string }>;
+  };
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return versions;
+  }
+  if (data.packages) {
+    // lockfileVersion 2 and 3: "node_modules/next", "node_modules/@scope/pkg";
+    // nested installs ("node_modules/a/node_modules/b") are skipped
+    for (const [key, entry] of Object.entries(data.packages)) {
+      const match = /^(?:.*\/)?node_modules\/((?:@[^/]+\/)?[^/]+)$/.exec(key);
+      if (!match || key.indexOf("node_modules/") !== key.lastIndexOf("node_modules/") || !entry.version || entry.link) continue;
+      keepHighest(versions, match[1], entry.version);
+    }
+  } else {
+    for (const [name, entry] of Object.entries(data.dependencies ?? {})) {
+      if (entry.version) keepHighest(versions, name, entry.version);
+    }
+  }
+  return versions;
+}
+
+const PNPM_DEPENDENCY_KEYS = new Set(["dependencies", "devDependencies", "optionalDependencies"]);
+
+// Indentation-based walk over the direct dependencies of pnpm-lock.yaml:
+// "dependencies.next: 14.2.3" (v5), "dependencies.next.version" (v6) and
+// "importers.<dir>.dependencies.next.version" (v6 workspaces and v9)
+function parsePnpmLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  const keys: string[] = [];
+  const indents: number[] = [];
+  for (const line of content.split("\n")) {
+    const match = /^(\s*)('[^']*'|"[^"]*"|[^\s#'"][^:]*?):(?:\s+(.*))?$/.exec(line);
+    if (!match) continue;
+    const indent = match[1].length;
+    while (indents.length && indents[indents.length - 1] >= indent) {
+      indents.pop();
+      keys.pop();
+    }
+    const key = unquote(match[2]);
+    const value = match[3]?.trim();
+    if (!value) {
+      keys.push(key);
+      indents.push(indent);
+      continue;
+    }
+
+    const path = [...keys, key];
+    const offset = path[0] === "importers" ? 2 : 0;
+    const dependencyPath = path.slice(offset);
+    if (!PNPM_DEPENDENCY_KEYS.has(dependencyPath[0])) continue;
+    const isVersion = (dependencyPath.length === 2) || (dependencyPath.length === 3 && dependencyPath[2] === "version");
+    if (!isVersion) continue;
+    // "14.2.3(react@18.3.1)" (v6+) and "14.2.3_react@18.3.1" (v5) carry peer suffixes
+    const version = unquote(value).replace(/[(_].*$/, "");
+    if (/^\d/.test(version)) keepHighest(versions, dependencyPath[1], version);
+  }
+  return versions;
+}
+
+// Entry headers list the specs they satisfy ("next@^14.2.0, next@^14.1.0:",
+// or '"next@npm:^14.2.0":' in Yarn 2+), followed by an indented version line
+function parseYarnLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let names: string[] = [];
+  for (const line of content.split("\n")) {
+    if (/^[^\s#]/.test(line) && line.trimEnd().endsWith(":")) {
+      names = line.trimEnd().slice(0, -1).split(",").map((spec) => {
+        const unquoted = unquote(spec);
+        const at = unquoted.indexOf("@", 1);
+        return at === -1 ? unquoted : unquoted.slice(0, at);
+      }).filter((name) => !name.startsWith("__"));
+      continue;
+    }
+    const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+    if (version && names.length) {
+      for (const name of names) keepHighest(versions, name, version[1]);
+      names = [];
+    }
+  }
+  return versions;
+}
+
+// poetry.lock and Cargo.lock: [[package]] tables with name and version keys
+function parsePackageTables(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let name: string | undefined;
+  for (const line of content.split("\n")) {
+    if (line.trim() === "[[package]]") {
+      name = undefined;
+      continue;
+    }
+    const nameMatch = /^name\s*=\s*"([^"]+)"/.exec(line);
+    if (nameMatch) {
+      name = nameMatch[1];
+      continue;
+    }
+    const versionMatch = /^version\s*=\s*"([^"]+)"/.exec(line);
+    if (versionMatch && name) {
+      keepHighest(versions, name, versionMatch[1]);
+      name = undefined;
+    }
+  }
+  return versions;
+}
+
+// "github.com/gin-gonic/gin v1.9.1/go.mod h1:..." for every module in the build graph
+function parseGoSum(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  for (const line of content.split("\n")) {
+    const match = /^(\S+) v([^\s/]+)(?:\/go\.mod)? h1:/.exec(line);
+    if (match) keepHighest(versions, match[1], match[2].replace(/\+incompatible$/, ""));
+  }
+  return versions;
+}
+
+// Gemfile.lock specs: "    rails (7.1.3)", dependencies of each gem one level
+// deeper; platform gems carry a suffix ("nokogiri (1.15.5-x86_64-linux)")
+function parseGemfileLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  for (const match of content.matchAll(/^ {4}([^\s(]+) \(([^)\s-]+)[^)]*\)$/gm)) {
+    keepHighest(versions, match[1], match[2]);
+  }
+  return versions;
+}
+
+// composer.lock: "packages" and "packages-dev" arrays of { name, version }
+function parseComposerLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let data: Record<string, Array<{ name?: string; version?: string }> | undefined>;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return versions;
+  }
+  for (const entry of [...(data.packages ?? []), ...(data["packages-dev"] ?? [])]) {
+    const version = entry.version?.replace(/^v/, "");
+    if (entry.name && version && /^\d/.test(version)) keepHighest(versions, entry.name, version);
+  }
+  return versions;
+}
+
+// NuGet packages.lock.json: dependencies per target framework, each with a
+// "resolved" version
+function parseNugetLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let data: { dependencies?: Record<string, Record<string, { resolved?: string }>> };
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return versions;
+  }
+  for (const framework of Object.values(data.dependencies ?? {})) {
+    for (const [name, entry] of Object.entries(framework)) {
+      if (entry.resolved) keepHighest(versions, name, entry.resolved);
+    }
+  }
+  return versions;
+}
+
+// mix.lock: "phoenix": {:hex, :phoenix, "1.7.10", ...}; git deps have no version
+function parseMixLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  for (const match of content.matchAll(/^\s*"([^"]+)":\s*\{:hex,\s*:\w+,\s*"([^"]+)"/gm)) {
+    keepHighest(versions, match[1], match[2]);
+  }
+  return versions;
+}
+
+// pubspec.lock: entries under "packages:" with source and version keys; SDK
+// packages (flutter, flutter_test) report the placeholder 0.0.0 and are skipped
+function parsePubspecLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  let name: string | undefined;
+  let sdk = false;
+  for (const line of content.split("\n")) {
+    const entry = /^ {2}([\w-]+):\s*$/.exec(line);
+    if (entry) {
+      name = entry[1];
+      sdk = false;
+      continue;
+    }
+    if (/^ {4}source:\s*sdk\s*$/.test(line)) sdk = true;
+    const version = /^ {4}version:\s*"?([^"\s]+)"?/.exec(line);
+    if (version && name && !sdk) keepHighest(versions, name, version[1]);
+  }
+  return versions;
+}
+
+const PARSERS: Record<LockfileManager, (content: string) => Map<string, string>> = {
+  npm: parseNpmLock,
+  pnpm: parsePnpmLock,
+  yarn: parseYarnLock,
+  poetry: parsePackageTables,
+  cargo: parsePackageTables,
+  go: parseGoSum,
+  bundler: parseGemfileLock,
+  composer: parseComposerLock,
+  nuget: parseNugetLock,
+  mix: parseMixLock,
+  pub: parsePubspecLock
+};
+
+// Resolved versions of a lockfile. With `declared`, only those packages are
+// kept; JS lockfiles list every transitive install, manifests only a few.
+export function parseLockfile(path: string, content: string, declared?: Set<string>): Lockfile | undefined {
+  const manager = lockfileManager(path);
+  if (!manager) return undefined;
+  const ecosystem = ECOSYSTEMS[manager];
+  const packages: Record<string, string> = {};
+  const entries = [...PARSERS[manager](content)]
+    .map(([name, version]) => [normalizePackageName(ecosystem, name), version] as const)
+    .filter(([name]) => !declared || declared.has(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(0, MAX_LOCKED_PACKAGES);
+  for (const [name, version] of entries) packages[name] = version;
+  return { path, manager, ecosystem, packages };
+}
+
+// Names declared by a package.json, across all dependency kinds
+function declaredNpmPackages(content: string): string[] {
+  try {
+    const data = JSON.parse(content) as Record<string, unknown>;
+    return ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"].flatMap((key) => {
+      const deps = data[key];
+      return deps && typeof deps === "object" ? Object.keys(deps) : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function isManifest(path: string): boolean {
+  return MANIFESTS.has(posix.basename(path)) || MANIFEST_SUFFIXES.some((suffix) => path.endsWith(suffix));
+}
+
+// Lockfiles in the given repository-relative directories (the root, the scope
+// root and every manifest directory). JS lockfiles are narrowed to the
+// packages the package.json files in those directories declare.
+export async function readLockfiles(repoRoot: string, dirs: string[]): Promise<Lockfile[]> {
+  const unique = [...new Set(dirs)].sort();
+  const declared = new Set<string>();
+  for (const dir of unique) {
+    const manifest = await readContainedFile(repoRoot, posix.join(dir, "package.json"));
+    if (manifest !== undefined) declaredNpmPackages(manifest).forEach((name) => declared.add(name));
+  }
+
+  const lockfiles: Lockfile[] = [];
+  for (const dir of unique) {
+    for (const name of Object.keys(LOCKFILE_MANAGERS)) {
+      const path = posix.join(dir, name);
+      // Symlinked lockfiles are skipped: a checked-in link could read files outside the clone
+      const content = await readContainedFile(repoRoot, path, MAX_LOCKFILE_BYTES);
+      const lockfile = content !== undefined
+        ? parseLockfile(path, content, ECOSYSTEMS[LOCKFILE_MANAGERS[name]] === "npm" && declared.size ? declared : undefined)
+        : undefined;
+      if (lockfile && Object.keys(lockfile.packages).length) lockfiles.push(lockfile);
+    }
+  }
+  return lockfiles;
+}
+
+export type LockedVersion = {
+  version: string;
+  path: string;
+};
+
+export function findLockedVersion(
+  lockfiles: Lockfile[] | undefined,
+  ecosystem: PackageEcosystem,
+  name: string
+): LockedVersion | undefined {
+  const key = normalizePackageName(ecosystem, name);
+  for (const lockfile of lockfiles ?? []) {
+    const version = lockfile.ecosystem === ecosystem ? lockfile.packages[key] : undefined;
+    if (version) return { version, path: lockfile.path };
+  }
+  return undefined;
+}
@@ -0,0 +1,232 @@
+import { posix } from "node:path";
+import { SelectedFile } from "@/lib/models";
+
+// ---------------------------------------------------------------------------
+// Symbol outlines
+// ---------------------------------------------------------------------------
+//
+// Line-based extraction of the declarations a reader skims first: exported
+// (and top-level) functions, classes, types and their signatures, plus route
+// registrations, for TS/JS, Python, Go and Swift. Files too large to send
+// whole contribute this outline instead of an arbitrary prefix.
+
+type Language = "js" | "python" | "go" | "swift";
+
+const LANGUAGES: Record<string, Language> = {
+  ts: "js", tsx: "js", js: "js", jsx: "js", mjs: "js", cjs: "js",
+  py: "python",
+  go: "go",
+  swift: "swift"
+};
+
+export type OutlineEntry = {
+  line: number;
+  text: string;
+};
+
+// Longest signature kept, and how many lines a multi-line signature may span
+const MAX_SIGNATURE = 200;
+const MAX_SIGNATURE_LINES = 6;
+const MAX_ENTRIES = 200;
+
+function languageOf(path: string): Language | undefined {
+  return LANGUAGES[posix.extname(path).slice(1).toLowerCase()];
+}
+
+export function canOutline(path: string): boolean {
+  return languageOf(path) !== undefined;
+}
+
+// Declaration text from `start` up to where its body begins: the first `{`
+// (or `:` for Python) outside parentheses and brackets, or the end of line
+// once they are balanced
+function signatureAt(lines: string[], start: number, language: Language): string {
+  const terminators = language === "python" ? ":" : language === "js" ? "{;" : "{";
+  let depth = 0;
+  let text = "";
+  for (let index = start; index < Math.min(lines.length, start + MAX_SIGNATURE_LINES); index++) {
+    for (const char of lines[index]) {
+      if (char === "(" || char === "[") depth++;
+      else if (char === ")" || char === "]") depth--;
+      else if (depth <= 0 && terminators.includes(char)) {
+        return collapse(text);
+      }
+      text += char;
+    }
+    if (depth <= 0 && language !== "python") break;
+    text += " ";
+  }
+  return collapse(text);
+}
+
+function collapse(text: string): string {
+  const single = text.replace(/\s+/g, " ").replace(/\(\s+/g, "(").replace(/,?\s+\)/g, ")").trim();
+  return single.length > MAX_SIGNATURE ? `${single.slice(0, MAX_SIGNATURE - 3)}...` : single;
+}
+
+// Next.js route handlers: app/api/users/[id]/route.ts -> /api/users/[id]
+function nextRoutePath(path: string): string | undefined {
+  const match = /(?:^|\/)app\/(.*?)\/?route\.(?:tsx?|jsx?)$/.exec(path);
+  if (!match) return undefined;
+  const segments = match[1].split("/").filter((segment) => segment && !/^\(.*\)$/.test(segment));
+  return `/${segments.join("/")}`;
+}
+
+const HTTP_METHODS = "get|post|put|patch|delete|head|options|all";
+
+function outlineJs(path: string, lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  const routePath = nextRoutePath(path);
+  const routeCall = new RegExp(`\\b(?:app|router|server|api|routes)\\.(${HTTP_METHODS}|use|route)\\(\\s*['"\`]([^'"\`]+)`, "i");
+  let inClass = false;
+
+  lines.forEach((line, index) => {
+    const route = routeCall.exec(line);
+    if (route) {
+      entries.push({ line: index + 1, text: `route ${route[1].toUpperCase()} ${route[2]}` });
+      return;
+    }
+    if (/^(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(async\s+)?(function\b|class\b|interface\b|type\b|enum\b|const\s+enum\b)/.test(line)) {
+      inClass = /\bclass\b/.test(line.split("(")[0]) && !line.trimEnd().endsWith("}");
+      const signature = signatureAt(lines, index, "js");
+      const handler = routePath && /^export\s+(async\s+)?function\s+(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\b/.exec(line);
+      entries.push({ line: index + 1, text: handler ? `route ${handler[2]} ${routePath}: ${signature}` : signature });
+      return;
+    }
+    if (/^export\s+(const|let|var)\s+\w+/.test(line) || /^export\s+default\s+/.test(line)) {
+      inClass = false;
+      entries.push({ line: index + 1, text: signatureAt(lines, index, "js") });
+      return;
+    }
+    if (/^\S/.test(line) && !/^[})\]]/.test(line)) {
+      inClass = false;
+      return;
+    }
+    // Methods of the class being outlined, one indentation level deep
+    const method = /^(?: {2}| {4}|\t)(?:(?:public|protected|static|async|readonly|override|get|set)\s+)*(#?\w+)\s*(<[^>]*>)?\(/.exec(line);
+    if (inClass && method && !/^(if|for|while|switch|catch|return|constructor)$/.test(method[1]) && !/^\s*private\b/.test(line)) {
+      entries.push({ line: index + 1, text: `  ${signatureAt(lines, index, "js")}` });
+    }
+  });
+  return entries;
+}
+
+function outlinePython(path: string, lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  const decoratorRoute = new RegExp(`^\\s*@\\w+\\.(${HTTP_METHODS}|route|api_route|websocket)\\(\\s*['"]([^'"]*)['"]`, "i");
+  const isUrls = posix.basename(path) === "urls.py";
+  let inClass = false;
+
+  lines.forEach((line, index) => {
+    const route = decoratorRoute.exec(line);
+    if (route) {
+      entries.push({ line: index + 1, text: `route ${route[1].toUpperCase()} ${route[2]}` });
+      return;
+    }
+    const urlPattern = isUrls ? /\b(?:re_)?path\(\s*r?['"]([^'"]*)['"]/.exec(line) : null;
+    if (urlPattern) {
+      entries.push({ line: index + 1, text: `route ${urlPattern[1] ? `/${urlPattern[1]}` : "/"}` });
+      return;
+    }
+    if (/^(async\s+)?def\s+\w+|^class\s+\w+/.test(line)) {
+      inClass = line.startsWith("class");
+      entries.push({ line: index + 1, text: signatureAt(lines, index, "python") });
+      return;
+    }
+    if (/^\S/.test(line) && !line.startsWith("@") && !line.startsWith("#")) {
+      inClass = false;
+      return;
+    }
+    const method = /^(?: {4}|\t)(async\s+)?def\s+(\w+)/.exec(line);
+    if (inClass && method && (!method[2].startsWith("_") || method[2] === "__init__")) {
+      entries.push({ line: index + 1, text: `  ${signatureAt(lines, index, "python")}` });
+    }
+  });
+  return entries;
+}
+
+function outlineGo(lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  const routeCall = /\.(HandleFunc|Handle|GET|POST|PUT|PATCH|DELETE|Get|Post|Put|Patch|Delete|Group)\(\s*"([^"]+)"/;
+  lines.forEach((line, index) => {
+    const route = routeCall.exec(line);
+    if (route) {
+      const method = /^Handle/.test(route[1]) ? "ANY" : route[1].toUpperCase();
+      entries.push({ line: index + 1, text: `route ${method} ${route[2]}` });
+      return;
+    }
+    if (/^func\s/.test(line) || /^type\s+\w+/.test(line)) {
+      entries.push({ line: index + 1, text: signatureAt(lines, index, "go") });
+    }
+  });
+  return entries;
+}
+
+function outlineSwift(lines: string[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  const modifiers = "(?:(?:public|open|internal|final|static|class|override|mutating|nonisolated|@\\w+(?:\\([^)]*\\))?)\\s+)*";
+  const typeDecl = new RegExp(`^\\s*${modifiers}(class|struct|enum|protocol|extension|actor)\\s+\\w+`);
+  const funcDecl = new RegExp(`^\\s*${modifiers}(func\\s+\\w+|init\\??\\s*\\()`);
+  lines.forEach((line, index) => {
+    if (/^\s*(private|fileprivate)\b/.test(line)) return;
+    const indent = /^\s*/.exec(line)![0].length;
+    if (typeDecl.test(line) || funcDecl.test(line)) {
+      entries.push({ line: index + 1, text: `${indent ? "  " : ""}${signatureAt(lines, index, "swift")}` });
+    }
+  });
+  return entries;
+}
+
+export function extractOutline(path: string, content: string): OutlineEntry[] {
+  const language = languageOf(path);
+  if (!language) return [];
+  const lines = content.split("\n");
+  const entries = language === "js" ? outlineJs(path, lines)
+    : language === "python" ? outlinePython(path, lines)
+      : language === "go" ? outlineGo(lines)
+        : outlineSwift(lines);
+  return entries.filter((entry) => entry.text.trim()).slice(0, MAX_ENTRIES);
+}
+
+// ---------------------------------------------------------------------------
+// Fitting content into a budget
+// ---------------------------------------------------------------------------
+
+export type FittedContent = {
+  content: string;
+  truncated: boolean;
+  // Content starts with a symbol outline of the whole file
+  outline: boolean;
+};
+
+// Content up to `maxLen` characters. Longer files in a supported language get
+// their outline first, then as much of the start of the file as still fits;
+// others are cut at `maxLen` as before.
+export function fitContent(path: string, content: string, maxLen: number): FittedContent {
+  if (content.length <= maxLen) return { content, truncated: false, outline: false };
+
+  const entries = extractOutline(path, content);
+  if (!entries.length) return { content: content.slice(0, maxLen), truncated: true, outline: false };
+
+  const lineCount = content.split("\n").length;
+  let outline = `[outline: ${lineCount} lines, ${Math.round(content.length / 1024)} KB; declarations first, then the start of the file]`;
+  for (const entry of entries) {
+    const next = `\nL${entry.line}: ${entry.text}`;
+    if (outline.length + next.length > maxLen) break;
+    outline += next;
+  }
+
+  const separator = "\n\n[start of file]\n";
+  const remaining = maxLen - outline.length - separator.length;
+  return {
+    content: remaining > 0 ? `${outline}${separator}${content.slice(0, remaining)}` : outline,
+    truncated: true,
+    outline: true
+  };
+}
+
+// A file's content for a prompt excerpt of `maxLen` characters. Contents that
+// already start with an outline only need cutting.
+export function fileExcerpt(file: SelectedFile, maxLen: number): string {
+  return file.outline ? file.content.slice(0, maxLen) : fitContent(file.path, file.content, maxLen).content;
+}
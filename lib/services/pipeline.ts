@@ -1,38 +1,91 @@
+import { readdir } from "node:fs/promises";
+import { z } from "zod";
 import {
   AnalyzeRequest,
   analyzeRequestSchema,
+  architectureModelSchema,
+  changePlanSchema,
+  executablePlanSchema,
+  extractArtifactSchema,
+  fetchArtifactSchema,
+  GitHubSource,
   HarnessContext,
+  intentSpecSchema,
+  LlmUsage,
   MODEL_VERSION,
   PipelineSource,
   RepoSnapshot,
+  repoSnapshotSchema,
+  RunCheckpoint,
+  runCheckpointSchema,
   RunResult,
   ScanMode,
+  stackFingerprintSchema,
+  StageState,
   TargetAgent
 } from "@/lib/models";
 import { HARNESS } from "@/lib/services/config";
 import { buildRepoSnapshot } from "@/lib/services/github-intake";
 import { runFetchStage, isGitAvailable } from "@/lib/services/fetch.stage";
+import { runExtractStage } from "@/lib/services/extract.stage";
 import { runIngestStage } from "@/lib/services/ingest.stage";
-import { createRunDirs, cleanupWorkspace, writeTextArtifact } from "@/lib/services/workspace";
-import { detectStack } from "@/lib/services/stack-detector";
+import { isRemoteSource, sourceFromUrl } from "@/lib/services/sources";
+import {
+  artifactsDir,
+  cleanupWorkspace,
+  createRunDirs,
+  readArtifact,
+  workspaceDir,
+  writeArtifact,
+  writeTextArtifact
+} from "@/lib/services/workspace";
+import { detectStack, loadStackDetectors } from "@/lib/services/stack-detector";
 import { extractArchitecture, extractIntent } from "@/lib/services/analysis";
 import { compileExecutablePlan } from "@/lib/services/prompt-compiler";
+import { addUsage, emptyUsage, withUsageTracking } from "@/lib/services/usage";
+import { RunCancelledError } from "@/lib/services/cancellation";
+import { buildChangePlan } from "@/lib/services/delta";
+import { hashStageInputs, isStageFinished, listComparableRuns, snapshotInputs } from "@/lib/services/incremental";
 
 function now(): string {
   return new Date().toISOString();
 }
 
-function newRunId(): string {
+export function newRunId(): string {
   return `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
-type StageState = RunResult["stages"][number];
+export type PipelineOptions = {
+  // Pre-allocated run id, so callers can hand it out before the run finishes
+  runId?: string;
+  // Aborting stops the current stage; the run rejects with RunCancelledError
+  signal?: AbortSignal;
+  // Called with a copy of every stage after each status transition
+  onStageChange?: (stages: StageState[]) => void;
+};
+
+const stageListeners = new WeakMap<StageState[], (stages: StageState[]) => void>();
+
+function watchStages(stages: StageState[], options: PipelineOptions): StageState[] {
+  if (options.onStageChange) {
+    stageListeners.set(stages, options.onStageChange);
+    options.onStageChange(structuredClone(stages));
+  }
+  return stages;
+}
+
+function notifyStages(stages: StageState[]): void {
+  stageListeners.get(stages)?.(structuredClone(stages));
+}
 
 function initStagesForSource(source: PipelineSource, useHarness: boolean): StageState[] {
   const stages: StageState[] = [];
-  if (source.type === "github" && useHarness) {
+  if (isRemoteSource(source) && useHarness) {
     stages.push({ id: "fetch", label: "Fetch repository", status: "pending" });
   }
+  if (source.type === "archive") {
+    stages.push({ id: "extract", label: "Extract archive", status: "pending" });
+  }
   stages.push(
     { id: "ingest", label: "Ingest workspace", status: "pending" },
     { id: "stack", label: "Stack detection", status: "pending" },
@@ -40,6 +93,9 @@ function initStagesForSource(source: PipelineSource, useHarness: boolean): Stage
     { id: "intent", label: "Intent extraction", status: "pending" },
     { id: "plan", label: "Plan compilation", status: "pending" }
   );
+  if (source.type !== "archive" && source.baseRef) {
+    stages.push({ id: "changes", label: "Change summary", status: "pending" });
+  }
   return stages;
 }
 
@@ -59,6 +115,7 @@ function startStage(stages: StageState[], id: string): void {
   if (!stage) return;
   stage.status = "running";
   stage.startedAt = now();
+  notifyStages(stages);
 }
 
 function completeStage(stages: StageState[], id: string): void {
@@ -66,14 +123,240 @@ function completeStage(stages: StageState[], id: string): void {
   if (!stage) return;
   stage.status = "done";
   stage.finishedAt = now();
+  notifyStages(stages);
 }
 
-function failStage(stages: StageState[], id: string, error: unknown): void {
+// Aborts surface as DOMExceptions, git plugin errors or RunCancelledError
+// depending on where they hit; the signal is the reliable source of truth
+function failStage(stages: StageState[], id: string, error: unknown, signal?: AbortSignal): void {
   const stage = stages.find((item) => item.id === id);
   if (!stage) return;
-  stage.status = "error";
+  stage.status = signal?.aborted ? "cancelled" : "error";
   stage.finishedAt = now();
-  stage.error = error instanceof Error ? error.message : "Unexpected error";
+  stage.error = signal?.aborted
+    ? "Cancelled"
+    : error instanceof Error ? error.message : "Unexpected error";
+  notifyStages(stages);
+}
+
+// Attach a fresh usage ledger to the stage so LLM calls made inside it are billed there
+function stageUsage(stages: StageState[], id: string): LlmUsage {
+  const usage = emptyUsage();
+  const stage = stages.find((item) => item.id === id);
+  if (stage) stage.usage = usage;
+  return usage;
+}
+
+// Outputs of the stages that have finished so far
+type StageOutputs = Partial<Pick<RunResult, "snapshot" | "stack" | "architecture" | "intent" | "plan" | "changePlan">>;
+
+// Artifact each stage's output is checkpointed to. fetch and ingest write their
+// own artifacts; fetch has no output later stages consume, only a workspace.
+const STAGE_CHECKPOINTS: Record<string, { file: string; output?: keyof StageOutputs; schema: z.ZodTypeAny }> = {
+  fetch: { file: "fetch.json", schema: fetchArtifactSchema },
+  extract: { file: "extract.json", schema: extractArtifactSchema },
+  ingest: { file: "ingest.json", output: "snapshot", schema: repoSnapshotSchema },
+  intake: { file: "ingest.json", output: "snapshot", schema: repoSnapshotSchema },
+  stack: { file: "stack.json", output: "stack", schema: stackFingerprintSchema },
+  arch: { file: "architecture.json", output: "architecture", schema: architectureModelSchema },
+  intent: { file: "intent.json", output: "intent", schema: intentSpecSchema },
+  plan: { file: "plan.json", output: "plan", schema: executablePlanSchema },
+  changes: { file: "changes.json", output: "changePlan", schema: changePlanSchema }
+};
+
+// The latest finished run of the same source, whose outputs stages with
+// unchanged inputs reuse
+type PreviousRun = {
+  runId: string;
+  stages: StageState[];
+  outputs: StageOutputs;
+};
+
+// State shared by the stages of one run, whether started fresh or resumed
+type StageRun = {
+  checkpoint: RunCheckpoint;
+  artifactsPath: string;
+  signal?: AbortSignal;
+  outputs: StageOutputs;
+  previous?: PreviousRun;
+};
+
+async function saveCheckpoint(run: StageRun): Promise<void> {
+  run.checkpoint.updatedAt = now();
+  await writeArtifact(run.artifactsPath, "checkpoint.json", run.checkpoint).catch((error) => {
+    console.warn(`Unable to write run checkpoint: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+function isStageDone(run: StageRun, id: string): boolean {
+  const stage = run.checkpoint.stages.find((item) => item.id === id);
+  return stage ? isStageFinished(stage) : false;
+}
+
+// Runs one stage with status tracking and a checkpoint after each transition.
+// `trackUsage` bills the LLM calls made inside the task to this stage.
+async function runStep<T>(run: StageRun, id: string, task: () => Promise<T>, trackUsage = false): Promise<T> {
+  const { stages } = run.checkpoint;
+  startStage(stages, id);
+  await saveCheckpoint(run);
+  try {
+    const result = trackUsage ? await withUsageTracking(stageUsage(stages, id), task) : await task();
+    completeStage(stages, id);
+    return result;
+  } catch (error) {
+    failStage(stages, id, error, run.signal);
+    throw error;
+  } finally {
+    await saveCheckpoint(run);
+  }
+}
+
+// Like runStep, but returns the restored output when a resumed run already
+// finished this stage, and checkpoints the output before marking it done.
+// With `inputs`, a stage whose inputs hash the same as in the previous run
+// reuses that run's output and is marked "unchanged" instead of running,
+// unless that output came from an LLM fallback.
+async function runOutputStage<K extends keyof StageOutputs>(
+  run: StageRun,
+  id: string,
+  task: () => Promise<NonNullable<StageOutputs[K]>>,
+  options: { trackUsage?: boolean; persisted?: boolean; inputs?: unknown } = {}
+): Promise<NonNullable<StageOutputs[K]>> {
+  const { file, output } = STAGE_CHECKPOINTS[id];
+  const key = output as K;
+  const restored = run.outputs[key];
+  if (isStageDone(run, id) && restored) {
+    return restored as NonNullable<StageOutputs[K]>;
+  }
+
+  const stage = run.checkpoint.stages.find((item) => item.id === id);
+  if (stage && options.inputs !== undefined) {
+    stage.inputHash = hashStageInputs(options.inputs);
+    const previousStage = run.previous?.stages.find((item) => item.id === id);
+    const previousOutput = run.previous?.outputs[key];
+    if (previousStage?.inputHash === stage.inputHash && !previousStage.usage?.fallbacks && previousOutput) {
+      await writeArtifact(run.artifactsPath, file, previousOutput);
+      run.outputs[key] = previousOutput;
+      stage.status = "unchanged";
+      stage.startedAt = stage.finishedAt = now();
+      stage.reusedFrom = previousStage.reusedFrom ?? run.previous!.runId;
+      notifyStages(run.checkpoint.stages);
+      await saveCheckpoint(run);
+      return previousOutput as NonNullable<StageOutputs[K]>;
+    }
+  }
+
+  return runStep(run, id, async () => {
+    const result = await task();
+    if (!options.persisted) {
+      await writeArtifact(run.artifactsPath, file, result);
+    }
+    run.outputs[key] = result;
+    return result;
+  }, options.trackUsage);
+}
+
+async function writePartialRun(run: StageRun): Promise<void> {
+  const { runId, stages } = run.checkpoint;
+  await writeArtifact(run.artifactsPath, "run.partial.json", {
+    id: runId,
+    createdAt: now(),
+    cancelled: true,
+    stages,
+    ...run.outputs,
+    usage: addUsage(...stages.map((stage) => stage.usage))
+  }).catch((error) => {
+    console.warn(`Unable to write partial run artifact: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+// stack -> arch -> intent -> plan, shared by the harness and legacy paths
+async function runAnalysisStages(run: StageRun, snapshot: RepoSnapshot): Promise<RunResult> {
+  const { signal } = run;
+
+  // Each stage lists the outputs it reads, so a re-run of the same source can
+  // tell which stages would produce the same result as last time
+  const inputSnapshot = snapshotInputs(snapshot);
+
+  // Custom detectors are part of the stack stage's inputs, so a module that
+  // fails to load fails that stage
+  const detectors = await loadStackDetectors().catch(async (error: unknown) => {
+    failStage(run.checkpoint.stages, "stack", error, signal);
+    await saveCheckpoint(run);
+    throw error;
+  });
+  const stack = await runOutputStage<"stack">(run, "stack", async () => detectStack(snapshot, detectors), {
+    inputs: { snapshot: inputSnapshot, detectors: detectors.map(({ name, source }) => ({ name, source })) }
+  });
+
+  const architecture = await runOutputStage<"architecture">(run, "arch", () =>
+    extractArchitecture(snapshot, stack, signal), { trackUsage: true, inputs: { snapshot: inputSnapshot, stack } });
+
+  const intent = await runOutputStage<"intent">(run, "intent", () =>
+    extractIntent(snapshot, architecture, signal), { trackUsage: true, inputs: { snapshot: inputSnapshot, architecture } });
+
+  const targetAgent: TargetAgent = "claude-code";
+  const plan = await runOutputStage<"plan">(run, "plan", () =>
+    compileExecutablePlan(stack, architecture, intent, snapshot, targetAgent, signal), {
+    trackUsage: true,
+    inputs: { snapshot: inputSnapshot, stack, architecture, intent, targetAgent }
+  });
+
+  // Write plan.md artifact
+  await writeTextArtifact(run.artifactsPath, "plan.md", plan.prompt);
+
+  // Commit-range runs: which components, routes, contracts and build steps the diff touches
+  const changePlan = snapshot.delta
+    ? await runOutputStage<"changePlan">(run, "changes", async () => buildChangePlan(snapshot, architecture), {
+      inputs: { snapshot: inputSnapshot, architecture }
+    })
+    : undefined;
+  if (changePlan) {
+    await writeTextArtifact(run.artifactsPath, "changes.md", changePlan.prompt);
+  }
+
+  const { runId, stages } = run.checkpoint;
+  return {
+    id: runId,
+    createdAt: now(),
+    snapshot,
+    stack,
+    architecture,
+    intent,
+    plan,
+    ...(changePlan ? { changePlan } : {}),
+    stages,
+    usage: addUsage(...stages.map((stage) => stage.usage))
+  };
+}
+
+async function withPartialOnCancel(run: StageRun, task: () => Promise<RunResult>): Promise<RunResult> {
+  try {
+    return await task();
+  } catch (error) {
+    if (run.signal?.aborted) {
+      await writePartialRun(run);
+      throw new RunCancelledError();
+    }
+    throw error;
+  }
+}
+
+function newStageRun(
+  runId: string,
+  source: PipelineSource,
+  scanMode: ScanMode,
+  stages: StageState[],
+  artifactsPath: string,
+  options: PipelineOptions
+): StageRun {
+  const createdAt = now();
+  return {
+    checkpoint: { runId, source, scanMode, createdAt, updatedAt: createdAt, stages: watchStages(stages, options) },
+    artifactsPath,
+    signal: options.signal,
+    outputs: {}
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -83,100 +366,68 @@ function failStage(stages: StageState[], id: string, error: unknown): void {
 export async function runHarnessPipeline(
   source: PipelineSource,
   scanMode: ScanMode,
-  githubToken?: string
+  githubToken?: string,
+  options: PipelineOptions = {}
 ): Promise<RunResult> {
-  const runId = newRunId();
-  const gitAvailable = source.type === "github" ? await isGitAvailable() : true;
+  const runId = options.runId ?? newRunId();
+  const gitAvailable = isRemoteSource(source) ? await isGitAvailable() : true;
   const useHarness = source.type === "local" || gitAvailable;
 
-  // If GitHub source and git not available, fall back to legacy API path
+  // Without git, GitHub sources fall back to the legacy Content API path;
+  // other hosts have no equivalent
   if (source.type === "github" && !useHarness) {
-    return runLegacyAnalysis(source.repoUrl, source.ref, scanMode, githubToken);
+    return runLegacyAnalysis(source, scanMode, githubToken, { ...options, runId });
+  }
+  if (!useHarness) {
+    throw new Error(`git is required to analyze ${source.type} sources`);
   }
 
   const { workspacePath, artifactsPath } = source.type === "local"
     ? { workspacePath: source.repoPath, artifactsPath: (await createRunDirs(runId)).artifactsPath }
     : await createRunDirs(runId);
 
+  const run = newStageRun(runId, source, scanMode, initStagesForSource(source, useHarness), artifactsPath, options);
+  run.previous = await findPreviousRun(run.checkpoint);
+  await saveCheckpoint(run);
+  return executeHarness(run, workspacePath, githubToken);
+}
+
+async function executeHarness(run: StageRun, workspacePath: string, githubToken?: string): Promise<RunResult> {
+  const { runId, source, scanMode } = run.checkpoint;
   const ctx: HarnessContext = {
     runId,
     source,
     workspacePath,
-    artifactsPath,
+    artifactsPath: run.artifactsPath,
     scanMode,
     githubToken,
+    signal: run.signal,
+    previousSnapshot: run.previous?.outputs.snapshot,
     runtimeOptions: {
       cleanupWorkspace: HARNESS.github.cleanupWorkspace,
       enableBuildExecution: HARNESS.enableBuildExecution
     }
   };
 
-  const stages = initStagesForSource(source, useHarness);
-
   try {
-    // Fetch stage (GitHub only)
-    if (source.type === "github") {
-      startStage(stages, "fetch");
-      await runFetchStage(ctx).catch((error) => {
-        failStage(stages, "fetch", error);
-        throw error;
-      });
-      completeStage(stages, "fetch");
-    }
+    return await withPartialOnCancel(run, async () => {
+      // Fetch stage (remote sources only)
+      if (isRemoteSource(source) && !isStageDone(run, "fetch")) {
+        await runStep(run, "fetch", () => runFetchStage(ctx));
+      }
 
-    // Ingest stage
-    startStage(stages, "ingest");
-    const snapshot = await runIngestStage(ctx).catch((error) => {
-      failStage(stages, "ingest", error);
-      throw error;
-    });
-    completeStage(stages, "ingest");
-
-    // Stack detection
-    startStage(stages, "stack");
-    const stack = detectStack(snapshot);
-    completeStage(stages, "stack");
-
-    // Architecture extraction
-    startStage(stages, "arch");
-    const architecture = await extractArchitecture(snapshot, stack).catch((error) => {
-      failStage(stages, "arch", error);
-      throw error;
-    });
-    completeStage(stages, "arch");
+      // Extract stage (archive sources only)
+      if (source.type === "archive" && !isStageDone(run, "extract")) {
+        await runStep(run, "extract", () => runExtractStage(ctx));
+      }
 
-    // Intent extraction
-    startStage(stages, "intent");
-    const intent = await extractIntent(snapshot, architecture).catch((error) => {
-      failStage(stages, "intent", error);
-      throw error;
-    });
-    completeStage(stages, "intent");
-
-    // Plan compilation
-    startStage(stages, "plan");
-    const targetAgent: TargetAgent = "claude-code";
-    const plan = await compileExecutablePlan(stack, architecture, intent, snapshot, targetAgent).catch((error) => {
-      failStage(stages, "plan", error);
-      throw error;
+      // Ingest stage
+      const snapshot = await runOutputStage<"snapshot">(run, "ingest", () => runIngestStage(ctx), { persisted: true });
+
+      return runAnalysisStages(run, snapshot);
     });
-    completeStage(stages, "plan");
-
-    // Write plan.md artifact
-    await writeTextArtifact(ctx.artifactsPath, "plan.md", plan.prompt);
-
-    return {
-      id: runId,
-      createdAt: now(),
-      snapshot,
-      stack,
-      architecture,
-      intent,
-      plan,
-      stages
-    };
   } finally {
-    if (source.type === "github" && ctx.runtimeOptions.cleanupWorkspace) {
+    if (source.type !== "local" && ctx.runtimeOptions.cleanupWorkspace) {
       await cleanupWorkspace(runId).catch(() => {});
     }
   }
@@ -187,75 +438,156 @@ export async function runHarnessPipeline(
 // ---------------------------------------------------------------------------
 
 async function runLegacyAnalysis(
-  repoUrl: string,
-  branch: string | undefined,
+  source: GitHubSource,
   scanMode: ScanMode,
-  githubToken?: string
+  githubToken?: string,
+  options: PipelineOptions = {}
 ): Promise<RunResult> {
-  const stages = initLegacyStages();
-  const runId = newRunId();
+  // Package selection needs the workspace manifests, which only a clone has
+  if (source.packages?.length) {
+    throw new Error("Selecting workspace packages requires git; use subpath instead");
+  }
+  if (source.baseRef) {
+    throw new Error("Commit-range analysis requires git");
+  }
+  const runId = options.runId ?? newRunId();
   const { artifactsPath } = await createRunDirs(runId);
+  const run = newStageRun(runId, source, scanMode, initLegacyStages(), artifactsPath, options);
+  await saveCheckpoint(run);
+  return executeLegacy(run, githubToken);
+}
 
-  startStage(stages, "intake");
-  const snapshot = await buildRepoSnapshot(repoUrl, branch, scanMode, githubToken).catch((error) => {
-    failStage(stages, "intake", error);
-    throw error;
-  });
-  completeStage(stages, "intake");
+async function executeLegacy(run: StageRun, githubToken?: string): Promise<RunResult> {
+  const { source, scanMode } = run.checkpoint;
+  if (source.type !== "github") {
+    throw new Error("Legacy analysis only applies to GitHub sources");
+  }
 
-  startStage(stages, "stack");
-  const stack = detectStack(snapshot);
-  completeStage(stages, "stack");
+  return withPartialOnCancel(run, async () => {
+    const snapshot = await runOutputStage<"snapshot">(run, "intake", () =>
+      buildRepoSnapshot(source.repoUrl, source.ref, scanMode, githubToken, run.signal, source.subpath));
 
-  startStage(stages, "arch");
-  const architecture = await extractArchitecture(snapshot, stack).catch((error) => {
-    failStage(stages, "arch", error);
-    throw error;
+    return runAnalysisStages(run, snapshot);
   });
-  completeStage(stages, "arch");
+}
 
-  startStage(stages, "intent");
-  const intent = await extractIntent(snapshot, architecture).catch((error) => {
-    failStage(stages, "intent", error);
-    throw error;
-  });
-  completeStage(stages, "intent");
+// ---------------------------------------------------------------------------
+// Resume: restart a checkpointed run from its first incomplete stage
+// ---------------------------------------------------------------------------
 
-  startStage(stages, "plan");
-  const targetAgent: TargetAgent = "claude-code";
-  const plan = await compileExecutablePlan(stack, architecture, intent, snapshot, targetAgent).catch((error) => {
-    failStage(stages, "plan", error);
-    throw error;
-  });
-  completeStage(stages, "plan");
+export async function readRunCheckpoint(runId: string): Promise<RunCheckpoint | undefined> {
+  const data = await readArtifact(artifactsDir(runId), "checkpoint.json").catch(() => undefined);
+  const parsed = runCheckpointSchema.safeParse(data);
+  return parsed.success ? parsed.data : undefined;
+}
 
-  // Write plan.md artifact
-  await writeTextArtifact(artifactsPath, "plan.md", plan.prompt);
+// Loads the outputs of the leading finished stages, stopping at the first stage
+// that did not finish or whose artifact is missing or invalid
+async function loadFinishedOutputs(
+  artifactsPath: string,
+  stages: StageState[]
+): Promise<{ outputs: StageOutputs; finished: number }> {
+  const outputs: StageOutputs = {};
+  let finished = 0;
+  for (const stage of stages) {
+    if (!isStageFinished(stage)) break;
+    const { file, output, schema } = STAGE_CHECKPOINTS[stage.id] ?? {};
+    if (!file) break;
+    const parsed = schema.safeParse(await readArtifact(artifactsPath, file).catch(() => undefined));
+    if (!parsed.success) break;
+    if (output) outputs[output] = parsed.data;
+    finished++;
+  }
+  return { outputs, finished };
+}
 
-  return {
-    id: runId,
-    createdAt: now(),
-    snapshot,
-    stack,
-    architecture,
-    intent,
-    plan,
-    stages
+// Loads the outputs of finished stages; every stage from the first one that
+// could not be restored goes back to pending
+async function restoreOutputs(artifactsPath: string, stages: StageState[]): Promise<StageOutputs> {
+  const { outputs, finished } = await loadFinishedOutputs(artifactsPath, stages);
+  for (const stage of stages.slice(finished)) {
+    resetStage(stage);
+  }
+  return outputs;
+}
+
+function resetStage(stage: StageState): void {
+  stage.status = "pending";
+  delete stage.startedAt;
+  delete stage.finishedAt;
+  delete stage.error;
+  delete stage.usage;
+  delete stage.inputHash;
+  delete stage.reusedFrom;
+}
+
+async function findPreviousRun(checkpoint: RunCheckpoint): Promise<PreviousRun | undefined> {
+  const [latest] = await listComparableRuns(checkpoint.runId, checkpoint.source, checkpoint.scanMode);
+  if (!latest) return undefined;
+  const { outputs } = await loadFinishedOutputs(artifactsDir(latest.runId), latest.stages);
+  return { runId: latest.runId, stages: latest.stages, outputs };
+}
+
+async function hasWorkspace(runId: string): Promise<boolean> {
+  const entries = await readdir(workspaceDir(runId)).catch(() => []);
+  return entries.length > 0;
+}
+
+export async function resumeHarnessPipeline(
+  runId: string,
+  githubToken?: string,
+  options: Omit<PipelineOptions, "runId"> = {}
+): Promise<RunResult> {
+  const checkpoint = await readRunCheckpoint(runId);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint found for run ${runId}`);
+  }
+
+  const artifactsPath = artifactsDir(runId);
+  const { source, stages } = checkpoint;
+  const outputs = await restoreOutputs(artifactsPath, stages);
+  const run: StageRun = {
+    checkpoint: { ...checkpoint, stages: watchStages(stages, options) },
+    artifactsPath,
+    signal: options.signal,
+    outputs
   };
+
+  if (stages[0]?.id === "intake") {
+    await saveCheckpoint(run);
+    return executeLegacy(run, githubToken);
+  }
+
+  if (source.type === "local") {
+    await saveCheckpoint(run);
+    return executeHarness(run, source.repoPath, githubToken);
+  }
+
+  // Ingest reads the clone or extracted archive, so a workspace that was cleaned
+  // up (or a clone or extraction that was interrupted) means fetching or
+  // extracting again into an empty directory
+  if (!isStageDone(run, "ingest") && !(isStageDone(run, stages[0].id) && await hasWorkspace(runId))) {
+    resetStage(stages[0]);
+    await cleanupWorkspace(runId);
+  }
+  const { workspacePath } = await createRunDirs(runId);
+  await saveCheckpoint(run);
+  return executeHarness(run, workspacePath, githubToken);
 }
 
 // ---------------------------------------------------------------------------
 // API entry point (backwards compatible)
 // ---------------------------------------------------------------------------
 
-export async function runAnalysis(input: AnalyzeRequest): Promise<RunResult> {
+export async function runAnalysis(input: AnalyzeRequest, options: PipelineOptions = {}): Promise<RunResult> {
   const parsed = analyzeRequestSchema.parse(input);
-  const source: PipelineSource = {
-    type: "github",
-    repoUrl: parsed.repoUrl,
-    ref: parsed.branch
+  const source = {
+    ...sourceFromUrl(parsed.repoUrl, parsed.branch),
+    subpath: parsed.subpath,
+    packages: parsed.packages,
+    baseRef: parsed.baseRef
   };
-  return runHarnessPipeline(source, parsed.scanMode, parsed.githubToken);
+  return runHarnessPipeline(source, parsed.scanMode, parsed.githubToken, options);
 }
 
 export function cloneRun(run: RunResult): RunResult {
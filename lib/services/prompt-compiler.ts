@@ -10,6 +10,7 @@ import {
   TargetAgent
 } from "@/lib/models";
 import { callClaudeJson, schemaAsJson } from "@/lib/services/claude";
+import { RunCancelledError } from "@/lib/services/cancellation";
 
 function errorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -204,6 +205,30 @@ function isSwiftUIStack(stack: StackFingerprint): boolean {
   return stack.frontend.some((item) => item.name.toLowerCase() === "swiftui");
 }
 
+// Flutter projects also carry an ios/ host app (AppDelegate.swift, Podfile),
+// so Flutter wins over the Apple-native signals it brings along
+function isFlutterStack(stack: StackFingerprint): boolean {
+  return stack.frontend.some((item) => item.name.toLowerCase() === "flutter");
+}
+
+function isAndroidStack(stack: StackFingerprint): boolean {
+  const frontendNames = stack.frontend.map((item) => item.name.toLowerCase());
+  return ["jetpack compose", "android views", "android platform"].some((name) => frontendNames.includes(name));
+}
+
+function isComposeStack(stack: StackFingerprint): boolean {
+  return stack.frontend.some((item) => item.name.toLowerCase() === "jetpack compose");
+}
+
+type DesignPlatform = "web" | "apple" | "android" | "flutter";
+
+function designPlatform(stack: StackFingerprint): DesignPlatform {
+  if (isFlutterStack(stack)) return "flutter";
+  if (isNativeMobileStack(stack)) return "apple";
+  if (isAndroidStack(stack)) return "android";
+  return "web";
+}
+
 // ---------------------------------------------------------------------------
 // SwiftUI style detection helpers
 // ---------------------------------------------------------------------------
@@ -273,6 +298,276 @@ function detectSwiftUIPatternSignals(snapshot: RepoSnapshot): {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Flutter style detection helpers
+// ---------------------------------------------------------------------------
+
+function collectDartSource(snapshot: RepoSnapshot): string {
+  const dartFiles = snapshot.files.filter((file) => file.path.endsWith(".dart"));
+  return dartFiles.map((file) => file.content).join("\n");
+}
+
+function detectFlutterColorSignals(snapshot: RepoSnapshot): string[] {
+  const text = collectDartSource(snapshot);
+  if (!text) return [];
+
+  // Detect ARGB literals, Material palette references and seed colors
+  const argbLiterals = text.match(/Color\(\s*0x[0-9a-fA-F]{8}\s*\)/g) ?? [];
+  const seedColors = text.match(/seedColor:\s*(?:const\s+)?(?:Color\(\s*0x[0-9a-fA-F]{8}\s*\)|[\w.]+)/g) ?? [];
+  const paletteColors = text.match(/Colors\.\w+/g) ?? [];
+
+  const values = new Set<string>();
+  for (const c of [...seedColors, ...argbLiterals, ...paletteColors]) {
+    values.add(c);
+    if (values.size >= 8) break;
+  }
+
+  return [...values];
+}
+
+function detectFlutterFontSignals(snapshot: RepoSnapshot): string[] {
+  const text = collectDartSource(snapshot);
+  if (!text) return [];
+
+  const fontFamilies = text.match(/fontFamily:\s*['"][^'"]+['"]/g) ?? [];
+  const googleFonts = text.match(/GoogleFonts\.\w+/g) ?? [];
+  const textThemeStyles = text.match(/textTheme\.\w+/g) ?? [];
+  const values = new Set<string>();
+  for (const f of [...fontFamilies, ...googleFonts, ...textThemeStyles]) {
+    values.add(f);
+    if (values.size >= 6) break;
+  }
+
+  return [...values];
+}
+
+function detectFlutterPatternSignals(snapshot: RepoSnapshot): {
+  hasMaterial3: boolean;
+  hasCupertino: boolean;
+  hasNavigationBar: boolean;
+  hasNavigationRail: boolean;
+  hasDrawer: boolean;
+  hasGoRouter: boolean;
+  hasBottomSheet: boolean;
+  hasSlivers: boolean;
+  hasThemeExtension: boolean;
+  hasDarkTheme: boolean;
+  hasAnimation: boolean;
+} {
+  const text = collectDartSource(snapshot);
+  return {
+    hasMaterial3: /useMaterial3:\s*true|ColorScheme\.fromSeed\b/.test(text),
+    hasCupertino: /package:flutter\/cupertino\.dart|\bCupertino(?:App|PageScaffold|TabScaffold)\b/.test(text),
+    hasNavigationBar: /\b(?:NavigationBar|BottomNavigationBar|CupertinoTabBar)\(/.test(text),
+    hasNavigationRail: /\bNavigationRail\(/.test(text),
+    hasDrawer: /\b(?:drawer|endDrawer):\s*(?:const\s+)?\w*Drawer\b|\bNavigationDrawer\(/.test(text),
+    hasGoRouter: /package:go_router\/|\bGoRouter\(/.test(text),
+    hasBottomSheet: /\bshowModalBottomSheet\b|\bDraggableScrollableSheet\b/.test(text),
+    hasSlivers: /\bCustomScrollView\b|\bSliverAppBar\b/.test(text),
+    hasThemeExtension: /\bThemeExtension</.test(text),
+    hasDarkTheme: /\bdarkTheme:|Brightness\.dark\b/.test(text),
+    hasAnimation: /\bAnimationController\b|\bAnimated[A-Z]\w*\(|\bHero\(/.test(text)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Android style detection helpers
+// ---------------------------------------------------------------------------
+
+type AndroidColor = {
+  name: string;
+  hex: string;
+  source: string;
+};
+
+type AndroidThemeTokens = {
+  // colors.xml entries and top-level Compose `val X = Color(0x...)` values
+  colors: AndroidColor[];
+  // Roles assigned in lightColorScheme(...), resolved to hex where possible
+  schemeRoles: Record<string, string>;
+  hasDarkScheme: boolean;
+  // Parent of the first themes.xml style, e.g. Theme.Material3.DayNight.NoActionBar
+  parentTheme?: string;
+  // themes.xml items such as colorPrimary, resolved through colors.xml
+  themeItems: Record<string, string>;
+  // Typography(...) styles with their size, e.g. "bodyLarge 16sp"
+  typeScale: string[];
+  fontFamilies: string[];
+};
+
+function collectKotlinSource(snapshot: RepoSnapshot): string {
+  const kotlinFiles = snapshot.files.filter((file) => file.path.endsWith(".kt"));
+  return kotlinFiles.map((file) => file.content).join("\n");
+}
+
+function androidResources(snapshot: RepoSnapshot, name: string): RepoSnapshot["files"] {
+  return snapshot.files.filter((file) => new RegExp(`(^|/)res/values(-[\\w-]+)?/${name}\\.xml$`).test(file.path));
+}
+
+// #AARRGGBB (Android) and 0xAARRGGBB (Compose) to #RRGGBB
+function androidHex(value: string): string | undefined {
+  const digits = value.trim().replace(/^#|^0x/i, "").toUpperCase();
+  if (/^[0-9A-F]{8}$/.test(digits)) return `#${digits.slice(2)}`;
+  if (/^[0-9A-F]{6}$/.test(digits)) return `#${digits}`;
+  return undefined;
+}
+
+// Text between the parentheses of the call starting at `open` (index of "(")
+function callArguments(text: string, open: number): string {
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    if (text[index] === "(") depth++;
+    else if (text[index] === ")" && --depth === 0) return text.slice(open + 1, index);
+  }
+  return text.slice(open + 1);
+}
+
+function extractAndroidThemeTokens(snapshot: RepoSnapshot): AndroidThemeTokens {
+  const kotlin = collectKotlinSource(snapshot);
+  const colors: AndroidColor[] = [];
+  for (const file of androidResources(snapshot, "colors")) {
+    for (const match of file.content.matchAll(/<color\s+name="([^"]+)"\s*>\s*(#[0-9A-Fa-f]{6,8})\s*</g)) {
+      const hex = androidHex(match[2]);
+      if (hex) colors.push({ name: match[1], hex, source: file.path });
+    }
+  }
+  for (const file of snapshot.files.filter((candidate) => candidate.path.endsWith(".kt"))) {
+    for (const match of file.content.matchAll(/^val\s+(\w+)\s*=\s*Color\(\s*0x([0-9A-Fa-f]{8})\s*\)/gm)) {
+      colors.push({ name: match[1], hex: androidHex(match[2]) as string, source: file.path });
+    }
+  }
+  const colorByName = new Map(colors.map((color) => [color.name, color.hex]));
+
+  const schemeRoles: Record<string, string> = {};
+  const lightScheme = /\blightColorScheme\(/.exec(kotlin);
+  if (lightScheme) {
+    const args = callArguments(kotlin, lightScheme.index + lightScheme[0].length - 1);
+    for (const match of args.matchAll(/(\w+)\s*=\s*(Color\(\s*0x[0-9A-Fa-f]{8}\s*\)|\w+)/g)) {
+      const literal = /0x([0-9A-Fa-f]{8})/.exec(match[2]);
+      schemeRoles[match[1]] = literal ? androidHex(literal[1]) as string : colorByName.get(match[2]) ?? match[2];
+    }
+  }
+
+  const themeItems: Record<string, string> = {};
+  let parentTheme: string | undefined;
+  for (const file of [...androidResources(snapshot, "themes"), ...androidResources(snapshot, "styles")]) {
+    if (/values-night/.test(file.path)) continue;
+    parentTheme ??= /<style\s+name="[^"]+"\s+parent="([^"]+)"/.exec(file.content)?.[1];
+    for (const match of file.content.matchAll(/<item\s+name="(?:android:)?(\w+)"\s*>\s*([^<\s]+)\s*</g)) {
+      const reference = /^@color\/(\w+)$/.exec(match[2]);
+      themeItems[match[1]] ??= reference ? colorByName.get(reference[1]) ?? match[2] : androidHex(match[2]) ?? match[2];
+    }
+  }
+
+  const typeScale: string[] = [];
+  const typography = /\bTypography\(\s*\w+\s*=/.exec(kotlin);
+  if (typography) {
+    const args = callArguments(kotlin, kotlin.indexOf("(", typography.index));
+    for (const match of args.matchAll(/(\w+)\s*=\s*TextStyle\(/g)) {
+      const style = callArguments(args, (match.index ?? 0) + match[0].length - 1);
+      const size = /fontSize\s*=\s*(\d+(?:\.\d+)?)\.sp/.exec(style)?.[1];
+      typeScale.push(size ? `${match[1]} ${size}sp` : match[1]);
+    }
+  }
+
+  const fontFamilies = unique([
+    ...[...kotlin.matchAll(/Font\(\s*R\.font\.(\w+)/g)].map((match) => match[1]),
+    ...snapshot.files
+      .filter((file) => file.path.endsWith(".xml"))
+      .flatMap((file) => [...file.content.matchAll(/fontFamily">\s*@font\/(\w+)/g)].map((match) => match[1]))
+  ]).slice(0, 4);
+
+  return {
+    colors: colors.slice(0, 24),
+    schemeRoles,
+    hasDarkScheme: /\bdarkColorScheme\(/.test(kotlin) || snapshot.files.some((file) => /res\/values-night\//.test(file.path)),
+    parentTheme,
+    themeItems,
+    typeScale: typeScale.slice(0, 15),
+    fontFamilies
+  };
+}
+
+type AndroidColorScheme = {
+  primary: string;
+  secondary: string;
+  tertiary: string;
+  background: string;
+  surface: string;
+  error: string;
+};
+
+const THEME_ITEM_ROLES: Record<string, keyof AndroidColorScheme> = {
+  colorPrimary: "primary",
+  colorSecondary: "secondary",
+  colorAccent: "secondary",
+  colorTertiary: "tertiary",
+  colorBackground: "background",
+  windowBackground: "background",
+  colorSurface: "surface",
+  colorError: "error"
+};
+
+// Material 3 baseline roles, overridden by the Compose color scheme, then by
+// themes.xml items, then by colors.xml names that mention a role
+function pickAndroidColorScheme(tokens: AndroidThemeTokens): AndroidColorScheme {
+  const scheme: AndroidColorScheme = {
+    primary: "#6750A4",
+    secondary: "#625B71",
+    tertiary: "#7D5260",
+    background: "#FFFBFE",
+    surface: "#FFFBFE",
+    error: "#B3261E"
+  };
+  const assigned = new Set<keyof AndroidColorScheme>();
+  const assign = (role: keyof AndroidColorScheme, value: string | undefined) => {
+    if (assigned.has(role) || !value || !/^#[0-9A-F]{6}$/.test(value)) return;
+    scheme[role] = value;
+    assigned.add(role);
+  };
+
+  for (const role of Object.keys(scheme) as Array<keyof AndroidColorScheme>) {
+    assign(role, tokens.schemeRoles[role]);
+  }
+  for (const [item, value] of Object.entries(tokens.themeItems)) {
+    if (THEME_ITEM_ROLES[item]) assign(THEME_ITEM_ROLES[item], value);
+  }
+  for (const color of tokens.colors) {
+    const role = (Object.keys(scheme) as Array<keyof AndroidColorScheme>).find((candidate) => color.name.toLowerCase().includes(candidate));
+    if (role) assign(role, color.hex);
+  }
+  if (!assigned.has("primary")) {
+    assign("primary", tokens.colors.find((color) => !isNeutralTone(color.hex))?.hex);
+  }
+  return scheme;
+}
+
+function detectAndroidPatternSignals(snapshot: RepoSnapshot): {
+  hasNavigationBar: boolean;
+  hasNavigationRail: boolean;
+  hasNavigationDrawer: boolean;
+  hasNavHost: boolean;
+  hasBottomSheet: boolean;
+  hasLazyLists: boolean;
+  hasDynamicColor: boolean;
+  hasAnimation: boolean;
+} {
+  const text = [
+    collectKotlinSource(snapshot),
+    ...snapshot.files.filter((file) => file.path.endsWith(".xml")).map((file) => file.content)
+  ].join("\n");
+  return {
+    hasNavigationBar: /\b(?:NavigationBar|BottomNavigation)\s*[({]|\bBottomNavigationView\b/.test(text),
+    hasNavigationRail: /\bNavigationRail\s*[({]|\bNavigationRailView\b/.test(text),
+    hasNavigationDrawer: /\b(?:ModalNavigationDrawer|DismissibleNavigationDrawer)\s*[({]|\bNavigationView\b|\bDrawerLayout\b/.test(text),
+    hasNavHost: /\bNavHost\s*[({]|\bNavHostFragment\b|app:navGraph=/.test(text),
+    hasBottomSheet: /\bModalBottomSheet\s*[({]|\bBottomSheetDialogFragment\b/.test(text),
+    hasLazyLists: /\bLazy(?:Column|Row|VerticalGrid)\s*[({]|\bRecyclerView\b/.test(text),
+    hasDynamicColor: /\bdynamic(?:Light|Dark)ColorScheme\(|\bDynamicColors\b/.test(text),
+    hasAnimation: /\banimate\w*AsState\b|\b(?:AnimatedVisibility|Crossfade)\s*[({]|\bupdateTransition\(|\bMotionLayout\b/.test(text)
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Route / layout helpers
 // ---------------------------------------------------------------------------
@@ -865,6 +1160,256 @@ function inferSwiftUIDesignSystem(snapshot: RepoSnapshot, stack: StackFingerprin
   };
 }
 
+function inferFlutterDesignSystem(snapshot: RepoSnapshot): DesignSystemPlan {
+  const colorSignals = detectFlutterColorSignals(snapshot);
+  const fontSignals = detectFlutterFontSignals(snapshot);
+  const patterns = detectFlutterPatternSignals(snapshot);
+
+  const widgetSet = patterns.hasCupertino && !patterns.hasMaterial3 ? "Cupertino" : "Material 3";
+
+  const colorPalette = colorSignals.length
+    ? [
+        `Detected color references: ${colorSignals.slice(0, 4).join(", ")}.`,
+        "Promote detected colors into a single ColorScheme (ColorScheme.fromSeed or explicit light/dark schemes) instead of per-widget Color literals.",
+        "Add semantic tokens for success, warning, and danger through a ThemeExtension<AppColors> read via Theme.of(context)."
+      ]
+    : [
+        "Define light and dark ColorScheme.fromSeed(seedColor: ...) schemes as the single color source.",
+        "Use scheme roles (primary, secondary, surface, surfaceContainer, outline, error) instead of Colors.* constants in widgets.",
+        "Add semantic tokens (success, warning, info, textMuted) through a ThemeExtension<AppColors>."
+      ];
+
+  const typography = fontSignals.length
+    ? [
+        `Detected font usage: ${fontSignals.slice(0, 4).join(", ")}.`,
+        "Normalize into a TextTheme on ThemeData: displayLarge, headlineMedium, titleMedium, bodyLarge, bodyMedium, labelLarge.",
+        "Read styles via Theme.of(context).textTheme; keep text scaling (MediaQuery.textScaler) intact."
+      ]
+    : [
+        "Use the Material type scale: display, headline, title, body, and label styles from ThemeData.textTheme.",
+        "Set the app typeface once (ThemeData.fontFamily or a GoogleFonts text theme) rather than per TextStyle.",
+        "Respect system text scaling; avoid fixed-height containers around text."
+      ];
+
+  const radiusSystem = [
+    "Define AppRadius constants: xs=4, sm=8, md=12, lg=16, xl=28 as BorderRadius.circular values.",
+    "Apply radius through component themes (CardTheme, FilledButtonTheme, InputDecorationTheme) rather than raw literals.",
+    "Cards and sheets use md/lg; buttons use full stadium shape (StadiumBorder) or sm; dialogs use xl."
+  ];
+
+  const pageLayoutPatterns: string[] = [];
+  if (patterns.hasNavigationBar) {
+    pageLayoutPatterns.push("Scaffold with NavigationBar for top-level destinations, keeping each tab's navigation stack alive.");
+  }
+  if (patterns.hasNavigationRail) {
+    pageLayoutPatterns.push("NavigationRail on wide layouts, switching from NavigationBar at a tablet breakpoint.");
+  }
+  if (patterns.hasDrawer) {
+    pageLayoutPatterns.push("NavigationDrawer for secondary destinations and account actions.");
+  }
+  if (patterns.hasGoRouter) {
+    pageLayoutPatterns.push("Declarative routing with go_router (ShellRoute for the persistent shell, typed route paths).");
+  }
+  if (!pageLayoutPatterns.length) {
+    pageLayoutPatterns.push("Scaffold + AppBar shell with NavigationBar for primary destinations and Navigator routes for detail screens.");
+  }
+  pageLayoutPatterns.push(
+    "Define screen-level templates: list screen, detail screen, form screen, settings screen.",
+    patterns.hasSlivers
+      ? "Keep CustomScrollView + SliverAppBar composition for collapsing headers and long lists."
+      : "Use LayoutBuilder breakpoints for compact/medium/expanded widths instead of platform checks."
+  );
+
+  const styleLanguage = [
+    `Distinct ${widgetSet} aesthetic: themed framework widgets with a clear surface and elevation hierarchy.`,
+    "Drive styling from ThemeData and component themes so screens compose stock widgets without inline styles.",
+    "Extract repeated decoration into small reusable widgets (AppCard, SectionHeader, StatusChip)."
+  ];
+
+  const components = [
+    `App shell (${patterns.hasNavigationBar ? "Scaffold + NavigationBar" : "Scaffold + AppBar"} with routed destinations)`,
+    "Buttons (FilledButton, OutlinedButton, TextButton with loading state via a shared AppButton)",
+    "Form controls (TextFormField with InputDecorationTheme, validators, and Form/GlobalKey submission)",
+    "List/detail primitives (ListTile styles, section headers, Dismissible swipe actions)",
+    "Feedback surfaces (SnackBar, AlertDialog, empty/loading/error state widgets)",
+    patterns.hasBottomSheet
+      ? "Modal bottom sheets with drag handle and scroll-controlled height"
+      : "Dialogs and modal bottom sheets for secondary flows"
+  ];
+
+  const motion: string[] = [];
+  if (patterns.hasAnimation) {
+    motion.push("Detected animation usage; keep implicit animations short and use Hero only for shared elements.");
+  }
+  motion.push(
+    "Prefer implicit animations (AnimatedContainer, AnimatedSwitcher) with Curves.easeOutCubic at 150-300ms.",
+    "Use page transitions from PageTransitionsTheme so platform conventions hold on iOS and Android.",
+    "Honor MediaQuery.disableAnimations; skip decorative motion when it is set."
+  );
+
+  const distinctiveTraits = [
+    "One ColorScheme and TextTheme shared by every screen makes the interface feel integrated.",
+    patterns.hasThemeExtension
+      ? "Existing ThemeExtension tokens carry brand values beyond the Material roles."
+      : "Brand values beyond Material roles live in a single ThemeExtension, not scattered constants.",
+    "Signature card/surface treatment and status chips repeated across screens."
+  ];
+
+  const statesAndFeedback = [
+    "Define pressed/disabled/focused states through WidgetStateProperty in component themes",
+    "Render async data with explicit loading, empty, error, and data branches (FutureBuilder/StreamBuilder or state notifiers)",
+    "Display actionable error widgets with retry action and error description",
+    "Use HapticFeedback for significant state changes on mobile"
+  ];
+
+  return {
+    visualDirection: `Design system for Flutter: ${widgetSet} app themed from a single ThemeData${patterns.hasDarkTheme ? " with light and dark variants" : ""}, strong hierarchy, and explicit state feedback.`,
+    styleLanguage,
+    colorPalette,
+    typography,
+    radiusSystem,
+    pageLayoutPatterns,
+    components,
+    motion,
+    distinctiveTraits,
+    statesAndFeedback
+  };
+}
+
+function inferAndroidDesignSystem(snapshot: RepoSnapshot, stack: StackFingerprint): DesignSystemPlan {
+  const tokens = extractAndroidThemeTokens(snapshot);
+  const scheme = pickAndroidColorScheme(tokens);
+  const patterns = detectAndroidPatternSignals(snapshot);
+  const isCompose = isComposeStack(stack);
+
+  const framework = isCompose ? "Jetpack Compose" : "Android Views";
+  const schemeRoles = Object.entries(tokens.schemeRoles).filter(([, value]) => value.startsWith("#"));
+
+  const colorPalette = schemeRoles.length
+    ? [
+        `Detected Compose color scheme roles: ${schemeRoles.slice(0, 4).map(([role, value]) => `${role}=${value}`).join(", ")}.`,
+        "Keep MaterialTheme.colorScheme as the single color source; widgets read roles, never Color literals.",
+        "Add semantic tokens for success and warning through a CompositionLocal-provided ExtendedColors class."
+      ]
+    : tokens.colors.length
+      ? [
+          `Detected color resources: ${tokens.colors.slice(0, 4).map((color) => `${color.name}=${color.hex}`).join(", ")}.`,
+          `Map them onto Material 3 roles (primary ${scheme.primary}, secondary ${scheme.secondary}, surface ${scheme.surface}) in lightColorScheme/darkColorScheme.`,
+          "Keep colors.xml only for values XML resources still need (launcher, splash, remaining View screens)."
+        ]
+      : [
+          "Define lightColorScheme and darkColorScheme with primary, secondary, tertiary, background, surface, and error roles.",
+          "Read colors through MaterialTheme.colorScheme; avoid Color literals in composables.",
+          "Add semantic tokens (success, warning, textMuted) through a CompositionLocal-provided ExtendedColors class."
+        ];
+
+  const typography = tokens.typeScale.length
+    ? [
+        `Detected Typography styles: ${tokens.typeScale.slice(0, 5).join(", ")}.`,
+        "Keep one Typography instance on MaterialTheme; screens use MaterialTheme.typography roles, not ad-hoc TextStyles.",
+        "Use sp for all font sizes so system font scaling applies."
+      ]
+    : [
+        "Use the Material 3 type scale: display, headline, title, body, and label styles via MaterialTheme.typography.",
+        tokens.fontFamilies.length
+          ? `Apply the detected font families (${tokens.fontFamilies.join(", ")}) once in Typography through a FontFamily.`
+          : "Set the app typeface once in Typography through a FontFamily instead of per Text call.",
+        "Use sp for all font sizes so system font scaling applies."
+      ];
+
+  const radiusSystem = [
+    "Define Shapes: extraSmall=4.dp, small=8.dp, medium=12.dp, large=16.dp, extraLarge=28.dp on MaterialTheme.",
+    "Components read MaterialTheme.shapes; avoid RoundedCornerShape literals in screens.",
+    "Cards use medium, sheets and dialogs use extraLarge (top corners for sheets), buttons keep the full-rounded default."
+  ];
+
+  const pageLayoutPatterns: string[] = [];
+  if (patterns.hasNavigationBar) {
+    pageLayoutPatterns.push("Scaffold with NavigationBar for top-level destinations, saving and restoring each destination's back stack.");
+  }
+  if (patterns.hasNavigationRail) {
+    pageLayoutPatterns.push("NavigationRail on medium and expanded window sizes, switching from NavigationBar by WindowSizeClass.");
+  }
+  if (patterns.hasNavigationDrawer) {
+    pageLayoutPatterns.push("Navigation drawer for secondary destinations and account actions.");
+  }
+  if (patterns.hasNavHost) {
+    pageLayoutPatterns.push(isCompose
+      ? "NavHost with typed routes as the single navigation graph; screens receive arguments, not NavController."
+      : "Navigation component graph with a NavHostFragment hosting each screen fragment.");
+  }
+  if (!pageLayoutPatterns.length) {
+    pageLayoutPatterns.push("Scaffold + TopAppBar shell with NavigationBar for primary destinations and a NavHost for detail screens.");
+  }
+  pageLayoutPatterns.push(
+    "Define screen-level templates: list screen, detail screen, form screen, settings screen.",
+    "Apply Scaffold content padding and window insets (edge-to-edge) on every screen."
+  );
+
+  const styleLanguage = [
+    `Distinct Material 3 aesthetic for ${framework}: tonal surfaces, clear elevation hierarchy, and role-based color.`,
+    "Drive styling from MaterialTheme (colorScheme, typography, shapes) so screens compose stock components without overrides.",
+    "Extract repeated surfaces into small reusable composables (AppCard, SectionHeader, StatusChip)."
+  ];
+
+  const components = [
+    `App shell (${patterns.hasNavigationBar ? "Scaffold + NavigationBar" : "Scaffold + TopAppBar"} with NavHost destinations)`,
+    "Buttons (Button, OutlinedButton, TextButton with a shared loading state)",
+    "Form controls (OutlinedTextField with supportingText errors, keyboard options, and focus handling)",
+    `List/detail primitives (${patterns.hasLazyLists ? "LazyColumn" : "lazy list"} rows with ListItem, section headers, swipe-to-dismiss)`,
+    "Feedback surfaces (Snackbar via SnackbarHostState, AlertDialog, empty/loading/error state composables)",
+    patterns.hasBottomSheet
+      ? "ModalBottomSheet flows with drag handle and skipPartiallyExpanded where content is short"
+      : "Dialogs and ModalBottomSheet for secondary flows"
+  ];
+
+  const motion: string[] = [];
+  if (patterns.hasAnimation) {
+    motion.push("Detected animation usage; keep animate*AsState and AnimatedVisibility transitions short and consistent.");
+  }
+  motion.push(
+    "Use AnimatedVisibility and animateContentSize for state changes with Material motion durations (150-300ms).",
+    "Use shared element or container transforms only between list and detail screens.",
+    "Respect the system animator duration scale; skip decorative motion when animations are disabled."
+  );
+
+  const distinctiveTraits = [
+    "One MaterialTheme shared by every screen makes the interface feel integrated.",
+    patterns.hasDynamicColor
+      ? "Dynamic color on Android 12+ with the brand scheme as fallback on older devices."
+      : "Brand color scheme applied consistently; dynamic color stays off unless the product opts in.",
+    "Signature card/surface treatment and status chips repeated across screens."
+  ];
+
+  const statesAndFeedback = [
+    "Expose screen state as a single UiState from the ViewModel (loading, empty, error, content) collected with collectAsStateWithLifecycle",
+    "Render explicit loading, empty, error, and content branches for every async screen",
+    "Display actionable error states with retry action and error description",
+    "Use HapticFeedback for significant state changes"
+  ];
+
+  return {
+    visualDirection: `Design system for ${framework}: Material 3 app themed from a single MaterialTheme${tokens.hasDarkScheme ? " with light and dark color schemes" : ""}, strong hierarchy, and explicit state feedback.`,
+    styleLanguage,
+    colorPalette,
+    typography,
+    radiusSystem,
+    pageLayoutPatterns,
+    components,
+    motion,
+    distinctiveTraits,
+    statesAndFeedback
+  };
+}
+
+function designSystemFor(stack: StackFingerprint, snapshot: RepoSnapshot): DesignSystemPlan {
+  const platform = designPlatform(stack);
+  if (platform === "flutter") return inferFlutterDesignSystem(snapshot);
+  if (platform === "apple") return inferSwiftUIDesignSystem(snapshot, stack);
+  if (platform === "android") return inferAndroidDesignSystem(snapshot, stack);
+  return inferDesignSystem(snapshot, stack);
+}
+
 function fallbackStructuredPlan(
   stack: StackFingerprint,
   architecture: ArchitectureModel,
@@ -884,9 +1429,7 @@ function fallbackStructuredPlan(
     interfaces: architecture.edges.map((edge) => `${edge.from} -> ${edge.to} (${edge.type})`),
     dataModels: safeList(intent.data_contracts),
     databaseDesign: inferDatabaseDesign(stack, intent),
-    designSystem: isNativeMobileStack(stack)
-      ? inferSwiftUIDesignSystem(snapshot, stack)
-      : inferDesignSystem(snapshot, stack),
+    designSystem: designSystemFor(stack, snapshot),
     behaviorRules: safeList([...intent.business_rules, ...intent.invariants]),
     buildSteps: [
       "Scaffold target repo and baseline tooling (lint/typecheck/test) before feature work.",
@@ -1305,11 +1848,374 @@ function renderSwiftUIDesignSystemMarkdown(designSystem: DesignSystemPlan, snaps
   ].join("\n");
 }
 
+function designFlutterBlueprint(patterns: ReturnType<typeof detectFlutterPatternSignals>): string {
+  const navShell = patterns.hasNavigationBar
+    ? [
+        "class AppShell extends StatefulWidget {",
+        "  const AppShell({super.key});",
+        "",
+        "  @override",
+        "  State<AppShell> createState() => _AppShellState();",
+        "}",
+        "",
+        "class _AppShellState extends State<AppShell> {",
+        "  int _index = 0;",
+        "",
+        "  @override",
+        "  Widget build(BuildContext context) {",
+        "    return Scaffold(",
+        "      body: IndexedStack(index: _index, children: const [HomeScreen(), SearchScreen(), ProfileScreen()]),",
+        "      bottomNavigationBar: NavigationBar(",
+        "        selectedIndex: _index,",
+        "        onDestinationSelected: (index) => setState(() => _index = index),",
+        "        destinations: const [",
+        "          NavigationDestination(icon: Icon(Icons.home_outlined), label: 'Home'),",
+        "          NavigationDestination(icon: Icon(Icons.search), label: 'Search'),",
+        "          NavigationDestination(icon: Icon(Icons.person_outline), label: 'Profile'),",
+        "        ],",
+        "      ),",
+        "    );",
+        "  }",
+        "}"
+      ]
+    : [
+        "class AppShell extends StatelessWidget {",
+        "  const AppShell({super.key});",
+        "",
+        "  @override",
+        "  Widget build(BuildContext context) {",
+        "    return Scaffold(",
+        "      appBar: AppBar(",
+        "        title: const Text('App'),",
+        "        actions: [IconButton(icon: const Icon(Icons.add), onPressed: () {})],",
+        "      ),",
+        "      body: const ContentView(),",
+        "    );",
+        "  }",
+        "}"
+      ];
+
+  return [
+    "```dart",
+    "// Color tokens",
+    "@immutable",
+    "class AppColors extends ThemeExtension<AppColors> {",
+    "  const AppColors({required this.success, required this.warning, required this.textMuted});",
+    "",
+    "  final Color success;",
+    "  final Color warning;",
+    "  final Color textMuted;",
+    "",
+    "  @override",
+    "  AppColors copyWith({Color? success, Color? warning, Color? textMuted}) => AppColors(",
+    "        success: success ?? this.success,",
+    "        warning: warning ?? this.warning,",
+    "        textMuted: textMuted ?? this.textMuted,",
+    "      );",
+    "",
+    "  @override",
+    "  AppColors lerp(AppColors? other, double t) => other == null",
+    "      ? this",
+    "      : AppColors(",
+    "          success: Color.lerp(success, other.success, t)!,",
+    "          warning: Color.lerp(warning, other.warning, t)!,",
+    "          textMuted: Color.lerp(textMuted, other.textMuted, t)!,",
+    "        );",
+    "}",
+    "",
+    "// Radius tokens",
+    "abstract final class AppRadius {",
+    "  static const sm = BorderRadius.all(Radius.circular(8));",
+    "  static const md = BorderRadius.all(Radius.circular(12));",
+    "  static const lg = BorderRadius.all(Radius.circular(16));",
+    "}",
+    "",
+    "// Theme",
+    "ThemeData buildTheme(Brightness brightness) {",
+    "  final scheme = ColorScheme.fromSeed(seedColor: const Color(0xFF3B5BDB), brightness: brightness);",
+    "  return ThemeData(",
+    "    useMaterial3: true,",
+    "    colorScheme: scheme,",
+    "    textTheme: Typography.material2021().englishLike.apply(",
+    "      bodyColor: scheme.onSurface,",
+    "      displayColor: scheme.onSurface,",
+    "    ),",
+    "    cardTheme: const CardTheme(shape: RoundedRectangleBorder(borderRadius: AppRadius.lg)),",
+    "    filledButtonTheme: FilledButtonThemeData(",
+    "      style: FilledButton.styleFrom(shape: const RoundedRectangleBorder(borderRadius: AppRadius.md)),",
+    "    ),",
+    "    inputDecorationTheme: const InputDecorationTheme(",
+    "      border: OutlineInputBorder(borderRadius: AppRadius.md),",
+    "      filled: true,",
+    "    ),",
+    "    extensions: [",
+    "      AppColors(",
+    "        success: const Color(0xFF2F9E44),",
+    "        warning: const Color(0xFFF08C00),",
+    "        textMuted: scheme.onSurfaceVariant,",
+    "      ),",
+    "    ],",
+    "  );",
+    "}",
+    "",
+    "// App shell",
+    ...navShell,
+    "```"
+  ].join("\n");
+}
+
+function renderFlutterDesignSystemMarkdown(designSystem: DesignSystemPlan, snapshot: RepoSnapshot): string {
+  const patterns = detectFlutterPatternSignals(snapshot);
+
+  const layoutContract: string[] = [];
+  if (patterns.hasNavigationBar) {
+    layoutContract.push("Preserve NavigationBar-based top-level navigation; keep each destination's state alive across switches.");
+  }
+  if (patterns.hasNavigationRail) {
+    layoutContract.push("Keep the adaptive switch between NavigationBar (compact) and NavigationRail (expanded widths).");
+  }
+  if (patterns.hasDrawer) {
+    layoutContract.push("Keep drawer navigation for secondary destinations instead of moving them into the main bar.");
+  }
+  if (patterns.hasGoRouter) {
+    layoutContract.push("Retain go_router route definitions and ShellRoute shells; do not replace them with imperative Navigator pushes.");
+  }
+  if (patterns.hasBottomSheet) {
+    layoutContract.push("Use modal bottom sheets for secondary flows, matching the existing sheet sizing and drag behavior.");
+  }
+  if (!layoutContract.length) {
+    layoutContract.push("Use Scaffold + AppBar with NavigationBar for primary navigation and platform-standard route transitions.");
+  }
+
+  return [
+    `#### Visual Direction`,
+    `- ${designSystem.visualDirection}`,
+    "",
+    "#### Color Tokens (ColorScheme + ThemeExtension)",
+    markdownBullets(designSystem.colorPalette),
+    "",
+    "#### Typography (TextTheme)",
+    markdownBullets(designSystem.typography.slice(0, 3)),
+    "",
+    "#### Radius + Shape Tokens",
+    markdownBullets(designSystem.radiusSystem),
+    "",
+    "#### Component Styling Contract",
+    markdownBullets([
+      "Primary buttons: FilledButton styled by FilledButtonTheme, with loading and disabled states.",
+      "Secondary buttons: OutlinedButton with the same height and shape as primary buttons.",
+      "Cards and surfaces: Card/AppCard using CardTheme shape and surfaceContainer colors, not ad-hoc BoxDecoration.",
+      "Form inputs: TextFormField with InputDecorationTheme, inline validator errors, and focus traversal.",
+      "Lists: ListTile-based rows with consistent padding, dividers from DividerTheme, and swipe actions."
+    ]),
+    "",
+    "#### Layout + Navigation Contract",
+    markdownBullets(layoutContract),
+    "",
+    "#### Motion + Interaction",
+    markdownBullets([
+      ...designSystem.motion.slice(0, 3),
+      patterns.hasAnimation
+        ? "Detected animation usage in source; keep durations and curves consistent and respect disableAnimations."
+        : "Use implicit animations for state changes; add haptic feedback for significant actions."
+    ]),
+    "",
+    "#### Flutter Blueprint (Reference Implementation)",
+    designFlutterBlueprint(patterns)
+  ].join("\n");
+}
+
+function designComposeBlueprint(scheme: AndroidColorScheme, patterns: ReturnType<typeof detectAndroidPatternSignals>): string {
+  const color = (hex: string) => `Color(0xFF${hex.slice(1)})`;
+  const navShell = patterns.hasNavigationBar
+    ? [
+        "@Composable",
+        "fun AppShell(navController: NavHostController = rememberNavController()) {",
+        "    val current by navController.currentBackStackEntryAsState()",
+        "    Scaffold(",
+        "        bottomBar = {",
+        "            NavigationBar {",
+        "                TopLevelDestination.entries.forEach { destination ->",
+        "                    NavigationBarItem(",
+        "                        selected = current?.destination?.route == destination.route,",
+        "                        onClick = { navController.navigate(destination.route) { launchSingleTop = true; restoreState = true } },",
+        "                        icon = { Icon(destination.icon, contentDescription = null) },",
+        "                        label = { Text(destination.label) }",
+        "                    )",
+        "                }",
+        "            }",
+        "        }",
+        "    ) { padding ->",
+        "        AppNavHost(navController, Modifier.padding(padding))",
+        "    }",
+        "}"
+      ]
+    : [
+        "@OptIn(ExperimentalMaterial3Api::class)",
+        "@Composable",
+        "fun AppShell(navController: NavHostController = rememberNavController()) {",
+        "    Scaffold(",
+        "        topBar = {",
+        "            TopAppBar(",
+        "                title = { Text(\"App\") },",
+        "                actions = { IconButton(onClick = {}) { Icon(Icons.Default.Add, contentDescription = \"Add\") } }",
+        "            )",
+        "        }",
+        "    ) { padding ->",
+        "        AppNavHost(navController, Modifier.padding(padding))",
+        "    }",
+        "}"
+      ];
+
+  return [
+    "```kotlin",
+    "// Color tokens",
+    "private val LightColors = lightColorScheme(",
+    `    primary = ${color(scheme.primary)},`,
+    `    secondary = ${color(scheme.secondary)},`,
+    `    tertiary = ${color(scheme.tertiary)},`,
+    `    background = ${color(scheme.background)},`,
+    `    surface = ${color(scheme.surface)},`,
+    `    error = ${color(scheme.error)},`,
+    ")",
+    "",
+    "private val DarkColors = darkColorScheme(",
+    `    primary = ${color(scheme.primary)},`,
+    `    secondary = ${color(scheme.secondary)},`,
+    `    tertiary = ${color(scheme.tertiary)},`,
+    ")",
+    "",
+    "@Immutable",
+    "data class ExtendedColors(val success: Color, val warning: Color)",
+    "",
+    "val LocalExtendedColors = staticCompositionLocalOf {",
+    "    ExtendedColors(success = Color(0xFF2E7D32), warning = Color(0xFFED6C02))",
+    "}",
+    "",
+    "// Typography",
+    "val AppTypography = Typography(",
+    "    headlineMedium = TextStyle(fontWeight = FontWeight.SemiBold, fontSize = 28.sp, lineHeight = 36.sp),",
+    "    titleMedium = TextStyle(fontWeight = FontWeight.Medium, fontSize = 16.sp, lineHeight = 24.sp),",
+    "    bodyLarge = TextStyle(fontSize = 16.sp, lineHeight = 24.sp),",
+    "    labelLarge = TextStyle(fontWeight = FontWeight.Medium, fontSize = 14.sp, lineHeight = 20.sp)",
+    ")",
+    "",
+    "// Shape tokens",
+    "val AppShapes = Shapes(",
+    "    small = RoundedCornerShape(8.dp),",
+    "    medium = RoundedCornerShape(12.dp),",
+    "    large = RoundedCornerShape(16.dp),",
+    "    extraLarge = RoundedCornerShape(28.dp)",
+    ")",
+    "",
+    "// Theme",
+    "@Composable",
+    "fun AppTheme(darkTheme: Boolean = isSystemInDarkTheme(), content: @Composable () -> Unit) {",
+    ...(patterns.hasDynamicColor
+      ? [
+          "    val context = LocalContext.current",
+          "    val colors = when {",
+          "        Build.VERSION.SDK_INT >= Build.VERSION_CODES.S ->",
+          "            if (darkTheme) dynamicDarkColorScheme(context) else dynamicLightColorScheme(context)",
+          "        darkTheme -> DarkColors",
+          "        else -> LightColors",
+          "    }"
+        ]
+      : ["    val colors = if (darkTheme) DarkColors else LightColors"]),
+    "    MaterialTheme(colorScheme = colors, typography = AppTypography, shapes = AppShapes, content = content)",
+    "}",
+    "",
+    "// App shell",
+    ...navShell,
+    "```"
+  ].join("\n");
+}
+
+function renderAndroidDesignSystemMarkdown(designSystem: DesignSystemPlan, snapshot: RepoSnapshot, stack: StackFingerprint): string {
+  const tokens = extractAndroidThemeTokens(snapshot);
+  const scheme = pickAndroidColorScheme(tokens);
+  const patterns = detectAndroidPatternSignals(snapshot);
+
+  const layoutContract: string[] = [];
+  if (patterns.hasNavigationBar) {
+    layoutContract.push("Preserve NavigationBar-based top-level navigation; keep each destination's back stack and state on reselect.");
+  }
+  if (patterns.hasNavigationRail) {
+    layoutContract.push("Keep the WindowSizeClass switch between NavigationBar (compact) and NavigationRail (medium/expanded).");
+  }
+  if (patterns.hasNavigationDrawer) {
+    layoutContract.push("Keep drawer navigation for secondary destinations instead of moving them into the bottom bar.");
+  }
+  if (patterns.hasNavHost) {
+    layoutContract.push("Retain the existing navigation graph and route names; do not replace it with manual screen switching.");
+  }
+  if (patterns.hasBottomSheet) {
+    layoutContract.push("Use ModalBottomSheet for secondary flows, matching the existing sheet content and dismissal behavior.");
+  }
+  if (!layoutContract.length) {
+    layoutContract.push("Use Scaffold + TopAppBar with NavigationBar for primary navigation and a NavHost for detail screens.");
+  }
+  if (!isComposeStack(stack)) {
+    layoutContract.push(
+      `Existing screens use Android Views${tokens.parentTheme ? ` on ${tokens.parentTheme}` : ""}; mirror the same tokens in themes.xml while screens move to Compose.`
+    );
+  }
+
+  return [
+    `#### Visual Direction`,
+    `- ${designSystem.visualDirection}`,
+    "",
+    "#### Color Tokens (Material 3 ColorScheme, Use Exact Hex)",
+    markdownBullets([
+      `Primary: \`${scheme.primary}\` | Secondary: \`${scheme.secondary}\` | Tertiary: \`${scheme.tertiary}\``,
+      `Background: \`${scheme.background}\` | Surface: \`${scheme.surface}\``,
+      `Error: \`${scheme.error}\``,
+      ...designSystem.colorPalette.slice(0, 2)
+    ]),
+    "",
+    "#### Typography (Compose Typography)",
+    markdownBullets(designSystem.typography.slice(0, 3)),
+    "",
+    "#### Shape Tokens",
+    markdownBullets(designSystem.radiusSystem),
+    "",
+    "#### Component Styling Contract",
+    markdownBullets([
+      "Primary buttons: Button with colorScheme.primary container, full-rounded shape, and a loading state that keeps its width.",
+      "Secondary buttons: OutlinedButton with the same height and content padding as primary buttons.",
+      "Cards and surfaces: Card/ElevatedCard using shapes.medium and surfaceContainer tones, not custom backgrounds.",
+      "Form inputs: OutlinedTextField with supportingText for errors, imeAction handling, and focus order.",
+      "Lists: ListItem rows with consistent padding, HorizontalDivider between groups, and swipe-to-dismiss where rows can be removed."
+    ]),
+    "",
+    "#### Layout + Navigation Contract",
+    markdownBullets(layoutContract),
+    "",
+    "#### Motion + Interaction",
+    markdownBullets([
+      ...designSystem.motion.slice(0, 3),
+      patterns.hasAnimation
+        ? "Detected animation usage in source; keep durations and easing consistent and honor the animator duration scale."
+        : "Use AnimatedVisibility for state changes; add haptic feedback for significant actions."
+    ]),
+    "",
+    "#### Compose Blueprint (Reference Implementation)",
+    designComposeBlueprint(scheme, patterns)
+  ].join("\n");
+}
+
 function renderDesignSystemMarkdown(designSystem: DesignSystemPlan, snapshot: RepoSnapshot, stack?: StackFingerprint): string {
-  // If this is a native mobile (iOS/Swift) project, render SwiftUI-native tokens instead of CSS
-  if (stack && isNativeMobileStack(stack)) {
+  // Native and Flutter projects get platform theme tokens instead of CSS
+  const platform = stack ? designPlatform(stack) : "web";
+  if (platform === "flutter") {
+    return renderFlutterDesignSystemMarkdown(designSystem, snapshot);
+  }
+  if (platform === "apple") {
     return renderSwiftUIDesignSystemMarkdown(designSystem, snapshot);
   }
+  if (stack && platform === "android") {
+    return renderAndroidDesignSystemMarkdown(designSystem, snapshot, stack);
+  }
 
   const tokens = pickVisualTokens(snapshot);
   const radii = pickRadiusScale(snapshot);
@@ -1386,6 +2292,7 @@ function inspectPriority(path: string): number {
   if (lower.endsWith("package.json")) return 11;
   if (lower.includes("pyproject") || lower.includes("requirements.txt") || lower.includes("go.mod")) return 10;
   if (lower.includes("cargo.toml") || lower.includes("pom.xml") || lower.includes("build.gradle")) return 9;
+  if (/(^|\/)(gemfile|composer\.json|mix\.exs|pubspec\.yaml)$|\.[cf]sproj$/.test(lower)) return 9;
   if (lower.includes("app/") && lower.includes("page.")) return 8;
   if (lower.includes("pages/")) return 7;
   if (lower.includes("api/") || lower.includes("route.")) return 6;
@@ -1405,7 +2312,12 @@ function stackSummary(stack: StackFingerprint): string[] {
     `Database: ${topNames(stack.db).join(", ") || "Not detected"}`,
     `Auth: ${topNames(stack.auth).join(", ") || "Not detected"}`,
     `Infrastructure: ${topNames(stack.infra).join(", ") || "Not detected"}`,
-    `Language: ${topNames(stack.language).join(", ") || "Not detected"}`
+    `Language: ${topNames(stack.language).join(", ") || "Not detected"}`,
+    `Styling: ${topNames(stack.styling).join(", ") || "Not detected"}`,
+    `State management: ${topNames(stack.state).join(", ") || "Not detected"}`,
+    `Messaging: ${topNames(stack.messaging).join(", ") || "Not detected"}`,
+    `Testing: ${topNames(stack.testing).join(", ") || "Not detected"}`,
+    `CI/CD: ${topNames(stack.cicd).join(", ") || "Not detected"}`
   ];
 }
 
@@ -1587,18 +2499,37 @@ function renderPrompt(
   ].join("\n");
 }
 
+// Design-token and layout rules for the plan prompt, per design platform
+const DESIGN_PROMPT_RULES: Record<DesignPlatform, [string, string]> = {
+  web: [
+    "- include concrete UI token guidance with hex colors and component styling behavior (buttons, forms, cards, overlays) instead of generic advice",
+    "- if the repository uses tailwind or shadcn, preserve utility-driven composition and component primitives in recommendations"
+  ],
+  apple: [
+    "- this is a native iOS/Swift project: emit SwiftUI-native design tokens (Color extensions, Font system, ViewModifiers, ButtonStyles) instead of CSS custom properties or web-specific guidance",
+    "- if the project uses SwiftUI, describe view composition patterns (NavigationStack, TabView, sheets, toolbars) instead of web layout (HTML/CSS/flexbox/grid)"
+  ],
+  android: [
+    "- this is a native Android project: emit Jetpack Compose theme tokens (MaterialTheme colorScheme, Typography, Shapes) instead of CSS custom properties or web-specific guidance",
+    "- describe composable layout patterns (Scaffold, NavigationBar, NavHost, lazy lists, bottom sheets) instead of web layout (HTML/CSS/flexbox/grid)"
+  ],
+  flutter: [
+    "- this is a Flutter project: emit ThemeData design tokens (ColorScheme, TextTheme, component themes, ThemeExtension) instead of CSS custom properties or web-specific guidance",
+    "- describe widget composition patterns (Scaffold, NavigationBar, slivers, bottom sheets, go_router routes) instead of web layout (HTML/CSS/flexbox/grid)"
+  ]
+};
+
 export async function compileExecutablePlan(
   stack: StackFingerprint,
   architecture: ArchitectureModel,
   intent: IntentSpec,
   snapshot: RepoSnapshot,
-  targetAgent: TargetAgent
+  targetAgent: TargetAgent,
+  signal?: AbortSignal
 ): Promise<ExecutablePlan> {
   const routeHints = inferRouteMap(snapshot, intent);
-  const nativeMobile = isNativeMobileStack(stack);
-  const designHints = nativeMobile
-    ? inferSwiftUIDesignSystem(snapshot, stack)
-    : inferDesignSystem(snapshot, stack);
+  const designHints = designSystemFor(stack, snapshot);
+  const [tokenRule, layoutRule] = DESIGN_PROMPT_RULES[designPlatform(stack)];
 
   const prompt = [
     "Return valid JSON only.",
@@ -1612,12 +2543,8 @@ export async function compileExecutablePlan(
     "- describe functionality logic and rule enforcement, not just feature names",
     "- if DB signals exist, include concrete schema/index/migration guidance",
     "- include a design system section with explicit style language, color tokens, radius scale, motion, and distinctive traits",
-    nativeMobile
-      ? "- this is a native iOS/Swift project: emit SwiftUI-native design tokens (Color extensions, Font system, ViewModifiers, ButtonStyles) instead of CSS custom properties or web-specific guidance"
-      : "- include concrete UI token guidance with hex colors and component styling behavior (buttons, forms, cards, overlays) instead of generic advice",
-    nativeMobile
-      ? "- if the project uses SwiftUI, describe view composition patterns (NavigationStack, TabView, sheets, toolbars) instead of web layout (HTML/CSS/flexbox/grid)"
-      : "- if the repository uses tailwind or shadcn, preserve utility-driven composition and component primitives in recommendations",
+    tokenRule,
+    layoutRule,
     "- structure detail so it can be rendered into a 4-phase plan workflow: initial understanding, design, review, and final implementation plan",
     "- include enough specificity for phase review: explicit constraints, assumptions, and actionable test criteria",
     "- keep context concise: avoid duplicating the same information across multiple sections",
@@ -1637,7 +2564,12 @@ export async function compileExecutablePlan(
         backend: topNames(stack.backend),
         db: topNames(stack.db),
         auth: topNames(stack.auth),
-        infra: topNames(stack.infra)
+        infra: topNames(stack.infra),
+        styling: topNames(stack.styling),
+        state: topNames(stack.state),
+        messaging: topNames(stack.messaging),
+        testing: topNames(stack.testing),
+        cicd: topNames(stack.cicd)
       },
       architecture,
       intent,
@@ -1651,8 +2583,9 @@ export async function compileExecutablePlan(
   const fallback = () => fallbackStructuredPlan(stack, architecture, intent, snapshot, targetAgent);
   let structured: StructuredPlan;
   try {
-    structured = await callClaudeJson(prompt, structuredPlanSchema, fallback, 2, "compileExecutablePlan", 10000);
+    structured = await callClaudeJson(prompt, structuredPlanSchema, fallback, { label: "compileExecutablePlan", maxTokens: 10000, signal });
   } catch (error) {
+    if (error instanceof RunCancelledError) throw error;
     console.warn(`Plan compilation failed, using fallback: ${errorMessage(error)}`);
     structured = fallback();
   }
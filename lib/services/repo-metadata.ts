@@ -0,0 +1,201 @@
+import { RemoteSource } from "@/lib/models";
+import { BITBUCKET_TOKEN, GITHUB_TOKEN, GITLAB_HOSTS, GITLAB_TOKEN } from "@/lib/services/config";
+import { parseRemoteRepo } from "@/lib/services/sources";
+
+// What a host's API can add to RepoSnapshot.repo beyond the clone itself.
+// Every field is optional: ingest falls back to git and the walked files.
+export type RepoMetadata = {
+  defaultBranch?: string;
+  sizeKb?: number;
+  stars?: number;
+  openIssues?: number;
+  description?: string;
+  language?: string;
+  // Language name -> bytes
+  languages?: Record<string, number>;
+};
+
+// Adapters never throw: no API, a private repo or a rate limit all return
+// null, including aborts (callers re-check the signal)
+type RepoMetadataAdapter<S extends RemoteSource> = (
+  source: S,
+  githubToken?: string,
+  signal?: AbortSignal
+) => Promise<RepoMetadata | null>;
+
+async function fetchJson<T>(url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<T | null> {
+  try {
+    const res = await fetch(url, { headers, cache: "no-store", signal });
+    if (!res.ok) return null;
+    return (await res.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GitHub
+// ---------------------------------------------------------------------------
+
+type GitHubRepoMeta = {
+  default_branch: string;
+  size: number;
+  stargazers_count: number;
+  open_issues_count: number;
+  description: string | null;
+  language: string | null;
+};
+
+const fetchGitHubMetadata: RepoMetadataAdapter<Extract<RemoteSource, { type: "github" }>> = async (
+  source,
+  githubToken,
+  signal
+) => {
+  const { owner, name } = parseRemoteRepo(source);
+  if (!owner || !name) return null;
+
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+    "X-GitHub-Api-Version": "2022-11-28"
+  };
+  const token = githubToken?.trim() || GITHUB_TOKEN;
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const base = `https://api.github.com/repos/${owner}/${name}`;
+  const [meta, languages] = await Promise.all([
+    fetchJson<GitHubRepoMeta>(base, headers, signal),
+    fetchJson<Record<string, number>>(`${base}/languages`, headers, signal)
+  ]);
+  if (!meta) return null;
+
+  return {
+    defaultBranch: meta.default_branch,
+    sizeKb: meta.size,
+    stars: meta.stargazers_count,
+    openIssues: meta.open_issues_count,
+    description: meta.description ?? undefined,
+    language: meta.language ?? undefined,
+    languages: languages ?? undefined
+  };
+};
+
+// ---------------------------------------------------------------------------
+// GitLab (gitlab.com or self-hosted)
+// ---------------------------------------------------------------------------
+
+type GitLabProject = {
+  id: number;
+  default_branch?: string;
+  star_count?: number;
+  open_issues_count?: number;
+  description?: string | null;
+  // Only returned to members with at least reporter access
+  statistics?: { repository_size?: number };
+};
+
+export function gitlabApiBase(source: Extract<RemoteSource, { type: "gitlab" }>): string {
+  return (source.apiBase ?? `${new URL(source.repoUrl).origin}/api/v4`).replace(/\/+$/, "");
+}
+
+// Any "gitlab.*" host is read as GitLab, but the token only goes to gitlab.com
+// and the instances an operator listed in GITLAB_HOSTS
+function trustsGitLabToken(apiBase: string): boolean {
+  const hostname = new URL(apiBase).hostname.toLowerCase();
+  return hostname === "gitlab.com" || GITLAB_HOSTS.includes(hostname);
+}
+
+const fetchGitLabMetadata: RepoMetadataAdapter<Extract<RemoteSource, { type: "gitlab" }>> = async (
+  source,
+  _githubToken,
+  signal
+) => {
+  const { owner, name } = parseRemoteRepo(source);
+  if (!name) return null;
+
+  const apiBase = gitlabApiBase(source);
+  const headers: Record<string, string> = {};
+  if (GITLAB_TOKEN && trustsGitLabToken(apiBase)) headers["PRIVATE-TOKEN"] = GITLAB_TOKEN;
+
+  const project = `${apiBase}/projects/${encodeURIComponent(`${owner}/${name}`)}`;
+  const meta = await fetchJson<GitLabProject>(`${project}?statistics=true`, headers, signal);
+  if (!meta) return null;
+
+  // GitLab reports languages as percentages; with a known repository size they
+  // become byte estimates, otherwise ingest counts bytes from the clone
+  const sizeBytes = meta.statistics?.repository_size;
+  const percentages = await fetchJson<Record<string, number>>(`${project}/languages`, headers, signal);
+  const ranked = Object.entries(percentages ?? {}).sort((a, b) => b[1] - a[1]);
+  const languages = sizeBytes && ranked.length
+    ? Object.fromEntries(ranked.map(([language, percent]) => [language, Math.round((percent / 100) * sizeBytes)]))
+    : undefined;
+
+  return {
+    defaultBranch: meta.default_branch,
+    sizeKb: sizeBytes ? Math.round(sizeBytes / 1024) : undefined,
+    stars: meta.star_count,
+    openIssues: meta.open_issues_count,
+    description: meta.description ?? undefined,
+    language: ranked[0]?.[0],
+    languages
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Bitbucket Cloud
+// ---------------------------------------------------------------------------
+
+type BitbucketRepo = {
+  mainbranch?: { name: string };
+  size?: number;
+  description?: string;
+  language?: string;
+};
+
+const fetchBitbucketMetadata: RepoMetadataAdapter<Extract<RemoteSource, { type: "bitbucket" }>> = async (
+  source,
+  _githubToken,
+  signal
+) => {
+  const { owner, name } = parseRemoteRepo(source);
+  if (!owner || !name) return null;
+
+  const headers: Record<string, string> = {};
+  if (BITBUCKET_TOKEN) headers.Authorization = `Bearer ${BITBUCKET_TOKEN}`;
+
+  const meta = await fetchJson<BitbucketRepo>(
+    `https://api.bitbucket.org/2.0/repositories/${owner}/${name}`,
+    headers,
+    signal
+  );
+  if (!meta) return null;
+
+  // Bitbucket has no stars and no per-language byte counts
+  return {
+    defaultBranch: meta.mainbranch?.name,
+    sizeKb: meta.size !== undefined ? Math.round(meta.size / 1024) : undefined,
+    description: meta.description || undefined,
+    language: meta.language || undefined
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+export async function fetchRepoMetadata(
+  source: RemoteSource,
+  githubToken?: string,
+  signal?: AbortSignal
+): Promise<RepoMetadata | null> {
+  switch (source.type) {
+    case "github":
+      return fetchGitHubMetadata(source, githubToken, signal);
+    case "gitlab":
+      return fetchGitLabMetadata(source, githubToken, signal);
+    case "bitbucket":
+      return fetchBitbucketMetadata(source, githubToken, signal);
+    case "git":
+      // Plain remotes have no metadata API
+      return null;
+  }
+}
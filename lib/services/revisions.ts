@@ -0,0 +1,80 @@
+import { RevisionOperation, RunResult, RunRevision, RunRevisionSummary } from "@/lib/models";
+import { appendRevision, getRevision, getRun, listRevisions } from "@/lib/services/cache";
+
+// Runs stored before revision history existed get their current state recorded
+// as revision 1 first, so the first edit never loses the original
+function ensureBaseline(runId: string): void {
+  if (listRevisions(runId).length > 0) return;
+  const stored = getRun(runId);
+  if (!stored) return;
+  appendRevision({
+    runId,
+    operation: "analyze",
+    createdAt: stored.createdAt,
+    summary: "Initial analysis",
+    run: stored
+  });
+}
+
+// Stores `run` as the new head and appends it to the history; returns the run
+// stamped with its revision number
+export function recordRevision(
+  run: RunResult,
+  operation: RevisionOperation,
+  summary: string,
+  restoredFrom?: number
+): RunResult {
+  if (operation !== "analyze") {
+    ensureBaseline(run.id);
+  }
+  const revision = appendRevision({
+    runId: run.id,
+    operation,
+    createdAt: new Date().toISOString(),
+    summary,
+    ...(restoredFrom ? { restoredFrom } : {}),
+    run
+  });
+  return revision.run;
+}
+
+export function summarizeRevision(revision: RunRevision): RunRevisionSummary {
+  const { runId, revision: number, parentRevision, operation, createdAt, summary, restoredFrom } = revision;
+  return { runId, revision: number, parentRevision, operation, createdAt, summary, restoredFrom };
+}
+
+export function listRunRevisions(runId: string): RunRevisionSummary[] {
+  ensureBaseline(runId);
+  return listRevisions(runId).map(summarizeRevision);
+}
+
+export function getRunRevision(runId: string, revision: number): RunRevision | undefined {
+  ensureBaseline(runId);
+  return getRevision(runId, revision);
+}
+
+// Rolling back appends a copy of the old revision rather than discarding the
+// newer ones, so a rollback can itself be rolled back
+export function rollbackRun(runId: string, revision: number): RunResult | undefined {
+  const current = getRun(runId);
+  const target = getRunRevision(runId, revision);
+  if (!current || !target) return undefined;
+
+  // LLM spend is cumulative and stays with the head, whatever content is restored
+  return recordRevision(
+    { ...target.run, usage: current.usage },
+    "rollback",
+    `Rolled back to revision ${revision}`,
+    revision
+  );
+}
+
+// "run_x" refers to the run's current head, "run_x@3" to revision 3 of it
+export function resolveRunRef(ref: string): RunResult | undefined {
+  const [runId, revision] = ref.split("@");
+  if (revision === undefined) return getRun(runId);
+
+  const number = Number(revision);
+  if (!Number.isInteger(number) || number < 1) return undefined;
+  return getRunRevision(runId, number)?.run;
+}
@@ -0,0 +1,163 @@
+import {
+  ArchitectureEdge,
+  ExecutablePlan,
+  IntentSpec,
+  ListDiff,
+  RunDiff,
+  RunResult,
+  stackCategorySchema,
+  StackItem
+} from "@/lib/models";
+
+const INTENT_LIST_FIELDS = [
+  "core_features",
+  "user_flows",
+  "business_rules",
+  "data_contracts",
+  "invariants",
+  "assumptions",
+  "unknowns"
+] as const satisfies ReadonlyArray<keyof IntentSpec>;
+
+type DesignSystem = ExecutablePlan["structured"]["designSystem"];
+
+const DESIGN_LIST_FIELDS = [
+  "styleLanguage",
+  "colorPalette",
+  "typography",
+  "radiusSystem",
+  "pageLayoutPatterns",
+  "components",
+  "motion",
+  "distinctiveTraits",
+  "statesAndFeedback"
+] as const satisfies ReadonlyArray<keyof DesignSystem>;
+
+function diffList(before: string[], after: string[]): ListDiff {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((item) => !beforeSet.has(item)),
+    removed: before.filter((item) => !afterSet.has(item))
+  };
+}
+
+function isEmptyList(diff: ListDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0;
+}
+
+function diffLists<T, K extends keyof T>(before: T, after: T, fields: readonly K[]): Record<string, ListDiff> {
+  const lists: Record<string, ListDiff> = {};
+  for (const field of fields) {
+    const diff = diffList(before[field] as string[], after[field] as string[]);
+    if (!isEmptyList(diff)) lists[String(field)] = diff;
+  }
+  return lists;
+}
+
+// Matches items by key; items present on both sides are compared field by field
+function diffKeyed<T extends object>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string
+): {
+  added: T[];
+  removed: T[];
+  changed: Array<{ key: string; fields: string[]; before: T; after: T }>;
+} {
+  const beforeByKey = new Map(before.map((item) => [keyOf(item), item]));
+  const afterByKey = new Map(after.map((item) => [keyOf(item), item]));
+
+  const changed: Array<{ key: string; fields: string[]; before: T; after: T }> = [];
+  for (const [key, next] of afterByKey) {
+    const previous = beforeByKey.get(key);
+    if (!previous) continue;
+    const fields = Object.keys({ ...previous, ...next }).filter(
+      (field) =>
+        JSON.stringify(previous[field as keyof T]) !== JSON.stringify(next[field as keyof T])
+    );
+    if (fields.length) changed.push({ key, fields, before: previous, after: next });
+  }
+
+  return {
+    added: after.filter((item) => !beforeByKey.has(keyOf(item))),
+    removed: before.filter((item) => !afterByKey.has(keyOf(item))),
+    changed
+  };
+}
+
+function diffValue(before: string, after: string): { before: string; after: string } | undefined {
+  return before === after ? undefined : { before, after };
+}
+
+function stackKey(item: StackItem): string {
+  return `${item.category}:${item.name.toLowerCase()}`;
+}
+
+function edgeKey(edge: ArchitectureEdge): string {
+  return `${edge.from}->${edge.to}:${edge.type}`;
+}
+
+function diffStack(before: RunResult["stack"], after: RunResult["stack"]): RunDiff["stack"] {
+  const items = (stack: RunResult["stack"]): StackItem[] =>
+    stackCategorySchema.options.flatMap((category) => stack[category]);
+  const { added, removed, changed } = diffKeyed(items(before), items(after), stackKey);
+
+  // Confidence and evidence shift on every re-analysis; only versions are reported
+  const versionChanged = changed
+    .filter((item) => item.before.version !== item.after.version)
+    .map((item) => ({
+      category: item.after.category,
+      name: item.after.name,
+      before: item.before.version,
+      after: item.after.version
+    }));
+
+  return { added, removed, versionChanged };
+}
+
+export function diffRuns(base: RunResult, head: RunResult): RunDiff {
+  const components = diffKeyed(base.architecture.components, head.architecture.components, (item) => item.id);
+  const edges = diffKeyed(base.architecture.edges, head.architecture.edges, edgeKey);
+  const routes = diffKeyed(base.plan.structured.routeMap, head.plan.structured.routeMap, (item) => item.path);
+  const baseDesign = base.plan.structured.designSystem;
+  const headDesign = head.plan.structured.designSystem;
+
+  const diff: Omit<RunDiff, "identical"> = {
+    base: { runId: base.id, revision: base.revision, createdAt: base.createdAt },
+    head: { runId: head.id, revision: head.revision, createdAt: head.createdAt },
+    stack: diffStack(base.stack, head.stack),
+    architecture: {
+      components,
+      edges: { added: edges.added, removed: edges.removed }
+    },
+    intent: {
+      systemPurpose: diffValue(base.intent.system_purpose, head.intent.system_purpose),
+      lists: diffLists(base.intent, head.intent, INTENT_LIST_FIELDS)
+    },
+    routes,
+    designTokens: {
+      visualDirection: diffValue(baseDesign.visualDirection, headDesign.visualDirection),
+      lists: diffLists(baseDesign, headDesign, DESIGN_LIST_FIELDS)
+    }
+  };
+
+  const identical =
+    !diff.stack.added.length &&
+    !diff.stack.removed.length &&
+    !diff.stack.versionChanged.length &&
+    !components.added.length &&
+    !components.removed.length &&
+    !components.changed.length &&
+    !edges.added.length &&
+    !edges.removed.length &&
+    !diff.intent.systemPurpose &&
+    !Object.keys(diff.intent.lists).length &&
+    !routes.added.length &&
+    !routes.removed.length &&
+    !routes.changed.length &&
+    !diff.designTokens.visualDirection &&
+    !Object.keys(diff.designTokens.lists).length;
+
+  return { ...diff, identical };
+}
@@ -0,0 +1,284 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { RunResult, runResultSchema, RunRevision, runRevisionSchema } from "@/lib/models";
+import { RUN_STORE } from "@/lib/services/config";
+import { runsRoot } from "@/lib/services/workspace";
+
+// Persistence for finished runs. Calls are synchronous so API routes can read
+// and write runs without awaiting; both adapters do blocking file I/O.
+export type RunStore = {
+  get(runId: string): RunResult | undefined;
+  set(run: RunResult): void;
+  // Newest first
+  list(): RunResult[];
+  // Revision history, oldest first
+  listRevisions(runId: string): RunRevision[];
+  getRevision(runId: string, revision: number): RunRevision | undefined;
+  // Numbers the revision after the latest one, links it as the parent, and makes
+  // its run the stored head, atomically
+  appendRevision(entry: NewRevision): RunRevision;
+};
+
+export type NewRevision = Omit<RunRevision, "revision" | "parentRevision">;
+
+export const runStoreAdapters = ["json", "sqlite"] as const;
+export type RunStoreAdapter = (typeof runStoreAdapters)[number];
+
+function parseRun(item: unknown): RunResult | undefined {
+  const result = runResultSchema.safeParse(item);
+  return result.success ? result.data : undefined;
+}
+
+function parseRevision(item: unknown): RunRevision | undefined {
+  const result = runRevisionSchema.safeParse(item);
+  return result.success ? result.data : undefined;
+}
+
+function nextRevision(entry: NewRevision, latest?: number): RunRevision {
+  const revision = (latest ?? 0) + 1;
+  return { ...entry, revision, parentRevision: latest, run: { ...entry.run, revision } };
+}
+
+// ---------------------------------------------------------------------------
+// JSON adapter (default): one file holding the 50 most recent runs, plus a
+// sibling .revisions.json with the history of those runs
+// ---------------------------------------------------------------------------
+
+const MAX_JSON_RUNS = 50;
+
+function sortRuns(runs: RunResult[]): RunResult[] {
+  return runs.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+export function createJsonRunStore(
+  filePath = path.join(os.tmpdir(), "mimickit-runs-cache.json")
+): RunStore {
+  const runCache = new Map<string, RunResult>();
+  const revisionsPath = `${filePath.replace(/\.json$/, "")}.revisions.json`;
+
+  function readRunsFromDisk(): RunResult[] {
+    try {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+
+      const raw = fs.readFileSync(filePath, "utf8");
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+
+      const valid: RunResult[] = [];
+      for (const item of parsed) {
+        const run = parseRun(item);
+        if (run) {
+          valid.push(run);
+        }
+      }
+      return valid;
+    } catch (error) {
+      console.warn(
+        `Unable to read run cache from disk: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+  }
+
+  function syncFromDisk(): void {
+    const diskRuns = readRunsFromDisk();
+    for (const run of diskRuns) {
+      runCache.set(run.id, run);
+    }
+  }
+
+  function persistToDisk(): void {
+    try {
+      const runs = sortRuns([...runCache.values()]).slice(0, MAX_JSON_RUNS);
+      const payload = JSON.stringify(runs, null, 2);
+      fs.writeFileSync(filePath, payload, "utf8");
+
+      runCache.clear();
+      for (const run of runs) {
+        runCache.set(run.id, run);
+      }
+    } catch (error) {
+      console.warn(
+        `Unable to persist run cache to disk: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  function readRevisionsFromDisk(): Record<string, RunRevision[]> {
+    try {
+      if (!fs.existsSync(revisionsPath)) {
+        return {};
+      }
+
+      const parsed = JSON.parse(fs.readFileSync(revisionsPath, "utf8"));
+      const history: Record<string, RunRevision[]> = {};
+      for (const [runId, items] of Object.entries(parsed ?? {})) {
+        if (!Array.isArray(items)) continue;
+        history[runId] = items.flatMap((item) => parseRevision(item) ?? []);
+      }
+      return history;
+    } catch (error) {
+      console.warn(
+        `Unable to read run revisions from disk: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return {};
+    }
+  }
+
+  function setRun(run: RunResult): void {
+    syncFromDisk();
+    runCache.set(run.id, run);
+    persistToDisk();
+  }
+
+  return {
+    get(runId) {
+      syncFromDisk();
+      return runCache.get(runId);
+    },
+    set: setRun,
+    list() {
+      syncFromDisk();
+      return sortRuns([...runCache.values()]);
+    },
+    listRevisions(runId) {
+      return readRevisionsFromDisk()[runId] ?? [];
+    },
+    getRevision(runId, revision) {
+      return readRevisionsFromDisk()[runId]?.find((item) => item.revision === revision);
+    },
+    appendRevision(entry) {
+      const history = readRevisionsFromDisk();
+      const existing = history[entry.runId] ?? [];
+      const revision = nextRevision(entry, existing[existing.length - 1]?.revision);
+      setRun(revision.run);
+
+      // History follows the run cap: runs that fell out of the cache lose theirs too
+      const kept: Record<string, RunRevision[]> = {};
+      for (const runId of runCache.keys()) {
+        if (history[runId]) kept[runId] = history[runId];
+      }
+      kept[entry.runId] = [...existing, revision];
+      try {
+        fs.writeFileSync(revisionsPath, JSON.stringify(kept, null, 2), "utf8");
+      } catch (error) {
+        console.warn(
+          `Unable to persist run revisions to disk: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return revision;
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SQLite adapter: indexed lookups, no cap, safe across processes
+// ---------------------------------------------------------------------------
+
+// WAL lets readers proceed while another process writes; busy_timeout makes a
+// second writer wait for the lock instead of failing with SQLITE_BUSY
+export function createSqliteRunStore(filePath = path.join(runsRoot(), "runs.sqlite")): RunStore {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS runs_created_at ON runs (created_at DESC);
+    CREATE TABLE IF NOT EXISTS revisions (
+      run_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (run_id, revision)
+    );
+  `);
+
+  const selectRun = db.prepare<[string], { data: string }>("SELECT data FROM runs WHERE id = ?");
+  const selectRuns = db.prepare<[], { data: string }>("SELECT data FROM runs ORDER BY created_at DESC");
+  const upsertRun = db.prepare<[string, string, string]>(`
+    INSERT INTO runs (id, created_at, data) VALUES (?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET created_at = excluded.created_at, data = excluded.data
+  `);
+
+  const selectRevisions = db.prepare<[string], { data: string }>(
+    "SELECT data FROM revisions WHERE run_id = ? ORDER BY revision"
+  );
+  const selectRevision = db.prepare<[string, number], { data: string }>(
+    "SELECT data FROM revisions WHERE run_id = ? AND revision = ?"
+  );
+  const selectLatestRevision = db.prepare<[string], { revision: number | null }>(
+    "SELECT MAX(revision) AS revision FROM revisions WHERE run_id = ?"
+  );
+  const insertRevision = db.prepare<[string, number, string]>(
+    "INSERT INTO revisions (run_id, revision, data) VALUES (?, ?, ?)"
+  );
+
+  function decode<T>(row: { data: string } | undefined, parse: (item: unknown) => T | undefined): T | undefined {
+    if (!row) return undefined;
+    try {
+      return parse(JSON.parse(row.data));
+    } catch {
+      return undefined;
+    }
+  }
+
+  function setRun(run: RunResult): void {
+    upsertRun.run(run.id, run.createdAt, JSON.stringify(run));
+  }
+
+  // IMMEDIATE takes the write lock up front, so two processes appending to the
+  // same run cannot both read the same latest revision number
+  const appendRevision = db.transaction((entry: NewRevision): RunRevision => {
+    const latest = selectLatestRevision.get(entry.runId)?.revision ?? undefined;
+    const revision = nextRevision(entry, latest);
+    insertRevision.run(revision.runId, revision.revision, JSON.stringify(revision));
+    setRun(revision.run);
+    return revision;
+  });
+
+  return {
+    get(runId) {
+      return decode(selectRun.get(runId), parseRun);
+    },
+    set: setRun,
+    list() {
+      return selectRuns.all().flatMap((row) => decode(row, parseRun) ?? []);
+    },
+    listRevisions(runId) {
+      return selectRevisions.all(runId).flatMap((row) => decode(row, parseRevision) ?? []);
+    },
+    getRevision(runId, revision) {
+      return decode(selectRevision.get(runId, revision), parseRevision);
+    },
+    appendRevision(entry) {
+      return appendRevision.immediate(entry);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Resolution from RUN_STORE / RUN_STORE_PATH
+// ---------------------------------------------------------------------------
+
+export function createRunStore(adapter: string = RUN_STORE.adapter, filePath = RUN_STORE.path): RunStore {
+  switch (adapter.trim().toLowerCase()) {
+    case "json":
+      return createJsonRunStore(filePath);
+    case "sqlite":
+      return createSqliteRunStore(filePath);
+    default:
+      throw new Error(
+        `Unknown RUN_STORE "${adapter}". Expected one of: ${runStoreAdapters.join(", ")}.`
+      );
+  }
+}
@@ -1,3 +1,5 @@
+import { SecretRedactions, SelectedFile } from "@/lib/models";
+
 const PROMPT_INJECTION_MARKERS = [
   "ignore previous instructions",
   "system prompt",
@@ -72,7 +74,116 @@ export function sanitizeTextForPrompt(content: string): string {
   return sanitized;
 }
 
-export function safeSnippet(content: string, maxLen = 12_000): string {
-  const trimmed = content.slice(0, maxLen);
-  return sanitizeTextForPrompt(trimmed);
+// ---------------------------------------------------------------------------
+// Secret redaction
+// ---------------------------------------------------------------------------
+
+// Each rule captures what to keep before the secret as group 1 and the
+// secret itself as group `secret`; the secret becomes "[redacted:<kind>]"
+type SecretRule = {
+  kind: string;
+  pattern: RegExp;
+  secret: number;
+  // Extra check on the captured value, for patterns loose enough to hit code
+  accept?: (value: string) => boolean;
+};
+
+// Values that document a secret rather than hold one
+const PLACEHOLDER_VALUE = /^(your|my|change|replace|insert|enter|example|placeholder|dummy|fake|sample|todo|xxx|\*{3,}|<|\$\{|\$[A-Z_]|\{\{|%\()|(here|example|placeholder|changeme|xxx+)$/i;
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isLikelySecret(value: string): boolean {
+  return !PLACEHOLDER_VALUE.test(value) && !value.startsWith("[redacted:") && shannonEntropy(value) >= 3;
+}
+
+const SECRET_RULES: SecretRule[] = [
+  {
+    kind: "private-key",
+    pattern: /()(-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----)/g,
+    secret: 2
+  },
+  { kind: "aws-access-key", pattern: /(\b)((?:AKIA|ASIA)[0-9A-Z]{16})\b/g, secret: 2 },
+  {
+    kind: "aws-secret-key",
+    pattern: /(aws_?secret_?access_?key["']?\s*[:=]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    secret: 2
+  },
+  { kind: "github-token", pattern: /(\b)(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g, secret: 2 },
+  { kind: "gitlab-token", pattern: /(\b)(glpat-[A-Za-z0-9_-]{20,})/g, secret: 2 },
+  { kind: "slack-token", pattern: /(\b)(xox[abposr]-[A-Za-z0-9-]{10,})/g, secret: 2 },
+  { kind: "stripe-key", pattern: /(\b)((?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,})/g, secret: 2 },
+  { kind: "anthropic-key", pattern: /(\b)(sk-ant-[A-Za-z0-9_-]{20,})/g, secret: 2 },
+  { kind: "openai-key", pattern: /(\b)(sk-(?:proj-)?[A-Za-z0-9_-]{20,})/g, secret: 2 },
+  { kind: "google-api-key", pattern: /(\b)(AIza[0-9A-Za-z_-]{35})/g, secret: 2 },
+  { kind: "jwt", pattern: /(\b)(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g, secret: 2 },
+  {
+    kind: "password",
+    pattern: /([a-z][a-z0-9+.-]*:\/\/[^\s:/@"'`]+:)([^\s@/"'`]+)(?=@)/gi,
+    secret: 2,
+    accept: (value) => !PLACEHOLDER_VALUE.test(value) && !/^(pass(word)?|secret|pwd)$/i.test(value)
+  },
+  // SECRET_KEY=..., API_TOKEN: ... (env files, YAML, shell)
+  {
+    kind: "secret",
+    pattern: /(^[ \t]*(?:export\s+)?[A-Z0-9_]*(?:SECRET|TOKEN|KEY|PASSWORD|PASSWD|PWD|CREDENTIALS?)[A-Z0-9_]*[ \t]*[=:][ \t]*)([^\s"']{8,})/gm,
+    secret: 2,
+    accept: isLikelySecret
+  },
+  // apiKey: "...", "client_secret": '...'
+  {
+    kind: "secret",
+    pattern: /(\b[A-Za-z0-9_]*(?:secret|token|api_?key|password|passwd|credentials?|private_?key|access_?key)["']?\s*[:=]\s*(["'`]))([^"'`\s]{8,})(?=\2)/gi,
+    secret: 3,
+    accept: isLikelySecret
+  },
+  // Any long quoted string that looks random (hex digests stay below the threshold)
+  {
+    kind: "high-entropy",
+    pattern: /(["'`])([A-Za-z0-9+/_-]{32,}={0,2})(?=\1)/g,
+    secret: 2,
+    accept: (value) => /\d/.test(value) && /[A-Za-z]/.test(value) && shannonEntropy(value) >= 4.3
+  }
+];
+
+export type RedactionResult = {
+  content: string;
+  // Redactions by secret kind; empty when nothing was found
+  redactions: Record<string, number>;
+};
+
+// Totals for RepoSnapshot.metadata, from the per-file counts
+export function summarizeRedactions(files: SelectedFile[]): SecretRedactions {
+  const byKind: Record<string, number> = {};
+  const redactedFiles: string[] = [];
+  for (const file of files) {
+    if (!file.redactions) continue;
+    redactedFiles.push(file.path);
+    for (const [kind, count] of Object.entries(file.redactions)) byKind[kind] = (byKind[kind] ?? 0) + count;
+  }
+  return { total: Object.values(byKind).reduce((sum, count) => sum + count, 0), byKind, files: redactedFiles };
+}
+
+export function redactSecrets(content: string): RedactionResult {
+  const redactions: Record<string, number> = {};
+  let redacted = content;
+  for (const rule of SECRET_RULES) {
+    redacted = redacted.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+      const kept = groups[0] as string;
+      const value = groups[rule.secret - 1] as string;
+      if (value.startsWith("[redacted:") || (rule.accept && !rule.accept(value))) return match;
+      redactions[rule.kind] = (redactions[rule.kind] ?? 0) + 1;
+      return `${kept}[redacted:${rule.kind}]${match.slice(kept.length + value.length)}`;
+    });
+  }
+  return { content: redacted, redactions };
 }
@@ -0,0 +1,60 @@
+import { PipelineSource, RemoteSource } from "@/lib/models";
+import { GITLAB_HOSTS } from "@/lib/services/config";
+
+export function isRemoteSource(source: PipelineSource): source is RemoteSource {
+  return source.type !== "local" && source.type !== "archive";
+}
+
+// scp-style remotes ("git@host:org/repo.git") are not URLs; rewrite them to
+// the equivalent ssh:// form so every remote parses with new URL()
+export function normalizeRemoteUrl(remote: string): string {
+  const trimmed = remote.trim();
+  if (trimmed.includes("://")) return trimmed;
+
+  const scp = /^([\w.-]+@)?([\w.-]+):(.+)$/.exec(trimmed);
+  if (!scp) return trimmed;
+  return `ssh://${scp[1] ?? ""}${scp[2]}/${scp[3].replace(/^\/+/, "")}`;
+}
+
+function isGitLabHost(hostname: string): boolean {
+  return hostname === "gitlab.com" || hostname.startsWith("gitlab.") || GITLAB_HOSTS.includes(hostname);
+}
+
+// Picks the source type from the remote's host; unknown hosts are plain git
+export function sourceFromUrl(remote: string, ref?: string): RemoteSource {
+  const repoUrl = normalizeRemoteUrl(remote);
+  let hostname: string;
+  try {
+    hostname = new URL(repoUrl).hostname.toLowerCase();
+  } catch {
+    throw new Error(`Invalid repository URL: ${remote}`);
+  }
+
+  if (hostname === "github.com") return { type: "github", repoUrl, ref };
+  if (hostname === "bitbucket.org") return { type: "bitbucket", repoUrl, ref };
+  if (isGitLabHost(hostname)) return { type: "gitlab", repoUrl, ref };
+  return { type: "git", repoUrl, ref };
+}
+
+// Owner and name for RepoSnapshot.repo. GitLab groups nest, so everything
+// before the last segment is the owner; web URLs may carry a "/-/tree/..." tail.
+export function parseRemoteRepo(source: RemoteSource): { owner: string; name: string } {
+  const url = new URL(source.repoUrl);
+  let parts = url.pathname.split("/").filter(Boolean);
+  const dash = parts.indexOf("-");
+  if (dash !== -1) parts = parts.slice(0, dash);
+
+  if (source.type === "github" || source.type === "bitbucket") {
+    parts = parts.slice(0, 2);
+  }
+
+  const name = (parts.pop() ?? "").replace(/\.git$/, "");
+  const owner = parts.join("/") || url.hostname;
+  return { owner, name };
+}
+
+export function describeSource(source: PipelineSource): string {
+  if (source.type === "local") return source.repoPath;
+  if (source.type === "archive") return source.fileName ?? source.archivePath;
+  return source.repoUrl;
+}
@@ -1,11 +1,29 @@
-import { MODEL_VERSION, RepoSnapshot, StackCategory, StackFingerprint, StackItem } from "@/lib/models";
-
-type Finding = {
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import ignore from "ignore";
+import { z } from "zod";
+import {
+  MODEL_VERSION,
+  RepoSnapshot,
+  RepoTreeNode,
+  StackCategory,
+  stackCategorySchema,
+  StackFingerprint,
+  StackItem,
+  PackageEcosystem,
+  packageEcosystemSchema
+} from "@/lib/models";
+import { HARNESS } from "@/lib/services/config";
+import { findLockedVersion } from "@/lib/services/lockfiles";
+
+export type Finding = {
   category: StackCategory;
   name: string;
   version?: string;
   evidence: string;
   confidenceBoost: number;
+  // The dependency behind the finding, whose lockfile version replaces `version`
+  package?: { ecosystem: PackageEcosystem; name: string };
 };
 
 function fileByName(snapshot: RepoSnapshot, filename: string): string | undefined {
@@ -76,7 +94,12 @@ function mergeFindings(findings: Finding[]): Record<StackCategory, StackItem[]>
     db: [],
     auth: [],
     infra: [],
-    language: []
+    language: [],
+    testing: [],
+    cicd: [],
+    styling: [],
+    state: [],
+    messaging: []
   };
 
   for (const item of grouped.values()) {
@@ -94,95 +117,126 @@ function detectFromPackageJson(content: string): Finding[] {
   const deps = parseDependenciesFromPackageJson(content);
   const findings: Finding[] = [];
   const has = (name: string) => deps[name] !== undefined;
+  // The first of `names` that is declared, with its range as evidence
+  const dependency = (category: StackCategory, name: string, names: string[], confidenceBoost: number): Finding => {
+    const declared = names.find(has) as string;
+    return {
+      category,
+      name,
+      version: maybeVersion(deps[declared]),
+      evidence: `package.json: dependency ${declared}@${deps[declared]}`,
+      confidenceBoost,
+      package: { ecosystem: "npm", name: declared }
+    };
+  };
 
   if (has("next")) {
-    findings.push({
-      category: "frontend",
-      name: "Next.js",
-      version: maybeVersion(deps.next),
-      evidence: "package.json: dependency next",
-      confidenceBoost: 0.25
-    });
+    findings.push(dependency("frontend", "Next.js", ["next"], 0.25));
   }
 
   if (has("react")) {
-    findings.push({
-      category: "frontend",
-      name: "React",
-      version: maybeVersion(deps.react),
-      evidence: "package.json: dependency react",
-      confidenceBoost: 0.2
-    });
+    findings.push(dependency("frontend", "React", ["react"], 0.2));
   }
 
   if (has("express")) {
-    findings.push({
-      category: "backend",
-      name: "Express",
-      version: maybeVersion(deps.express),
-      evidence: "package.json: dependency express",
-      confidenceBoost: 0.22
-    });
+    findings.push(dependency("backend", "Express", ["express"], 0.22));
   }
 
   if (has("fastify")) {
-    findings.push({
-      category: "backend",
-      name: "Fastify",
-      version: maybeVersion(deps.fastify),
-      evidence: "package.json: dependency fastify",
-      confidenceBoost: 0.18
-    });
+    findings.push(dependency("backend", "Fastify", ["fastify"], 0.18));
   }
 
   if (has("mongoose")) {
-    findings.push({
-      category: "db",
-      name: "MongoDB",
-      version: maybeVersion(deps.mongoose),
-      evidence: "package.json: dependency mongoose",
-      confidenceBoost: 0.24
-    });
+    findings.push(dependency("db", "MongoDB", ["mongoose"], 0.24));
   }
 
   if (has("pg") || has("postgres")) {
-    findings.push({
-      category: "db",
-      name: "PostgreSQL",
-      version: maybeVersion(deps.pg ?? deps.postgres),
-      evidence: "package.json: dependency pg/postgres",
-      confidenceBoost: 0.2
-    });
+    findings.push(dependency("db", "PostgreSQL", ["pg", "postgres"], 0.2));
   }
 
   if (has("prisma")) {
-    findings.push({
-      category: "db",
-      name: "Prisma",
-      version: maybeVersion(deps.prisma),
-      evidence: "package.json: dependency prisma",
-      confidenceBoost: 0.2
-    });
+    findings.push(dependency("db", "Prisma", ["prisma"], 0.2));
+  }
+
+  if (has("tailwindcss")) {
+    findings.push(dependency("styling", "Tailwind CSS", ["tailwindcss"], 0.22));
+  }
+
+  if (has("styled-components")) {
+    findings.push(dependency("styling", "styled-components", ["styled-components"], 0.2));
+  }
+
+  if (has("@emotion/react") || has("@emotion/styled")) {
+    findings.push(dependency("styling", "Emotion", ["@emotion/react", "@emotion/styled"], 0.18));
+  }
+
+  if (has("sass")) {
+    findings.push(dependency("styling", "Sass", ["sass"], 0.15));
+  }
+
+  if (has("vitest")) {
+    findings.push(dependency("testing", "Vitest", ["vitest"], 0.22));
+  }
+
+  if (has("jest")) {
+    findings.push(dependency("testing", "Jest", ["jest"], 0.22));
+  }
+
+  if (has("@playwright/test")) {
+    findings.push(dependency("testing", "Playwright", ["@playwright/test"], 0.2));
+  }
+
+  if (has("cypress")) {
+    findings.push(dependency("testing", "Cypress", ["cypress"], 0.2));
+  }
+
+  if (has("@reduxjs/toolkit") || has("redux")) {
+    findings.push(dependency("state", "Redux", ["@reduxjs/toolkit", "redux"], 0.22));
+  }
+
+  if (has("zustand")) {
+    findings.push(dependency("state", "Zustand", ["zustand"], 0.22));
+  }
+
+  if (has("mobx")) {
+    findings.push(dependency("state", "MobX", ["mobx"], 0.2));
+  }
+
+  if (has("jotai")) {
+    findings.push(dependency("state", "Jotai", ["jotai"], 0.18));
+  }
+
+  if (has("@tanstack/react-query")) {
+    findings.push(dependency("state", "TanStack Query", ["@tanstack/react-query"], 0.18));
+  }
+
+  if (has("ioredis") || has("redis")) {
+    findings.push(dependency("messaging", "Redis", ["ioredis", "redis"], 0.2));
+  }
+
+  if (has("kafkajs")) {
+    findings.push(dependency("messaging", "Kafka", ["kafkajs"], 0.22));
+  }
+
+  if (has("amqplib")) {
+    findings.push(dependency("messaging", "RabbitMQ", ["amqplib"], 0.2));
+  }
+
+  if (has("bullmq")) {
+    findings.push(dependency("messaging", "BullMQ", ["bullmq"], 0.18));
   }
 
   if (has("firebase") || has("firebase-admin")) {
-    findings.push({
-      category: "auth",
-      name: "Firebase",
-      version: maybeVersion(deps.firebase ?? deps["firebase-admin"]),
-      evidence: "package.json: dependency firebase/firebase-admin",
-      confidenceBoost: 0.23
-    });
+    findings.push(dependency("auth", "Firebase", ["firebase", "firebase-admin"], 0.23));
   }
 
   if (has("next-auth") || has("@clerk/nextjs") || has("auth0")) {
-    findings.push({
-      category: "auth",
-      name: has("next-auth") ? "NextAuth" : has("@clerk/nextjs") ? "Clerk" : "Auth0",
-      version: maybeVersion(deps["next-auth"] ?? deps["@clerk/nextjs"] ?? deps.auth0),
-      evidence: "package.json: auth dependency",
-      confidenceBoost: 0.18
-    });
+    findings.push(dependency(
+      "auth",
+      has("next-auth") ? "NextAuth" : has("@clerk/nextjs") ? "Clerk" : "Auth0",
+      ["next-auth", "@clerk/nextjs", "auth0"],
+      0.18
+    ));
   }
 
   return findings;
@@ -202,7 +256,8 @@ function detectFromRequirements(content: string): Finding[] {
       category: "backend",
       name: "Django",
       evidence: "requirements.txt: django",
-      confidenceBoost: 0.25
+      confidenceBoost: 0.25,
+      package: { ecosystem: "pypi", name: "django" }
     });
   }
   if (includes("fastapi")) {
@@ -210,7 +265,8 @@ function detectFromRequirements(content: string): Finding[] {
       category: "backend",
       name: "FastAPI",
       evidence: "requirements.txt: fastapi",
-      confidenceBoost: 0.25
+      confidenceBoost: 0.25,
+      package: { ecosystem: "pypi", name: "fastapi" }
     });
   }
   if (includes("flask")) {
@@ -218,7 +274,8 @@ function detectFromRequirements(content: string): Finding[] {
       category: "backend",
       name: "Flask",
       evidence: "requirements.txt: flask",
-      confidenceBoost: 0.22
+      confidenceBoost: 0.22,
+      package: { ecosystem: "pypi", name: "flask" }
     });
   }
   if (includes("sqlalchemy")) {
@@ -226,7 +283,45 @@ function detectFromRequirements(content: string): Finding[] {
       category: "db",
       name: "SQLAlchemy",
       evidence: "requirements.txt: sqlalchemy",
-      confidenceBoost: 0.18
+      confidenceBoost: 0.18,
+      package: { ecosystem: "pypi", name: "sqlalchemy" }
+    });
+  }
+  if (includes("pytest")) {
+    findings.push({
+      category: "testing",
+      name: "pytest",
+      evidence: "requirements.txt: pytest",
+      confidenceBoost: 0.2,
+      package: { ecosystem: "pypi", name: "pytest" }
+    });
+  }
+  if (includes("celery")) {
+    findings.push({
+      category: "messaging",
+      name: "Celery",
+      evidence: "requirements.txt: celery",
+      confidenceBoost: 0.2,
+      package: { ecosystem: "pypi", name: "celery" }
+    });
+  }
+  if (includes("redis")) {
+    findings.push({
+      category: "messaging",
+      name: "Redis",
+      evidence: "requirements.txt: redis",
+      confidenceBoost: 0.18,
+      package: { ecosystem: "pypi", name: "redis" }
+    });
+  }
+  if (includes("confluent-kafka") || includes("kafka-python")) {
+    const pkg = includes("confluent-kafka") ? "confluent-kafka" : "kafka-python";
+    findings.push({
+      category: "messaging",
+      name: "Kafka",
+      evidence: `requirements.txt: ${pkg}`,
+      confidenceBoost: 0.2,
+      package: { ecosystem: "pypi", name: pkg }
     });
   }
 
@@ -242,7 +337,8 @@ function detectFromPyProject(content: string): Finding[] {
       category: "backend",
       name: "Django",
       evidence: "pyproject.toml contains django",
-      confidenceBoost: 0.22
+      confidenceBoost: 0.22,
+      package: { ecosystem: "pypi", name: "django" }
     });
   }
 
@@ -251,7 +347,8 @@ function detectFromPyProject(content: string): Finding[] {
       category: "backend",
       name: "FastAPI",
       evidence: "pyproject.toml contains fastapi",
-      confidenceBoost: 0.22
+      confidenceBoost: 0.22,
+      package: { ecosystem: "pypi", name: "fastapi" }
     });
   }
 
@@ -267,7 +364,8 @@ function detectFromGoMod(content: string): Finding[] {
       category: "backend",
       name: "Gin",
       evidence: "go.mod contains gin-gonic/gin",
-      confidenceBoost: 0.23
+      confidenceBoost: 0.23,
+      package: { ecosystem: "go", name: "github.com/gin-gonic/gin" }
     });
   }
 
@@ -276,7 +374,40 @@ function detectFromGoMod(content: string): Finding[] {
       category: "db",
       name: "GORM",
       evidence: "go.mod contains gorm.io/gorm",
-      confidenceBoost: 0.18
+      confidenceBoost: 0.18,
+      package: { ecosystem: "go", name: "gorm.io/gorm" }
+    });
+  }
+
+  if (lowered.includes("stretchr/testify")) {
+    findings.push({
+      category: "testing",
+      name: "Testify",
+      evidence: "go.mod contains stretchr/testify",
+      confidenceBoost: 0.18,
+      package: { ecosystem: "go", name: "github.com/stretchr/testify" }
+    });
+  }
+
+  if (lowered.includes("segmentio/kafka-go")) {
+    findings.push({
+      category: "messaging",
+      name: "Kafka",
+      evidence: "go.mod contains segmentio/kafka-go",
+      confidenceBoost: 0.2,
+      package: { ecosystem: "go", name: "github.com/segmentio/kafka-go" }
+    });
+  }
+
+  // Major versions from v2 on are part of the module path
+  const goRedis = /github\.com\/redis\/go-redis(?:\/v\d+)?/.exec(lowered)?.[0];
+  if (goRedis) {
+    findings.push({
+      category: "messaging",
+      name: "Redis",
+      evidence: "go.mod contains redis/go-redis",
+      confidenceBoost: 0.18,
+      package: { ecosystem: "go", name: goRedis }
     });
   }
 
@@ -292,7 +423,8 @@ function detectFromCargo(content: string): Finding[] {
       category: "backend",
       name: "Actix",
       evidence: "Cargo.toml contains actix-web",
-      confidenceBoost: 0.21
+      confidenceBoost: 0.21,
+      package: { ecosystem: "cargo", name: "actix-web" }
     });
   }
 
@@ -301,7 +433,8 @@ function detectFromCargo(content: string): Finding[] {
       category: "db",
       name: "Diesel",
       evidence: "Cargo.toml contains diesel",
-      confidenceBoost: 0.17
+      confidenceBoost: 0.17,
+      package: { ecosystem: "cargo", name: "diesel" }
     });
   }
 
@@ -321,11 +454,11 @@ function detectFromJavaFiles(content: string, fileName: string): Finding[] {
     });
   }
 
-  if (fileName.endsWith("build.gradle") && lowered.includes("org.springframework.boot")) {
+  if (/build\.gradle(\.kts)?$/.test(fileName) && lowered.includes("org.springframework.boot")) {
     findings.push({
       category: "backend",
       name: "Spring Boot",
-      evidence: "build.gradle contains org.springframework.boot",
+      evidence: `${fileName.split("/").pop()} contains org.springframework.boot`,
       confidenceBoost: 0.25
     });
   }
@@ -333,6 +466,137 @@ function detectFromJavaFiles(content: string, fileName: string): Finding[] {
   return findings;
 }
 
+// build.gradle(.kts) and gradle/libs.versions.toml; version catalogs name the
+// same artifacts as "group:name" strings or `group = "..."` entries
+function detectFromAndroidGradle(content: string, path: string): Finding[] {
+  const findings: Finding[] = [];
+  const file = path.split("/").pop();
+  const signal = (pattern: RegExp) => pattern.exec(content)?.[0];
+
+  const plugin = signal(/com\.android\.(?:application|library)/);
+  if (plugin) {
+    findings.push({
+      category: "frontend",
+      name: "Android Platform",
+      evidence: `${file}: ${plugin} plugin`,
+      confidenceBoost: 0.15
+    });
+  }
+
+  const compose = signal(/androidx\.compose\b[\w.:-]*|\bcompose\s*=?\s*true\b|kotlin\.plugin\.compose/);
+  if (compose) {
+    findings.push({
+      category: "frontend",
+      name: "Jetpack Compose",
+      version: /compose-bom:(\d[\w.]*)/.exec(content)?.[1],
+      evidence: `${file}: ${compose.replace(/\s+/g, " ")}`,
+      confidenceBoost: 0.25
+    });
+  }
+
+  const views = signal(/androidx\.(?:appcompat|constraintlayout|recyclerview|fragment)\b|\b(?:viewBinding|dataBinding)\s*=?\s*true\b/);
+  if (views) {
+    findings.push({
+      category: "frontend",
+      name: "Android Views",
+      evidence: `${file}: ${views.replace(/\s+/g, " ")}`,
+      confidenceBoost: 0.15
+    });
+  }
+
+  if (/androidx\.room\b/.test(content)) {
+    findings.push({
+      category: "db",
+      name: "Room",
+      evidence: `${file} contains androidx.room`,
+      confidenceBoost: 0.18
+    });
+  }
+
+  if (/com\.squareup\.retrofit2\b/.test(content)) {
+    findings.push({
+      category: "backend",
+      name: "Retrofit",
+      evidence: `${file} contains com.squareup.retrofit2`,
+      confidenceBoost: 0.12
+    });
+  }
+
+  if (/firebase-auth\b/.test(content)) {
+    findings.push({
+      category: "auth",
+      name: "Firebase",
+      evidence: `${file} contains firebase-auth`,
+      confidenceBoost: 0.18
+    });
+  }
+
+  return findings;
+}
+
+function detectFromKotlinSource(content: string, path: string): Finding[] {
+  const findings: Finding[] = [];
+  const importOf = (pattern: RegExp) => new RegExp(`^import\\s+(${pattern.source})`, "m").exec(content)?.[1];
+
+  const compose = importOf(/androidx\.compose\.[\w.]+/);
+  if (compose) {
+    findings.push({
+      category: "frontend",
+      name: "Jetpack Compose",
+      evidence: `${path}: import ${compose}`,
+      confidenceBoost: 0.25
+    });
+  }
+
+  const views = importOf(/androidx\.appcompat\.app\.AppCompatActivity|androidx\.fragment\.app\.Fragment|androidx\.recyclerview\.widget\.\w+|android\.widget\.\w+/);
+  if (views) {
+    findings.push({
+      category: "frontend",
+      name: "Android Views",
+      evidence: `${path}: import ${views}`,
+      confidenceBoost: 0.2
+    });
+  }
+
+  const room = importOf(/androidx\.room\.[\w.]+/);
+  if (room) {
+    findings.push({
+      category: "db",
+      name: "Room",
+      evidence: `${path}: import ${room}`,
+      confidenceBoost: 0.18
+    });
+  }
+
+  return findings;
+}
+
+function detectFromAndroidResources(tree: RepoTreeNode[]): Finding[] {
+  const findings: Finding[] = [];
+  const manifest = tree.find((node) => node.path.endsWith("AndroidManifest.xml"));
+  const layouts = tree.filter((node) => !node.path.endsWith("AndroidManifest.xml"));
+
+  if (manifest) {
+    findings.push({
+      category: "frontend",
+      name: "Android Platform",
+      evidence: `${manifest.path} present`,
+      confidenceBoost: 0.2
+    });
+  }
+
+  if (layouts.length) {
+    findings.push({
+      category: "frontend",
+      name: "Android Views",
+      evidence: `${layouts.length} layout XML file${layouts.length === 1 ? "" : "s"} under res/layout`,
+      confidenceBoost: 0.15
+    });
+  }
+
+  return findings;
+}
+
 function detectFromDockerfile(content: string): Finding[] {
   const lowered = content.toLowerCase();
   const findings: Finding[] = [];
@@ -485,6 +749,265 @@ function detectFromXcodeProject(path: string): Finding[] {
   return findings;
 }
 
+// How a manifest's dependencies are looked up in lockfiles and written in
+// evidence, the way the manifest itself writes them
+type DeclaringManifest = {
+  ecosystem: PackageEcosystem;
+  describe: (name: string, spec: string) => string;
+};
+
+// Finding for the first of `names` a manifest declares, with its spec in the
+// evidence and the package for lockfile resolution
+function declaredDependency(
+  deps: Record<string, string>,
+  manifest: DeclaringManifest,
+  category: StackCategory,
+  name: string,
+  names: string[],
+  confidenceBoost: number
+): Finding[] {
+  const declared = names.find((candidate) => deps[candidate] !== undefined);
+  if (!declared) return [];
+  return [{
+    category,
+    name,
+    version: maybeVersion(deps[declared]),
+    evidence: manifest.describe(declared, deps[declared]),
+    confidenceBoost,
+    package: { ecosystem: manifest.ecosystem, name: declared }
+  }];
+}
+
+// gem "rails", "~> 7.1.0" -> { rails: "~> 7.1.0" }
+function parseGemfile(content: string): Record<string, string> {
+  const deps: Record<string, string> = {};
+  for (const match of content.matchAll(/^\s*gem\s+['"]([^'"]+)['"](?:\s*,\s*['"]([^'"]+)['"])?/gm)) {
+    deps[match[1]] ??= match[2] ?? "";
+  }
+  return deps;
+}
+
+const GEMFILE: DeclaringManifest = {
+  ecosystem: "rubygems",
+  describe: (declared, spec) => `Gemfile: gem ${declared}${spec ? ` ${spec}` : ""}`
+};
+
+function detectFromGemfile(content: string): Finding[] {
+  const deps = parseGemfile(content);
+  const gem = (category: StackCategory, name: string, names: string[], confidenceBoost: number) =>
+    declaredDependency(deps, GEMFILE, category, name, names, confidenceBoost);
+
+  return [
+    ...gem("backend", "Rails", ["rails", "railties"], 0.25),
+    ...gem("backend", "Sinatra", ["sinatra"], 0.22),
+    ...gem("db", "PostgreSQL", ["pg"], 0.18),
+    ...gem("db", "MySQL", ["mysql2"], 0.18),
+    ...gem("db", "SQLite", ["sqlite3"], 0.12),
+    ...gem("auth", "Devise", ["devise"], 0.2),
+    ...gem("testing", "RSpec", ["rspec-rails", "rspec"], 0.2),
+    ...gem("messaging", "Sidekiq", ["sidekiq"], 0.2)
+  ];
+}
+
+function parseComposerJson(content: string): Record<string, string> {
+  const json = safeJsonParse(content);
+  if (!json || typeof json !== "object") return {};
+  const data = json as { require?: Record<string, string>; "require-dev"?: Record<string, string> };
+  return { ...(data.require ?? {}), ...(data["require-dev"] ?? {}) };
+}
+
+const COMPOSER_JSON: DeclaringManifest = {
+  ecosystem: "packagist",
+  describe: (declared, spec) => `composer.json: require ${declared}@${spec}`
+};
+
+function detectFromComposerJson(content: string): Finding[] {
+  const deps = parseComposerJson(content);
+  const require = (category: StackCategory, name: string, names: string[], confidenceBoost: number) =>
+    declaredDependency(deps, COMPOSER_JSON, category, name, names, confidenceBoost);
+
+  return [
+    ...require("backend", "Laravel", ["laravel/framework", "laravel/lumen-framework"], 0.25),
+    ...require("backend", "Symfony", ["symfony/framework-bundle", "symfony/symfony"], 0.23),
+    ...require("db", "Doctrine", ["doctrine/orm", "doctrine/doctrine-bundle"], 0.18),
+    ...require("auth", "Laravel Sanctum", ["laravel/sanctum"], 0.16),
+    ...require("testing", "PHPUnit", ["phpunit/phpunit"], 0.18),
+    ...require("testing", "Pest", ["pestphp/pest"], 0.18)
+  ];
+}
+
+// <PackageReference Include="Microsoft.EntityFrameworkCore" Version="8.0.1" />
+function parsePackageReferences(content: string): Record<string, string> {
+  const deps: Record<string, string> = {};
+  for (const match of content.matchAll(/<PackageReference\s+Include="([^"]+)"(?:\s+Version="([^"]+)")?/g)) {
+    deps[match[1]] ??= match[2] ?? "";
+  }
+  return deps;
+}
+
+function detectFromDotnetProject(content: string, path: string): Finding[] {
+  const deps = parsePackageReferences(content);
+  const findings: Finding[] = [];
+  // Several packages share a prefix (Microsoft.EntityFrameworkCore.SqlServer, ...)
+  const withPrefix = (prefix: string) => Object.keys(deps).filter((name) => name === prefix || name.startsWith(`${prefix}.`));
+  const projectFile: DeclaringManifest = {
+    ecosystem: "nuget",
+    describe: (declared, spec) => `${path}: PackageReference ${declared}${spec ? ` ${spec}` : ""}`
+  };
+  const reference = (category: StackCategory, name: string, names: string[], confidenceBoost: number) =>
+    declaredDependency(deps, projectFile, category, name, names, confidenceBoost);
+
+  const sdk = /<Project\s+Sdk="([^"]+)"/.exec(content)?.[1];
+  if (sdk === "Microsoft.NET.Sdk.Web") {
+    findings.push({
+      category: "backend",
+      name: "ASP.NET Core",
+      evidence: `${path}: Sdk ${sdk}`,
+      confidenceBoost: 0.25
+    });
+  }
+
+  const targetFramework = /<TargetFrameworks?>\s*net(\d+\.\d+)/.exec(content)?.[1];
+  if (targetFramework) {
+    findings.push({
+      category: "infra",
+      name: ".NET",
+      version: targetFramework,
+      evidence: `${path}: TargetFramework net${targetFramework}`,
+      confidenceBoost: 0.15
+    });
+  }
+
+  findings.push(
+    ...reference("backend", "ASP.NET Core", withPrefix("Microsoft.AspNetCore").filter((name) => !name.includes(".Identity")), 0.2),
+    ...reference("db", "Entity Framework Core", withPrefix("Microsoft.EntityFrameworkCore"), 0.22),
+    ...reference("db", "PostgreSQL", ["Npgsql.EntityFrameworkCore.PostgreSQL", "Npgsql"], 0.18),
+    ...reference("db", "SQL Server", ["Microsoft.EntityFrameworkCore.SqlServer", "Microsoft.Data.SqlClient"], 0.16),
+    ...reference("auth", "ASP.NET Core Identity", withPrefix("Microsoft.AspNetCore.Identity"), 0.2)
+  );
+  return findings;
+}
+
+// {:phoenix, "~> 1.7.10"} -> { phoenix: "~> 1.7.10" }
+function parseMixDeps(content: string): Record<string, string> {
+  const deps: Record<string, string> = {};
+  for (const match of content.matchAll(/\{\s*:(\w+)\s*,\s*(?:"([^"]+)")?/g)) {
+    deps[match[1]] ??= match[2] ?? "";
+  }
+  return deps;
+}
+
+const MIX_EXS: DeclaringManifest = {
+  ecosystem: "hex",
+  describe: (declared, spec) => `mix.exs: dep :${declared}${spec ? ` ${spec}` : ""}`
+};
+
+function detectFromMixExs(content: string): Finding[] {
+  const deps = parseMixDeps(content);
+  const dep = (category: StackCategory, name: string, names: string[], confidenceBoost: number) =>
+    declaredDependency(deps, MIX_EXS, category, name, names, confidenceBoost);
+
+  return [
+    ...dep("backend", "Phoenix", ["phoenix"], 0.25),
+    ...dep("frontend", "Phoenix LiveView", ["phoenix_live_view"], 0.2),
+    ...dep("db", "Ecto", ["ecto_sql", "ecto"], 0.2),
+    ...dep("db", "PostgreSQL", ["postgrex"], 0.18)
+  ];
+}
+
+// Entries under the top-level dependencies/dev_dependencies keys of
+// pubspec.yaml; SDK dependencies ("flutter:\n    sdk: flutter") have no spec
+function parsePubspecDependencies(content: string): Record<string, string> {
+  const deps: Record<string, string> = {};
+  let inDependencies = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inDependencies = /^(dev_)?dependencies:\s*$/.test(line);
+      continue;
+    }
+    const match = inDependencies ? /^ {2}([\w-]+):\s*(.*)$/.exec(line) : null;
+    if (match) deps[match[1]] = match[2].trim().replace(/^(['"])(.*)\1$/, "$2");
+  }
+  return deps;
+}
+
+const PUBSPEC: DeclaringManifest = {
+  ecosystem: "pub",
+  describe: (declared, spec) => `pubspec.yaml: dependency ${declared}${spec ? `@${spec}` : " (sdk)"}`
+};
+
+function detectFromPubspec(content: string): Finding[] {
+  const deps = parsePubspecDependencies(content);
+  const dependency = (category: StackCategory, name: string, names: string[], confidenceBoost: number) =>
+    declaredDependency(deps, PUBSPEC, category, name, names, confidenceBoost);
+
+  return [
+    ...dependency("frontend", "Flutter", ["flutter"], 0.3),
+    ...dependency("state", "Riverpod", ["flutter_riverpod", "hooks_riverpod", "riverpod"], 0.18),
+    ...dependency("state", "Bloc", ["flutter_bloc", "bloc"], 0.18),
+    ...dependency("frontend", "go_router", ["go_router"], 0.1),
+    ...dependency("auth", "Firebase", ["firebase_auth"], 0.2),
+    ...dependency("backend", "Supabase", ["supabase_flutter"], 0.18),
+    ...dependency("db", "SQLite", ["sqflite", "drift"], 0.16),
+    ...dependency("db", "Isar", ["isar"], 0.16),
+    ...dependency("db", "Hive", ["hive", "hive_flutter"], 0.14)
+  ];
+}
+
+function detectFromDartSource(content: string, path: string): Finding[] {
+  const findings: Finding[] = [];
+  const library = /^import\s+['"]package:flutter\/(material|cupertino|widgets)\.dart['"]/m.exec(content)?.[1];
+
+  if (library) {
+    findings.push({
+      category: "frontend",
+      name: "Flutter",
+      evidence: `${path}: import package:flutter/${library}.dart`,
+      confidenceBoost: 0.2
+    });
+  }
+
+  return findings;
+}
+
+// CI pipelines and tool configs are not sampled, so their presence in the
+// file tree is the signal
+const TOOLING_FILES: Array<{ globs: string[]; category: StackCategory; name: string }> = [
+  { globs: [".github/workflows/*.yml", ".github/workflows/*.yaml"], category: "cicd", name: "GitHub Actions" },
+  { globs: [".gitlab-ci.yml"], category: "cicd", name: "GitLab CI" },
+  { globs: [".circleci/config.yml"], category: "cicd", name: "CircleCI" },
+  { globs: ["Jenkinsfile"], category: "cicd", name: "Jenkins" },
+  { globs: ["azure-pipelines.yml"], category: "cicd", name: "Azure Pipelines" },
+  { globs: ["bitbucket-pipelines.yml"], category: "cicd", name: "Bitbucket Pipelines" },
+  { globs: ["tailwind.config.*"], category: "styling", name: "Tailwind CSS" },
+  { globs: ["vitest.config.*"], category: "testing", name: "Vitest" },
+  { globs: ["jest.config.*"], category: "testing", name: "Jest" },
+  { globs: ["playwright.config.*"], category: "testing", name: "Playwright" },
+  { globs: ["cypress.config.*"], category: "testing", name: "Cypress" },
+  { globs: ["pytest.ini"], category: "testing", name: "pytest" },
+  { globs: ["phpunit.xml", "phpunit.xml.dist"], category: "testing", name: "PHPUnit" }
+];
+
+function toolingGlobs(categories: StackCategory[]): string[] {
+  return TOOLING_FILES.filter((rule) => categories.includes(rule.category)).flatMap((rule) => rule.globs);
+}
+
+function detectFromToolingFiles(tree: RepoTreeNode[]): Finding[] {
+  return TOOLING_FILES.flatMap((rule) => {
+    const matcher = ignore().add(rule.globs);
+    const matches = tree.filter((node) => matcher.ignores(node.path));
+    if (!matches.length) return [];
+    return [{
+      category: rule.category,
+      name: rule.name,
+      evidence: matches.length === 1
+        ? `${matches[0].path} present`
+        : `${matches.length} files: ${matches.slice(0, 3).map((node) => node.path).join(", ")}`,
+      confidenceBoost: 0.2
+    }];
+  });
+}
+
 function detectLanguageFindings(snapshot: RepoSnapshot): Finding[] {
   return snapshot.languages.slice(0, 3).map((lang) => ({
     category: "language",
@@ -494,42 +1017,264 @@ function detectLanguageFindings(snapshot: RepoSnapshot): Finding[] {
   }));
 }
 
-export function detectStack(snapshot: RepoSnapshot): StackFingerprint {
-  const findings: Finding[] = [];
+// ---------------------------------------------------------------------------
+// Detector registry
+// ---------------------------------------------------------------------------
 
-  for (const file of snapshot.files) {
-    if (file.path.endsWith("package.json")) {
-      findings.push(...detectFromPackageJson(file.content));
-    } else if (file.path.endsWith("requirements.txt")) {
-      findings.push(...detectFromRequirements(file.content));
-    } else if (file.path.endsWith("pyproject.toml")) {
-      findings.push(...detectFromPyProject(file.content));
-    } else if (file.path.endsWith("go.mod")) {
-      findings.push(...detectFromGoMod(file.content));
-    } else if (file.path.endsWith("Cargo.toml")) {
-      findings.push(...detectFromCargo(file.content));
-    } else if (file.path.endsWith("pom.xml") || file.path.endsWith("build.gradle")) {
-      findings.push(...detectFromJavaFiles(file.content, file.path));
-    } else if (file.path.endsWith("Dockerfile")) {
-      findings.push(...detectFromDockerfile(file.content));
-    } else if (file.path === "Package.swift" || file.path.endsWith("/Package.swift")) {
-      findings.push(...detectFromSwiftPackage(file.content));
-    } else if (file.path.endsWith("Podfile") || file.path === "Podfile") {
-      findings.push(...detectFromPodfile(file.content));
-    } else if (file.path.endsWith(".swift")) {
-      findings.push(...detectFromSwiftSource(file.content, file.path));
-    }
+export type DetectorFile = {
+  path: string;
+  content: string;
+};
+
+export type DetectorInput = {
+  snapshot: RepoSnapshot;
+  // Sampled files matching the detector's `files` globs
+  files: DetectorFile[];
+  // File tree entries matching its `tree` globs
+  tree: RepoTreeNode[];
+};
+
+export type StackDetector = {
+  name: string;
+  // gitignore-style globs matched against sampled file paths
+  files?: string[];
+  // Globs matched against the file tree, for signals that need no content
+  tree?: string[];
+  // Called once per snapshot when any glob matched, or always when the
+  // detector declares no globs
+  detect: (input: DetectorInput) => Finding[];
+};
+
+const BUILTIN_SOURCE = "built-in";
+
+const BUILTIN_DETECTORS: StackDetector[] = [
+  {
+    name: "package-json",
+    files: ["package.json"],
+    detect: ({ files }) => files.flatMap((file) => detectFromPackageJson(file.content))
+  },
+  {
+    name: "requirements-txt",
+    files: ["requirements.txt"],
+    detect: ({ files }) => files.flatMap((file) => detectFromRequirements(file.content))
+  },
+  {
+    name: "pyproject",
+    files: ["pyproject.toml"],
+    detect: ({ files }) => files.flatMap((file) => detectFromPyProject(file.content))
+  },
+  {
+    name: "go-mod",
+    files: ["go.mod"],
+    detect: ({ files }) => files.flatMap((file) => detectFromGoMod(file.content))
+  },
+  {
+    name: "cargo",
+    files: ["Cargo.toml"],
+    detect: ({ files }) => files.flatMap((file) => detectFromCargo(file.content))
+  },
+  {
+    name: "maven-gradle",
+    files: ["pom.xml", "build.gradle", "build.gradle.kts"],
+    detect: ({ files }) => files.flatMap((file) => detectFromJavaFiles(file.content, file.path))
+  },
+  {
+    name: "android-gradle",
+    files: ["build.gradle", "build.gradle.kts", "libs.versions.toml"],
+    detect: ({ files }) => files.flatMap((file) => detectFromAndroidGradle(file.content, file.path))
+  },
+  {
+    name: "kotlin-source",
+    files: ["*.kt"],
+    detect: ({ files }) => files.flatMap((file) => detectFromKotlinSource(file.content, file.path))
+  },
+  {
+    // Manifests and layouts are XML resources, never sampled as sources
+    name: "android-resources",
+    tree: ["AndroidManifest.xml", "**/res/layout/*.xml"],
+    detect: ({ tree }) => detectFromAndroidResources(tree)
+  },
+  {
+    name: "dockerfile",
+    files: ["Dockerfile", "*.Dockerfile"],
+    detect: ({ files }) => files.flatMap((file) => detectFromDockerfile(file.content))
+  },
+  {
+    name: "swift-package",
+    files: ["Package.swift"],
+    detect: ({ files }) => files.flatMap((file) => detectFromSwiftPackage(file.content))
+  },
+  {
+    name: "podfile",
+    files: ["Podfile"],
+    detect: ({ files }) => files.flatMap((file) => detectFromPodfile(file.content))
+  },
+  {
+    name: "swift-source",
+    files: ["*.swift", "!Package.swift"],
+    detect: ({ files }) => files.flatMap((file) => detectFromSwiftSource(file.content, file.path))
+  },
+  {
+    name: "gemfile",
+    files: ["Gemfile"],
+    detect: ({ files }) => files.flatMap((file) => detectFromGemfile(file.content))
+  },
+  {
+    name: "composer",
+    files: ["composer.json"],
+    detect: ({ files }) => files.flatMap((file) => detectFromComposerJson(file.content))
+  },
+  {
+    name: "dotnet-project",
+    files: ["*.csproj", "*.fsproj"],
+    detect: ({ files }) => files.flatMap((file) => detectFromDotnetProject(file.content, file.path))
+  },
+  {
+    name: "mix-exs",
+    files: ["mix.exs"],
+    detect: ({ files }) => files.flatMap((file) => detectFromMixExs(file.content))
+  },
+  {
+    name: "pubspec",
+    files: ["pubspec.yaml"],
+    detect: ({ files }) => files.flatMap((file) => detectFromPubspec(file.content))
+  },
+  {
+    name: "dart-source",
+    files: ["*.dart"],
+    detect: ({ files }) => files.flatMap((file) => detectFromDartSource(file.content, file.path))
+  },
+  {
+    // Xcode projects are directories, so they only show up in the tree
+    name: "xcode-project",
+    tree: ["*.xcodeproj", "*.xcworkspace"],
+    detect: ({ tree }) => detectFromXcodeProject(tree[0].path)
+  },
+  {
+    name: "ci-config",
+    tree: toolingGlobs(["cicd"]),
+    detect: ({ tree }) => detectFromToolingFiles(tree)
+  },
+  {
+    name: "tooling-config",
+    tree: toolingGlobs(["testing", "styling"]),
+    detect: ({ tree }) => detectFromToolingFiles(tree)
+  },
+  {
+    name: "languages",
+    detect: ({ snapshot }) => detectLanguageFindings(snapshot)
   }
+];
+
+type RegisteredDetector = StackDetector & { source: string };
+
+const registeredDetectors: RegisteredDetector[] = BUILTIN_DETECTORS.map((detector) => ({ ...detector, source: BUILTIN_SOURCE }));
+
+const stackDetectorSchema = z.object({
+  name: z.string().min(1),
+  files: z.array(z.string()).optional(),
+  tree: z.array(z.string()).optional(),
+  detect: z.custom<StackDetector["detect"]>((value) => typeof value === "function", "must be a function")
+});
+
+const findingSchema = z.object({
+  category: stackCategorySchema,
+  name: z.string().min(1),
+  version: z.string().optional(),
+  evidence: z.string(),
+  confidenceBoost: z.number(),
+  package: z.object({ ecosystem: packageEcosystemSchema, name: z.string().min(1) }).optional()
+});
+
+// Adds a detector to every later stack detection. `source` names where it came
+// from in the run output, e.g. the config module that registered it
+export function registerStackDetector(detector: StackDetector, source = "custom"): void {
+  const parsed = stackDetectorSchema.safeParse(detector);
+  if (!parsed.success) {
+    throw new Error(`Invalid stack detector from ${source}: ${parsed.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`).join("; ")}`);
+  }
+  if (registeredDetectors.some((existing) => existing.name === detector.name)) {
+    throw new Error(`Stack detector "${detector.name}" from ${source} is already registered`);
+  }
+  registeredDetectors.push({ ...detector, source });
+}
 
-  // Detect Xcode project from file tree (not sampled content)
-  for (const node of snapshot.fileTree) {
-    if (node.path.endsWith(".xcodeproj") || node.path.endsWith(".xcworkspace")) {
-      findings.push(...detectFromXcodeProject(node.path));
-      break;
+let configModules: Promise<void> | undefined;
+
+// Config modules export a detector or an array of detectors, as `detectors`
+// or as the default export
+async function registerConfigModule(path: string): Promise<void> {
+  const url = pathToFileURL(resolve(path)).href;
+  const exports = (await import(/* webpackIgnore: true */ url)) as { detectors?: unknown; default?: unknown };
+  const exported = exports.detectors ?? exports.default;
+  const detectors = Array.isArray(exported) ? exported : [exported];
+  for (const detector of detectors) {
+    registerStackDetector(detector as StackDetector, path);
+  }
+}
+
+// Built-in detectors followed by registered ones, after loading the modules
+// listed in HARNESS_STACK_DETECTORS (once per process)
+export async function loadStackDetectors(): Promise<RegisteredDetector[]> {
+  configModules ??= (async () => {
+    for (const path of HARNESS.stack.detectorModules) {
+      await registerConfigModule(path).catch((error: unknown) => {
+        throw new Error(`Failed to load stack detectors from ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      });
     }
+  })();
+  await configModules;
+  return [...registeredDetectors];
+}
+
+function runDetector(detector: StackDetector, snapshot: RepoSnapshot): Finding[] {
+  const fileGlobs = detector.files ?? [];
+  const treeGlobs = detector.tree ?? [];
+  const fileMatcher = ignore().add(fileGlobs);
+  const treeMatcher = ignore().add(treeGlobs);
+  const files = fileGlobs.length ? snapshot.files.filter((file) => fileMatcher.ignores(file.path)) : [];
+  const tree = treeGlobs.length ? snapshot.fileTree.filter((node) => treeMatcher.ignores(node.path)) : [];
+  if ((fileGlobs.length || treeGlobs.length) && !files.length && !tree.length) return [];
+
+  const findings = detector.detect({ snapshot, files: files.map(({ path, content }) => ({ path, content })), tree });
+  const parsed = z.array(findingSchema).safeParse(findings);
+  if (!parsed.success) {
+    throw new Error(`Stack detector "${detector.name}" returned invalid findings: ${parsed.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`).join("; ")}`);
   }
+  return parsed.data;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+// Lockfiles pin the installed version; the manifest range stays in the evidence
+function withLockedVersion(finding: Finding, snapshot: RepoSnapshot): Finding {
+  if (!finding.package) return finding;
+  const locked = findLockedVersion(snapshot.lockfiles, finding.package.ecosystem, finding.package.name);
+  if (!locked) return finding;
+  return { ...finding, version: locked.version, evidence: `${finding.evidence}, locked at ${locked.version} in ${locked.path}` };
+}
 
-  findings.push(...detectLanguageFindings(snapshot));
+export function detectStack(
+  snapshot: RepoSnapshot,
+  detectors: Array<StackDetector & { source?: string }> = registeredDetectors
+): StackFingerprint {
+  // A detector that throws or returns invalid findings only loses its own
+  // results; the error is recorded against it and the rest still count
+  const errors = new Map<string, string>();
+  const findings = detectors
+    .flatMap((detector) => {
+      try {
+        return runDetector(detector, snapshot);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[stack] ${message}`);
+        errors.set(detector.name, message);
+        return [];
+      }
+    })
+    .map((finding) => withLockedVersion(finding, snapshot));
 
   const merged = mergeFindings(findings);
 
@@ -539,10 +1284,16 @@ export function detectStack(snapshot: RepoSnapshot): StackFingerprint {
     ...merged.db,
     ...merged.auth,
     ...merged.infra,
-    ...merged.language
+    ...merged.language,
+    ...merged.testing,
+    ...merged.cicd,
+    ...merged.styling,
+    ...merged.state,
+    ...merged.messaging
   ]
     .filter((item) => item.confidence <= 0.55)
-    .map((item) => `${item.category}:${item.name}`);
+    .map((item) => `${item.category}:${item.name}`)
+    .concat([...errors.keys()].map((name) => `detector:${name} failed`));
 
   return {
     version: MODEL_VERSION,
@@ -552,6 +1303,18 @@ export function detectStack(snapshot: RepoSnapshot): StackFingerprint {
     auth: merged.auth,
     infra: merged.infra,
     language: merged.language,
-    lowConfidenceFindings
+    testing: merged.testing,
+    cicd: merged.cicd,
+    styling: merged.styling,
+    state: merged.state,
+    messaging: merged.messaging,
+    lowConfidenceFindings,
+    detectors: detectors.map((detector) => ({
+      name: detector.name,
+      files: detector.files ?? [],
+      tree: detector.tree ?? [],
+      source: detector.source ?? BUILTIN_SOURCE,
+      ...(errors.has(detector.name) ? { error: errors.get(detector.name) } : {})
+    }))
   };
 }
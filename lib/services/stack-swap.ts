@@ -58,7 +58,12 @@ function rewriteArchitectureTech(
       (category === "backend" && (role.includes("api") || role.includes("application"))) ||
       (category === "db" && role.includes("persist")) ||
       (category === "auth" && role.includes("identity")) ||
-      (category === "infra" && role.includes("runtime"));
+      (category === "infra" && role.includes("runtime")) ||
+      (category === "state" && role.includes("state")) ||
+      (category === "messaging" && (role.includes("queue") || role.includes("messag") || role.includes("event"))) ||
+      (category === "testing" && role.includes("test")) ||
+      (category === "cicd" && (role.includes("pipeline") || role.includes("deploy"))) ||
+      (category === "styling" && (role.includes("styl") || role.includes("theme") || role.includes("design system")));
 
     component.tech = component.tech.map((tech) =>
       lower(tech) === lower(current) || touchesCategory ? replacement : tech
@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { LlmProviderId, LlmUsage } from "@/lib/models";
+import { modelPricing } from "@/lib/data/model-pricing";
+
+export type LlmCallRecord = {
+  provider: LlmProviderId;
+  model: string;
+  attempt: number;
+  latencyMs: number;
+  cached?: boolean;
+  tokens?: { inputTokens: number; outputTokens: number };
+};
+
+// Each tracked scope (a pipeline stage, a recompile, a stack swap) gets its own
+// ledger; callClaudeJson records into whichever scope it runs inside.
+const ledgerStorage = new AsyncLocalStorage<LlmUsage>();
+
+export function emptyUsage(): LlmUsage {
+  return { calls: 0, cacheHits: 0, retries: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0 };
+}
+
+export function estimateCostUsd(provider: LlmProviderId, model: string, inputTokens: number, outputTokens: number): number {
+  // Local models run on our own hardware
+  if (provider === "local") return 0;
+
+  const price = modelPricing
+    .filter((entry) => model.startsWith(entry.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!price) return 0;
+
+  return (inputTokens * price.inputPerMTok + outputTokens * price.outputPerMTok) / 1_000_000;
+}
+
+export function recordLlmCall(call: LlmCallRecord): void {
+  const ledger = ledgerStorage.getStore();
+  if (!ledger) return;
+
+  if (call.cached) {
+    ledger.cacheHits += 1;
+    return;
+  }
+
+  const inputTokens = call.tokens?.inputTokens ?? 0;
+  const outputTokens = call.tokens?.outputTokens ?? 0;
+  ledger.calls += 1;
+  if (call.attempt > 0) ledger.retries += 1;
+  ledger.inputTokens += inputTokens;
+  ledger.outputTokens += outputTokens;
+  ledger.latencyMs += call.latencyMs;
+  ledger.costUsd += estimateCostUsd(call.provider, call.model, inputTokens, outputTokens);
+}
+
+// A call that returned the fallback instead of a validated response. Stages
+// with fallbacks are not reused by later runs, which may have a working provider.
+export function recordLlmFallback(): void {
+  const ledger = ledgerStorage.getStore();
+  if (ledger) ledger.fallbacks = (ledger.fallbacks ?? 0) + 1;
+}
+
+export function withUsageTracking<T>(ledger: LlmUsage, task: () => Promise<T>): Promise<T> {
+  return ledgerStorage.run(ledger, task);
+}
+
+export function addUsage(...items: Array<LlmUsage | undefined>): LlmUsage {
+  const total = emptyUsage();
+  for (const item of items) {
+    if (!item) continue;
+    total.calls += item.calls;
+    total.cacheHits += item.cacheHits;
+    total.retries += item.retries;
+    total.inputTokens += item.inputTokens;
+    total.outputTokens += item.outputTokens;
+    total.latencyMs += item.latencyMs;
+    total.costUsd += item.costUsd;
+    if (item.fallbacks) total.fallbacks = (total.fallbacks ?? 0) + item.fallbacks;
+  }
+  return total;
+}
@@ -1,5 +1,5 @@
-import { mkdir, writeFile, rm } from "node:fs/promises";
-import { join, resolve } from "node:path";
+import { mkdir, readFile, writeFile, rm } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
 import { tmpdir } from "node:os";
 
 const RUNS_ROOT = process.env.VERCEL
@@ -22,6 +22,22 @@ export function artifactsDir(runId: string): string {
   return join(RUNS_ROOT, runId, "artifacts");
 }
 
+// Archives uploaded through the API; kept outside the workspace so a resumed
+// run can extract them again
+export function uploadDir(runId: string): string {
+  return join(RUNS_ROOT, runId, "upload");
+}
+
+export async function writeUpload(runId: string, fileName: string, data: Uint8Array): Promise<string> {
+  const dir = uploadDir(runId);
+  await mkdir(dir, { recursive: true });
+  // Only the base name of the client-supplied name is kept
+  const safeName = basename(fileName.replace(/\\/g, "/")).replace(/[^\w.-]/g, "_").replace(/^\.+/, "") || "upload";
+  const filePath = join(dir, safeName);
+  await writeFile(filePath, data);
+  return filePath;
+}
+
 export async function createRunDirs(runId: string): Promise<{
   workspacePath: string;
   artifactsPath: string;
@@ -47,6 +63,16 @@ export async function writeArtifact(
   return filePath;
 }
 
+// Parsed JSON artifact, or undefined when it was never written
+export async function readArtifact(artifactsPath: string, fileName: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(join(artifactsPath, fileName), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
 export async function writeTextArtifact(
   artifactsPath: string,
   fileName: string,
@@ -0,0 +1,378 @@
+import { lstat, readdir, readFile, realpath, stat } from "node:fs/promises";
+import { basename, join, posix, resolve, sep } from "node:path";
+import { WorkspaceGraph, WorkspacePackage, WorkspaceTool } from "@/lib/models";
+
+// Package globs rarely go deeper than "apps/*" or "packages/*/*"
+const MAX_PACKAGE_DEPTH = 5;
+
+const SKIPPED_DIRS = new Set(["node_modules", ".git", "dist", "build", "target", "coverage", ".next", ".cache"]);
+
+async function readText(root: string, path: string): Promise<string | undefined> {
+  return readFile(join(root, path), "utf8").catch(() => undefined);
+}
+
+async function readJson<T>(root: string, path: string): Promise<T | undefined> {
+  const text = await readText(root, path);
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+async function exists(root: string, path: string): Promise<boolean> {
+  return stat(join(root, path)).then(() => true, () => false);
+}
+
+function normalizeDir(path: string): string {
+  return posix.normalize(path.replace(/\\/g, "/")).replace(/^\.\/+/, "").replace(/\/+$/, "") || ".";
+}
+
+// ---------------------------------------------------------------------------
+// Directory globs ("packages/*", "apps/**", "!packages/legacy")
+// ---------------------------------------------------------------------------
+
+type DirList = () => Promise<string[]>;
+
+async function listDirs(root: string, base = "", depth = 0): Promise<string[]> {
+  if (depth >= MAX_PACKAGE_DEPTH) return [];
+  const entries = await readdir(join(root, base), { withFileTypes: true }).catch(() => []);
+  const dirs: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || SKIPPED_DIRS.has(entry.name) || entry.name.startsWith(".")) continue;
+    const path = base ? `${base}/${entry.name}` : entry.name;
+    dirs.push(path, ...(await listDirs(root, path, depth + 1)));
+  }
+  return dirs;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = normalizeDir(pattern)
+    .split("/")
+    .map((segment) =>
+      segment === "**" ? ".*" : segment.replace(/[.+^${}()|[\]]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]"))
+    .join("/");
+  return new RegExp(`^${source}$`);
+}
+
+async function expandPatterns(patterns: string[], dirs: DirList): Promise<string[]> {
+  const include = patterns.filter((pattern) => !pattern.startsWith("!")).map(globToRegExp);
+  const exclude = patterns.filter((pattern) => pattern.startsWith("!")).map((pattern) => globToRegExp(pattern.slice(1)));
+  return (await dirs()).filter((dir) => include.some((re) => re.test(dir)) && !exclude.some((re) => re.test(dir)));
+}
+
+// ---------------------------------------------------------------------------
+// JavaScript: npm / yarn / pnpm workspaces, Nx and Turborepo
+// ---------------------------------------------------------------------------
+
+type PackageJson = {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+};
+
+// pnpm-workspace.yaml is a flat list; a full YAML parser would be overkill
+function parsePnpmWorkspace(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of text.split("\n")) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages && /^\S/.test(line)) break;
+    const item = /^\s*-\s*["']?([^"'#]+?)["']?\s*(#.*)?$/.exec(line);
+    if (inPackages && item) patterns.push(item[1]);
+  }
+  return patterns;
+}
+
+async function detectJsPackages(root: string, dirs: DirList): Promise<{ tool?: WorkspaceTool; packages: WorkspacePackage[] }> {
+  const rootPackage = await readJson<PackageJson>(root, "package.json");
+  const pnpmWorkspace = await readText(root, "pnpm-workspace.yaml");
+  const declared = Array.isArray(rootPackage?.workspaces) ? rootPackage.workspaces : rootPackage?.workspaces?.packages;
+
+  let tool: WorkspaceTool | undefined;
+  let patterns: string[] = [];
+  if (pnpmWorkspace !== undefined) {
+    tool = "pnpm";
+    patterns = parsePnpmWorkspace(pnpmWorkspace);
+  } else if (declared?.length) {
+    tool = (await exists(root, "yarn.lock")) ? "yarn" : "npm";
+    patterns = declared;
+  }
+  if (!tool) return { packages: [] };
+
+  const manifests: Array<{ path: string; manifest: PackageJson }> = [];
+  for (const dir of await expandPatterns(patterns, dirs)) {
+    const manifest = await readJson<PackageJson>(root, `${dir}/package.json`);
+    if (manifest) manifests.push({ path: dir, manifest });
+  }
+
+  const names = new Set(manifests.map(({ path, manifest }) => manifest.name ?? basename(path)));
+  const packages = manifests.map(({ path, manifest }): WorkspacePackage => {
+    const deps = Object.keys({
+      ...manifest.dependencies,
+      ...manifest.devDependencies,
+      ...manifest.peerDependencies,
+      ...manifest.optionalDependencies
+    });
+    return {
+      name: manifest.name ?? basename(path),
+      path,
+      tool,
+      dependsOn: deps.filter((dep) => names.has(dep)).sort()
+    };
+  });
+  return { tool, packages };
+}
+
+type NxProject = { name?: string; implicitDependencies?: string[] };
+
+// Nx projects that are not already workspace packages (project.json only)
+async function detectNxProjects(root: string, dirs: DirList, known: WorkspacePackage[]): Promise<WorkspacePackage[]> {
+  const knownPaths = new Set(known.map((pkg) => pkg.path));
+  const projects: Array<{ path: string; project: NxProject }> = [];
+  for (const dir of await dirs()) {
+    if (knownPaths.has(dir)) continue;
+    const project = await readJson<NxProject>(root, `${dir}/project.json`);
+    if (project) projects.push({ path: dir, project });
+  }
+
+  const names = new Set([...known.map((pkg) => pkg.name), ...projects.map(({ path, project }) => project.name ?? basename(path))]);
+  return projects.map(({ path, project }) => ({
+    name: project.name ?? basename(path),
+    path,
+    tool: "nx" as const,
+    dependsOn: (project.implicitDependencies ?? []).filter((dep) => names.has(dep)).sort()
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Go workspaces (go.work)
+// ---------------------------------------------------------------------------
+
+function parseGoWorkUses(text: string): string[] {
+  const uses: string[] = [];
+  const block = /^use\s*\(([\s\S]*?)\)/gm;
+  for (const match of text.matchAll(block)) {
+    uses.push(...match[1].split("\n").map((line) => line.replace(/\/\/.*$/, "").trim()).filter(Boolean));
+  }
+  for (const match of text.matchAll(/^use\s+([^\s(]+)/gm)) {
+    uses.push(match[1]);
+  }
+  return uses.map(normalizeDir);
+}
+
+async function detectGoModules(root: string): Promise<WorkspacePackage[]> {
+  const goWork = await readText(root, "go.work");
+  if (goWork === undefined) return [];
+
+  const modules: Array<{ path: string; modulePath: string; requires: string[] }> = [];
+  for (const dir of parseGoWorkUses(goWork)) {
+    const goMod = await readText(root, `${dir}/go.mod`);
+    const modulePath = goMod && /^module\s+(\S+)/m.exec(goMod)?.[1];
+    if (!goMod || !modulePath) continue;
+    const requires = [...goMod.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/\S+)\s+v\S+/gm)].map((match) => match[1]);
+    modules.push({ path: dir, modulePath, requires });
+  }
+
+  const names = new Set(modules.map(({ modulePath }) => modulePath));
+  return modules.map(({ path, modulePath, requires }) => ({
+    name: modulePath,
+    path,
+    tool: "go" as const,
+    dependsOn: [...new Set(requires.filter((dep) => names.has(dep)))].sort()
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Cargo workspaces ([workspace] members)
+// ---------------------------------------------------------------------------
+
+// Body of a TOML table, up to the next [header]
+function tomlSection(text: string, header: string): string | undefined {
+  const lines = text.split("\n");
+  const start = lines.findIndex((line) => line.trim() === `[${header}]`);
+  if (start === -1) return undefined;
+  const end = lines.findIndex((line, index) => index > start && /^\s*\[/.test(line));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join("\n");
+}
+
+function tomlStringArray(section: string, key: string): string[] {
+  const match = new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, "m").exec(section);
+  return match ? [...match[1].matchAll(/["']([^"']+)["']/g)].map((item) => item[1]) : [];
+}
+
+function cargoDependencyNames(text: string): string[] {
+  const names: string[] = [];
+  let inDeps = false;
+  for (const line of text.split("\n")) {
+    const header = /^\s*\[([^\]]+)\]/.exec(line);
+    if (header) {
+      const table = header[1].trim();
+      // [dependencies.foo] names the dependency in the header itself
+      const dotted = /(?:^|\.)(?:dev-|build-)?dependencies\.([\w-]+)$/.exec(table);
+      if (dotted) names.push(dotted[1]);
+      inDeps = /(?:^|\.)(?:dev-|build-)?dependencies$/.test(table);
+      continue;
+    }
+    const key = inDeps && /^\s*([\w-]+)\s*=/.exec(line);
+    if (key) names.push(key[1]);
+  }
+  return names;
+}
+
+async function detectCargoCrates(root: string, dirs: DirList): Promise<WorkspacePackage[]> {
+  const cargo = await readText(root, "Cargo.toml");
+  const workspace = cargo && tomlSection(cargo, "workspace");
+  if (!workspace) return [];
+
+  const members = await expandPatterns(
+    [...tomlStringArray(workspace, "members"), ...tomlStringArray(workspace, "exclude").map((path) => `!${path}`)],
+    dirs
+  );
+  const crates: Array<{ path: string; name: string; deps: string[] }> = [];
+  for (const dir of members) {
+    const manifest = await readText(root, `${dir}/Cargo.toml`);
+    if (!manifest) continue;
+    const name = /^\s*name\s*=\s*["']([^"']+)["']/m.exec(tomlSection(manifest, "package") ?? "")?.[1] ?? basename(dir);
+    crates.push({ path: dir, name, deps: cargoDependencyNames(manifest) });
+  }
+
+  const names = new Set(crates.map(({ name }) => name));
+  return crates.map(({ path, name, deps }) => ({
+    name,
+    path,
+    tool: "cargo" as const,
+    dependsOn: [...new Set(deps.filter((dep) => names.has(dep) && dep !== name))].sort()
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+// Reads workspace manifests at the repository root; undefined when the repo
+// is not a monorepo as far as any supported tool is concerned
+export async function detectWorkspaces(root: string): Promise<WorkspaceGraph | undefined> {
+  // Listed at most once, and only when a manifest needs it
+  let listing: Promise<string[]> | undefined;
+  const dirs: DirList = () => (listing ??= listDirs(root));
+
+  const tools: WorkspaceTool[] = [];
+  const js = await detectJsPackages(root, dirs);
+  if (js.tool) tools.push(js.tool);
+
+  const packages = [...js.packages];
+  if (await exists(root, "nx.json")) {
+    tools.push("nx");
+    packages.push(...(await detectNxProjects(root, dirs, packages)));
+  }
+  if (await exists(root, "turbo.json")) tools.push("turbo");
+
+  const goModules = await detectGoModules(root);
+  if (goModules.length) tools.push("go");
+  packages.push(...goModules);
+
+  const crates = await detectCargoCrates(root, dirs);
+  if (crates.length) tools.push("cargo");
+  packages.push(...crates);
+
+  if (!tools.length) return undefined;
+  return { tools, packages: packages.sort((a, b) => a.path.localeCompare(b.path)) };
+}
+
+// Maps package names or paths to directories; unknown selectors are an error
+// so a typo does not silently analyze nothing
+export function resolvePackageDirs(graph: WorkspaceGraph | undefined, selectors: string[]): string[] {
+  const packages = graph?.packages ?? [];
+  return [...new Set(selectors.map((selector) => {
+    const dir = normalizeDir(selector);
+    const match = packages.find((pkg) => pkg.name === selector || pkg.path === dir);
+    if (!match) {
+      const available = packages.map((pkg) => pkg.name).join(", ") || "none detected";
+      throw new Error(`Unknown workspace package "${selector}". Available: ${available}`);
+    }
+    return match.path;
+  }))];
+}
+
+function isWithin(root: string, dir: string): boolean {
+  return dir === root || dir.startsWith(root + sep);
+}
+
+// Absolute directory for `subpath`, which must stay inside the repository.
+// Symlinks are resolved before the check, so a checked-in `link -> /etc`
+// cannot point ingest outside the workspace.
+export async function resolveSubpath(root: string, subpath: string): Promise<{ dir: string; path: string }> {
+  const path = normalizeDir(subpath);
+  const dir = resolve(root, path);
+  if (path.startsWith("..") || !isWithin(root, dir)) {
+    throw new Error(`subpath "${subpath}" is outside the repository`);
+  }
+  const info = await stat(dir).catch(() => undefined);
+  if (!info?.isDirectory()) {
+    throw new Error(`subpath "${subpath}" is not a directory in the repository`);
+  }
+  const [realRoot, realDir] = await Promise.all([realpath(root), realpath(dir)]);
+  if (!isWithin(realRoot, realDir)) {
+    throw new Error(`subpath "${subpath}" is outside the repository`);
+  }
+  return { dir, path };
+}
+
+// Text of a regular file at `path` under `root`, or undefined when it is missing,
+// larger than `maxBytes`, a symlink, or resolves outside `root`
+export async function readContainedFile(root: string, path: string, maxBytes = Infinity): Promise<string | undefined> {
+  const file = join(root, path);
+  const info = await lstat(file).catch(() => undefined);
+  if (!info?.isFile() || info.size > maxBytes) return undefined;
+  const [realRoot, realFile] = await Promise.all([realpath(root), realpath(file)]).catch(() => []);
+  if (!realRoot || !realFile || !isWithin(realRoot, realFile)) return undefined;
+  return readFile(file, "utf8").catch(() => undefined);
+}
+
+export type IngestScope = {
+  // Directory the snapshot is rooted at; paths in the snapshot are relative to it
+  root: string;
+  // Directories analyzed, relative to the repository root; undefined for the whole repo
+  scope?: string[];
+  // Whether a path under `root` is inside the scope
+  includes(relPath: string, isDirectory: boolean): boolean;
+};
+
+// Turns a source's subpath/packages options into the ingest root and filter
+export async function resolveIngestScope(
+  repoRoot: string,
+  options: { subpath?: string; packages?: string[] },
+  graph: WorkspaceGraph | undefined
+): Promise<IngestScope> {
+  if (options.subpath && options.packages?.length) {
+    throw new Error("Use either subpath or packages to scope a run, not both");
+  }
+
+  if (options.subpath) {
+    const { dir, path } = await resolveSubpath(repoRoot, options.subpath);
+    return { root: dir, scope: path === "." ? undefined : [path], includes: () => true };
+  }
+
+  if (options.packages?.length) {
+    const dirs = resolvePackageDirs(graph, options.packages);
+    return {
+      root: repoRoot,
+      scope: dirs,
+      // Root-level files (manifests, README) stay in for context, as do the
+      // directories leading down to each package
+      includes: (relPath, isDirectory) =>
+        (!isDirectory && !relPath.includes("/")) ||
+        dirs.some((dir) => relPath === dir || relPath.startsWith(`${dir}/`) || (isDirectory && dir.startsWith(`${relPath}/`)))
+    };
+  }
+
+  return { root: repoRoot, includes: () => true };
+}
@@ -33,6 +33,15 @@ describe("API safety boundary", () => {
     expect(result.success).toBe(false);
   });
 
+  it("rejects ssh remotes", () => {
+    const body = {
+      repoUrl: "ssh://git@gitlab.com/group/repo.git",
+      scanMode: "quick"
+    };
+    const result = analyzeRequestSchema.safeParse(body);
+    expect(result.success).toBe(false);
+  });
+
   it("rejects missing repoUrl", () => {
     const body = {
       scanMode: "quick"
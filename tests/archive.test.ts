@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { gzipSync } from "node:zlib";
+import * as tar from "tar-stream";
+import { ArchiveLimits, extractArchive, UnsafeArchiveError } from "@/lib/services/archive";
+
+const LIMITS: ArchiveLimits = { maxEntries: 100, maxExtractedBytes: 1024 * 1024, maxCompressionRatio: 100 };
+
+let dir = "";
+let workspace = "";
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mimickit-archive-test-"));
+  workspace = join(dir, "workspace");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+type TestEntry = { name: string; content?: string; type?: "file" | "directory" | "symlink"; linkname?: string };
+
+async function makeTar(entries: TestEntry[]): Promise<Buffer> {
+  const pack = tar.pack();
+  const chunks: Buffer[] = [];
+  pack.on("data", (chunk) => chunks.push(chunk as Buffer));
+  const done = new Promise<void>((resolve) => pack.on("end", () => resolve()));
+  for (const entry of entries) {
+    pack.entry({ name: entry.name, type: entry.type ?? "file", linkname: entry.linkname }, entry.content ?? "");
+  }
+  pack.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Minimal stored (uncompressed) zip writer; `mode` becomes the unix file mode
+function makeZip(entries: Array<{ name: string; content: string; mode?: number }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.content);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x0314, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((entry.mode ?? 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+async function writeArchive(name: string, data: Buffer): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, data);
+  return path;
+}
+
+describe("archive extraction", () => {
+  it("extracts a zip and hoists a single top-level folder", async () => {
+    const archive = await writeArchive("repo.zip", makeZip([
+      { name: "repo-main/package.json", content: '{"name":"demo"}' },
+      { name: "repo-main/src/index.ts", content: "export {};" }
+    ]));
+
+    const summary = await extractArchive(archive, workspace, LIMITS);
+
+    expect(summary).toMatchObject({ format: "zip", files: 2, strippedPrefix: "repo-main" });
+    expect((await readdir(workspace)).sort()).toEqual(["package.json", "src"]);
+    expect(await readFile(join(workspace, "src", "index.ts"), "utf8")).toBe("export {};");
+  });
+
+  it("extracts a tarball and skips links that stay inside the root", async () => {
+    const archive = await writeArchive("repo.tar.gz", gzipSync(await makeTar([
+      { name: "README.md", content: "# Demo" },
+      { name: "docs", type: "directory" },
+      { name: "docs/readme", type: "symlink", linkname: "../README.md" }
+    ])));
+
+    const summary = await extractArchive(archive, workspace, LIMITS);
+
+    expect(summary).toMatchObject({ format: "tar.gz", files: 1, directories: 1, skippedLinks: 1 });
+    expect(summary.strippedPrefix).toBeUndefined();
+    expect((await readdir(join(workspace, "docs")))).toEqual([]);
+  });
+
+  it("blocks zip-slip paths", async () => {
+    const tarball = await writeArchive("slip.tar", await makeTar([{ name: "../evil.sh", content: "rm -rf /" }]));
+    await expect(extractArchive(tarball, workspace, LIMITS)).rejects.toThrow("escapes the extraction root");
+
+    const zip = await writeArchive("slip.zip", makeZip([{ name: "a/../../evil.sh", content: "rm -rf /" }]));
+    await expect(extractArchive(zip, join(dir, "zip-workspace"), LIMITS)).rejects.toBeInstanceOf(UnsafeArchiveError);
+    expect(await readdir(dir)).not.toContain("evil.sh");
+  });
+
+  it("blocks symlinks that point out of the root", async () => {
+    const tarball = await writeArchive("link.tar", await makeTar([{ name: "passwd", type: "symlink", linkname: "/etc/passwd" }]));
+    await expect(extractArchive(tarball, workspace, LIMITS)).rejects.toThrow("points outside the extraction root");
+
+    const zip = await writeArchive("link.zip", makeZip([{ name: "up", content: "../../..", mode: 0o120777 }]));
+    await expect(extractArchive(zip, join(dir, "zip-workspace"), LIMITS)).rejects.toThrow("points outside the extraction root");
+  });
+
+  it("stops decompression bombs and oversized entry counts", async () => {
+    const bomb = await writeArchive("bomb.tar.gz", gzipSync(await makeTar([{ name: "zeros.bin", content: "\0".repeat(2 * 1024 * 1024) }])));
+    await expect(extractArchive(bomb, workspace, LIMITS)).rejects.toThrow("Archive expands beyond");
+
+    const many = await writeArchive("many.tar", await makeTar(
+      Array.from({ length: 5 }, (_, index) => ({ name: `file-${index}.txt`, content: "x" }))
+    ));
+    await expect(extractArchive(many, join(dir, "many"), { ...LIMITS, maxEntries: 3 })).rejects.toThrow("more than 3 entries");
+  });
+
+  it("rejects files that are not archives", async () => {
+    const notArchive = await writeArchive("notes.txt", Buffer.from("hello"));
+    await expect(extractArchive(notArchive, workspace, LIMITS)).rejects.toThrow("Unsupported archive format");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+
+vi.mock("@/lib/services/config", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/config")>()),
+  ANTHROPIC_KEY: "sk-ant-test",
+  LLM_PROVIDER: "anthropic"
+}));
+
+import { callClaudeJson } from "@/lib/services/claude";
+import { setLlmCacheEnabled } from "@/lib/services/llm-cache";
+import { RunCancelledError, sleep, withTimeout } from "@/lib/services/cancellation";
+
+const schema = z.object({ answer: z.string() });
+const fallback = vi.fn(() => ({ answer: "fallback" }));
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  setLlmCacheEnabled(false);
+  fallback.mockClear();
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setLlmCacheEnabled(true);
+});
+
+describe("cancellation", () => {
+  it("stops retry backoff and skips the fallback when aborted", async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(async () => {
+      // Abort while the retry backoff (15s) is pending
+      setTimeout(() => controller.abort(), 10);
+      return new Response("overloaded", { status: 529 });
+    });
+
+    const started = Date.now();
+    await expect(
+      callClaudeJson("prompt", schema, fallback, { retries: 2, label: "test", signal: controller.signal })
+    ).rejects.toBeInstanceOf(RunCancelledError);
+
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it("passes the caller signal through to the provider request", async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+    }));
+
+    const call = callClaudeJson("prompt", schema, fallback, { retries: 0, label: "test", signal: controller.signal });
+    controller.abort();
+
+    await expect(call).rejects.toBeInstanceOf(RunCancelledError);
+  });
+
+  it("combines caller signals with timeouts", async () => {
+    const controller = new AbortController();
+    const combined = withTimeout(60_000, controller.signal);
+    expect(combined.aborted).toBe(false);
+    controller.abort();
+    expect(combined.aborted).toBe(true);
+
+    await expect(sleep(60_000, combined)).rejects.toBeInstanceOf(RunCancelledError);
+  });
+});
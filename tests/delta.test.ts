@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile, unlink } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import { simpleGit, SimpleGit } from "simple-git";
+import { buildChangePlan, collectDelta, selectDeltaContext } from "@/lib/services/delta";
+import type { ArchitectureModel, RepoSnapshot } from "@/lib/models";
+
+let dir = "";
+let git: SimpleGit;
+
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(dir, path)), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+}
+
+async function commit(message: string): Promise<void> {
+  await git.add(".");
+  await git.commit(message);
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mimickit-delta-test-"));
+  git = simpleGit(dir);
+  await git.init(["--initial-branch=main"]);
+  await git.addConfig("user.name", "Test");
+  await git.addConfig("user.email", "test@example.com");
+  await git.addConfig("commit.gpgsign", "false");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("commit-range delta", () => {
+  it("diffs from the merge base and tracks dependency and env changes", async () => {
+    await writeFiles({
+      "package.json": JSON.stringify({ dependencies: { next: "14.0.0", lodash: "4.17.21" } }),
+      ".env.example": "DATABASE_URL=\n",
+      "lib/db.ts": "export const db = 1;\n",
+      "lib/old.ts": "export {};\n"
+    });
+    await commit("base");
+    await git.checkoutLocalBranch("feature");
+    await writeFiles({
+      "package.json": JSON.stringify({ dependencies: { next: "14.0.0", zod: "3.22.0" } }),
+      ".env.example": "DATABASE_URL=\nSTRIPE_KEY=\n",
+      "lib/db.ts": "export const db = 2;\nexport const pool = 3;\n",
+      "app/billing/page.tsx": "export default function Page() { return null; }\n"
+    });
+    await git.mv("lib/old.ts", "lib/legacy.ts");
+    await commit("feature");
+    // Lands on main after the branch point; must not show up in the delta
+    await git.checkout("main");
+    await writeFiles({ "README.md": "# main only\n" });
+    await commit("main moves on");
+    await git.checkout("feature");
+
+    const delta = await collectDelta(dir, "main", "main");
+
+    expect(delta.fromSha).not.toBe(delta.baseSha);
+    expect(delta.files.map(({ path, status }) => `${status} ${path}`).sort()).toEqual([
+      "added app/billing/page.tsx",
+      "modified .env.example",
+      "modified lib/db.ts",
+      "modified package.json",
+      "renamed lib/legacy.ts"
+    ]);
+    expect(delta.files.find((file) => file.path === "lib/db.ts")).toMatchObject({ additions: 2, deletions: 1 });
+    expect(delta.files.find((file) => file.path === "lib/legacy.ts")?.previousPath).toBe("lib/old.ts");
+    expect(delta.dependencies).toEqual({ added: ["zod@3.22.0"], removed: ["lodash@4.17.21"] });
+    expect(delta.envVars).toEqual({ added: ["STRIPE_KEY"], removed: [] });
+  });
+
+  it("reports unknown base refs", async () => {
+    await writeFiles({ "README.md": "# x\n" });
+    await commit("init");
+    await expect(collectDelta(dir, "release", "release")).rejects.toThrow('Base ref "release" was not found');
+  });
+});
+
+describe("delta context", () => {
+  it("pairs changed files with their tests and nearest manifest", () => {
+    const context = selectDeltaContext(
+      ["packages/api/src/user.ts"],
+      [
+        "package.json",
+        "packages/api/package.json",
+        "packages/api/src/user.ts",
+        "packages/api/src/user.test.ts",
+        "packages/web/src/user.test.ts"
+      ]
+    );
+
+    expect(context).toEqual([
+      { path: "packages/api/src/user.test.ts", reason: "related test (packages/api/src/user.ts)" },
+      { path: "packages/web/src/user.test.ts", reason: "related test (packages/api/src/user.ts)" },
+      { path: "packages/api/package.json", reason: "nearest manifest (packages/api/src/user.ts)" }
+    ]);
+  });
+});
+
+describe("change plan", () => {
+  it("maps files to components, routes, contracts and build steps", () => {
+    const snapshot = {
+      repo: { branch: "feature" },
+      delta: {
+        baseRef: "main",
+        baseSha: "a".repeat(40),
+        headSha: "b".repeat(40),
+        fromSha: "a".repeat(40),
+        files: [
+          { path: "app/billing/page.tsx", status: "added", additions: 20, deletions: 0 },
+          { path: "app/api/invoices/route.ts", status: "modified", additions: 5, deletions: 2 },
+          { path: "prisma/migrations/001_invoices/migration.sql", status: "added", additions: 10, deletions: 0 },
+          { path: "README.md", status: "modified", additions: 1, deletions: 1 }
+        ],
+        dependencies: { added: ["stripe@14.0.0"], removed: [] },
+        envVars: { added: ["STRIPE_KEY"], removed: [] }
+      }
+    } as unknown as RepoSnapshot;
+    const architecture: ArchitectureModel = {
+      version: "1.0.0",
+      components: [
+        { id: "billing-ui", name: "Billing Page", role: "ui", tech: ["React"], inputs: [], outputs: [] },
+        { id: "invoice-api", name: "Invoice API", role: "api", tech: ["Next.js"], inputs: [], outputs: [] },
+        { id: "database", name: "Database", role: "storage", tech: ["Prisma"], inputs: [], outputs: [] }
+      ],
+      edges: []
+    };
+
+    const plan = buildChangePlan(snapshot, architecture);
+
+    expect(plan.stats).toEqual({ files: 4, additions: 36, deletions: 3 });
+    expect(plan.components.map(({ id, files }) => [id, files])).toEqual([
+      ["billing-ui", ["app/billing/page.tsx"]],
+      // Shared words are enough: the invoices migration counts for the API too
+      ["invoice-api", ["app/api/invoices/route.ts", "prisma/migrations/001_invoices/migration.sql"]],
+      ["database", ["prisma/migrations/001_invoices/migration.sql"]]
+    ]);
+    expect(plan.unmappedFiles).toEqual(["README.md"]);
+    expect(plan.routes).toEqual({ added: ["/billing"], changed: ["/api/invoices (API)"], removed: [] });
+    expect(plan.contracts.map((contract) => contract.kind)).toEqual(["API handler", "database migration"]);
+    expect(plan.buildSteps).toEqual([
+      "Install updated dependencies: add stripe@14.0.0",
+      "Apply new database migrations: prisma/migrations/001_invoices/migration.sql",
+      "Set new environment variables: STRIPE_KEY"
+    ]);
+    expect(plan.prompt).toContain("# Change Summary: main...feature");
+  });
+});
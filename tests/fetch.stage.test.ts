@@ -6,6 +6,7 @@ const mockClone = vi.fn();
 const mockCheckout = vi.fn();
 const mockLog = vi.fn();
 const mockRevparse = vi.fn();
+const mockFetch = vi.fn();
 const mockVersion = vi.fn();
 
 vi.mock("simple-git", () => ({
@@ -14,7 +15,8 @@ vi.mock("simple-git", () => ({
       return {
         checkout: mockCheckout,
         log: mockLog,
-        revparse: mockRevparse
+        revparse: mockRevparse,
+        fetch: mockFetch
       };
     }
     return {
@@ -50,6 +52,7 @@ describe("fetch.stage", () => {
     mockCheckout.mockResolvedValue(undefined);
     mockLog.mockResolvedValue({ latest: { hash: "abc1234def5678901234567890abcdef12345678" } });
     mockRevparse.mockResolvedValue("main");
+    mockFetch.mockResolvedValue(undefined);
   });
 
   it("clones repo and writes valid fetch.json artifact", async () => {
@@ -80,11 +83,23 @@ describe("fetch.stage", () => {
     expect(mockCheckout).toHaveBeenCalledWith("v2.0.0");
   });
 
-  it("rejects non-github source", async () => {
+  it("fetches the base ref with history for commit-range runs", async () => {
+    mockRevparse.mockResolvedValue("0123456789abcdef0123456789abcdef01234567\n");
+    const artifact = await runFetchStage(makeCtx({
+      source: { type: "github", repoUrl: "https://github.com/owner/repo", ref: "feature", baseRef: "main" }
+    }));
+
+    expect(mockFetch).toHaveBeenCalledWith(["--depth", "200", "origin", "+main:refs/mimickit/base"]);
+    expect(mockFetch).toHaveBeenCalledWith(["--deepen", "200", "origin"]);
+    expect(artifact).toMatchObject({ baseRef: "main", baseSha: "0123456789abcdef0123456789abcdef01234567" });
+    expect(fetchArtifactSchema.safeParse(artifact).success).toBe(true);
+  });
+
+  it("rejects local source", async () => {
     const ctx = makeCtx({
       source: { type: "local", repoPath: "/some/path" }
     });
-    await expect(runFetchStage(ctx)).rejects.toThrow("fetch stage only applies to GitHub sources");
+    await expect(runFetchStage(ctx)).rejects.toThrow("fetch stage only applies to remote git sources");
   });
 
   it("isGitAvailable returns true when git works", async () => {
@@ -0,0 +1,37 @@
+import type { RunResult } from "@/lib/models";
+
+// A finished run with empty analysis outputs; tests override what they exercise
+export function makeRun(overrides: Partial<RunResult> = {}): RunResult {
+  const createdAt = overrides.createdAt ?? "2026-01-01T00:00:00.000Z";
+  return {
+    id: "run_test",
+    createdAt,
+    snapshot: {
+      version: "1.0.0",
+      repo: { url: "https://github.com/a/b", owner: "a", name: "b", branch: "main", defaultBranch: "main", sizeKb: 1, stars: 0, openIssues: 0 },
+      metadata: { scanMode: "quick", depthStrategy: "file-count", fetchedAt: createdAt, totalFiles: 0, selectedFiles: 0, skippedBinaryFiles: 0, skippedScriptFiles: 0, tokenEstimate: 0 },
+      languages: [],
+      fileTree: [],
+      files: []
+    },
+    stack: { version: "1.0.0", frontend: [], backend: [], db: [], auth: [], infra: [], language: [], testing: [], cicd: [], styling: [], state: [], messaging: [], lowConfidenceFindings: [] },
+    architecture: { version: "1.0.0", components: [], edges: [] },
+    intent: {
+      version: "1.0.0", system_purpose: "test", core_features: [], user_flows: [], business_rules: [],
+      data_contracts: [], invariants: [], assumptions: [], unknowns: [], confidenceBySection: {}
+    },
+    plan: {
+      version: "1.0.0",
+      targetAgent: "claude-code",
+      structured: {
+        systemOverview: "", architectureDescription: "", routeMap: [], moduleList: [],
+        functionalityLogic: [], interfaces: [], dataModels: [], databaseDesign: [],
+        designSystem: { visualDirection: "", styleLanguage: [], colorPalette: [], typography: [], radiusSystem: [], pageLayoutPatterns: [], components: [], motion: [], distinctiveTraits: [], statesAndFeedback: [] },
+        behaviorRules: [], buildSteps: [], testExpectations: [], constraints: [], nonGoals: []
+      },
+      prompt: ""
+    },
+    stages: [],
+    ...overrides
+  };
+}
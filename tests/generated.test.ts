@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { classifyGeneratedContent, classifyGeneratedPath } from "@/lib/services/generated";
+
+describe("generated file detection", () => {
+  it("flags vendored, minified and codegen paths", () => {
+    expect(classifyGeneratedPath("vendor/github.com/pkg/errors/errors.go")?.kind).toBe("vendored");
+    expect(classifyGeneratedPath("libs/third_party/zlib/zlib.h")?.kind).toBe("vendored");
+    expect(classifyGeneratedPath("public/js/app.min.js")?.kind).toBe("minified");
+    expect(classifyGeneratedPath("proto/user.pb.go")?.signal).toBe("protobuf output");
+    expect(classifyGeneratedPath("api/user_pb2.py")?.signal).toBe("protobuf output");
+    expect(classifyGeneratedPath("src/gql/graphql.ts")?.signal).toBe("GraphQL codegen output");
+    expect(classifyGeneratedPath("src/components/__generated__/Query.graphql.ts")?.signal).toBe("GraphQL codegen output");
+    expect(classifyGeneratedPath("lib/models/user.g.dart")?.kind).toBe("generated");
+
+    for (const path of ["src/vendors.ts", "lib/services/generated.ts", "src/admin.ts", "cmd/generate/main.go"]) {
+      expect(classifyGeneratedPath(path)).toBeUndefined();
+    }
+  });
+
+  it("flags codegen headers and minified content, but not code that mentions them", () => {
+    expect(classifyGeneratedContent("// Code generated by protoc-gen-go. DO NOT EDIT.\npackage user\n"))
+      .toEqual({ kind: "generated", signal: "\"Code generated ... DO NOT EDIT\" header" });
+    expect(classifyGeneratedContent("/**\n * @generated SignedSource<<abc>>\n */\nexport {};\n")?.signal).toBe("@generated header");
+    expect(classifyGeneratedContent("# This file is auto-generated from schema.yaml\nclass User: ...\n")?.signal).toBe("auto-generated header");
+    expect(classifyGeneratedContent(`!function(e){${"var t=e.a;".repeat(600)}}();`))
+      .toEqual({ kind: "minified", signal: "long lines (longest 6017 chars)" });
+
+    expect(classifyGeneratedContent("const marker = /@generated/;\nexport const isGenerated = (s: string) => marker.test(s);\n")).toBeUndefined();
+    expect(classifyGeneratedContent(`${"export const value = 1;\n".repeat(200)}`)).toBeUndefined();
+  });
+});
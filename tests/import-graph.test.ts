@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { goModulePath, parseImports, rankingReason, rankSourceFiles } from "@/lib/services/import-graph";
+
+describe("import graph", () => {
+  it("parses TS/JS, Python and Go imports", () => {
+    expect(parseImports("a.ts", [
+      "import x from './x';",
+      "import type { T } from \"@/lib/models\";",
+      "export * from './y';",
+      "import './side-effect';",
+      "const z = await import('./z');",
+      "const w = require('../w');"
+    ].join("\n"))).toEqual(["./x", "@/lib/models", "./y", "./side-effect", "./z", "../w"]);
+
+    expect(parseImports("pkg/mod.py", "from .models import User, Order as O\nimport os, app.db\nfrom . import utils\n"))
+      .toEqual([".models", ".models.User", ".models.Order", ".", ".utils", "os", "app.db"]);
+
+    expect(parseImports("main.go", 'package main\n\nimport (\n\t"fmt"\n\tapi "example.com/svc/internal/api"\n)\n'))
+      .toEqual(["fmt", "example.com/svc/internal/api"]);
+    expect(goModulePath("module example.com/svc\n\ngo 1.22\n")).toBe("example.com/svc");
+  });
+
+  it("ranks central files and files near entrypoints above unreferenced ones", () => {
+    const { strategy, ranked } = rankSourceFiles([
+      { path: "app/page.tsx", size: 100, content: "import { db } from '@/lib/db';\nimport { Card } from '../components/card';" },
+      { path: "app/api/orders/route.ts", size: 100, content: "import { db } from '@/lib/db';" },
+      { path: "components/card.tsx", size: 200, content: "export const Card = () => null;" },
+      { path: "lib/db.ts", size: 300, content: "import { config } from './config.js';" },
+      { path: "lib/config.ts", size: 50, content: "export const config = {};" },
+      { path: "fixtures/huge.generated.ts", size: 90_000, content: "export const data = [];" }
+    ]);
+
+    expect(strategy).toBe("import-graph");
+    const byPath = Object.fromEntries(ranked.map((file) => [file.path, file]));
+    expect(byPath["lib/db.ts"]).toMatchObject({ importedBy: 2, imports: 1, distance: 1 });
+    expect(byPath["lib/config.ts"]).toMatchObject({ importedBy: 1, distance: 2 });
+    expect(byPath["app/page.tsx"].entrypoint).toBe("route");
+    expect(ranked[ranked.length - 1].path).toBe("fixtures/huge.generated.ts");
+    expect(rankingReason(strategy, byPath["lib/db.ts"])).toMatch(/^import-graph: score \d\.\d\d \(imported by 2, 1 hop from entrypoint\)$/);
+  });
+
+  it("follows Python relative imports and Go packages", () => {
+    const python = rankSourceFiles([
+      { path: "app/__main__.py", size: 10, content: "from .service import run" },
+      { path: "app/service.py", size: 10, content: "from app.models import User" },
+      { path: "app/models/__init__.py", size: 10, content: "" }
+    ]);
+    expect(python.ranked.find((file) => file.path === "app/models/__init__.py")?.distance).toBe(2);
+
+    const go = rankSourceFiles([
+      { path: "cmd/server/main.go", size: 10, content: 'import "example.com/svc/internal/api"' },
+      { path: "internal/api/handlers.go", size: 10, content: "package api" },
+      { path: "internal/api/routes.go", size: 10, content: "package api" },
+      { path: "internal/api/routes_test.go", size: 10, content: "package api" }
+    ], { goModule: "example.com/svc" });
+    const reached = go.ranked.filter((file) => file.distance === 1).map((file) => file.path);
+    expect(reached).toEqual(["internal/api/handlers.go", "internal/api/routes.go"]);
+  });
+
+  it("falls back to size when nothing resolves", () => {
+    const { strategy, ranked } = rankSourceFiles([
+      { path: "lib/small.rb", size: 10, content: "require 'json'" },
+      { path: "lib/big.rb", size: 500, content: "" }
+    ]);
+
+    expect(strategy).toBe("size");
+    expect(ranked.map((file) => file.path)).toEqual(["lib/big.rb", "lib/small.rb"]);
+    expect(rankingReason(strategy, ranked[0])).toBe("size: large source sample (no imports resolved)");
+  });
+});
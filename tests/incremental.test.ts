@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import { simpleGit, SimpleGit } from "simple-git";
+import type { RunCheckpoint } from "@/lib/models";
+
+const { roots } = vi.hoisted(() => ({ roots: { runs: "" } }));
+
+vi.mock("@/lib/services/workspace", async (importOriginal) => {
+  const { join: joinPath } = await import("node:path");
+  return {
+    ...(await importOriginal<typeof import("@/lib/services/workspace")>()),
+    runsRoot: () => roots.runs,
+    artifactsDir: (runId: string) => joinPath(roots.runs, runId, "artifacts")
+  };
+});
+
+import { committedBlobShas, gitBlobSha, hashStageInputs, listComparableRuns } from "@/lib/services/incremental";
+
+let dir = "";
+let git: SimpleGit;
+
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(dir, path)), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mimickit-incremental-test-"));
+  roots.runs = join(dir, ".runs");
+  git = simpleGit(dir);
+  await git.init(["--initial-branch=main"]);
+  await git.addConfig("user.name", "Test");
+  await git.addConfig("user.email", "test@example.com");
+  await git.addConfig("commit.gpgsign", "false");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("incremental re-analysis", () => {
+  it("hashes blobs the way git does", async () => {
+    await writeFiles({ "a.txt": "hello\n" });
+    const expected = (await git.raw(["hash-object", "a.txt"])).trim();
+
+    expect(gitBlobSha(Buffer.from("hello\n"))).toBe(expected);
+  });
+
+  it("lists committed blob SHAs for unmodified files under the prefix", async () => {
+    await writeFiles({ "README.md": "# Demo\n", "apps/web/index.ts": "export {};\n", "apps/web/page.tsx": "<main />\n" });
+    await git.add(".");
+    await git.commit("init");
+    await writeFiles({ "apps/web/page.tsx": "<main>edited</main>\n" });
+
+    const shas = await committedBlobShas(dir, "apps/web");
+
+    expect([...shas.keys()]).toEqual(["index.ts"]);
+    expect(shas.get("index.ts")).toBe(gitBlobSha(Buffer.from("export {};\n")));
+    expect((await committedBlobShas(join(dir, "apps"), "")).size).toBe(0);
+  });
+
+  it("hashes stage inputs independently of key order", () => {
+    expect(hashStageInputs({ a: 1, b: [{ c: 2, d: 3 }] })).toBe(hashStageInputs({ b: [{ d: 3, c: 2 }], a: 1 }));
+    expect(hashStageInputs({ a: 1 })).not.toBe(hashStageInputs({ a: 2 }));
+  });
+
+  it("finds finished runs of the same source and scan mode, newest first", async () => {
+    const source = { type: "local" as const, repoPath: "/repo" };
+    const checkpoint = (runId: string, updatedAt: string, overrides: Partial<RunCheckpoint> = {}): RunCheckpoint => ({
+      runId,
+      source,
+      scanMode: "quick",
+      createdAt: updatedAt,
+      updatedAt,
+      stages: [{ id: "ingest", label: "Ingest workspace", status: "done" }, { id: "stack", label: "Stack detection", status: "unchanged" }],
+      ...overrides
+    });
+    const runs = [
+      checkpoint("run_old", "2026-01-01T00:00:00.000Z"),
+      checkpoint("run_new", "2026-01-02T00:00:00.000Z"),
+      checkpoint("run_deep", "2026-01-03T00:00:00.000Z", { scanMode: "deep" }),
+      checkpoint("run_other", "2026-01-03T00:00:00.000Z", { source: { type: "local", repoPath: "/other" } }),
+      checkpoint("run_failed", "2026-01-03T00:00:00.000Z", {
+        stages: [{ id: "ingest", label: "Ingest workspace", status: "error", error: "boom" }]
+      }),
+      checkpoint("run_current", "2026-01-04T00:00:00.000Z")
+    ];
+    for (const run of runs) {
+      await writeFiles({ [`.runs/${run.runId}/artifacts/checkpoint.json`]: JSON.stringify(run) });
+    }
+
+    const comparable = await listComparableRuns("run_current", source, "quick");
+
+    expect(comparable.map((run) => run.runId)).toEqual(["run_new", "run_old"]);
+  });
+});
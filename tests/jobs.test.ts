@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PipelineOptions } from "@/lib/services/pipeline";
+import type { RunEvent, RunResult } from "@/lib/models";
+
+vi.mock("@/lib/services/revisions", () => ({
+  recordRevision: vi.fn()
+}));
+
+vi.mock("@/lib/services/pipeline", () => ({
+  newRunId: vi.fn(() => `run_${Math.random().toString(36).slice(2, 8)}`),
+  runAnalysis: vi.fn()
+}));
+
+import { cancelAnalysisJob, getJob, startAnalysisJob, subscribeToJob } from "@/lib/services/jobs";
+import { RunCancelledError } from "@/lib/services/cancellation";
+import { runAnalysis } from "@/lib/services/pipeline";
+import { recordRevision } from "@/lib/services/revisions";
+
+const input = { repoUrl: "https://github.com/a/b", scanMode: "quick" as const };
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void; reject: (error: unknown) => void } {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("analysis jobs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns immediately and streams stage transitions until done", async () => {
+    const pending = deferred<RunResult>();
+    let options: PipelineOptions = {};
+    vi.mocked(runAnalysis).mockImplementationOnce((_input, opts) => {
+      options = opts ?? {};
+      return pending.promise;
+    });
+
+    const job = startAnalysisJob(input);
+    expect(job.status).toBe("running");
+
+    const events: RunEvent[] = [];
+    subscribeToJob(job.runId, (event) => events.push(event));
+
+    options.onStageChange?.([{ id: "ingest", label: "Ingest workspace", status: "running" }]);
+    pending.resolve({ id: job.runId } as RunResult);
+    await pending.promise;
+    await Promise.resolve();
+
+    expect(options.runId).toBe(job.runId);
+    expect(events.map((event) => event.type)).toEqual(["stages", "stages", "done"]);
+    expect(recordRevision).toHaveBeenCalledWith({ id: job.runId }, "analyze", "Initial analysis");
+    expect(getJob(job.runId)?.status).toBe("done");
+  });
+
+  it("replays the latest state to late subscribers and reports failures", async () => {
+    const pending = deferred<RunResult>();
+    vi.mocked(runAnalysis).mockImplementationOnce((_input, opts) => {
+      opts?.onStageChange?.([{ id: "fetch", label: "Fetch repository", status: "error", error: "clone failed" }]);
+      return pending.promise;
+    });
+
+    const job = startAnalysisJob(input);
+    pending.reject(new Error("clone failed"));
+    await pending.promise.catch(() => {});
+    await Promise.resolve();
+
+    const events: RunEvent[] = [];
+    subscribeToJob(job.runId, (event) => events.push(event));
+
+    expect(events).toEqual([
+      { type: "stages", stages: [{ id: "fetch", label: "Fetch repository", status: "error", error: "clone failed" }] },
+      { type: "error", error: "clone failed" }
+    ]);
+    expect(recordRevision).not.toHaveBeenCalled();
+  });
+
+  it("aborts the pipeline signal and reports cancellation", async () => {
+    let signal: AbortSignal | undefined;
+    vi.mocked(runAnalysis).mockImplementationOnce((_input, opts) => {
+      signal = opts?.signal;
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener("abort", () => reject(new RunCancelledError()));
+      });
+    });
+
+    const job = startAnalysisJob(input);
+    const events: RunEvent[] = [];
+    subscribeToJob(job.runId, (event) => events.push(event));
+
+    cancelAnalysisJob(job.runId);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(signal?.aborted).toBe(true);
+    expect(getJob(job.runId)?.status).toBe("cancelled");
+    expect(events[events.length - 1]).toEqual({ type: "cancelled" });
+  });
+
+  it("returns undefined for unknown jobs", () => {
+    expect(subscribeToJob("run_missing", () => {})).toBeUndefined();
+    expect(getJob("run_missing")).toBeUndefined();
+    expect(cancelAnalysisJob("run_missing")).toBeUndefined();
+  });
+});
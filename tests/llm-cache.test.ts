@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync } from "node:fs";
+import { readdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { z } from "zod";
+
+const { cacheRoot } = vi.hoisted(() => ({ cacheRoot: { path: "" } }));
+
+vi.mock("@/lib/services/config", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/config")>()),
+  ANTHROPIC_KEY: "sk-ant-test",
+  LLM_PROVIDER: "anthropic",
+  LLM_CACHE: { enabled: true, ttlHours: 1 }
+}));
+
+vi.mock("@/lib/services/workspace", () => ({
+  runsRoot: () => cacheRoot.path
+}));
+
+import { callClaudeJson } from "@/lib/services/claude";
+import { llmCacheDir, llmCacheKey, setLlmCacheEnabled } from "@/lib/services/llm-cache";
+
+const schema = z.object({ answer: z.string() });
+const fallback = () => ({ answer: "fallback" });
+
+const fetchMock = vi.fn();
+
+function anthropicResponse(text: string): Response {
+  return new Response(JSON.stringify({ content: [{ type: "text", text }], stop_reason: "end_turn" }));
+}
+
+beforeEach(() => {
+  cacheRoot.path = mkdtempSync(join(tmpdir(), "mimickit-llm-cache-test-"));
+  setLlmCacheEnabled(true);
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  await rm(cacheRoot.path, { recursive: true, force: true });
+});
+
+describe("llm response cache", () => {
+  it("serves identical prompts from disk on later calls", async () => {
+    fetchMock.mockResolvedValueOnce(anthropicResponse("{\"answer\":\"live\"}"));
+
+    const first = await callClaudeJson("same prompt", schema, fallback, { retries: 0, label: "test" });
+    const second = await callClaudeJson("same prompt", schema, fallback, { retries: 0, label: "test" });
+
+    expect(first).toEqual({ answer: "live" });
+    expect(second).toEqual({ answer: "live" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await readdir(llmCacheDir())).toHaveLength(1);
+  });
+
+  it("does not cache responses that fail validation", async () => {
+    fetchMock.mockResolvedValueOnce(anthropicResponse("{\"wrong\":1}"));
+
+    const result = await callClaudeJson("bad prompt", schema, fallback, { retries: 0, label: "test" });
+
+    expect(result).toEqual({ answer: "fallback" });
+    expect(existsSync(llmCacheDir())).toBe(false);
+  });
+
+  it("ignores entries older than the TTL", async () => {
+    fetchMock.mockImplementation(async () => anthropicResponse("{\"answer\":\"fresh\"}"));
+    await callClaudeJson("stale prompt", schema, fallback, { retries: 0, label: "test" });
+    const [file] = await readdir(llmCacheDir());
+
+    // Rewrite the entry as two hours old (TTL is one hour)
+    await writeFile(join(llmCacheDir(), file), JSON.stringify({
+      key: file.replace(".json", ""),
+      label: "test",
+      provider: "anthropic",
+      model: "m",
+      response: "{\"answer\":\"stale\"}",
+      createdAt: new Date(Date.now() - 2 * 3_600_000).toISOString()
+    }));
+
+    const result = await callClaudeJson("stale prompt", schema, fallback, { retries: 0, label: "test" });
+
+    expect(result).toEqual({ answer: "fresh" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys on model, schema and max tokens as well as the prompt", () => {
+    const base = { provider: "anthropic", model: "m1", prompt: "p", schema: "s", maxTokens: 100 };
+    const key = llmCacheKey(base);
+
+    expect(llmCacheKey({ ...base })).toBe(key);
+    expect(llmCacheKey({ ...base, model: "m2" })).not.toBe(key);
+    expect(llmCacheKey({ ...base, schema: "s2" })).not.toBe(key);
+    expect(llmCacheKey({ ...base, maxTokens: 200 })).not.toBe(key);
+    expect(llmCacheKey({ ...base, provider: "openai" })).not.toBe(key);
+  });
+
+  it("bypasses the cache when disabled", async () => {
+    setLlmCacheEnabled(false);
+    fetchMock.mockImplementation(async () => anthropicResponse("{\"answer\":\"live\"}"));
+
+    await callClaudeJson("uncached prompt", schema, fallback, { retries: 0, label: "test" });
+    await callClaudeJson("uncached prompt", schema, fallback, { retries: 0, label: "test" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(existsSync(llmCacheDir())).toBe(false);
+  });
+});
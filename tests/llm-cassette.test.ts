@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("@/lib/services/config", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/config")>()),
+  ANTHROPIC_KEY: "sk-ant-test",
+  LLM_PROVIDER: "anthropic"
+}));
+
+import { extractArchitecture } from "@/lib/services/analysis";
+import { cassetteKey, configureCassette } from "@/lib/services/llm-cassette";
+import { setLlmCacheEnabled } from "@/lib/services/llm-cache";
+import type { RepoSnapshot, StackFingerprint } from "@/lib/models";
+
+const snapshot: RepoSnapshot = {
+  version: "1.0.0",
+  repo: { url: "https://github.com/a/b", owner: "a", name: "b", branch: "main", defaultBranch: "main", sizeKb: 10, stars: 0, openIssues: 0 },
+  metadata: { scanMode: "quick", depthStrategy: "file-count", fetchedAt: "2026-01-01T00:00:00.000Z", totalFiles: 1, selectedFiles: 1, skippedBinaryFiles: 0, skippedScriptFiles: 0, tokenEstimate: 10 },
+  languages: [],
+  fileTree: [{ path: "package.json", type: "blob", size: 20 }],
+  files: [{ path: "package.json", size: 20, reason: "dependency manifest", content: "{\"dependencies\":{\"next\":\"14\"}}", truncated: false }]
+};
+
+const stack: StackFingerprint = {
+  version: "1.0.0",
+  frontend: [], backend: [], db: [], auth: [], infra: [], language: [],
+  testing: [], cicd: [], styling: [], state: [], messaging: [],
+  lowConfidenceFindings: []
+};
+
+// Model output with schema drift: edge fields returned as arrays
+const driftedResponse = JSON.stringify({
+  version: "1.0.0",
+  components: [
+    { id: "web", name: "Web", role: "Client UI layer", tech: ["Next.js"], inputs: [], outputs: [] },
+    { id: "api", name: "API", role: "Application/API layer", tech: ["Node"], inputs: [], outputs: [] }
+  ],
+  edges: [{ from: ["web"], to: ["api"], type: ["Request"] }]
+});
+
+const fetchMock = vi.fn();
+let cassetteDir: string;
+
+beforeEach(async () => {
+  setLlmCacheEnabled(false);
+  cassetteDir = await mkdtemp(join(tmpdir(), "mimickit-cassette-test-"));
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  configureCassette({ mode: "off" });
+  await rm(cassetteDir, { recursive: true, force: true });
+});
+
+describe("llm cassette", () => {
+  it("records responses keyed by label + prompt hash and replays them without network", async () => {
+    const path = join(cassetteDir, "cassette.json");
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+      content: [{ type: "text", text: driftedResponse }],
+      stop_reason: "end_turn"
+    })));
+
+    configureCassette({ mode: "record", path });
+    const recorded = await extractArchitecture(snapshot, stack);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(recorded.edges).toEqual([{ from: "web", to: "api", type: "request" }]);
+
+    const file = JSON.parse(await readFile(path, "utf8"));
+    const keys = Object.keys(file.entries);
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatch(/^extractArchitecture:[0-9a-f]{16}$/);
+
+    fetchMock.mockRejectedValue(new Error("network disabled"));
+    configureCassette({ mode: "replay", path });
+    const replayed = await extractArchitecture(snapshot, stack);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(replayed).toEqual(recorded);
+  });
+
+  it("falls back instead of calling the provider on a replay miss", async () => {
+    const path = join(cassetteDir, "empty.json");
+    configureCassette({ mode: "record", path });
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+      content: [{ type: "text", text: driftedResponse }]
+    })));
+    await extractArchitecture(snapshot, stack);
+
+    configureCassette({ mode: "replay", path });
+    fetchMock.mockClear();
+    const changed = { ...snapshot, repo: { ...snapshot.repo, name: "other" } };
+    const result = await extractArchitecture(changed, stack);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.components.map((c) => c.id)).toEqual(["frontend", "backend", "database", "auth"]);
+  });
+
+  it("derives stable keys from label and prompt", () => {
+    expect(cassetteKey("a", "prompt")).toBe(cassetteKey("a", "prompt"));
+    expect(cassetteKey("a", "prompt")).not.toBe(cassetteKey("b", "prompt"));
+    expect(cassetteKey("a", "prompt")).not.toBe(cassetteKey("a", "prompt!"));
+  });
+});
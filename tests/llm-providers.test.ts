@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/lib/services/config", () => ({
+  ANTHROPIC_MODEL: "claude-test",
+  ANTHROPIC_API_BASE: "https://anthropic.test/v1",
+  ANTHROPIC_KEY: "sk-ant-test",
+  LLM_PROVIDER: "anthropic",
+  OPENAI_MODEL: "gpt-test",
+  OPENAI_API_BASE: "https://openai.test/v1",
+  OPENAI_KEY: undefined,
+  LOCAL_LLM_MODEL: "llama-test",
+  LOCAL_LLM_BASE: "http://localhost:11434"
+}));
+
+import {
+  anthropicProvider,
+  localHttpProvider,
+  openAiCompatibleProvider,
+  resolveLlmProvider
+} from "@/lib/services/llm-providers";
+
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+function lastRequest(): { url: string; headers: Record<string, string>; body: Record<string, unknown> } {
+  const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1] as [string, RequestInit];
+  return {
+    url,
+    headers: init.headers as Record<string, string>,
+    body: JSON.parse(String(init.body))
+  };
+}
+
+const request = { system: "system text", prompt: "user prompt", maxTokens: 512 };
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("llm providers", () => {
+  it("anthropic provider calls the Messages API", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      content: [{ type: "text", text: "{\"ok\":true}" }],
+      stop_reason: "end_turn"
+    }));
+
+    const completion = await anthropicProvider.complete(request);
+
+    const sent = lastRequest();
+    expect(sent.url).toBe("https://anthropic.test/v1/messages");
+    expect(sent.headers["x-api-key"]).toBe("sk-ant-test");
+    expect(sent.body).toMatchObject({ model: "claude-test", max_tokens: 512, system: "system text" });
+    expect(completion).toEqual({ text: "{\"ok\":true}", truncated: false });
+  });
+
+  it("openai-compatible provider sends system + user chat messages", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      choices: [{ message: { content: "{}" }, finish_reason: "length" }]
+    }));
+
+    const completion = await openAiCompatibleProvider.complete(request);
+
+    const sent = lastRequest();
+    expect(sent.url).toBe("https://openai.test/v1/chat/completions");
+    expect(sent.headers.Authorization).toBeUndefined();
+    expect(sent.body.messages).toEqual([
+      { role: "system", content: "system text" },
+      { role: "user", content: "user prompt" }
+    ]);
+    expect(completion.truncated).toBe(true);
+  });
+
+  it("local provider targets an Ollama-style /api/chat endpoint", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ message: { content: "{}" }, done_reason: "stop" }));
+
+    await localHttpProvider.complete(request);
+
+    const sent = lastRequest();
+    expect(sent.url).toBe("http://localhost:11434/api/chat");
+    expect(sent.body).toMatchObject({ model: "llama-test", stream: false, format: "json" });
+  });
+
+  it("surfaces HTTP status codes in provider errors", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("slow down", { status: 429 }));
+
+    await expect(anthropicProvider.complete(request)).rejects.toThrow("Anthropic API error 429");
+  });
+
+  it("self-hosted openai-compatible endpoints do not require a key", () => {
+    expect(openAiCompatibleProvider.missingConfig()).toBeUndefined();
+    expect(localHttpProvider.missingConfig()).toBeUndefined();
+  });
+
+  it("resolves providers by id and rejects unknown ids", () => {
+    expect(resolveLlmProvider("OpenAI").id).toBe("openai");
+    expect(resolveLlmProvider().id).toBe("anthropic");
+    expect(() => resolveLlmProvider("bedrock")).toThrow("Unknown LLM_PROVIDER");
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, symlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { findLockedVersion, parseLockfile, readLockfiles } from "@/lib/services/lockfiles";
+
+let dir = "";
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mimickit-lockfiles-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("lockfile parsing", () => {
+  it("reads resolved versions from JS lockfiles", () => {
+    const npm = parseLockfile("package-lock.json", JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        "": { dependencies: { next: "^14.2.0" } },
+        "node_modules/next": { version: "14.2.3" },
+        "node_modules/@next/env": { version: "14.2.3" },
+        "node_modules/next/node_modules/react": { version: "17.0.0" },
+        "apps/web/node_modules/react": { version: "18.3.1" },
+        "node_modules/web": { link: true }
+      }
+    }));
+    expect(npm).toEqual({
+      path: "package-lock.json",
+      manager: "npm",
+      ecosystem: "npm",
+      packages: { "@next/env": "14.2.3", next: "14.2.3", react: "18.3.1" }
+    });
+
+    const pnpm = parseLockfile("pnpm-lock.yaml", [
+      "lockfileVersion: '9.0'",
+      "importers:",
+      "  .:",
+      "    dependencies:",
+      "      '@prisma/client':",
+      "        specifier: ^5.0.0",
+      "        version: 5.14.0(prisma@5.14.0)",
+      "      next:",
+      "        specifier: ^14.2.0",
+      "        version: 14.2.3(react-dom@18.3.1(react@18.3.1))(react@18.3.1)",
+      "  apps/api:",
+      "    devDependencies:",
+      "      fastify:",
+      "        specifier: ^4.0.0",
+      "        version: 4.26.2",
+      "packages:",
+      "  next@14.2.3:",
+      "    resolution: {integrity: sha512-abc}"
+    ].join("\n"));
+    expect(pnpm?.packages).toEqual({ "@prisma/client": "5.14.0", fastify: "4.26.2", next: "14.2.3" });
+
+    const yarn = parseLockfile("yarn.lock", [
+      "# yarn lockfile v1",
+      "",
+      "\"@babel/core@^7.0.0\", \"@babel/core@^7.12.3\":",
+      "  version \"7.24.5\"",
+      "",
+      "next@^14.2.0:",
+      "  version \"14.2.3\"",
+      "",
+      "\"react@npm:^18.2.0\":",
+      "  version: 18.3.1"
+    ].join("\n"), new Set(["next", "react"]));
+    expect(yarn?.packages).toEqual({ next: "14.2.3", react: "18.3.1" });
+  });
+
+  it("reads poetry, Cargo and go.sum lockfiles", () => {
+    const poetry = parseLockfile("poetry.lock", [
+      "[[package]]",
+      "name = \"Django\"",
+      "version = \"4.2.11\"",
+      "",
+      "[package.dependencies]",
+      "asgiref = \">=3.6.0\"",
+      "",
+      "[[package]]",
+      "name = \"typing_extensions\"",
+      "version = \"4.11.0\""
+    ].join("\n"));
+    expect(poetry?.packages).toEqual({ django: "4.2.11", "typing-extensions": "4.11.0" });
+    expect(findLockedVersion([poetry!], "pypi", "Typing.Extensions")).toEqual({ version: "4.11.0", path: "poetry.lock" });
+
+    const cargo = parseLockfile("crates/api/Cargo.lock", [
+      "version = 3",
+      "[[package]]",
+      "name = \"actix-web\"",
+      "version = \"4.5.1\"",
+      "[[package]]",
+      "name = \"syn\"",
+      "version = \"1.0.109\"",
+      "[[package]]",
+      "name = \"syn\"",
+      "version = \"2.0.60\""
+    ].join("\n"));
+    expect(cargo?.packages).toEqual({ "actix-web": "4.5.1", syn: "2.0.60" });
+
+    const go = parseLockfile("go.sum", [
+      "github.com/gin-gonic/gin v1.9.0/go.mod h1:abc=",
+      "github.com/gin-gonic/gin v1.9.1 h1:def=",
+      "github.com/gin-gonic/gin v1.9.1/go.mod h1:ghi=",
+      "github.com/old/lib v2.0.0+incompatible h1:jkl="
+    ].join("\n"));
+    expect(go?.packages).toEqual({ "github.com/gin-gonic/gin": "1.9.1", "github.com/old/lib": "2.0.0" });
+    expect(findLockedVersion([go!], "npm", "github.com/gin-gonic/gin")).toBeUndefined();
+  });
+
+  it("reads Bundler, Composer, NuGet, Mix and pub lockfiles", () => {
+    const bundler = parseLockfile("Gemfile.lock", [
+      "GEM",
+      "  remote: https://rubygems.org/",
+      "  specs:",
+      "    nokogiri (1.15.5-x86_64-linux)",
+      "      racc (~> 1.4)",
+      "    rails (7.1.3)",
+      "",
+      "DEPENDENCIES",
+      "  rails (~> 7.1.0)"
+    ].join("\n"));
+    expect(bundler).toMatchObject({ manager: "bundler", ecosystem: "rubygems", packages: { nokogiri: "1.15.5", rails: "7.1.3" } });
+
+    const composer = parseLockfile("composer.lock", JSON.stringify({
+      packages: [{ name: "laravel/framework", version: "v10.48.4" }],
+      "packages-dev": [{ name: "phpunit/phpunit", version: "10.5.13" }, { name: "acme/fork", version: "dev-main" }]
+    }));
+    expect(composer?.packages).toEqual({ "laravel/framework": "10.48.4", "phpunit/phpunit": "10.5.13" });
+
+    const nuget = parseLockfile("src/Api/packages.lock.json", JSON.stringify({
+      version: 1,
+      dependencies: { "net8.0": { "Microsoft.EntityFrameworkCore.SqlServer": { type: "Direct", requested: "[8.0.1, )", resolved: "8.0.1" } } }
+    }));
+    expect(findLockedVersion([nuget!], "nuget", "Microsoft.EntityFrameworkCore.SqlServer")).toEqual({ version: "8.0.1", path: "src/Api/packages.lock.json" });
+
+    const mix = parseLockfile("mix.lock", [
+      "%{",
+      "  \"phoenix\": {:hex, :phoenix, \"1.7.10\", \"abc\", [:mix], [], \"hexpm\", \"def\"},",
+      "  \"heroicons\": {:git, \"https://github.com/tailwindlabs/heroicons.git\", \"88ab\", []},",
+      "}"
+    ].join("\n"));
+    expect(mix?.packages).toEqual({ phoenix: "1.7.10" });
+
+    const pub = parseLockfile("pubspec.lock", [
+      "packages:",
+      "  flutter:",
+      "    dependency: \"direct main\"",
+      "    description: flutter",
+      "    source: sdk",
+      "    version: \"0.0.0\"",
+      "  flutter_riverpod:",
+      "    dependency: \"direct main\"",
+      "    source: hosted",
+      "    version: \"2.4.9\"",
+      "sdks:",
+      "  dart: \">=3.2.0 <4.0.0\""
+    ].join("\n"));
+    expect(pub?.packages).toEqual({ flutter_riverpod: "2.4.9" });
+  });
+
+  it("reads lockfiles next to manifests, narrowing JS ones to declared packages", async () => {
+    await mkdir(join(dir, "apps", "web"), { recursive: true });
+    await mkdir(join(dir, "services", "api"), { recursive: true });
+    await writeFile(join(dir, "package.json"), JSON.stringify({ devDependencies: { turbo: "^2.0.0" } }));
+    await writeFile(join(dir, "apps", "web", "package.json"), JSON.stringify({ dependencies: { next: "^14.2.0" } }));
+    await writeFile(join(dir, "yarn.lock"), "next@^14.2.0:\n  version \"14.2.3\"\n\nturbo@^2.0.0:\n  version \"2.0.4\"\n\nscheduler@^0.23.0:\n  version \"0.23.2\"\n");
+    await writeFile(join(dir, "services", "api", "go.sum"), "github.com/gin-gonic/gin v1.9.1 h1:def=\n");
+    await writeFile(join(dir, "services", "api", "package-lock.json"), "{}");
+
+    const lockfiles = await readLockfiles(dir, ["", "apps/web", "services/api", "apps/web"]);
+
+    expect(lockfiles).toEqual([
+      { path: "yarn.lock", manager: "yarn", ecosystem: "npm", packages: { next: "14.2.3", turbo: "2.0.4" } },
+      { path: "services/api/go.sum", manager: "go", ecosystem: "go", packages: { "github.com/gin-gonic/gin": "1.9.1" } }
+    ]);
+  });
+
+  it("skips lockfiles that are symlinks", async () => {
+    const outside = await mkdtemp(join(tmpdir(), "mimickit-lockfiles-outside-"));
+    try {
+      await writeFile(join(outside, "go.sum"), "github.com/gin-gonic/gin v1.9.1 h1:abc=\n");
+      await writeFile(join(dir, "yarn.lock"), 'next@^14.2.0:\n  version "14.2.3"\n');
+      await symlink(join(outside, "go.sum"), join(dir, "go.sum"));
+      await symlink(join(dir, "yarn.lock"), join(dir, "pnpm-lock.yaml"));
+
+      const lockfiles = await readLockfiles(dir, [""]);
+      expect(lockfiles.map((lockfile) => lockfile.path)).toEqual(["yarn.lock"]);
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+});
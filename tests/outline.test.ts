@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { extractOutline, fileExcerpt, fitContent } from "@/lib/services/outline";
+
+function texts(path: string, lines: string[]): string[] {
+  return extractOutline(path, lines.join("\n")).map((entry) => `L${entry.line}: ${entry.text}`);
+}
+
+describe("symbol outlines", () => {
+  it("outlines TS declarations, class methods and route handlers", () => {
+    expect(texts("src/users.ts", [
+      "import { db } from './db';",
+      "export interface User { id: string }",
+      "export type Role = 'admin' | 'member';",
+      "export async function listUsers(",
+      "  limit: number,",
+      "  cursor?: string",
+      "): Promise<User[]> {",
+      "  return db.users(limit, cursor);",
+      "}",
+      "export const createUser = async (input: User) => {",
+      "  if (input) return input;",
+      "};",
+      "export class UserService extends Base {",
+      "  private cache = new Map();",
+      "  async find(id: string): Promise<User> {",
+      "    return db.find(id);",
+      "  }",
+      "  private reset(): void {}",
+      "}",
+      "router.post('/users', handler);"
+    ])).toEqual([
+      "L2: export interface User",
+      "L3: export type Role = 'admin' | 'member'",
+      "L4: export async function listUsers(limit: number, cursor?: string): Promise<User[]>",
+      "L10: export const createUser = async (input: User) =>",
+      "L13: export class UserService extends Base",
+      "L15:   async find(id: string): Promise<User>",
+      "L20: route POST /users"
+    ]);
+
+    expect(texts("app/api/(admin)/users/[id]/route.ts", [
+      "export async function GET(request: Request, { params }: Context) {"
+    ])).toEqual(["L1: route GET /api/users/[id]: export async function GET(request: Request, { params }: Context)"]);
+  });
+
+  it("outlines Python, Go and Swift declarations with routes", () => {
+    expect(texts("app/main.py", [
+      "@app.get(\"/items/{item_id}\")",
+      "async def read_item(item_id: int, q: str | None = None) -> Item:",
+      "    return Item()",
+      "class Repo(Base):",
+      "    def __init__(self, db):",
+      "        self.db = db",
+      "    def _helper(self):",
+      "        pass",
+      "    def save(self, item: Item) -> None:",
+      "        pass"
+    ])).toEqual([
+      "L1: route GET /items/{item_id}",
+      "L2: async def read_item(item_id: int, q: str | None = None) -> Item",
+      "L4: class Repo(Base)",
+      "L5:   def __init__(self, db)",
+      "L9:   def save(self, item: Item) -> None"
+    ]);
+
+    expect(texts("server/main.go", [
+      "type Server struct {",
+      "}",
+      "func (s *Server) Handle(w http.ResponseWriter, r *http.Request) {",
+      "}",
+      "func main() {",
+      "  http.HandleFunc(\"/health\", health)",
+      "  r.GET(\"/users/:id\", getUser)",
+      "}"
+    ])).toEqual([
+      "L1: type Server struct",
+      "L3: func (s *Server) Handle(w http.ResponseWriter, r *http.Request)",
+      "L5: func main()",
+      "L6: route ANY /health",
+      "L7: route GET /users/:id"
+    ]);
+
+    expect(texts("App/ProfileView.swift", [
+      "public struct ProfileView: View {",
+      "    public func load(id: UUID) async throws -> Profile {",
+      "    }",
+      "    private func cache() {}",
+      "}"
+    ])).toEqual([
+      "L1: public struct ProfileView: View",
+      "L2:   public func load(id: UUID) async throws -> Profile"
+    ]);
+  });
+
+  it("fits long files as outline plus prefix and leaves others alone", () => {
+    const content = ["export function a(): void {", ...Array.from({ length: 200 }, (_, i) => `  step(${i});`), "}"].join("\n");
+
+    const fitted = fitContent("src/a.ts", content, 400);
+    expect(fitted).toMatchObject({ truncated: true, outline: true });
+    expect(fitted.content.length).toBeLessThanOrEqual(400);
+    expect(fitted.content).toMatch(/^\[outline: 202 lines, 2 KB; .*\]\nL1: export function a\(\): void\n\n\[start of file\]\nexport function a/);
+
+    expect(fitContent("notes.md", content, 400)).toEqual({ content: content.slice(0, 400), truncated: true, outline: false });
+    expect(fitContent("src/a.ts", "short", 400)).toEqual({ content: "short", truncated: false, outline: false });
+
+    // Ingested outlines are cut, not outlined again
+    const file = { path: "src/a.ts", size: content.length, reason: "source", content: fitted.content, truncated: true, outline: true };
+    expect(fileExcerpt(file, 100)).toBe(fitted.content.slice(0, 100));
+  });
+});
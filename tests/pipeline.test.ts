@@ -19,6 +19,8 @@ vi.mock("@/lib/services/workspace", () => ({
   }),
   cleanupWorkspace: vi.fn().mockResolvedValue(undefined),
   artifactsDir: vi.fn().mockReturnValue("/mock/artifacts"),
+  workspaceDir: vi.fn().mockReturnValue("/mock/workspace"),
+  readArtifact: vi.fn().mockResolvedValue(undefined),
   writeArtifact: vi.fn().mockResolvedValue("/mock/artifacts/test.json"),
   writeTextArtifact: vi.fn().mockResolvedValue("/mock/artifacts/plan.md")
 }));
@@ -34,6 +36,19 @@ vi.mock("@/lib/services/fetch.stage", () => ({
   isGitAvailable: vi.fn().mockResolvedValue(true)
 }));
 
+vi.mock("@/lib/services/extract.stage", () => ({
+  runExtractStage: vi.fn().mockResolvedValue({
+    runId: "run_test",
+    archivePath: "/uploads/repo.zip",
+    format: "zip",
+    files: 3,
+    directories: 1,
+    skippedLinks: 0,
+    extractedBytes: 1024,
+    workspacePath: "/mock/workspace"
+  })
+}));
+
 vi.mock("@/lib/services/ingest.stage", () => ({
   runIngestStage: vi.fn().mockResolvedValue({
     version: "1.0.0",
@@ -49,8 +64,10 @@ vi.mock("@/lib/services/stack-detector", () => ({
   detectStack: vi.fn().mockReturnValue({
     version: "1.0.0",
     frontend: [], backend: [], db: [], auth: [], infra: [], language: [],
+    testing: [], cicd: [], styling: [], state: [], messaging: [],
     lowConfidenceFindings: []
-  })
+  }),
+  loadStackDetectors: vi.fn().mockResolvedValue([])
 }));
 
 vi.mock("@/lib/services/analysis", () => ({
@@ -82,10 +99,23 @@ vi.mock("@/lib/services/github-intake", () => ({
   buildRepoSnapshot: vi.fn()
 }));
 
-import { runHarnessPipeline } from "@/lib/services/pipeline";
+vi.mock("@/lib/services/incremental", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/incremental")>()),
+  listComparableRuns: vi.fn().mockResolvedValue([])
+}));
+
+import { resumeHarnessPipeline, runHarnessPipeline } from "@/lib/services/pipeline";
+import { RunCancelledError } from "@/lib/services/cancellation";
+import { detectStack } from "@/lib/services/stack-detector";
+import { extractArchitecture, extractIntent } from "@/lib/services/analysis";
+import { compileExecutablePlan } from "@/lib/services/prompt-compiler";
+import { readArtifact, writeArtifact } from "@/lib/services/workspace";
 import { isGitAvailable } from "@/lib/services/fetch.stage";
 import { runFetchStage } from "@/lib/services/fetch.stage";
 import { runIngestStage } from "@/lib/services/ingest.stage";
+import { runExtractStage } from "@/lib/services/extract.stage";
+import { listComparableRuns } from "@/lib/services/incremental";
+import { recordLlmFallback } from "@/lib/services/usage";
 import { beforeEach } from "vitest";
 
 describe("pipeline orchestration", () => {
@@ -125,6 +155,229 @@ describe("pipeline orchestration", () => {
     ]);
   });
 
+  it("commit-range runs end with a change summary", async () => {
+    const snapshot = await vi.mocked(runIngestStage).getMockImplementation()!({} as never);
+    vi.mocked(runIngestStage).mockResolvedValueOnce({
+      ...snapshot,
+      delta: {
+        baseRef: "main",
+        baseSha: "1111111111111111111111111111111111111111",
+        headSha: "2222222222222222222222222222222222222222",
+        fromSha: "1111111111111111111111111111111111111111",
+        files: [{ path: "app/settings/page.tsx", status: "added", additions: 40, deletions: 0 }],
+        dependencies: { added: [], removed: [] },
+        envVars: { added: [], removed: [] }
+      }
+    });
+    const source: PipelineSource = { type: "github", repoUrl: "https://github.com/a/b", ref: "feature", baseRef: "main" };
+
+    const result = await runHarnessPipeline(source, "quick");
+
+    expect(result.stages.map((s) => s.id)).toEqual([
+      "fetch", "ingest", "stack", "arch", "intent", "plan", "changes"
+    ]);
+    expect(result.changePlan?.routes.added).toEqual(["/settings"]);
+    expect(vi.mocked(writeArtifact).mock.calls.map(([, name]) => name)).toContain("changes.json");
+  });
+
+  it("archive path extracts into the workspace instead of fetching", async () => {
+    const source: PipelineSource = { type: "archive", archivePath: "/uploads/repo.zip", fileName: "repo.zip" };
+
+    const result = await runHarnessPipeline(source, "quick");
+
+    expect(runFetchStage).not.toHaveBeenCalled();
+    expect(runExtractStage).toHaveBeenCalledWith(expect.objectContaining({ workspacePath: "/mock/workspace" }));
+    expect(result.stages.map((s) => s.id)).toEqual([
+      "extract", "ingest", "stack", "arch", "intent", "plan"
+    ]);
+  });
+
+  it("reports every stage transition and honours a pre-allocated run id", async () => {
+    const snapshots: string[][] = [];
+    const source: PipelineSource = { type: "local", repoPath: "/some/local/repo" };
+
+    const result = await runHarnessPipeline(source, "quick", undefined, {
+      runId: "run_fixed",
+      onStageChange: (stages) => snapshots.push(stages.map((s) => `${s.id}:${s.status}`))
+    });
+
+    expect(result.id).toBe("run_fixed");
+    expect(snapshots[0]).toEqual([
+      "ingest:pending", "stack:pending", "arch:pending", "intent:pending", "plan:pending"
+    ]);
+    expect(snapshots[1][0]).toBe("ingest:running");
+    expect(snapshots[snapshots.length - 1].every((s) => s.endsWith(":done"))).toBe(true);
+    // initial + start/complete per stage
+    expect(snapshots).toHaveLength(1 + 5 * 2);
+  });
+
+  it("marks the running stage cancelled and writes partial artifacts on abort", async () => {
+    const controller = new AbortController();
+    vi.mocked(extractArchitecture).mockImplementationOnce(async () => {
+      controller.abort();
+      throw new Error("The operation was aborted");
+    });
+
+    const source: PipelineSource = { type: "local", repoPath: "/some/local/repo" };
+    const seen: string[][] = [];
+    const run = runHarnessPipeline(source, "quick", undefined, {
+      signal: controller.signal,
+      onStageChange: (stages) => seen.push(stages.map((s) => `${s.id}:${s.status}`))
+    });
+
+    await expect(run).rejects.toBeInstanceOf(RunCancelledError);
+    expect(seen[seen.length - 1]).toEqual([
+      "ingest:done", "stack:done", "arch:cancelled", "intent:pending", "plan:pending"
+    ]);
+    const partialCall = vi.mocked(writeArtifact).mock.calls.find(([, name]) => name === "run.partial.json");
+    expect(partialCall?.[2]).toMatchObject({ cancelled: true, stack: { frontend: [] } });
+    expect(partialCall?.[2]).not.toHaveProperty("architecture");
+  });
+
+  it("checkpoints every stage output and the stage list", async () => {
+    const source: PipelineSource = { type: "local", repoPath: "/some/local/repo" };
+
+    await runHarnessPipeline(source, "quick", undefined, { runId: "run_ckpt" });
+
+    const written = vi.mocked(writeArtifact).mock.calls.map(([, name]) => name);
+    expect(written).toEqual(expect.arrayContaining([
+      "stack.json", "architecture.json", "intent.json", "plan.json", "checkpoint.json"
+    ]));
+    const checkpoints = vi.mocked(writeArtifact).mock.calls.filter(([, name]) => name === "checkpoint.json");
+    expect(checkpoints[checkpoints.length - 1][2]).toMatchObject({
+      runId: "run_ckpt",
+      source,
+      scanMode: "quick",
+      stages: expect.arrayContaining([expect.objectContaining({ id: "plan", status: "done" })])
+    });
+  });
+
+  it("resumes from the first incomplete stage using checkpointed outputs", async () => {
+    const archUsage = { calls: 1, cacheHits: 0, retries: 0, inputTokens: 100, outputTokens: 50, latencyMs: 10, costUsd: 0.01 };
+    const artifacts: Record<string, unknown> = {
+      "checkpoint.json": {
+        runId: "run_resume",
+        source: { type: "local", repoPath: "/some/local/repo" },
+        scanMode: "quick",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        stages: [
+          { id: "ingest", label: "Ingest workspace", status: "done" },
+          { id: "stack", label: "Stack detection", status: "done" },
+          { id: "arch", label: "Architecture extraction", status: "done", usage: archUsage },
+          { id: "intent", label: "Intent extraction", status: "error", error: "LLM timeout" },
+          { id: "plan", label: "Plan compilation", status: "pending" }
+        ]
+      },
+      "ingest.json": await runIngestStage({} as never),
+      "stack.json": detectStack({} as never),
+      "architecture.json": { version: "1.0.0", components: [], edges: [] }
+    };
+    vi.clearAllMocks();
+    vi.mocked(readArtifact).mockImplementation(async (_path, name) => artifacts[name]);
+
+    const result = await resumeHarnessPipeline("run_resume");
+
+    expect(runIngestStage).not.toHaveBeenCalled();
+    expect(detectStack).not.toHaveBeenCalled();
+    expect(extractArchitecture).not.toHaveBeenCalled();
+    expect(extractIntent).toHaveBeenCalled();
+    expect(compileExecutablePlan).toHaveBeenCalled();
+    expect(result.id).toBe("run_resume");
+    expect(result.stages.every((s) => s.status === "done")).toBe(true);
+    expect(result.stages.find((s) => s.id === "intent")?.error).toBeUndefined();
+    expect(result.usage?.inputTokens).toBe(100);
+  });
+
+  it("re-runs a finished stage whose checkpointed output is missing", async () => {
+    vi.mocked(readArtifact).mockImplementation(async (_path, name) => name === "checkpoint.json"
+      ? {
+          runId: "run_resume",
+          source: { type: "local", repoPath: "/some/local/repo" },
+          scanMode: "quick",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          updatedAt: "2026-01-01T00:00:00.000Z",
+          stages: [
+            { id: "ingest", label: "Ingest workspace", status: "done" },
+            { id: "stack", label: "Stack detection", status: "pending" },
+            { id: "arch", label: "Architecture extraction", status: "pending" },
+            { id: "intent", label: "Intent extraction", status: "pending" },
+            { id: "plan", label: "Plan compilation", status: "pending" }
+          ]
+        }
+      : undefined);
+
+    await resumeHarnessPipeline("run_resume");
+
+    expect(runIngestStage).toHaveBeenCalled();
+  });
+
+  it("reuses outputs of the previous run for stages whose inputs did not change", async () => {
+    const source: PipelineSource = { type: "local", repoPath: "/some/local/repo" };
+    await runHarnessPipeline(source, "quick", undefined, { runId: "run_first" });
+    const artifacts = Object.fromEntries(vi.mocked(writeArtifact).mock.calls.map(([, name, data]) => [name, data]));
+    const firstSnapshot = await vi.mocked(runIngestStage).getMockImplementation()!({} as never);
+    artifacts["ingest.json"] = firstSnapshot;
+    vi.clearAllMocks();
+    vi.mocked(listComparableRuns).mockResolvedValue([artifacts["checkpoint.json"] as never]);
+    vi.mocked(readArtifact).mockImplementation(async (_path, name) => artifacts[name]);
+
+    // Same files, fetched later: every analysis stage is reused
+    vi.mocked(runIngestStage).mockResolvedValueOnce({
+      ...firstSnapshot,
+      metadata: { ...firstSnapshot.metadata, fetchedAt: "2026-02-01T00:00:00.000Z", reusedFiles: 0 }
+    });
+    const second = await runHarnessPipeline(source, "quick", undefined, { runId: "run_second" });
+
+    expect(vi.mocked(runIngestStage).mock.calls[0][0].previousSnapshot).toMatchObject(firstSnapshot);
+    expect(detectStack).not.toHaveBeenCalled();
+    expect(extractArchitecture).not.toHaveBeenCalled();
+    expect(compileExecutablePlan).not.toHaveBeenCalled();
+    expect(second.stages.filter((s) => s.status === "unchanged").map((s) => s.id)).toEqual(["stack", "arch", "intent", "plan"]);
+    expect(second.stages.find((s) => s.id === "arch")?.reusedFrom).toBe("run_first");
+    expect(vi.mocked(writeArtifact).mock.calls.map(([, name]) => name)).toContain("architecture.json");
+
+    // A changed file invalidates everything downstream of the snapshot
+    vi.mocked(runIngestStage).mockResolvedValueOnce({
+      ...firstSnapshot,
+      files: [{ path: "src/index.ts", size: 10, reason: "source", content: "changed", truncated: false }]
+    });
+    const third = await runHarnessPipeline(source, "quick", undefined, { runId: "run_third" });
+
+    expect(extractArchitecture).toHaveBeenCalledTimes(1);
+    expect(third.stages.every((s) => s.status === "done")).toBe(true);
+    vi.mocked(listComparableRuns).mockResolvedValue([]);
+  });
+
+  it("re-runs stages whose previous output came from the LLM fallback", async () => {
+    const source: PipelineSource = { type: "local", repoPath: "/some/local/repo" };
+    vi.mocked(extractArchitecture).mockImplementationOnce(async () => {
+      recordLlmFallback();
+      return { version: "1.0.0", components: [], edges: [] };
+    });
+    await runHarnessPipeline(source, "quick", undefined, { runId: "run_fallback" });
+    const artifacts = Object.fromEntries(vi.mocked(writeArtifact).mock.calls.map(([, name, data]) => [name, data]));
+    artifacts["ingest.json"] = await vi.mocked(runIngestStage).getMockImplementation()!({} as never);
+    const checkpoint = artifacts["checkpoint.json"] as { stages: Array<{ id: string; usage?: { fallbacks?: number } }> };
+    expect(checkpoint.stages.find((s) => s.id === "arch")?.usage?.fallbacks).toBe(1);
+    vi.clearAllMocks();
+    vi.mocked(listComparableRuns).mockResolvedValue([checkpoint as never]);
+    vi.mocked(readArtifact).mockImplementation(async (_path, name) => artifacts[name]);
+
+    const second = await runHarnessPipeline(source, "quick", undefined, { runId: "run_with_key" });
+
+    expect(extractArchitecture).toHaveBeenCalledTimes(1);
+    expect(second.stages.find((s) => s.id === "stack")?.status).toBe("unchanged");
+    expect(second.stages.find((s) => s.id === "arch")?.status).toBe("done");
+    vi.mocked(listComparableRuns).mockResolvedValue([]);
+  });
+
+  it("refuses to resume a run without a checkpoint", async () => {
+    vi.mocked(readArtifact).mockResolvedValue(undefined);
+
+    await expect(resumeHarnessPipeline("run_missing")).rejects.toThrow("No checkpoint found for run run_missing");
+  });
+
   it("falls back to legacy when git unavailable for GitHub source", async () => {
     vi.mocked(isGitAvailable).mockResolvedValueOnce(false);
 
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ArchitectureModel, IntentSpec, RepoSnapshot, StackFingerprint, StackItem } from "@/lib/models";
+
+vi.mock("@/lib/services/claude", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/claude")>()),
+  callClaudeJson: vi.fn(async (_prompt: string, _schema: unknown, fallback: () => unknown) => fallback())
+}));
+
+import { compileExecutablePlan } from "@/lib/services/prompt-compiler";
+
+function item(category: StackItem["category"], name: string): StackItem {
+  return { category, name, confidence: 0.9, evidence: ["test"] };
+}
+
+function stack(frontend: StackItem[], language: StackItem[]): StackFingerprint {
+  return {
+    version: "1.0.0",
+    frontend, backend: [], db: [], auth: [], infra: [], language,
+    testing: [], cicd: [], styling: [], state: [], messaging: [],
+    lowConfidenceFindings: []
+  };
+}
+
+function snapshot(files: Record<string, string>): RepoSnapshot {
+  return {
+    version: "1.0.0",
+    repo: { url: "https://github.com/a/b", owner: "a", name: "b", branch: "main", defaultBranch: "main", sizeKb: 1, stars: 0, openIssues: 0 },
+    metadata: { scanMode: "quick", depthStrategy: "file-count", fetchedAt: "", totalFiles: 0, selectedFiles: 0, skippedBinaryFiles: 0, skippedScriptFiles: 0, tokenEstimate: 0 },
+    languages: [],
+    fileTree: Object.keys(files).map((path) => ({ path, type: "blob" as const })),
+    files: Object.entries(files).map(([path, content]) => ({ path, size: content.length, reason: "source", content, truncated: false }))
+  };
+}
+
+const architecture: ArchitectureModel = { version: "1.0.0", components: [], edges: [] };
+const intent: IntentSpec = {
+  version: "1.0.0",
+  system_purpose: "Track habits",
+  core_features: [],
+  user_flows: [],
+  business_rules: [],
+  data_contracts: [],
+  invariants: [],
+  assumptions: [],
+  unknowns: [],
+  confidenceBySection: {}
+};
+
+describe("design system by platform", () => {
+  it("gives Flutter projects ThemeData tokens even with an iOS host app", async () => {
+    const flutter = snapshot({
+      "lib/main.dart": [
+        "import 'package:flutter/material.dart';",
+        "final theme = ThemeData(useMaterial3: true, colorScheme: ColorScheme.fromSeed(seedColor: Color(0xFF6750A4)));",
+        "Widget shell() => Scaffold(bottomNavigationBar: NavigationBar(destinations: []));"
+      ].join("\n"),
+      "ios/Runner/AppDelegate.swift": "import UIKit\nimport Flutter"
+    });
+
+    const plan = await compileExecutablePlan(
+      stack([item("frontend", "Flutter"), item("frontend", "UIKit")], [item("language", "Dart")]),
+      architecture, intent, flutter, "codex"
+    );
+
+    expect(plan.structured.designSystem.visualDirection).toMatch(/^Design system for Flutter: Material 3 app/);
+    expect(plan.structured.designSystem.colorPalette[0]).toBe("Detected color references: seedColor: Color(0xFF6750A4), Color(0xFF6750A4).");
+    expect(plan.prompt).toContain("#### Flutter Blueprint (Reference Implementation)\n```dart");
+    expect(plan.prompt).toContain("Preserve NavigationBar-based top-level navigation");
+    expect(plan.prompt).not.toContain("SwiftUI Blueprint");
+  });
+
+  it("renders Compose theme tokens from Kotlin theme files and Android resources", async () => {
+    const android = snapshot({
+      "app/src/main/java/com/example/ui/theme/Color.kt": "package com.example.ui.theme\nval Teal40 = Color(0xFF00897B)\nval Sand = Color(0xFFF5F0E6)",
+      "app/src/main/java/com/example/ui/theme/Theme.kt": [
+        "private val LightColors = lightColorScheme(",
+        "    primary = Teal40,",
+        "    surface = Sand,",
+        "    error = Color(0xFFB00020)",
+        ")",
+        "@Composable fun Shell() = Scaffold(bottomBar = { NavigationBar { } }) { }"
+      ].join("\n"),
+      "app/src/main/java/com/example/ui/theme/Type.kt": "val Typography = Typography(\n    bodyLarge = TextStyle(fontSize = 16.sp),\n    titleLarge = TextStyle(fontWeight = FontWeight.Bold, fontSize = 22.sp)\n)",
+      "app/src/main/res/values/colors.xml": "<resources>\n  <color name=\"brand_secondary\">#FF5C6BC0</color>\n</resources>"
+    });
+
+    const plan = await compileExecutablePlan(
+      stack([item("frontend", "Jetpack Compose"), item("frontend", "Android Platform")], [item("language", "Kotlin")]),
+      architecture, intent, android, "codex"
+    );
+
+    expect(plan.structured.designSystem.colorPalette[0]).toBe("Detected Compose color scheme roles: primary=#00897B, surface=#F5F0E6, error=#B00020.");
+    expect(plan.structured.designSystem.typography[0]).toBe("Detected Typography styles: bodyLarge 16sp, titleLarge 22sp.");
+    expect(plan.prompt).toContain("Primary: `#00897B` | Secondary: `#5C6BC0` | Tertiary: `#7D5260`");
+    expect(plan.prompt).toContain("#### Compose Blueprint (Reference Implementation)\n```kotlin");
+    expect(plan.prompt).toContain("    primary = Color(0xFF00897B),");
+    expect(plan.prompt).toContain("NavigationBarItem(");
+    expect(plan.prompt).not.toContain("CSS Blueprint");
+  });
+
+  it("points View-based Android projects at themes.xml alongside Compose guidance", async () => {
+    const plan = await compileExecutablePlan(
+      stack([item("frontend", "Android Views")], [item("language", "Kotlin")]),
+      architecture, intent, snapshot({
+        "app/src/main/res/values/colors.xml": "<color name=\"purple_500\">#FF6200EE</color>",
+        "app/src/main/res/values/themes.xml": "<style name=\"Theme.App\" parent=\"Theme.MaterialComponents.DayNight\">\n  <item name=\"colorPrimary\">@color/purple_500</item>\n</style>"
+      }), "codex"
+    );
+
+    expect(plan.structured.designSystem.visualDirection).toMatch(/^Design system for Android Views: Material 3 app/);
+    expect(plan.prompt).toContain("Primary: `#6200EE`");
+    expect(plan.prompt).toContain("Existing screens use Android Views on Theme.MaterialComponents.DayNight; mirror the same tokens in themes.xml");
+  });
+
+  it("keeps the SwiftUI path for Apple-native projects", async () => {
+    const plan = await compileExecutablePlan(
+      stack([item("frontend", "SwiftUI")], [item("language", "Swift")]),
+      architecture, intent, snapshot({ "App/App.swift": "import SwiftUI" }), "codex"
+    );
+
+    expect(plan.prompt).toContain("#### SwiftUI Blueprint (Reference Implementation)");
+    expect(plan.prompt).not.toContain("Flutter Blueprint");
+  });
+
+  it("lists testing, CI/CD, styling, state and messaging in the stack summary", async () => {
+    const detected = {
+      ...stack([item("frontend", "Next.js")], [item("language", "TypeScript")]),
+      styling: [item("styling", "Tailwind CSS")],
+      testing: [item("testing", "Vitest")],
+      cicd: [item("cicd", "GitHub Actions")]
+    };
+    const plan = await compileExecutablePlan(detected, architecture, intent, snapshot({ "app/page.tsx": "export default function Page() {}" }), "codex");
+
+    expect(plan.prompt).toContain("- Styling: Tailwind CSS\n- State management: Not detected\n- Messaging: Not detected\n- Testing: Vitest\n- CI/CD: GitHub Actions");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/lib/services/config", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/config")>()),
+  GITLAB_TOKEN: "glpat-test",
+  GITLAB_HOSTS: ["code.example.com"]
+}));
+
+import { fetchRepoMetadata } from "@/lib/services/repo-metadata";
+import { normalizeRemoteUrl, parseRemoteRepo, sourceFromUrl } from "@/lib/services/sources";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("remote sources", () => {
+  it("detects the host type from the URL", () => {
+    expect(sourceFromUrl("https://github.com/a/b").type).toBe("github");
+    expect(sourceFromUrl("https://gitlab.com/group/sub/repo").type).toBe("gitlab");
+    expect(sourceFromUrl("https://gitlab.example.com/team/repo.git").type).toBe("gitlab");
+    expect(sourceFromUrl("https://bitbucket.org/ws/repo").type).toBe("bitbucket");
+    expect(sourceFromUrl("https://git.example.com/team/repo.git", "main")).toEqual({
+      type: "git",
+      repoUrl: "https://git.example.com/team/repo.git",
+      ref: "main"
+    });
+    expect(() => sourceFromUrl("not a url")).toThrow("Invalid repository URL");
+  });
+
+  it("rewrites scp-style remotes to ssh:// URLs", () => {
+    expect(normalizeRemoteUrl("git@github.com:a/b.git")).toBe("ssh://git@github.com/a/b.git");
+    expect(normalizeRemoteUrl("ssh://git@host:2222/a/b.git")).toBe("ssh://git@host:2222/a/b.git");
+    expect(sourceFromUrl("git@example.org:team/repo.git").type).toBe("git");
+  });
+
+  it("parses owner and name per host", () => {
+    expect(parseRemoteRepo(sourceFromUrl("https://github.com/a/b/tree/main"))).toEqual({ owner: "a", name: "b" });
+    expect(parseRemoteRepo(sourceFromUrl("https://gitlab.com/group/sub/repo/-/tree/main"))).toEqual({
+      owner: "group/sub",
+      name: "repo"
+    });
+    expect(parseRemoteRepo(sourceFromUrl("ssh://git@example.org/repo.git"))).toEqual({
+      owner: "example.org",
+      name: "repo"
+    });
+  });
+});
+
+describe("repo metadata adapters", () => {
+  it("reads GitHub repo metadata and languages", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith("/languages")
+        ? jsonResponse({ TypeScript: 900, CSS: 100 })
+        : jsonResponse({ default_branch: "main", size: 42, stargazers_count: 7, open_issues_count: 2, description: "Demo", language: "TypeScript" })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const meta = await fetchRepoMetadata({ type: "github", repoUrl: "https://github.com/a/b" });
+    expect(fetchMock).toHaveBeenCalledWith("https://api.github.com/repos/a/b", expect.anything());
+    expect(meta).toEqual({
+      defaultBranch: "main",
+      sizeKb: 42,
+      stars: 7,
+      openIssues: 2,
+      description: "Demo",
+      language: "TypeScript",
+      languages: { TypeScript: 900, CSS: 100 }
+    });
+  });
+
+  it("uses the self-hosted GitLab API base and scales language percentages", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith("/languages")
+        ? jsonResponse({ Ruby: 25, Go: 75 })
+        : jsonResponse({ id: 1, default_branch: "develop", star_count: 3, open_issues_count: 1, description: null, statistics: { repository_size: 4096 } })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const meta = await fetchRepoMetadata({
+      type: "gitlab",
+      repoUrl: "https://code.example.com/group/sub/repo",
+      apiBase: "https://code.example.com/gitlab/api/v4/"
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://code.example.com/gitlab/api/v4/projects/group%2Fsub%2Frepo?statistics=true",
+      expect.anything()
+    );
+    expect(meta).toMatchObject({
+      defaultBranch: "develop",
+      sizeKb: 4,
+      stars: 3,
+      language: "Go",
+      languages: { Go: 3072, Ruby: 1024 }
+    });
+  });
+
+  it("sends GITLAB_TOKEN only to gitlab.com and hosts listed in GITLAB_HOSTS", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({ id: 1 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const tokenSentTo = async (repoUrl: string) => {
+      fetchMock.mockClear();
+      await fetchRepoMetadata({ type: "gitlab", repoUrl });
+      return fetchMock.mock.calls.every(([, init]) => (init?.headers as Record<string, string>)["PRIVATE-TOKEN"] === "glpat-test");
+    };
+
+    expect(await tokenSentTo("https://gitlab.com/group/repo")).toBe(true);
+    expect(await tokenSentTo("https://code.example.com/group/repo")).toBe(true);
+    expect(sourceFromUrl("https://gitlab.attacker.example/group/repo").type).toBe("gitlab");
+    expect(await tokenSentTo("https://gitlab.attacker.example/group/repo")).toBe(false);
+    expect(fetchMock).toHaveBeenCalledWith("https://gitlab.attacker.example/api/v4/projects/group%2Frepo?statistics=true", expect.objectContaining({ headers: {} }));
+  });
+
+  it("reads Bitbucket metadata without stars or languages", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      jsonResponse({ mainbranch: { name: "trunk" }, size: 10240, description: "", language: "python" })
+    ));
+
+    const meta = await fetchRepoMetadata({ type: "bitbucket", repoUrl: "https://bitbucket.org/ws/repo" });
+    expect(meta).toEqual({ defaultBranch: "trunk", sizeKb: 10, description: undefined, language: "python" });
+  });
+
+  it("returns null when the API is unavailable or the host has none", async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ message: "Not Found" }, 404));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await fetchRepoMetadata({ type: "gitlab", repoUrl: "https://gitlab.com/a/b" })).toBeNull();
+    expect(await fetchRepoMetadata({ type: "git", repoUrl: "ssh://git@example.org/a/b.git" })).toBeNull();
+
+    fetchMock.mockRejectedValue(new Error("offline"));
+    expect(await fetchRepoMetadata({ type: "bitbucket", repoUrl: "https://bitbucket.org/a/b" })).toBeNull();
+  });
+});
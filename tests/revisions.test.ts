@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { RunResult } from "@/lib/models";
+import { getRun, setRun, setRunStore } from "@/lib/services/cache";
+import { createJsonRunStore } from "@/lib/services/run-store";
+import { getRunRevision, listRunRevisions, recordRevision, rollbackRun } from "@/lib/services/revisions";
+import { makeRun } from "./fixtures";
+
+let dir = "";
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "mimickit-revisions-test-"));
+  setRunStore(createJsonRunStore(join(dir, "runs.json")));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function historyRun(purpose: string): RunResult {
+  const run = makeRun({ id: "run_history" });
+  return { ...run, intent: { ...run.intent, system_purpose: purpose } };
+}
+
+describe("run revisions", () => {
+  it("keeps the original of a run stored before revision history as revision 1", () => {
+    setRun(historyRun("original"));
+
+    const saved = recordRevision(historyRun("edited"), "manual-edit", "Edited intent");
+
+    expect(saved.revision).toBe(2);
+    expect(listRunRevisions("run_history")).toEqual([
+      expect.objectContaining({ revision: 1, operation: "analyze", summary: "Initial analysis" }),
+      expect.objectContaining({ revision: 2, parentRevision: 1, operation: "manual-edit" })
+    ]);
+    expect(getRunRevision("run_history", 1)?.run.intent.system_purpose).toBe("original");
+    expect(listRunRevisions("run_history")[0]).not.toHaveProperty("run");
+  });
+
+  it("rolls back by appending a copy of the old revision and keeps cumulative usage", () => {
+    recordRevision(historyRun("original"), "analyze", "Initial analysis");
+    const usage = { calls: 3, cacheHits: 0, retries: 0, inputTokens: 300, outputTokens: 90, latencyMs: 30, costUsd: 0.03 };
+    recordRevision({ ...historyRun("swapped"), usage }, "swap", "Swapped react for vue (frontend)");
+
+    const restored = rollbackRun("run_history", 1);
+
+    expect(restored).toMatchObject({ revision: 3, intent: { system_purpose: "original" }, usage });
+    expect(getRun("run_history")?.revision).toBe(3);
+    expect(getRunRevision("run_history", 3)).toMatchObject({ operation: "rollback", restoredFrom: 1, parentRevision: 2 });
+    expect(rollbackRun("run_history", 9)).toBeUndefined();
+  });
+});
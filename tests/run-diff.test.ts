@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { RunResult } from "@/lib/models";
+import { diffRuns } from "@/lib/services/run-diff";
+import { makeRun } from "./fixtures";
+
+// A small task tracker: React and Express, one route
+function tasksRun(id: string): RunResult {
+  const run = makeRun({
+    id,
+    architecture: {
+      version: "1.0.0",
+      components: [
+        { id: "web", name: "Web App", role: "frontend", tech: ["React"], inputs: [], outputs: ["api"] },
+        { id: "api", name: "API", role: "backend", tech: ["Express"], inputs: ["web"], outputs: [] }
+      ],
+      edges: [{ from: "web", to: "api", type: "request" }]
+    }
+  });
+  run.stack.frontend = [{ category: "frontend", name: "React", version: "18.2.0", confidence: 0.9, evidence: ["package.json"] }];
+  run.stack.backend = [{ category: "backend", name: "Express", version: "4.18.0", confidence: 0.8, evidence: [] }];
+  run.intent.system_purpose = "Track tasks";
+  run.intent.core_features = ["Create tasks", "Assign tasks"];
+  run.plan.structured.routeMap = [{ path: "/tasks", purpose: "Task list", layout: "list", components: ["TaskTable"], logic: [] }];
+  run.plan.structured.designSystem.visualDirection = "Calm";
+  run.plan.structured.designSystem.colorPalette = ["#fff"];
+  return run;
+}
+
+describe("run diff", () => {
+  it("reports identical runs as identical", () => {
+    const diff = diffRuns(tasksRun("run_a"), tasksRun("run_b"));
+    expect(diff.identical).toBe(true);
+    expect(diff.base.runId).toBe("run_a");
+    expect(diff.head.runId).toBe("run_b");
+  });
+
+  it("compares every section", () => {
+    const base = tasksRun("run_a");
+    const head = structuredClone(tasksRun("run_b"));
+    head.stack.frontend = [{ category: "frontend", name: "Vue", version: "3.4.0", confidence: 0.9, evidence: [] }];
+    head.stack.backend[0] = { ...head.stack.backend[0], version: "4.19.2", confidence: 0.5 };
+    head.architecture.components[1].tech = ["Express", "Redis"];
+    head.architecture.components.push({ id: "worker", name: "Worker", role: "jobs", tech: [], inputs: [], outputs: [] });
+    head.architecture.edges = [{ from: "api", to: "worker", type: "event" }];
+    head.intent.system_purpose = "Track and bill tasks";
+    head.intent.core_features = ["Create tasks", "Bill tasks"];
+    head.plan.structured.routeMap = [
+      { path: "/tasks", purpose: "Task list", layout: "board", components: ["TaskBoard"], logic: [] },
+      { path: "/billing", purpose: "Invoices", layout: "list", components: [], logic: [] }
+    ];
+    head.plan.structured.designSystem.colorPalette = ["#000"];
+
+    const diff = diffRuns(base, head);
+
+    expect(diff.identical).toBe(false);
+    expect(diff.stack.added.map((item) => item.name)).toEqual(["Vue"]);
+    expect(diff.stack.removed.map((item) => item.name)).toEqual(["React"]);
+    // Confidence moves on every analysis and is not reported
+    expect(diff.stack.versionChanged).toEqual([{ category: "backend", name: "Express", before: "4.18.0", after: "4.19.2" }]);
+    expect(diff.architecture.components.added.map((item) => item.id)).toEqual(["worker"]);
+    expect(diff.architecture.components.changed).toEqual([
+      expect.objectContaining({ key: "api", fields: ["tech"] })
+    ]);
+    expect(diff.architecture.edges).toEqual({
+      added: [{ from: "api", to: "worker", type: "event" }],
+      removed: [{ from: "web", to: "api", type: "request" }]
+    });
+    expect(diff.intent.systemPurpose).toEqual({ before: "Track tasks", after: "Track and bill tasks" });
+    expect(diff.intent.lists).toEqual({ core_features: { added: ["Bill tasks"], removed: ["Assign tasks"] } });
+    expect(diff.routes.added.map((route) => route.path)).toEqual(["/billing"]);
+    expect(diff.routes.changed).toEqual([expect.objectContaining({ key: "/tasks", fields: ["layout", "components"] })]);
+    expect(diff.designTokens.lists).toEqual({ colorPalette: { added: ["#000"], removed: ["#fff"] } });
+    expect(diff.designTokens.visualDirection).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { RunResult } from "@/lib/models";
+import { createJsonRunStore, createRunStore, createSqliteRunStore, RunStore } from "@/lib/services/run-store";
+import { makeRun } from "./fixtures";
+
+let dir = "";
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "mimickit-run-store-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const adapters: Array<[string, (file: string) => RunStore, string]> = [
+  ["json", createJsonRunStore, "runs.json"],
+  ["sqlite", createSqliteRunStore, "runs.sqlite"]
+];
+
+describe.each(adapters)("%s run store", (_name, create, fileName) => {
+  it("stores, overwrites and lists runs newest first", () => {
+    const store = create(join(dir, fileName));
+    store.set(makeRun({ id: "run_old", createdAt: "2026-01-01T00:00:00.000Z" }));
+    store.set(makeRun({ id: "run_new", createdAt: "2026-01-02T00:00:00.000Z" }));
+    store.set({ ...makeRun({ id: "run_old", createdAt: "2026-01-01T00:00:00.000Z" }), stages: [{ id: "plan", label: "Plan", status: "done" }] });
+
+    expect(store.get("run_old")?.stages).toHaveLength(1);
+    expect(store.get("run_missing")).toBeUndefined();
+    expect(store.list().map((run) => run.id)).toEqual(["run_new", "run_old"]);
+  });
+
+  it("sees runs written by another store instance on the same file", () => {
+    const file = join(dir, fileName);
+    const first = create(file);
+    const second = create(file);
+    first.set(makeRun({ id: "run_a", createdAt: "2026-01-01T00:00:00.000Z" }));
+    second.set(makeRun({ id: "run_b", createdAt: "2026-01-02T00:00:00.000Z" }));
+
+    expect(first.get("run_b")?.id).toBe("run_b");
+    expect(second.list().map((run) => run.id)).toEqual(["run_b", "run_a"]);
+  });
+
+  it("numbers revisions, links parents and moves the head", () => {
+    const store = create(join(dir, fileName));
+    const run = makeRun({ id: "run_rev", createdAt: "2026-01-01T00:00:00.000Z" });
+    const first = store.appendRevision({ runId: run.id, operation: "analyze", createdAt: run.createdAt, summary: "Initial analysis", run });
+    const second = store.appendRevision({
+      runId: run.id,
+      operation: "recompile",
+      createdAt: "2026-01-01T01:00:00.000Z",
+      summary: "Recompiled plan for codex",
+      run: { ...run, plan: { ...run.plan, targetAgent: "codex" } }
+    });
+
+    expect(first).toMatchObject({ revision: 1, parentRevision: undefined });
+    expect(second).toMatchObject({ revision: 2, parentRevision: 1 });
+    expect(store.get(run.id)).toMatchObject({ revision: 2, plan: { targetAgent: "codex" } });
+    expect(store.getRevision(run.id, 1)?.run.plan.targetAgent).toBe("claude-code");
+    expect(store.listRevisions(run.id).map((item) => item.operation)).toEqual(["analyze", "recompile"]);
+  });
+});
+
+describe("run store selection", () => {
+  it("keeps every run in sqlite while the json store caps at 50", () => {
+    const json = createJsonRunStore(join(dir, "runs.json"));
+    const sqlite = createSqliteRunStore(join(dir, "runs.sqlite"));
+    for (let index = 0; index < 60; index++) {
+      const run = makeRun({ id: `run_${index}`, createdAt: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString() });
+      json.set(run);
+      sqlite.set(run);
+    }
+
+    expect(json.list()).toHaveLength(50);
+    expect(sqlite.list()).toHaveLength(60);
+    expect(sqlite.get("run_0")?.id).toBe("run_0");
+  });
+
+  it("rejects unknown adapters", () => {
+    expect(() => createRunStore("postgres", join(dir, "runs"))).toThrow('Unknown RUN_STORE "postgres"');
+  });
+});
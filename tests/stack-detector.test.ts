@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { RepoSnapshot } from "@/lib/models";
+
+const { modules } = vi.hoisted(() => ({ modules: { paths: [] as string[] } }));
+
+vi.mock("@/lib/services/config", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/services/config")>();
+  return {
+    ...original,
+    HARNESS: { ...original.HARNESS, stack: { get detectorModules() { return modules.paths; } } }
+  };
+});
+
+import { detectStack, loadStackDetectors, registerStackDetector } from "@/lib/services/stack-detector";
+
+function snapshot(files: Record<string, string>, tree: string[] = []): RepoSnapshot {
+  return {
+    version: "1.0.0",
+    repo: { url: "https://github.com/a/b", owner: "a", name: "b", branch: "main", defaultBranch: "main", sizeKb: 1, stars: 0, openIssues: 0 },
+    metadata: { scanMode: "quick", depthStrategy: "file-count", fetchedAt: "", totalFiles: 0, selectedFiles: 0, skippedBinaryFiles: 0, skippedScriptFiles: 0, tokenEstimate: 0 },
+    languages: [{ name: "TypeScript", bytes: 100, share: 1 }],
+    fileTree: [...Object.keys(files), ...tree].map((path) => ({ path, type: "blob" as const })),
+    files: Object.entries(files).map(([path, content]) => ({ path, size: content.length, reason: "test", content, truncated: false }))
+  };
+}
+
+let dir = "";
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mimickit-detectors-test-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("stack detector registry", () => {
+  it("runs built-in detectors on the files and tree entries their globs match", () => {
+    const stack = detectStack(snapshot({
+      "apps/web/package.json": JSON.stringify({ dependencies: { next: "^14.2.0", react: "18.3.1" } }),
+      "Package.swift": "let package = Package(platforms: [.iOS(.v17)])",
+      "Sources/App/App.swift": "import SwiftUI"
+    }, ["App.xcodeproj"]));
+
+    expect(stack.frontend.map((item) => item.name)).toEqual(expect.arrayContaining(["Next.js", "React", "SwiftUI", "Apple Platform"]));
+    expect(stack.frontend.find((item) => item.name === "Next.js")?.version).toBe("14.2.0");
+    expect(stack.infra.map((item) => item.name)).toEqual(expect.arrayContaining(["Swift Package Manager", "Xcode Project"]));
+    expect(stack.language.map((item) => item.name)).toEqual(["TypeScript"]);
+    // Package.swift is a manifest, not a source file
+    expect(stack.frontend.find((item) => item.name === "SwiftUI")?.evidence).toEqual(["Sources/App/App.swift: import SwiftUI"]);
+    expect(stack.detectors?.find((detector) => detector.name === "swift-source"))
+      .toEqual({ name: "swift-source", files: ["*.swift", "!Package.swift"], tree: [], source: "built-in" });
+  });
+
+  it("detects Ruby, PHP, .NET, Elixir and Flutter manifests", () => {
+    const stack = detectStack(snapshot({
+      "Gemfile": "source 'https://rubygems.org'\ngem 'rails', '~> 7.1.0'\ngem \"pg\"\ngem 'devise'",
+      "composer.json": JSON.stringify({ require: { "laravel/framework": "^10.0" }, "require-dev": { "doctrine/orm": "^2.17" } }),
+      "src/Api/Api.csproj": [
+        '<Project Sdk="Microsoft.NET.Sdk.Web">',
+        "  <PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup>",
+        '  <ItemGroup><PackageReference Include="Microsoft.EntityFrameworkCore.SqlServer" Version="8.0.1" /></ItemGroup>',
+        "</Project>"
+      ].join("\n"),
+      "mix.exs": "defp deps do\n  [\n    {:phoenix, \"~> 1.7.10\"},\n    {:ecto_sql, \"~> 3.10\"}\n  ]\nend",
+      "pubspec.yaml": "name: app\ndependencies:\n  flutter:\n    sdk: flutter\n  flutter_riverpod: ^2.4.0\nflutter:\n  uses-material-design: true",
+      "lib/main.dart": "import 'package:flutter/material.dart';\nvoid main() => runApp(const App());"
+    }));
+
+    const find = (category: "frontend" | "backend" | "db" | "auth" | "infra" | "state", name: string) =>
+      stack[category].find((item) => item.name === name);
+    expect(find("backend", "Rails")).toMatchObject({ version: "7.1.0", evidence: ["Gemfile: gem rails ~> 7.1.0"] });
+    expect(find("db", "PostgreSQL")?.evidence).toEqual(["Gemfile: gem pg"]);
+    expect(find("auth", "Devise")).toBeDefined();
+    expect(find("backend", "Laravel")?.evidence).toEqual(["composer.json: require laravel/framework@^10.0"]);
+    expect(find("db", "Doctrine")?.version).toBe("2.17");
+    expect(find("backend", "ASP.NET Core")?.evidence).toEqual(["src/Api/Api.csproj: Sdk Microsoft.NET.Sdk.Web"]);
+    expect(find("infra", ".NET")?.version).toBe("8.0");
+    expect(find("db", "Entity Framework Core")?.evidence)
+      .toEqual(["src/Api/Api.csproj: PackageReference Microsoft.EntityFrameworkCore.SqlServer 8.0.1"]);
+    expect(find("backend", "Phoenix")?.evidence).toEqual(["mix.exs: dep :phoenix ~> 1.7.10"]);
+    expect(find("db", "Ecto")?.version).toBe("3.10");
+    expect(find("frontend", "Flutter")).toMatchObject({
+      version: undefined,
+      evidence: ["pubspec.yaml: dependency flutter (sdk)", "lib/main.dart: import package:flutter/material.dart"]
+    });
+    expect(find("state", "Riverpod")?.evidence).toEqual(["pubspec.yaml: dependency flutter_riverpod@^2.4.0"]);
+  });
+
+  it("detects Jetpack Compose and Android Views from Gradle, Kotlin sources and resources", () => {
+    const stack = detectStack(snapshot({
+      "app/build.gradle.kts": [
+        "plugins { id(\"com.android.application\") }",
+        "android { buildFeatures { compose = true } }",
+        "dependencies {",
+        "  implementation(platform(\"androidx.compose:compose-bom:2024.02.00\"))",
+        "  implementation(\"androidx.room:room-runtime:2.6.1\")",
+        "}"
+      ].join("\n"),
+      "app/src/main/java/com/example/MainActivity.kt": "package com.example\nimport androidx.compose.material3.MaterialTheme\nimport androidx.room.Room",
+      "legacy/src/main/java/com/example/ListActivity.kt": "import androidx.appcompat.app.AppCompatActivity"
+    }, ["app/src/main/AndroidManifest.xml", "legacy/src/main/res/layout/activity_list.xml", "legacy/src/main/res/layout/row.xml"]));
+
+    const find = (name: string) => stack.frontend.find((item) => item.name === name);
+    expect(find("Jetpack Compose")).toMatchObject({
+      version: "2024.02.00",
+      evidence: ["build.gradle.kts: compose = true", "app/src/main/java/com/example/MainActivity.kt: import androidx.compose.material3.MaterialTheme"]
+    });
+    expect(find("Android Platform")?.evidence).toEqual([
+      "build.gradle.kts: com.android.application plugin",
+      "app/src/main/AndroidManifest.xml present"
+    ]);
+    expect(find("Android Views")?.evidence).toEqual([
+      "legacy/src/main/java/com/example/ListActivity.kt: import androidx.appcompat.app.AppCompatActivity",
+      "2 layout XML files under res/layout"
+    ]);
+    expect(stack.db.find((item) => item.name === "Room")?.evidence).toHaveLength(2);
+  });
+
+  it("detects testing, CI/CD, styling, state and messaging tools", () => {
+    const stack = detectStack(snapshot({
+      "package.json": JSON.stringify({
+        dependencies: { next: "^14.2.0", zustand: "^4.5.0", kafkajs: "^2.2.4" },
+        devDependencies: { tailwindcss: "^3.4.1", vitest: "^1.6.0" }
+      }),
+      "requirements.txt": "celery==5.3.6\npytest==8.1.1"
+    }, [".github/workflows/ci.yml", ".github/workflows/release.yaml", "tailwind.config.ts", "web/vitest.config.mts"]));
+
+    expect(stack.styling.find((item) => item.name === "Tailwind CSS")?.evidence)
+      .toEqual(["package.json: dependency tailwindcss@^3.4.1", "tailwind.config.ts present"]);
+    expect(stack.testing.map((item) => item.name)).toEqual(expect.arrayContaining(["Vitest", "pytest"]));
+    expect(stack.testing.find((item) => item.name === "Vitest")?.evidence).toContain("web/vitest.config.mts present");
+    expect(stack.state.find((item) => item.name === "Zustand")?.version).toBe("4.5.0");
+    expect(stack.messaging.map((item) => item.name)).toEqual(expect.arrayContaining(["Kafka", "Celery"]));
+    expect(stack.cicd.find((item) => item.name === "GitHub Actions")?.evidence)
+      .toEqual(["2 files: .github/workflows/ci.yml, .github/workflows/release.yaml"]);
+  });
+
+  it("reports lockfile versions and keeps the declared range as evidence", () => {
+    const stack = detectStack({
+      ...snapshot({
+        "package.json": JSON.stringify({ dependencies: { next: "^14.2.0", pg: "~8.11.0" } }),
+        "go.mod": "module example.com/api\nrequire (\n  github.com/gin-gonic/gin v1.9.0\n  github.com/redis/go-redis/v9 v9.3.0\n)",
+        "requirements.txt": "confluent-kafka>=2.3",
+        "Gemfile": "gem 'rails', '~> 7.1.0'"
+      }),
+      lockfiles: [
+        { path: "pnpm-lock.yaml", manager: "pnpm", ecosystem: "npm", packages: { next: "14.2.3" } },
+        { path: "go.sum", manager: "go", ecosystem: "go", packages: { "github.com/gin-gonic/gin": "1.9.1", "github.com/redis/go-redis/v9": "9.3.1" } },
+        { path: "poetry.lock", manager: "poetry", ecosystem: "pypi", packages: { "confluent-kafka": "2.3.0" } },
+        { path: "Gemfile.lock", manager: "bundler", ecosystem: "rubygems", packages: { rails: "7.1.3" } }
+      ]
+    });
+
+    expect(stack.frontend.find((item) => item.name === "Next.js")).toMatchObject({
+      version: "14.2.3",
+      evidence: ["package.json: dependency next@^14.2.0, locked at 14.2.3 in pnpm-lock.yaml"]
+    });
+    expect(stack.db.find((item) => item.name === "PostgreSQL")).toMatchObject({
+      version: "8.11.0",
+      evidence: ["package.json: dependency pg@~8.11.0"]
+    });
+    expect(stack.backend.find((item) => item.name === "Gin")?.version).toBe("1.9.1");
+    expect(stack.messaging.find((item) => item.name === "Redis")?.version).toBe("9.3.1");
+    expect(stack.messaging.find((item) => item.name === "Kafka")?.version).toBe("2.3.0");
+    expect(stack.backend.find((item) => item.name === "Rails")).toMatchObject({
+      version: "7.1.3",
+      evidence: ["Gemfile: gem rails ~> 7.1.0, locked at 7.1.3 in Gemfile.lock"]
+    });
+  });
+
+  it("registers custom detectors and config modules, and rejects invalid registrations", async () => {
+    registerStackDetector({
+      name: "acme-rpc",
+      files: ["*.acme.yaml"],
+      detect: ({ files }) => files.map((file) => ({ category: "backend", name: "Acme RPC", evidence: `${file.path} present`, confidenceBoost: 0.3 }))
+    }, "tests");
+    await writeFile(join(dir, "detectors.mjs"), [
+      "export const detectors = [{",
+      "  name: 'acme-ui',",
+      "  files: ['package.json'],",
+      "  detect: ({ files }) => files.some((f) => f.content.includes('@acme/ui'))",
+      "    ? [{ category: 'frontend', name: 'Acme UI', evidence: 'package.json: dependency @acme/ui', confidenceBoost: 0.2 }]",
+      "    : []",
+      "}];"
+    ].join("\n"));
+    modules.paths = [join(dir, "detectors.mjs")];
+
+    const detectors = await loadStackDetectors();
+    const stack = detectStack(snapshot({
+      "package.json": JSON.stringify({ dependencies: { "@acme/ui": "1.0.0" } }),
+      "services/billing.acme.yaml": "service: billing"
+    }), detectors);
+
+    expect(stack.backend.map((item) => item.name)).toEqual(["Acme RPC"]);
+    expect(stack.frontend.map((item) => item.name)).toEqual(["Acme UI"]);
+    expect(stack.detectors?.slice(-2).map((detector) => `${detector.name} (${detector.source})`))
+      .toEqual(["acme-rpc (tests)", `acme-ui (${join(dir, "detectors.mjs")})`]);
+
+    expect(() => registerStackDetector({ name: "acme-rpc", detect: () => [] })).toThrow('Stack detector "acme-rpc" from custom is already registered');
+    expect(() => registerStackDetector({ name: "", detect: "nope" } as never)).toThrow(/^Invalid stack detector from custom: name .*; detect must be a function$/);
+  });
+
+  it("records detectors that throw or return invalid findings and keeps the others' results", () => {
+    const broken = { name: "broken", detect: () => [{ category: "mobile", name: "X", evidence: "", confidenceBoost: 0 }] };
+    const throwing = { name: "throwing", detect: () => { throw new Error("boom"); } };
+    const working = { name: "working", detect: () => [{ category: "backend" as const, name: "Acme RPC", evidence: "always", confidenceBoost: 0.3 }] };
+    const stack = detectStack(snapshot({}), [broken as never, throwing, working]);
+
+    expect(stack.backend.map((item) => item.name)).toEqual(["Acme RPC"]);
+    expect(stack.detectors?.map((detector) => [detector.name, detector.error])).toEqual([
+      ["broken", expect.stringMatching(/^Stack detector "broken" returned invalid findings: 0\.category/)],
+      ["throwing", "boom"],
+      ["working", undefined]
+    ]);
+    expect(stack.lowConfidenceFindings).toEqual(expect.arrayContaining(["detector:broken failed", "detector:throwing failed"]));
+  });
+});
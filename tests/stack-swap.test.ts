@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ArchitectureComponent, StackCategory } from "@/lib/models";
+import { makeRun } from "./fixtures";
+
+vi.mock("@/lib/services/analysis", () => ({
+  rewriteIntentForStackSwap: vi.fn(async (_snapshot: unknown, _architecture: unknown, intent: unknown) => intent)
+}));
+
+vi.mock("@/lib/services/prompt-compiler", () => ({
+  compileExecutablePlan: vi.fn(async () => makeRun().plan)
+}));
+
+import { applyStackSwap } from "@/lib/services/stack-swap";
+
+function component(id: string, role: string, tech: string[]): ArchitectureComponent {
+  return { id, name: id, role, tech, inputs: [], outputs: [] };
+}
+
+const components = [
+  component("web", "Web client", ["React"]),
+  component("tests", "End-to-end test suite", ["Cypress", "Cypress Dashboard"]),
+  component("ci", "Build and deploy pipeline", ["GitHub Actions", "Docker"]),
+  component("styles", "Styling and design system", ["Tailwind CSS", "PostCSS"]),
+  component("store", "Client state store", ["Redux", "Redux Toolkit"]),
+  component("worker", "Event queue consumer", ["RabbitMQ", "amqplib"])
+];
+
+async function swapTech(category: StackCategory, current: string, replacement: string): Promise<Record<string, string[]>> {
+  const run = makeRun({ architecture: { version: "1.0.0", components, edges: [] } });
+  const next = await applyStackSwap(run, { category, current, replacement, targetAgent: "claude-code" });
+  return Object.fromEntries(next.architecture.components.map((item) => [item.id, item.tech]));
+}
+
+describe("applyStackSwap", () => {
+  it("rewrites the components whose role matches a testing, CI/CD, styling, state or messaging swap", async () => {
+    const swaps: Array<[StackCategory, string, string, string]> = [
+      ["testing", "tests", "Cypress", "Playwright"],
+      ["cicd", "ci", "GitHub Actions", "GitLab CI"],
+      ["styling", "styles", "Tailwind CSS", "CSS Modules"],
+      ["state", "store", "Redux", "Zustand"],
+      ["messaging", "worker", "RabbitMQ", "Kafka"]
+    ];
+
+    for (const [category, id, current, replacement] of swaps) {
+      const tech = await swapTech(category, current, replacement);
+      // Every tech of the matching role is replaced, not just the exact name
+      expect(tech[id]).toEqual([replacement, replacement]);
+      // Components in other roles keep their tech
+      for (const other of components.filter((item) => item.id !== id)) {
+        expect(tech[other.id]).toEqual(other.tech);
+      }
+    }
+  });
+
+  it("records the swap on the stack category", async () => {
+    const run = makeRun();
+    const next = await applyStackSwap(run, { category: "styling", current: "Tailwind CSS", replacement: "CSS Modules", targetAgent: "claude-code" });
+    expect(next.stack.styling).toEqual([
+      { category: "styling", name: "CSS Modules", confidence: 0.58, evidence: ["manual stack swap inserted for styling"] }
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+
+const { env } = vi.hoisted(() => ({ env: { provider: "anthropic" } }));
+
+vi.mock("@/lib/services/config", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/config")>()),
+  ANTHROPIC_KEY: "sk-ant-test",
+  ANTHROPIC_MODEL: "claude-sonnet-4-5-20250929",
+  get LLM_PROVIDER() {
+    return env.provider;
+  }
+}));
+
+import { callClaudeJson } from "@/lib/services/claude";
+import { setLlmCacheEnabled } from "@/lib/services/llm-cache";
+import { addUsage, emptyUsage, estimateCostUsd, withUsageTracking } from "@/lib/services/usage";
+
+const schema = z.object({ answer: z.string() });
+const fallback = () => ({ answer: "fallback" });
+
+const fetchMock = vi.fn();
+
+function anthropicResponse(text: string, inputTokens: number, outputTokens: number): Response {
+  return new Response(JSON.stringify({
+    content: [{ type: "text", text }],
+    stop_reason: "end_turn",
+    usage: { input_tokens: inputTokens, output_tokens: outputTokens }
+  }));
+}
+
+beforeEach(() => {
+  setLlmCacheEnabled(false);
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setLlmCacheEnabled(true);
+});
+
+describe("llm usage accounting", () => {
+  it("records tokens, retries and cost for calls inside a tracked scope", async () => {
+    // First attempt returns invalid JSON (still billed), second succeeds
+    fetchMock
+      .mockResolvedValueOnce(anthropicResponse("not json", 1_000, 10))
+      .mockResolvedValueOnce(anthropicResponse("{\"answer\":\"ok\"}", 1_000, 200));
+
+    const usage = emptyUsage();
+    const result = await withUsageTracking(usage, () => callClaudeJson("prompt", schema, fallback, { retries: 1, label: "test" }));
+
+    expect(result).toEqual({ answer: "ok" });
+    expect(usage).toMatchObject({ calls: 2, retries: 1, inputTokens: 2_000, outputTokens: 210, cacheHits: 0 });
+    // 2000 input @ $3/MTok + 210 output @ $15/MTok
+    expect(usage.costUsd).toBeCloseTo(0.00915, 6);
+  });
+
+  it("keeps concurrent scopes separate", async () => {
+    fetchMock.mockImplementation(async () => anthropicResponse("{\"answer\":\"ok\"}", 100, 50));
+
+    const a = emptyUsage();
+    const b = emptyUsage();
+    await Promise.all([
+      withUsageTracking(a, () => callClaudeJson("a", schema, fallback, { retries: 0, label: "a" })),
+      withUsageTracking(b, async () => {
+        await callClaudeJson("b1", schema, fallback, { retries: 0, label: "b" });
+        await callClaudeJson("b2", schema, fallback, { retries: 0, label: "b" });
+      })
+    ]);
+
+    expect(a.calls).toBe(1);
+    expect(b.calls).toBe(2);
+    expect(addUsage(a, b, undefined).inputTokens).toBe(300);
+  });
+
+  it("counts fallbacks, including those for an unknown LLM_PROVIDER", async () => {
+    fetchMock.mockResolvedValue(anthropicResponse("not json", 100, 10));
+    env.provider = "bedrock";
+    const usage = emptyUsage();
+    try {
+      const results = await withUsageTracking(usage, async () => [
+        await callClaudeJson("a", schema, fallback, { retries: 0, label: "a" }),
+        await callClaudeJson("b", schema, fallback, { retries: 0, label: "b" })
+      ]);
+      expect(results).toEqual([{ answer: "fallback" }, { answer: "fallback" }]);
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(usage.fallbacks).toBe(2);
+
+      env.provider = "anthropic";
+      await withUsageTracking(usage, () => callClaudeJson("c", schema, fallback, { retries: 0, label: "c" }));
+      expect(usage).toMatchObject({ calls: 1, fallbacks: 3 });
+      expect(addUsage(usage, emptyUsage()).fallbacks).toBe(3);
+    } finally {
+      env.provider = "anthropic";
+    }
+  });
+
+  it("prices models by longest prefix and treats local models as free", () => {
+    expect(estimateCostUsd("openai", "gpt-4o-mini-2024-07-18", 1_000_000, 0)).toBeCloseTo(0.15);
+    expect(estimateCostUsd("openai", "gpt-4o", 1_000_000, 0)).toBeCloseTo(2.5);
+    expect(estimateCostUsd("local", "llama3.1", 1_000_000, 1_000_000)).toBe(0);
+    expect(estimateCostUsd("openai", "unknown-model", 1_000, 1_000)).toBe(0);
+  });
+});
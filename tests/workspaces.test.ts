@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import { detectWorkspaces, resolvePackageDirs } from "@/lib/services/workspaces";
+
+let dir = "";
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mimickit-workspaces-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function writeFiles(files: Record<string, string | object>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(dir, path)), { recursive: true });
+    await writeFile(join(dir, path), typeof content === "string" ? content : JSON.stringify(content));
+  }
+}
+
+describe("workspace detection", () => {
+  it("returns undefined for single-package repos", async () => {
+    await writeFiles({ "package.json": { name: "solo" }, "go.mod": "module example.com/solo\n" });
+    expect(await detectWorkspaces(dir)).toBeUndefined();
+  });
+
+  it("reads npm workspaces with negated globs and internal dependencies", async () => {
+    await writeFiles({
+      "package.json": { name: "root", workspaces: { packages: ["packages/**", "!packages/legacy"] } },
+      "packages/ui/package.json": { name: "@acme/ui" },
+      "packages/tools/lint/package.json": { name: "@acme/lint" },
+      "packages/legacy/package.json": { name: "@acme/legacy" },
+      "packages/web/package.json": { name: "@acme/web", dependencies: { "@acme/ui": "*", react: "18" }, devDependencies: { "@acme/lint": "*" } },
+      "packages/web/node_modules/dep/package.json": { name: "dep" }
+    });
+
+    const graph = await detectWorkspaces(dir);
+
+    expect(graph?.tools).toEqual(["npm"]);
+    expect(graph?.packages.map((pkg) => pkg.path)).toEqual(["packages/tools/lint", "packages/ui", "packages/web"]);
+    expect(graph?.packages.find((pkg) => pkg.name === "@acme/web")?.dependsOn).toEqual(["@acme/lint", "@acme/ui"]);
+  });
+
+  it("reads pnpm-workspace.yaml alongside Nx and Turborepo configs", async () => {
+    await writeFiles({
+      "package.json": { name: "root" },
+      "pnpm-workspace.yaml": "packages:\n  - 'apps/*'\n  - \"libs/*\" # shared\n",
+      "nx.json": {},
+      "turbo.json": {},
+      "apps/site/package.json": { name: "site", dependencies: { shared: "workspace:*" } },
+      "libs/shared/package.json": { name: "shared" },
+      "tools/scripts/project.json": { name: "scripts", implicitDependencies: ["site", "missing"] }
+    });
+
+    const graph = await detectWorkspaces(dir);
+
+    expect(graph?.tools).toEqual(["pnpm", "nx", "turbo"]);
+    expect(graph?.packages).toEqual([
+      { name: "site", path: "apps/site", tool: "pnpm", dependsOn: ["shared"] },
+      { name: "shared", path: "libs/shared", tool: "pnpm", dependsOn: [] },
+      { name: "scripts", path: "tools/scripts", tool: "nx", dependsOn: ["site"] }
+    ]);
+  });
+
+  it("reads Go and Cargo workspaces", async () => {
+    await writeFiles({
+      "go.work": "go 1.22\n\nuse (\n\t./cmd/server\n\t./pkg/core // shared\n)\n",
+      "cmd/server/go.mod": "module example.com/server\n\nrequire (\n\texample.com/core v0.0.0\n\tgithub.com/lib/pq v1.10.0\n)\n",
+      "pkg/core/go.mod": "module example.com/core\n",
+      "Cargo.toml": "[workspace]\nmembers = [\"crates/*\"]\nexclude = [\"crates/scratch\"]\n",
+      "crates/cli/Cargo.toml": "[package]\nname = \"acme-cli\"\n\n[dependencies]\nacme-core = { path = \"../core\" }\nserde = \"1\"\n",
+      "crates/core/Cargo.toml": "[package]\nname = \"acme-core\"\n",
+      "crates/scratch/Cargo.toml": "[package]\nname = \"scratch\"\n"
+    });
+
+    const graph = await detectWorkspaces(dir);
+
+    expect(graph?.tools).toEqual(["go", "cargo"]);
+    expect(graph?.packages.map(({ name, dependsOn }) => [name, dependsOn])).toEqual([
+      ["example.com/server", ["example.com/core"]],
+      ["acme-cli", ["acme-core"]],
+      ["acme-core", []],
+      ["example.com/core", []]
+    ]);
+  });
+
+  it("resolves package selectors by name or path", async () => {
+    await writeFiles({
+      "package.json": { workspaces: ["apps/*"] },
+      "apps/web/package.json": { name: "@acme/web" },
+      "apps/api/package.json": { name: "@acme/api" }
+    });
+    const graph = await detectWorkspaces(dir);
+
+    expect(resolvePackageDirs(graph, ["@acme/web", "apps/api/", "apps/web"])).toEqual(["apps/web", "apps/api"]);
+    expect(() => resolvePackageDirs(graph, ["docs"])).toThrow('Unknown workspace package "docs". Available: @acme/api, @acme/web');
+  });
+});